@@ -4,7 +4,8 @@ import { resolve } from 'path'
 
 export default defineConfig({
     main: {
-        plugins: [externalizeDepsPlugin()],
+        // The markdown parser (shared/markdown.ts) is ESM-only, so it is bundled into the CJS main build
+        plugins: [externalizeDepsPlugin({ exclude: ['unified', 'remark-parse', 'remark-gfm'] })],
         resolve: {
             alias: {
                 '@shared': resolve('src/shared')
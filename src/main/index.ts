@@ -11,9 +11,32 @@ import {
     moveFile,
     renameFile,
     pathExists,
-    copyImageToVault
+    copyImageToVault,
+    saveImageToVault,
+    listAttachments,
+    moveToTrash,
+    listTrash,
+    restoreFromTrash,
+    emptyTrash
 } from './services/fileService'
+import { saveSnapshot, listSnapshots, readSnapshot, moveSnapshots } from './services/historyService'
 import { pathToFileURL } from 'url'
+import {
+    buildSearchIndex,
+    searchVault,
+    indexFileContent,
+    updateIndexedPath,
+    removeIndexedPath
+} from './services/searchService'
+import {
+    watchVault,
+    unwatchVault,
+    recordSelfWrite,
+    recordSelfChange
+} from './services/watcherService'
+import { writeExportBundle, writeExportZip, writeExportPdf } from './services/exportService'
+import { scanImportSource, cleanupImportSource, writeImportFiles } from './services/importService'
+import type { VaultChangeEvent, ExportBundle, ExportResult, ImportSource, ImportWrite } from '@shared/types'
 import {
     connectServer as mcpConnectServer,
     disconnectServer as mcpDisconnectServer,
@@ -43,6 +66,23 @@ protocol.registerSchemesAsPrivileged([
 
 let mainWindow: BrowserWindow | null = null
 
+/**
+ * Keep the search index in sync with external edits, then forward the events to the renderer
+ */
+async function handleVaultChanges(events: VaultChangeEvent[]): Promise<void> {
+    for (const event of events) {
+        if (event.type === 'unlink' || event.type === 'unlinkDir') {
+            removeIndexedPath(event.path)
+        } else if (event.type === 'rename') {
+            removeIndexedPath(event.oldPath!)
+            await updateIndexedPath(event.path)
+        } else {
+            await updateIndexedPath(event.path)
+        }
+    }
+    mainWindow?.webContents.send('vault:changes', events)
+}
+
 function createWindow(): void {
     mainWindow = new BrowserWindow({
         width: 1400,
@@ -113,13 +153,106 @@ function setupIpcHandlers(): void {
         return result.filePaths[0]
     })
 
+    // Open CSV/TSV file dialog (table import)
+    ipcMain.handle('dialog:open-table-file', async () => {
+        const result = await dialog.showOpenDialog({
+            properties: ['openFile'],
+            filters: [
+                { name: 'Tables', extensions: ['csv', 'tsv', 'txt'] }
+            ]
+        })
+        if (result.canceled) return null
+        return result.filePaths[0]
+    })
+
+    // Import sources: a folder, a zip (Notion export) or HTML pages
+    ipcMain.handle('dialog:open-import-source', async (_, kind: 'folder' | 'zip' | 'html') => {
+        const result = await dialog.showOpenDialog(
+            kind === 'folder' ? { properties: ['openDirectory'] }
+                : kind === 'zip' ? { properties: ['openFile'], filters: [{ name: 'Zip', extensions: ['zip'] }] }
+                    : { properties: ['openFile', 'multiSelections'], filters: [{ name: 'Web pages', extensions: ['html', 'htm'] }] }
+        )
+        if (result.canceled) return null
+        return result.filePaths
+    })
+
+    // Save exported content wherever the user picks (not part of the vault index)
+    ipcMain.handle('dialog:export-file', async (_, defaultName: string, content: string, filters: Electron.FileFilter[]) => {
+        const result = await dialog.showSaveDialog({ defaultPath: defaultName, filters })
+        if (result.canceled || !result.filePath) return null
+        await writeFile(result.filePath, content)
+        return result.filePath
+    })
+
+    // Export notes: HTML pages into a new folder, one PDF, or portable Markdown as a zip
+    ipcMain.handle('export:html', async (_, vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> => {
+        const result = await dialog.showSaveDialog({ defaultPath: defaultName, properties: ['createDirectory'] })
+        if (result.canceled || !result.filePath) return null
+        const report = await writeExportBundle(result.filePath, vaultPath, bundle)
+        return { path: result.filePath, ...report }
+    })
+
+    ipcMain.handle('export:pdf', async (_, vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> => {
+        const result = await dialog.showSaveDialog({
+            defaultPath: `${defaultName}.pdf`,
+            filters: [{ name: 'PDF', extensions: ['pdf'] }]
+        })
+        if (result.canceled || !result.filePath) return null
+        const report = await writeExportPdf(result.filePath, vaultPath, bundle)
+        return { path: result.filePath, ...report }
+    })
+
+    ipcMain.handle('export:zip', async (_, vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> => {
+        const result = await dialog.showSaveDialog({
+            defaultPath: `${defaultName}.zip`,
+            filters: [{ name: 'Zip', extensions: ['zip'] }]
+        })
+        if (result.canceled || !result.filePath) return null
+        const report = await writeExportZip(result.filePath, vaultPath, bundle)
+        return { path: result.filePath, ...report }
+    })
+
 
 
+    // Import
+    ipcMain.handle('import:scan', async (_, sourcePath: string) => {
+        return scanImportSource(sourcePath)
+    })
+
+    ipcMain.handle('import:write', async (_, writes: ImportWrite[]) => {
+        return writeImportFiles(writes)
+    })
+
+    ipcMain.handle('import:cleanup', async (_, source: ImportSource) => {
+        await cleanupImportSource(source)
+    })
+
     // Read vault file tree
     ipcMain.handle('vault:read-tree', async (_, vaultPath: string) => {
         return readFileTree(vaultPath)
     })
 
+    // Build (or rebuild) the full-text search index for a vault
+    ipcMain.handle('search:build-index', async (_, vaultPath: string) => {
+        return buildSearchIndex(vaultPath)
+    })
+
+    // Watch the vault for external changes
+    ipcMain.handle('vault:watch', async (_, vaultPath: string) => {
+        return watchVault(vaultPath, events => {
+            handleVaultChanges(events).catch(error => console.error('Failed to handle vault changes:', error))
+        })
+    })
+
+    ipcMain.handle('vault:unwatch', async () => {
+        return unwatchVault()
+    })
+
+    // Full-text search across the vault
+    ipcMain.handle('search:query', async (_, vaultPath: string, query: string, limit?: number) => {
+        return searchVault(vaultPath, query, limit)
+    })
+
     // Read file content
     ipcMain.handle('file:read', async (_, filePath: string) => {
         return readFile(filePath)
@@ -127,17 +260,64 @@ function setupIpcHandlers(): void {
 
     // Write file content
     ipcMain.handle('file:write', async (_, filePath: string, content: string) => {
-        return writeFile(filePath, content)
+        recordSelfWrite(filePath, content)
+        await writeFile(filePath, content)
+        indexFileContent(filePath, content)
     })
 
     // Create new file
     ipcMain.handle('file:create', async (_, filePath: string, content: string) => {
-        return createFile(filePath, content)
+        recordSelfWrite(filePath, content)
+        await createFile(filePath, content)
+        indexFileContent(filePath, content)
     })
 
     // Delete file
     ipcMain.handle('file:delete', async (_, filePath: string) => {
-        return deleteFile(filePath)
+        recordSelfChange(filePath)
+        await deleteFile(filePath)
+        removeIndexedPath(filePath)
+    })
+
+    // Move file or folder to the vault trash
+    ipcMain.handle('trash:move', async (_, itemPath: string, vaultPath: string) => {
+        recordSelfChange(itemPath)
+        const entry = await moveToTrash(itemPath, vaultPath)
+        removeIndexedPath(itemPath)
+        return entry
+    })
+
+    ipcMain.handle('trash:list', async (_, vaultPath: string) => {
+        return listTrash(vaultPath)
+    })
+
+    // Restore a trashed item, returns the restored path
+    ipcMain.handle('trash:restore', async (_, vaultPath: string, id: string) => {
+        const restoredPath = await restoreFromTrash(vaultPath, id)
+        await updateIndexedPath(restoredPath)
+        return restoredPath
+    })
+
+    // Permanently delete one trashed item, or everything if no id is given
+    ipcMain.handle('trash:empty', async (_, vaultPath: string, id?: string) => {
+        return emptyTrash(vaultPath, id)
+    })
+
+    // File history snapshots
+    ipcMain.handle('history:save', async (_, vaultPath: string, filePath: string, content: string, previousContent?: string) => {
+        return saveSnapshot(vaultPath, filePath, content, previousContent)
+    })
+
+    ipcMain.handle('history:list', async (_, vaultPath: string, filePath: string) => {
+        return listSnapshots(vaultPath, filePath)
+    })
+
+    ipcMain.handle('history:read', async (_, vaultPath: string, filePath: string, snapshotId: string) => {
+        return readSnapshot(vaultPath, filePath, snapshotId)
+    })
+
+    ipcMain.handle('history:move', async (_, vaultPath: string, oldPath: string, newPath: string) => {
+        return moveSnapshots(vaultPath, oldPath, newPath)
     })
 
     // Create new folder
@@ -147,12 +327,18 @@ function setupIpcHandlers(): void {
 
     // Move file or folder
     ipcMain.handle('file:move', async (_, sourcePath: string, destPath: string) => {
-        return moveFile(sourcePath, destPath)
+        recordSelfChange(sourcePath, destPath)
+        await moveFile(sourcePath, destPath)
+        removeIndexedPath(sourcePath)
+        await updateIndexedPath(destPath)
     })
 
     // Rename file or folder
     ipcMain.handle('file:rename', async (_, oldPath: string, newPath: string) => {
-        return renameFile(oldPath, newPath)
+        recordSelfChange(oldPath, newPath)
+        await renameFile(oldPath, newPath)
+        removeIndexedPath(oldPath)
+        await updateIndexedPath(newPath)
     })
 
     // Check if path exists
@@ -172,8 +358,18 @@ function setupIpcHandlers(): void {
     })
 
     // Copy image to vault
-    ipcMain.handle('image:copy-to-vault', async (_, sourcePath: string, vaultPath: string) => {
-        return copyImageToVault(sourcePath, vaultPath)
+    ipcMain.handle('image:copy-to-vault', async (_, sourcePath: string, vaultPath: string, targetDir?: string) => {
+        return copyImageToVault(sourcePath, vaultPath, targetDir)
+    })
+
+    // List attachments (non-note files) in the vault
+    ipcMain.handle('attachments:list', async (_, vaultPath: string) => {
+        return listAttachments(vaultPath)
+    })
+
+    // Save pasted image data to vault
+    ipcMain.handle('image:save-to-vault', async (_, data: Uint8Array, fileName: string, vaultPath: string, targetDir?: string) => {
+        return saveImageToVault(data, fileName, vaultPath, targetDir)
     })
 
     // MCP Handlers
@@ -0,0 +1,137 @@
+import { BrowserWindow } from 'electron'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { zipSync, strToU8 } from 'fflate'
+import type { ExportAsset, ExportBundle, ExportResult } from '@shared/types'
+import { pathExists } from './fileService'
+
+type ExportReport = Omit<ExportResult, 'path'>
+
+/**
+ * Find a file by name anywhere in the vault (hidden folders skipped)
+ */
+async function findFileByName(dirPath: string, name: string): Promise<string | null> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    const match = entries.find(entry => entry.isFile() && entry.name === name)
+    if (match) return path.join(dirPath, match.name)
+
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) continue
+        const found = await findFileByName(path.join(dirPath, entry.name), name)
+        if (found) return found
+    }
+    return null
+}
+
+/**
+ * File an attachment refers to: an absolute path, a path relative to the note or the vault,
+ * the attachments folder, or (like ![[name]]) any file with that name in the vault
+ */
+async function resolveAttachment(vaultPath: string, asset: ExportAsset): Promise<string | null> {
+    const { source, notePath } = asset
+    if (path.isAbsolute(source)) return (await pathExists(source)) ? source : null
+
+    const candidates = [
+        path.join(path.dirname(notePath), source),
+        path.join(vaultPath, source),
+        path.join(vaultPath, 'attachments', path.basename(source))
+    ]
+    for (const candidate of candidates) {
+        if (await pathExists(candidate)) return candidate
+    }
+    return findFileByName(vaultPath, path.basename(source))
+}
+
+/**
+ * Whether a file lies inside the vault once symlinks are followed
+ */
+async function isInsideVault(vaultPath: string, filePath: string): Promise<boolean> {
+    const [root, target] = await Promise.all([fs.realpath(vaultPath), fs.realpath(filePath)])
+    const relative = path.relative(root, target)
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+interface ResolvedAttachments {
+    found: { asset: ExportAsset, sourcePath: string }[]
+    missing: string[]   // Sources that could not be found
+    skipped: string[]   // Sources outside the vault, never copied
+}
+
+/**
+ * Find the files of all attachments in the bundle. Only files inside the vault are
+ * exported, so a note can't pull in e.g. an absolute path to a file elsewhere on disk.
+ */
+async function resolveAttachments(vaultPath: string, bundle: ExportBundle): Promise<ResolvedAttachments> {
+    const resolved: ResolvedAttachments = { found: [], missing: [], skipped: [] }
+    for (const asset of bundle.assets) {
+        const sourcePath = await resolveAttachment(vaultPath, asset)
+        if (!sourcePath) resolved.missing.push(asset.source)
+        else if (!(await isInsideVault(vaultPath, sourcePath))) resolved.skipped.push(asset.source)
+        else resolved.found.push({ asset, sourcePath })
+    }
+    return resolved
+}
+
+/**
+ * Write the exported files and copies of their attachments into a folder.
+ * Returns the attachments that could not be found or were skipped.
+ */
+export async function writeExportBundle(dirPath: string, vaultPath: string, bundle: ExportBundle): Promise<ExportReport> {
+    for (const file of bundle.files) {
+        const filePath = path.join(dirPath, file.path)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, file.content, 'utf-8')
+    }
+
+    const { found, missing, skipped } = await resolveAttachments(vaultPath, bundle)
+    for (const { asset, sourcePath } of found) {
+        const targetPath = path.join(dirPath, asset.path)
+        await fs.mkdir(path.dirname(targetPath), { recursive: true })
+        await fs.copyFile(sourcePath, targetPath)
+    }
+    return { missing, skipped }
+}
+
+/**
+ * Zip the exported files and their attachments.
+ * Returns the attachments that could not be found or were skipped.
+ */
+export async function writeExportZip(zipPath: string, vaultPath: string, bundle: ExportBundle): Promise<ExportReport> {
+    const entries: Record<string, Uint8Array> = {}
+    for (const file of bundle.files) {
+        entries[file.path] = strToU8(file.content)
+    }
+
+    const { found, missing, skipped } = await resolveAttachments(vaultPath, bundle)
+    for (const { asset, sourcePath } of found) {
+        entries[asset.path] = new Uint8Array(await fs.readFile(sourcePath))
+    }
+
+    await fs.writeFile(zipPath, zipSync(entries))
+    return { missing, skipped }
+}
+
+/**
+ * Print the bundle's first page to PDF. The page is written to a temp folder with its
+ * attachments and loaded in a hidden window so relative image paths resolve.
+ * Returns the attachments that could not be found or were skipped.
+ */
+export async function writeExportPdf(pdfPath: string, vaultPath: string, bundle: ExportBundle): Promise<ExportReport> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cortex-export-'))
+    const window = new BrowserWindow({
+        show: false,
+        webPreferences: { sandbox: true, javascript: false }
+    })
+
+    try {
+        const report = await writeExportBundle(tempDir, vaultPath, bundle)
+        await window.loadFile(path.join(tempDir, bundle.files[0].path))
+        const pdf = await window.webContents.printToPDF({ pageSize: 'A4', printBackground: true })
+        await fs.writeFile(pdfPath, pdf)
+        return report
+    } finally {
+        window.destroy()
+        await fs.rm(tempDir, { recursive: true, force: true })
+    }
+}
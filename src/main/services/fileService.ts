@@ -1,6 +1,6 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import type { FileNode } from '@shared/types'
+import type { AttachmentInfo, FileNode, TrashEntry } from '@shared/types'
 
 /**
  * Recursively read directory structure for vault file tree
@@ -49,11 +49,35 @@ export async function readFile(filePath: string): Promise<string> {
     return fs.readFile(filePath, 'utf-8')
 }
 
+/**
+ * Write content crash-safely: write a temp file next to the target, fsync it, then rename over the target.
+ * A crash mid-write leaves either the old or the new content, never a truncated file.
+ */
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const dir = path.dirname(filePath)
+    const tempPath = path.join(dir, `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`)
+
+    const handle = await fs.open(tempPath, 'w')
+    try {
+        await handle.writeFile(content, 'utf-8')
+        await handle.sync()
+    } finally {
+        await handle.close()
+    }
+
+    try {
+        await fs.rename(tempPath, filePath)
+    } catch (error) {
+        await fs.rm(tempPath, { force: true })
+        throw error
+    }
+}
+
 /**
  * Write content to file
  */
 export async function writeFile(filePath: string, content: string): Promise<void> {
-    await fs.writeFile(filePath, content, 'utf-8')
+    await writeFileAtomic(filePath, content)
 }
 
 /**
@@ -63,11 +87,11 @@ export async function createFile(filePath: string, content: string): Promise<voi
     // Ensure directory exists
     const dir = path.dirname(filePath)
     await fs.mkdir(dir, { recursive: true })
-    await fs.writeFile(filePath, content, 'utf-8')
+    await writeFileAtomic(filePath, content)
 }
 
 /**
- * Delete a file
+ * Permanently delete a file (UI deletions go through moveToTrash instead)
  */
 export async function deleteFile(filePath: string): Promise<void> {
     const stats = await fs.lstat(filePath)
@@ -113,33 +137,172 @@ export async function pathExists(filePath: string): Promise<boolean> {
 }
 
 /**
- * Copy an image file to vault's attachments folder
- * Returns the relative path to the copied image
+ * Every file in the vault that is not a note (hidden folders such as .trash skipped)
  */
-export async function copyImageToVault(sourcePath: string, vaultPath: string): Promise<string> {
-    // Create attachments folder if it doesn't exist
-    const attachmentsDir = path.join(vaultPath, 'attachments')
-    await fs.mkdir(attachmentsDir, { recursive: true })
+export async function listAttachments(dirPath: string): Promise<AttachmentInfo[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    const attachments: AttachmentInfo[] = []
 
-    // Get the original filename and extension
-    const originalName = path.basename(sourcePath)
-    const ext = path.extname(originalName)
-    const baseName = path.basename(originalName, ext)
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue
+        const fullPath = path.join(dirPath, entry.name)
 
-    // Generate unique filename if file already exists
-    let targetName = originalName
-    let targetPath = path.join(attachmentsDir, targetName)
-    let counter = 1
+        if (entry.isDirectory()) {
+            attachments.push(...await listAttachments(fullPath))
+        } else if (entry.isFile() && !entry.name.endsWith('.md')) {
+            const stats = await fs.stat(fullPath)
+            attachments.push({ path: fullPath, size: stats.size, modifiedAt: stats.mtimeMs })
+        }
+    }
+    return attachments
+}
+
+/**
+ * Free path for a file in a folder: `name.ext`, else `name_1.ext`, `name_2.ext`, ...
+ */
+async function getUniqueFilePath(dirPath: string, fileName: string): Promise<string> {
+    const ext = path.extname(fileName)
+    const baseName = path.basename(fileName, ext)
 
+    let targetPath = path.join(dirPath, fileName)
+    let counter = 1
     while (await pathExists(targetPath)) {
-        targetName = `${baseName}_${counter}${ext}`
-        targetPath = path.join(attachmentsDir, targetName)
+        targetPath = path.join(dirPath, `${baseName}_${counter}${ext}`)
         counter++
     }
+    return targetPath
+}
+
+/**
+ * Copy an image file to vault's attachments folder (or another folder in the vault)
+ * Returns the relative path to the copied image
+ */
+export async function copyImageToVault(sourcePath: string, vaultPath: string, targetDir?: string): Promise<string> {
+    // Create attachments folder if it doesn't exist
+    const attachmentsDir = targetDir ?? path.join(vaultPath, 'attachments')
+    await fs.mkdir(attachmentsDir, { recursive: true })
+
+    // Generate unique filename if file already exists
+    const targetPath = await getUniqueFilePath(attachmentsDir, path.basename(sourcePath))
 
     // Copy the file
     await fs.copyFile(sourcePath, targetPath)
 
     // Return the relative path from vault root
-    return `attachments/${targetName}`
+    return path.relative(vaultPath, targetPath).split(path.sep).join('/')
+}
+
+/**
+ * Save image data (pasted from the clipboard) to the attachments folder like copyImageToVault
+ * Returns the relative path to the saved image
+ */
+export async function saveImageToVault(data: Uint8Array, fileName: string, vaultPath: string, targetDir?: string): Promise<string> {
+    const attachmentsDir = targetDir ?? path.join(vaultPath, 'attachments')
+    await fs.mkdir(attachmentsDir, { recursive: true })
+
+    const targetPath = await getUniqueFilePath(attachmentsDir, path.basename(fileName))
+    await fs.writeFile(targetPath, data, { flag: 'wx' })
+
+    return path.relative(vaultPath, targetPath).split(path.sep).join('/')
+}
+
+// ============================================
+// Trash
+// ============================================
+
+const TRASH_DIR = '.trash'
+const TRASH_MANIFEST = 'manifest.json'
+
+async function readTrashManifest(vaultPath: string): Promise<TrashEntry[]> {
+    try {
+        const raw = await fs.readFile(path.join(vaultPath, TRASH_DIR, TRASH_MANIFEST), 'utf-8')
+        return JSON.parse(raw)
+    } catch {
+        return []
+    }
+}
+
+async function writeTrashManifest(vaultPath: string, entries: TrashEntry[]): Promise<void> {
+    await fs.mkdir(path.join(vaultPath, TRASH_DIR), { recursive: true })
+    await writeFileAtomic(path.join(vaultPath, TRASH_DIR, TRASH_MANIFEST), JSON.stringify(entries, null, 2))
+}
+
+/**
+ * Find a free path by appending _1, _2, ... before the extension
+ */
+async function getAvailablePath(targetPath: string): Promise<string> {
+    const ext = path.extname(targetPath)
+    const base = targetPath.slice(0, targetPath.length - ext.length)
+    let candidate = targetPath
+    let counter = 1
+    while (await pathExists(candidate)) {
+        candidate = `${base}_${counter}${ext}`
+        counter++
+    }
+    return candidate
+}
+
+/**
+ * Move a file or folder into the vault's .trash folder so it can be restored later
+ */
+export async function moveToTrash(itemPath: string, vaultPath: string): Promise<TrashEntry> {
+    const stats = await fs.lstat(itemPath)
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const entry: TrashEntry = {
+        id,
+        name: path.basename(itemPath),
+        originalPath: path.relative(vaultPath, itemPath),
+        trashedAt: new Date().toISOString(),
+        isDirectory: stats.isDirectory()
+    }
+
+    await fs.mkdir(path.join(vaultPath, TRASH_DIR), { recursive: true })
+    await fs.rename(itemPath, path.join(vaultPath, TRASH_DIR, id))
+
+    const entries = await readTrashManifest(vaultPath)
+    await writeTrashManifest(vaultPath, [entry, ...entries])
+    return entry
+}
+
+/**
+ * List trashed items, newest first
+ */
+export async function listTrash(vaultPath: string): Promise<TrashEntry[]> {
+    const entries = await readTrashManifest(vaultPath)
+    // Drop manifest entries whose files were removed by hand
+    const existing: TrashEntry[] = []
+    for (const entry of entries) {
+        if (await pathExists(path.join(vaultPath, TRASH_DIR, entry.id))) existing.push(entry)
+    }
+    return existing
+}
+
+/**
+ * Restore a trashed item to its original location (with a suffix if that path is taken).
+ * Returns the restored absolute path.
+ */
+export async function restoreFromTrash(vaultPath: string, id: string): Promise<string> {
+    const entries = await readTrashManifest(vaultPath)
+    const entry = entries.find(e => e.id === id)
+    if (!entry) throw new Error(`Trash entry not found: ${id}`)
+
+    const targetPath = await getAvailablePath(path.join(vaultPath, entry.originalPath))
+    await fs.mkdir(path.dirname(targetPath), { recursive: true })
+    await fs.rename(path.join(vaultPath, TRASH_DIR, id), targetPath)
+
+    await writeTrashManifest(vaultPath, entries.filter(e => e.id !== id))
+    return targetPath
+}
+
+/**
+ * Permanently delete trashed items (all of them if no id is given)
+ */
+export async function emptyTrash(vaultPath: string, id?: string): Promise<void> {
+    const entries = await readTrashManifest(vaultPath)
+    const toDelete = id ? entries.filter(e => e.id === id) : entries
+
+    for (const entry of toDelete) {
+        await fs.rm(path.join(vaultPath, TRASH_DIR, entry.id), { recursive: true, force: true })
+    }
+    await writeTrashManifest(vaultPath, entries.filter(e => !toDelete.includes(e)))
 }
@@ -0,0 +1,152 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { writeFile } from './fileService'
+import type { FileSnapshot } from '@shared/types'
+
+/**
+ * Per-file snapshot history (File history panel).
+ *
+ * Snapshots live in <vault>/.cortex/history/<hash of relative path>/<timestamp>.md,
+ * with a source.json recording which note the folder belongs to.
+ */
+
+const HISTORY_DIR = path.join('.cortex', 'history')
+const SOURCE_FILE = 'source.json'
+// Saves closer together than this replace the newest snapshot instead of adding one
+const COALESCE_WINDOW_MS = 5 * 60 * 1000
+const MAX_SNAPSHOTS = 50
+
+function getHistoryDir(vaultPath: string, filePath: string): string {
+    const relativePath = path.relative(vaultPath, filePath)
+    const hash = createHash('sha1').update(relativePath).digest('hex').slice(0, 16)
+    return path.join(vaultPath, HISTORY_DIR, hash)
+}
+
+function toSnapshotId(timestamp: number): string {
+    return String(timestamp)
+}
+
+/**
+ * Snapshot file names, newest first
+ */
+async function readSnapshotNames(historyDir: string): Promise<string[]> {
+    try {
+        const names = await fs.readdir(historyDir)
+        return names
+            .filter(name => /^\d+\.md$/.test(name))
+            .sort((a, b) => parseInt(b) - parseInt(a))
+    } catch {
+        return []
+    }
+}
+
+/**
+ * Record a snapshot of a file after it was saved.
+ * `previousContent` (the content before this save) is stored first when the file has no history yet,
+ * so the very first save can still be undone.
+ */
+export async function saveSnapshot(
+    vaultPath: string,
+    filePath: string,
+    content: string,
+    previousContent?: string
+): Promise<void> {
+    const historyDir = getHistoryDir(vaultPath, filePath)
+    await fs.mkdir(historyDir, { recursive: true })
+    await writeFile(
+        path.join(historyDir, SOURCE_FILE),
+        JSON.stringify({ path: path.relative(vaultPath, filePath) }, null, 2)
+    )
+
+    let names = await readSnapshotNames(historyDir)
+    const now = Date.now()
+
+    if (names.length === 0 && previousContent !== undefined && previousContent !== content) {
+        // Baseline gets an older timestamp so it is never coalesced with the save below
+        await writeFile(path.join(historyDir, `${now - COALESCE_WINDOW_MS - 1}.md`), previousContent)
+        names = await readSnapshotNames(historyDir)
+    }
+
+    const newest = names[0]
+    if (newest) {
+        const newestContent = await fs.readFile(path.join(historyDir, newest), 'utf-8')
+        if (newestContent === content) return
+
+        // Collapse bursts of autosaves into one snapshot, but never replace the only snapshot
+        if (names.length > 1 && now - parseInt(newest) < COALESCE_WINDOW_MS) {
+            await fs.rm(path.join(historyDir, newest), { force: true })
+            names = names.slice(1)
+        }
+    }
+
+    await writeFile(path.join(historyDir, `${now}.md`), content)
+
+    // Drop the oldest snapshots beyond the limit
+    const stale = [`${now}.md`, ...names].slice(MAX_SNAPSHOTS)
+    await Promise.all(stale.map(name => fs.rm(path.join(historyDir, name), { force: true })))
+}
+
+/**
+ * List snapshots of a file, newest first
+ */
+export async function listSnapshots(vaultPath: string, filePath: string): Promise<FileSnapshot[]> {
+    const historyDir = getHistoryDir(vaultPath, filePath)
+    const names = await readSnapshotNames(historyDir)
+
+    const snapshots: FileSnapshot[] = []
+    for (const name of names) {
+        const stats = await fs.stat(path.join(historyDir, name))
+        const timestamp = parseInt(name)
+        snapshots.push({ id: toSnapshotId(timestamp), timestamp, size: stats.size })
+    }
+    return snapshots
+}
+
+/**
+ * Read the content of one snapshot
+ */
+export async function readSnapshot(vaultPath: string, filePath: string, snapshotId: string): Promise<string> {
+    if (!/^\d+$/.test(snapshotId)) throw new Error(`Invalid snapshot id: ${snapshotId}`)
+    return fs.readFile(path.join(getHistoryDir(vaultPath, filePath), `${snapshotId}.md`), 'utf-8')
+}
+
+/**
+ * Carry the history over when a file or folder is renamed or moved
+ */
+export async function moveSnapshots(vaultPath: string, oldPath: string, newPath: string): Promise<void> {
+    const historyRoot = path.join(vaultPath, HISTORY_DIR)
+
+    let dirs: string[]
+    try {
+        dirs = await fs.readdir(historyRoot)
+    } catch {
+        return
+    }
+
+    const oldRelative = path.relative(vaultPath, oldPath)
+    const newRelative = path.relative(vaultPath, newPath)
+
+    for (const dir of dirs) {
+        let source: { path: string }
+        try {
+            source = JSON.parse(await fs.readFile(path.join(historyRoot, dir, SOURCE_FILE), 'utf-8'))
+        } catch {
+            continue
+        }
+
+        const isMatch = source.path === oldRelative || source.path.startsWith(oldRelative + path.sep)
+        if (!isMatch) continue
+
+        const movedPath = path.join(vaultPath, newRelative + source.path.slice(oldRelative.length))
+        const targetDir = getHistoryDir(vaultPath, movedPath)
+        if (targetDir === path.join(historyRoot, dir)) continue
+
+        await fs.rm(targetDir, { recursive: true, force: true })
+        await fs.rename(path.join(historyRoot, dir), targetDir)
+        await writeFile(
+            path.join(targetDir, SOURCE_FILE),
+            JSON.stringify({ path: path.relative(vaultPath, movedPath) }, null, 2)
+        )
+    }
+}
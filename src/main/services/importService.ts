@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { unzipSync } from 'fflate'
+import type { ImportSource, ImportSourceFile, ImportWrite } from '@shared/types'
+
+// Files whose text the renderer needs for converting or analyzing a source
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.csv', '.html', '.htm', '.json', '.txt', '.canvas']
+
+function isTextFile(filePath: string): boolean {
+    return TEXT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+}
+
+/**
+ * Every file in a folder (relative paths). Hidden files are skipped, except the settings
+ * in an Obsidian vault's .obsidian folder.
+ */
+async function listFiles(rootPath: string, dirPath = rootPath): Promise<ImportSourceFile[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    const files: ImportSourceFile[] = []
+
+    for (const entry of entries) {
+        const fullPath = path.join(dirPath, entry.name)
+        const relativePath = path.relative(rootPath, fullPath).split(path.sep).join('/')
+
+        if (entry.name === '.obsidian' && dirPath === rootPath && entry.isDirectory()) {
+            const settings = await fs.readdir(fullPath, { withFileTypes: true })
+            for (const setting of settings) {
+                if (!setting.isFile() || !setting.name.endsWith('.json')) continue
+                files.push({
+                    path: `${relativePath}/${setting.name}`,
+                    text: await fs.readFile(path.join(fullPath, setting.name), 'utf-8')
+                })
+            }
+            continue
+        }
+        if (entry.name.startsWith('.')) continue
+
+        if (entry.isDirectory()) {
+            files.push(...await listFiles(rootPath, fullPath))
+        } else if (entry.isFile()) {
+            files.push({
+                path: relativePath,
+                text: isTextFile(entry.name) ? await fs.readFile(fullPath, 'utf-8') : undefined
+            })
+        }
+    }
+    return files
+}
+
+/**
+ * Unpack a zip into a folder. Zips inside it (Notion splits big exports into parts) are
+ * unpacked in place; entries that would land outside the folder are skipped.
+ */
+async function unzipInto(data: Uint8Array, dirPath: string, nested = false): Promise<void> {
+    const entries = unzipSync(data)
+    for (const [name, content] of Object.entries(entries)) {
+        if (name.endsWith('/')) continue
+        const targetPath = path.resolve(dirPath, name)
+        if (!targetPath.startsWith(dirPath + path.sep)) continue
+
+        if (!nested && name.toLowerCase().endsWith('.zip')) {
+            await unzipInto(content, dirPath, true)
+            continue
+        }
+        await fs.mkdir(path.dirname(targetPath), { recursive: true })
+        await fs.writeFile(targetPath, content)
+    }
+}
+
+/**
+ * Read what an import can use from a folder, a zip (unpacked to a temp folder) or an HTML file
+ */
+export async function scanImportSource(sourcePath: string): Promise<ImportSource> {
+    const stats = await fs.stat(sourcePath)
+    if (stats.isDirectory()) {
+        return { root: sourcePath, files: await listFiles(sourcePath), isTemporary: false }
+    }
+
+    if (sourcePath.toLowerCase().endsWith('.zip')) {
+        const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cortex-import-'))
+        try {
+            await unzipInto(new Uint8Array(await fs.readFile(sourcePath)), tempDir)
+            return { root: tempDir, files: await listFiles(tempDir), isTemporary: true }
+        } catch (error) {
+            await fs.rm(tempDir, { recursive: true, force: true })
+            throw error
+        }
+    }
+
+    return {
+        root: path.dirname(sourcePath),
+        files: [{ path: path.basename(sourcePath), text: await fs.readFile(sourcePath, 'utf-8') }],
+        isTemporary: false
+    }
+}
+
+/**
+ * Remove the temp folder of an unpacked zip
+ */
+export async function cleanupImportSource(source: ImportSource): Promise<void> {
+    if (!source.isTemporary || !source.root.startsWith(os.tmpdir())) return
+    await fs.rm(source.root, { recursive: true, force: true })
+}
+
+/**
+ * Write the files of an import. Existing files are never overwritten.
+ * Returns the files that could not be written with the reason.
+ */
+export async function writeImportFiles(writes: ImportWrite[]): Promise<Array<{ path: string; error: string }>> {
+    const failures: Array<{ path: string; error: string }> = []
+    for (const write of writes) {
+        try {
+            await fs.mkdir(path.dirname(write.path), { recursive: true })
+            if (write.sourcePath) {
+                await fs.copyFile(write.sourcePath, write.path, fs.constants.COPYFILE_EXCL)
+            } else if (write.base64 !== undefined) {
+                await fs.writeFile(write.path, Buffer.from(write.base64, 'base64'), { flag: 'wx' })
+            } else {
+                await fs.writeFile(write.path, write.content ?? '', { encoding: 'utf-8', flag: 'wx' })
+            }
+        } catch (error) {
+            failures.push({ path: write.path, error: error instanceof Error ? error.message : String(error) })
+        }
+    }
+    return failures
+}
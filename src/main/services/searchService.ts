@@ -0,0 +1,438 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { BlockType, SearchResult, SearchSnippet } from '@shared/types'
+import { parseFrontmatter, normalizeTags } from '@shared/frontmatter'
+import { getBlockText, parseContentToBlocks } from '@shared/markdown'
+
+/**
+ * Vault-wide full-text search.
+ *
+ * Keeps an in-memory inverted index (term -> document -> weighted term frequency) of
+ * block contents, headings, tags and frontmatter for the currently open vault.
+ * The index is built lazily on the first query and kept current by the file IPC handlers.
+ */
+
+type Field = 'title' | 'tag' | 'heading' | 'meta' | 'body'
+
+// Weight applied to each occurrence of a term, depending on where it appears
+const FIELD_WEIGHTS: Record<Field, number> = {
+    title: 5,
+    tag: 4,
+    heading: 3,
+    meta: 1.5,
+    body: 1
+}
+
+// Frontmatter keys that are not worth indexing as text
+const SKIPPED_META_KEYS = new Set(['id', 'title', 'tags', 'created_at', 'updated_at', 'alwaysOn'])
+
+// BM25 parameters
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const MAX_SNIPPETS_PER_RESULT = 3
+const SNIPPET_LENGTH = 160
+
+interface IndexedBlock {
+    index: number
+    type: BlockType
+    text: string
+}
+
+interface IndexedDoc {
+    path: string
+    relPath: string
+    title: string
+    frontmatterTitle?: string
+    tags: string[]
+    blocks: IndexedBlock[]
+    terms: Map<string, number>
+    length: number
+}
+
+interface ParsedQuery {
+    terms: string[]
+    prefixes: string[]
+    phrases: string[][]
+    filters: { field: 'tag' | 'path' | 'title'; value: string }[]
+}
+
+let indexRoot: string | null = null
+let buildPromise: Promise<void> | null = null
+const documents = new Map<string, IndexedDoc>()
+const postings = new Map<string, Map<string, number>>()
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isInsideRoot(filePath: string): boolean {
+    return indexRoot !== null && (filePath === indexRoot || filePath.startsWith(indexRoot + path.sep))
+}
+
+function stringifyMetaValue(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'object') {
+        return Object.values(value as Record<string, unknown>).map(stringifyMetaValue).join(' ')
+    }
+    return String(value)
+}
+
+function removeDocument(filePath: string): void {
+    const doc = documents.get(filePath)
+    if (!doc) return
+
+    for (const term of doc.terms.keys()) {
+        const posting = postings.get(term)
+        if (!posting) continue
+        posting.delete(filePath)
+        if (posting.size === 0) postings.delete(term)
+    }
+    documents.delete(filePath)
+}
+
+/**
+ * Index (or re-index) a single markdown file from its content
+ */
+export function indexFileContent(filePath: string, content: string): void {
+    if (!isInsideRoot(filePath) || !filePath.endsWith('.md')) return
+
+    removeDocument(filePath)
+
+    const { data, body } = parseFrontmatter(content)
+    const blocks = parseContentToBlocks(body)
+    const title = path.basename(filePath, '.md')
+    const frontmatterTitle = data.title !== undefined && data.title !== null ? String(data.title) : undefined
+    const tags = normalizeTags(data.tags)
+
+    const terms = new Map<string, number>()
+    let length = 0
+    const addTerms = (text: string, field: Field) => {
+        for (const token of tokenize(text)) {
+            terms.set(token, (terms.get(token) || 0) + FIELD_WEIGHTS[field])
+            length++
+        }
+    }
+
+    addTerms(title, 'title')
+    if (frontmatterTitle) addTerms(frontmatterTitle, 'title')
+    tags.forEach(tag => addTerms(tag, 'tag'))
+    for (const [key, value] of Object.entries(data)) {
+        if (SKIPPED_META_KEYS.has(key)) continue
+        addTerms(`${key} ${stringifyMetaValue(value)}`, 'meta')
+    }
+
+    const indexedBlocks: IndexedBlock[] = []
+    blocks.forEach((block, index) => {
+        const text = getBlockText(block)
+        if (!text.trim()) return
+        indexedBlocks.push({ index, type: block.type, text })
+        addTerms(text, block.type.startsWith('heading') ? 'heading' : 'body')
+    })
+
+    documents.set(filePath, {
+        path: filePath,
+        relPath: path.relative(indexRoot!, filePath),
+        title,
+        frontmatterTitle,
+        tags,
+        blocks: indexedBlocks,
+        terms,
+        length
+    })
+
+    for (const [term, weight] of terms) {
+        let posting = postings.get(term)
+        if (!posting) {
+            posting = new Map()
+            postings.set(term, posting)
+        }
+        posting.set(filePath, weight)
+    }
+}
+
+async function indexPath(targetPath: string): Promise<void> {
+    let stat
+    try {
+        stat = await fs.stat(targetPath)
+    } catch {
+        return
+    }
+
+    if (stat.isDirectory()) {
+        const entries = await fs.readdir(targetPath, { withFileTypes: true })
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) continue
+            await indexPath(path.join(targetPath, entry.name))
+        }
+    } else if (targetPath.endsWith('.md')) {
+        try {
+            indexFileContent(targetPath, await fs.readFile(targetPath, 'utf-8'))
+        } catch (error) {
+            console.warn(`Failed to index ${targetPath}`, error)
+        }
+    }
+}
+
+/**
+ * Build the search index for a vault from scratch
+ */
+export async function buildSearchIndex(vaultPath: string): Promise<void> {
+    indexRoot = vaultPath
+    documents.clear()
+    postings.clear()
+
+    buildPromise = indexPath(vaultPath)
+    try {
+        await buildPromise
+    } finally {
+        buildPromise = null
+    }
+}
+
+async function ensureIndex(vaultPath: string): Promise<void> {
+    if (indexRoot === vaultPath) {
+        if (buildPromise) await buildPromise
+        return
+    }
+    await buildSearchIndex(vaultPath)
+}
+
+/**
+ * Re-read a file (or every file in a folder) into the index
+ */
+export async function updateIndexedPath(targetPath: string): Promise<void> {
+    if (!isInsideRoot(targetPath)) return
+    removeIndexedPath(targetPath)
+    await indexPath(targetPath)
+}
+
+/**
+ * Drop a file, or every file under a folder, from the index
+ */
+export function removeIndexedPath(targetPath: string): void {
+    if (!isInsideRoot(targetPath)) return
+    for (const filePath of [...documents.keys()]) {
+        if (filePath === targetPath || filePath.startsWith(targetPath + path.sep)) {
+            removeDocument(filePath)
+        }
+    }
+}
+
+/**
+ * Parse a query string.
+ * Supports "exact phrases", prefix* terms and tag:/path:/title: field filters (values may be quoted).
+ */
+function parseQuery(query: string): ParsedQuery {
+    const parsed: ParsedQuery = { terms: [], prefixes: [], phrases: [], filters: [] }
+    const regex = /(tag|path|title):(?:"([^"]*)"|(\S+))|"([^"]*)"?|(\S+)/gi
+    let match
+
+    while ((match = regex.exec(query)) !== null) {
+        if (match[1]) {
+            const field = match[1].toLowerCase() as 'tag' | 'path' | 'title'
+            let value = (match[2] ?? match[3] ?? '').trim().toLowerCase()
+            if (field === 'tag') value = value.replace(/^#/, '')
+            if (value) parsed.filters.push({ field, value })
+        } else if (match[4] !== undefined) {
+            const tokens = tokenize(match[4])
+            if (tokens.length === 1) parsed.terms.push(tokens[0])
+            else if (tokens.length > 1) parsed.phrases.push(tokens)
+        } else if (match[5]) {
+            const word = match[5]
+            const tokens = tokenize(word)
+            if (tokens.length === 0) continue
+            if (word.endsWith('*')) {
+                parsed.terms.push(...tokens.slice(0, -1))
+                parsed.prefixes.push(tokens[tokens.length - 1])
+            } else if (tokens.length > 1) {
+                // e.g. "foo-bar" is treated as a phrase
+                parsed.phrases.push(tokens)
+            } else {
+                parsed.terms.push(tokens[0])
+            }
+        }
+    }
+
+    return parsed
+}
+
+function matchesFilter(doc: IndexedDoc, filter: ParsedQuery['filters'][number]): boolean {
+    switch (filter.field) {
+        case 'tag':
+            return doc.tags.some(tag => {
+                const t = tag.toLowerCase().replace(/^#/, '')
+                return t === filter.value || t.startsWith(filter.value + '/')
+            })
+        case 'path':
+            return doc.relPath.toLowerCase().split(path.sep).join('/').includes(filter.value)
+        case 'title':
+            return doc.title.toLowerCase().includes(filter.value)
+                || (doc.frontmatterTitle?.toLowerCase().includes(filter.value) ?? false)
+    }
+}
+
+function docsWithTerm(term: string): Set<string> {
+    return new Set(postings.get(term)?.keys() ?? [])
+}
+
+function expandPrefix(prefix: string): string[] {
+    const expansions: string[] = []
+    for (const term of postings.keys()) {
+        if (term.startsWith(prefix)) expansions.push(term)
+    }
+    return expansions
+}
+
+function intersect(a: Set<string> | null, b: Set<string>): Set<string> {
+    if (a === null) return b
+    return new Set([...a].filter(x => b.has(x)))
+}
+
+/**
+ * Build a regex matching every query term, prefix and phrase as whole words
+ */
+function buildHighlightRegex(parsed: ParsedQuery): RegExp | null {
+    const patterns = [
+        ...parsed.phrases.map(tokens => tokens.map(escapeRegExp).join('[^\\p{L}\\p{N}_]+')),
+        ...parsed.terms.map(escapeRegExp),
+        ...parsed.prefixes.map(prefix => `${escapeRegExp(prefix)}[\\p{L}\\p{N}_]*`)
+    ]
+    if (patterns.length === 0) return null
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${patterns.join('|')})(?![\\p{L}\\p{N}_])`, 'giu')
+}
+
+function makeSnippet(block: IndexedBlock, regex: RegExp | null): { snippet: SearchSnippet; hits: number } | null {
+    const ranges: Array<[number, number]> = []
+    const distinct = new Set<string>()
+
+    if (regex) {
+        regex.lastIndex = 0
+        let match
+        while ((match = regex.exec(block.text)) !== null) {
+            ranges.push([match.index, match.index + match[0].length])
+            distinct.add(match[0].toLowerCase())
+        }
+        if (ranges.length === 0) return null
+    }
+
+    let start = 0
+    let end = block.text.length
+    if (end > SNIPPET_LENGTH) {
+        const firstHit = ranges.length > 0 ? ranges[0][0] : 0
+        start = Math.max(0, firstHit - Math.floor(SNIPPET_LENGTH / 3))
+        end = Math.min(block.text.length, start + SNIPPET_LENGTH)
+    }
+
+    const prefix = start > 0 ? '…' : ''
+    const suffix = end < block.text.length ? '…' : ''
+    const highlights = ranges
+        .filter(([s, e]) => s >= start && e <= end)
+        .map(([s, e]) => [s - start + prefix.length, e - start + prefix.length] as [number, number])
+
+    return {
+        snippet: {
+            blockIndex: block.index,
+            blockType: block.type,
+            text: prefix + block.text.slice(start, end) + suffix,
+            highlights
+        },
+        hits: distinct.size
+    }
+}
+
+function containsPhrase(doc: IndexedDoc, tokens: string[]): boolean {
+    const regex = new RegExp(
+        `(?<![\\p{L}\\p{N}_])${tokens.map(escapeRegExp).join('[^\\p{L}\\p{N}_]+')}(?![\\p{L}\\p{N}_])`,
+        'iu'
+    )
+    return regex.test(doc.title)
+        || (doc.frontmatterTitle !== undefined && regex.test(doc.frontmatterTitle))
+        || doc.blocks.some(block => regex.test(block.text))
+}
+
+/**
+ * Search the vault. All terms, phrases and filters must match; results are ranked with BM25
+ * over field-weighted term frequencies.
+ */
+export async function searchVault(vaultPath: string, query: string, limit = 50): Promise<SearchResult[]> {
+    await ensureIndex(vaultPath)
+
+    const parsed = parseQuery(query)
+    const hasText = parsed.terms.length > 0 || parsed.prefixes.length > 0 || parsed.phrases.length > 0
+    if (!hasText && parsed.filters.length === 0) return []
+
+    // 1. Candidate documents
+    let candidates: Set<string> | null = null
+    for (const term of parsed.terms) {
+        candidates = intersect(candidates, docsWithTerm(term))
+    }
+    const prefixExpansions = parsed.prefixes.map(expandPrefix)
+    for (const expansions of prefixExpansions) {
+        const union = new Set<string>()
+        expansions.forEach(term => docsWithTerm(term).forEach(p => union.add(p)))
+        candidates = intersect(candidates, union)
+    }
+    for (const tokens of parsed.phrases) {
+        for (const token of tokens) {
+            candidates = intersect(candidates, docsWithTerm(token))
+        }
+    }
+
+    const matched = [...(candidates ?? documents.keys())]
+        .map(p => documents.get(p))
+        .filter((doc): doc is IndexedDoc => doc !== undefined)
+        .filter(doc => parsed.filters.every(filter => matchesFilter(doc, filter)))
+        .filter(doc => parsed.phrases.every(tokens => containsPhrase(doc, tokens)))
+
+    // 2. Rank
+    const totalDocs = documents.size || 1
+    const avgLength = [...documents.values()].reduce((sum, d) => sum + d.length, 0) / totalDocs || 1
+    const scoreTerm = (doc: IndexedDoc, term: string) => {
+        const tf = doc.terms.get(term)
+        if (!tf) return 0
+        const df = postings.get(term)?.size || 1
+        const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5))
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength)
+        return idf * (tf * (BM25_K1 + 1)) / (tf + norm)
+    }
+
+    const regex = buildHighlightRegex(parsed)
+    const results: SearchResult[] = matched.map(doc => {
+        let score = 0
+        parsed.terms.forEach(term => { score += scoreTerm(doc, term) })
+        prefixExpansions.forEach(expansions => {
+            score += Math.max(0, ...expansions.map(term => scoreTerm(doc, term)))
+        })
+        parsed.phrases.forEach(tokens => {
+            // Phrase matches count more than the same words scattered
+            score += 1.5 * tokens.reduce((sum, token) => sum + scoreTerm(doc, token), 0)
+        })
+        if (!hasText) score = 1
+
+        const snippets = doc.blocks
+            .map(block => makeSnippet(block, regex))
+            .filter((s): s is NonNullable<typeof s> => s !== null)
+            .sort((a, b) => b.hits - a.hits || a.snippet.blockIndex - b.snippet.blockIndex)
+            .slice(0, hasText ? MAX_SNIPPETS_PER_RESULT : 1)
+            .sort((a, b) => a.snippet.blockIndex - b.snippet.blockIndex)
+            .map(s => s.snippet)
+
+        return {
+            path: doc.path,
+            title: doc.title,
+            frontmatterTitle: doc.frontmatterTitle,
+            tags: doc.tags,
+            score,
+            snippets
+        }
+    })
+
+    return results
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+        .slice(0, limit)
+}
@@ -0,0 +1,191 @@
+import { watch, type FSWatcher } from 'chokidar'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { Stats } from 'fs'
+import type { VaultChangeEvent } from '@shared/types'
+
+/**
+ * Vault file-system watcher.
+ *
+ * Pushes batched add/change/unlink/rename events for changes made outside the app
+ * (git pull, sync tools, other editors). Writes made through the file IPC handlers are
+ * recorded beforehand so their echo is not reported back as an external change.
+ */
+
+// An unlink followed by an add of the same inode within this window is reported as a rename
+const RENAME_WINDOW_MS = 400
+// Events are collected and sent to the renderer in batches
+const BATCH_DELAY_MS = 100
+// How long a move/delete done by the app suppresses watcher events for its paths
+const SELF_CHANGE_TTL_MS = 2000
+
+export type VaultChangeListener = (events: VaultChangeEvent[]) => void
+
+interface PendingUnlink {
+    path: string
+    isDirectory: boolean
+    timer: NodeJS.Timeout
+}
+
+let watcher: FSWatcher | null = null
+let listener: VaultChangeListener | null = null
+let isReady = false
+let queue: VaultChangeEvent[] = []
+let flushTimer: NodeJS.Timeout | null = null
+
+const inodes = new Map<string, number>()
+const pendingUnlinks = new Map<number, PendingUnlink>()
+const selfWrites = new Map<string, string>()
+const selfChanges = new Map<string, number>()
+
+function enqueue(event: VaultChangeEvent): void {
+    queue.push(event)
+    if (flushTimer) return
+    flushTimer = setTimeout(() => {
+        flushTimer = null
+        const events = queue
+        queue = []
+        if (events.length > 0) listener?.(events)
+    }, BATCH_DELAY_MS)
+}
+
+function isSelfChange(filePath: string): boolean {
+    const now = Date.now()
+    for (const [changedPath, expiresAt] of selfChanges) {
+        if (expiresAt < now) {
+            selfChanges.delete(changedPath)
+            continue
+        }
+        if (filePath === changedPath || filePath.startsWith(changedPath + path.sep)) return true
+    }
+    return false
+}
+
+/**
+ * Returns true if the file still holds exactly what the app last wrote to it
+ */
+async function isSelfWrite(filePath: string): Promise<boolean> {
+    const written = selfWrites.get(filePath)
+    if (written === undefined) return false
+    try {
+        const content = await fs.readFile(filePath, 'utf-8')
+        if (content === written) return true
+    } catch {
+        // Fall through: the file is gone or unreadable, treat it as external
+    }
+    selfWrites.delete(filePath)
+    return false
+}
+
+function handleAdd(filePath: string, stats: Stats | undefined, isDirectory: boolean): void {
+    if (stats) inodes.set(filePath, stats.ino)
+    if (!isReady) return
+
+    const pending = stats ? pendingUnlinks.get(stats.ino) : undefined
+    if (pending && pending.isDirectory === isDirectory) {
+        clearTimeout(pending.timer)
+        pendingUnlinks.delete(stats!.ino)
+        if (isSelfChange(pending.path) || isSelfChange(filePath)) return
+        enqueue({ type: 'rename', path: filePath, oldPath: pending.path, isDirectory })
+        return
+    }
+
+    if (isDirectory) {
+        if (!isSelfChange(filePath)) enqueue({ type: 'addDir', path: filePath })
+        return
+    }
+
+    isSelfWrite(filePath).then(isSelf => {
+        if (!isSelf && !isSelfChange(filePath)) enqueue({ type: 'add', path: filePath })
+    })
+}
+
+function handleUnlink(filePath: string, isDirectory: boolean): void {
+    const ino = inodes.get(filePath)
+    inodes.delete(filePath)
+    selfWrites.delete(filePath)
+
+    const report = () => {
+        if (!isSelfChange(filePath)) enqueue({ type: isDirectory ? 'unlinkDir' : 'unlink', path: filePath })
+    }
+
+    if (ino === undefined) {
+        report()
+        return
+    }
+
+    // Hold the unlink briefly in case the matching add arrives (rename/move)
+    pendingUnlinks.set(ino, {
+        path: filePath,
+        isDirectory,
+        timer: setTimeout(() => {
+            pendingUnlinks.delete(ino)
+            report()
+        }, RENAME_WINDOW_MS)
+    })
+}
+
+/**
+ * Start watching a vault (stops any previous watcher)
+ */
+export async function watchVault(vaultPath: string, onChanges: VaultChangeListener): Promise<void> {
+    await unwatchVault()
+
+    listener = onChanges
+    isReady = false
+
+    watcher = watch(vaultPath, {
+        // Skip hidden files and folders (.git, .obsidian, .trash, ...) below the vault root
+        ignored: (p: string) => path.relative(vaultPath, p).split(path.sep).some(part => part.startsWith('.')),
+        alwaysStat: true,
+        awaitWriteFinish: { stabilityThreshold: 150, pollInterval: 50 }
+    })
+
+    watcher
+        .on('add', (p, stats) => handleAdd(p, stats, false))
+        .on('addDir', (p, stats) => handleAdd(p, stats, true))
+        .on('change', (p, stats) => {
+            if (stats) inodes.set(p, stats.ino)
+            isSelfWrite(p).then(isSelf => {
+                if (!isSelf && !isSelfChange(p)) enqueue({ type: 'change', path: p })
+            })
+        })
+        .on('unlink', p => handleUnlink(p, false))
+        .on('unlinkDir', p => handleUnlink(p, true))
+        .on('ready', () => { isReady = true })
+        .on('error', error => console.error('Vault watcher error:', error))
+}
+
+/**
+ * Stop watching the current vault
+ */
+export async function unwatchVault(): Promise<void> {
+    if (watcher) {
+        await watcher.close()
+        watcher = null
+    }
+    pendingUnlinks.forEach(pending => clearTimeout(pending.timer))
+    pendingUnlinks.clear()
+    inodes.clear()
+    selfWrites.clear()
+    selfChanges.clear()
+    if (flushTimer) clearTimeout(flushTimer)
+    flushTimer = null
+    queue = []
+    listener = null
+}
+
+/**
+ * Record content the app is about to write so the resulting event is ignored
+ */
+export function recordSelfWrite(filePath: string, content: string): void {
+    selfWrites.set(filePath, content)
+}
+
+/**
+ * Record paths the app is about to delete or move so the resulting events are ignored
+ */
+export function recordSelfChange(...paths: string[]): void {
+    const expiresAt = Date.now() + SELF_CHANGE_TTL_MS
+    paths.forEach(p => selfChanges.set(p, expiresAt))
+}
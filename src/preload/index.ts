@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer, webUtils, webFrame } from 'electron'
-import type { FileNode } from '@shared/types'
+import type { FileNode, SearchResult, VaultChangeEvent, TrashEntry, FileSnapshot, ExportBundle, ExportResult, ImportSource, ImportWrite, AttachmentInfo } from '@shared/types'
 
 // Expose protected methods that allow the renderer process to use
 // ipcRenderer without exposing the entire object
@@ -17,11 +17,60 @@ const api = {
     openPdfDialog: (): Promise<string | null> =>
         ipcRenderer.invoke('dialog:open-pdf'),
 
+    openTableFileDialog: (): Promise<string | null> =>
+        ipcRenderer.invoke('dialog:open-table-file'),
+
+    openImportSourceDialog: (kind: 'folder' | 'zip' | 'html'): Promise<string[] | null> =>
+        ipcRenderer.invoke('dialog:open-import-source', kind),
+
+    exportFileDialog: (defaultName: string, content: string, filters: { name: string; extensions: string[] }[]): Promise<string | null> =>
+        ipcRenderer.invoke('dialog:export-file', defaultName, content, filters),
+
+    // Export (defaultName without extension; HTML goes into a new folder of that name)
+    exportHtml: (vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> =>
+        ipcRenderer.invoke('export:html', vaultPath, bundle, defaultName),
+
+    exportPdf: (vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> =>
+        ipcRenderer.invoke('export:pdf', vaultPath, bundle, defaultName),
+
+    exportZip: (vaultPath: string, bundle: ExportBundle, defaultName: string): Promise<ExportResult | null> =>
+        ipcRenderer.invoke('export:zip', vaultPath, bundle, defaultName),
+
+
+    // Import
+    scanImportSource: (sourcePath: string): Promise<ImportSource> =>
+        ipcRenderer.invoke('import:scan', sourcePath),
+
+    writeImportFiles: (writes: ImportWrite[]): Promise<Array<{ path: string; error: string }>> =>
+        ipcRenderer.invoke('import:write', writes),
+
+    cleanupImportSource: (source: ImportSource): Promise<void> =>
+        ipcRenderer.invoke('import:cleanup', source),
 
     // Vault operations
     readVaultTree: (vaultPath: string): Promise<FileNode[]> =>
         ipcRenderer.invoke('vault:read-tree', vaultPath),
 
+    // Vault watcher
+    watchVault: (vaultPath: string): Promise<void> =>
+        ipcRenderer.invoke('vault:watch', vaultPath),
+
+    unwatchVault: (): Promise<void> =>
+        ipcRenderer.invoke('vault:unwatch'),
+
+    onVaultChanges: (callback: (events: VaultChangeEvent[]) => void): (() => void) => {
+        const listener = (_: Electron.IpcRendererEvent, events: VaultChangeEvent[]) => callback(events)
+        ipcRenderer.on('vault:changes', listener)
+        return () => ipcRenderer.removeListener('vault:changes', listener)
+    },
+
+    // Search operations
+    buildSearchIndex: (vaultPath: string): Promise<void> =>
+        ipcRenderer.invoke('search:build-index', vaultPath),
+
+    searchVault: (vaultPath: string, query: string, limit?: number): Promise<SearchResult[]> =>
+        ipcRenderer.invoke('search:query', vaultPath, query, limit),
+
     // File operations
     readFile: (filePath: string): Promise<string> =>
         ipcRenderer.invoke('file:read', filePath),
@@ -35,6 +84,32 @@ const api = {
     deleteFile: (filePath: string): Promise<void> =>
         ipcRenderer.invoke('file:delete', filePath),
 
+    // Trash
+    trashItem: (itemPath: string, vaultPath: string): Promise<TrashEntry> =>
+        ipcRenderer.invoke('trash:move', itemPath, vaultPath),
+
+    listTrash: (vaultPath: string): Promise<TrashEntry[]> =>
+        ipcRenderer.invoke('trash:list', vaultPath),
+
+    restoreFromTrash: (vaultPath: string, id: string): Promise<string> =>
+        ipcRenderer.invoke('trash:restore', vaultPath, id),
+
+    emptyTrash: (vaultPath: string, id?: string): Promise<void> =>
+        ipcRenderer.invoke('trash:empty', vaultPath, id),
+
+    // File history
+    saveSnapshot: (vaultPath: string, filePath: string, content: string, previousContent?: string): Promise<void> =>
+        ipcRenderer.invoke('history:save', vaultPath, filePath, content, previousContent),
+
+    listSnapshots: (vaultPath: string, filePath: string): Promise<FileSnapshot[]> =>
+        ipcRenderer.invoke('history:list', vaultPath, filePath),
+
+    readSnapshot: (vaultPath: string, filePath: string, snapshotId: string): Promise<string> =>
+        ipcRenderer.invoke('history:read', vaultPath, filePath, snapshotId),
+
+    moveSnapshots: (vaultPath: string, oldPath: string, newPath: string): Promise<void> =>
+        ipcRenderer.invoke('history:move', vaultPath, oldPath, newPath),
+
     // Folder operations
     createFolder: (folderPath: string): Promise<void> =>
         ipcRenderer.invoke('folder:create', folderPath),
@@ -55,8 +130,12 @@ const api = {
         ipcRenderer.invoke('ai:process-youtube-url', apiKey, url),
 
     // Image operations
-    copyImageToVault: (sourcePath: string, vaultPath: string): Promise<string> =>
-        ipcRenderer.invoke('image:copy-to-vault', sourcePath, vaultPath),
+    copyImageToVault: (sourcePath: string, vaultPath: string, targetDir?: string): Promise<string> =>
+        ipcRenderer.invoke('image:copy-to-vault', sourcePath, vaultPath, targetDir),
+    saveImageToVault: (data: Uint8Array, fileName: string, vaultPath: string, targetDir?: string): Promise<string> =>
+        ipcRenderer.invoke('image:save-to-vault', data, fileName, vaultPath, targetDir),
+    listAttachments: (vaultPath: string): Promise<AttachmentInfo[]> =>
+        ipcRenderer.invoke('attachments:list', vaultPath),
 
     // MCP Operations
     mcpConnectServer: (config: {
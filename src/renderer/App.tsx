@@ -4,11 +4,16 @@ import { useVaultStore } from './stores/vaultStore'
 import { useAIStore } from './stores/aiStore'
 import { useEditorStore } from './stores/editorStore'
 import { useThemeStore } from './stores/themeStore'
+import { usePeriodicNoteStore } from './stores/periodicNoteStore'
+import { useAttachmentStore } from './stores/attachmentStore'
+import { useEmbeddingStore } from './stores/embeddingStore'
 import Sidebar from './components/Sidebar/Sidebar'
 // import TabBar from './components/TabBar/TabBar' // Removed global TabBar
 import EditorArea from './components/Editor/EditorArea'
 import AIPanel from './components/AIPanel/AIPanel'
 import WelcomeScreen from './components/WelcomeScreen'
+import LinkUpdateModal from './components/Sidebar/LinkUpdateModal'
+import TemplatePromptModal from './components/common/TemplatePromptModal'
 import './styles/components.css'
 
 export default function App() {
@@ -73,6 +78,23 @@ export default function App() {
                 useVaultStore.getState().toggleSidebar()
             }
 
+            // Cmd+Shift+F : Vault search
+            if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+                e.preventDefault()
+                useVaultStore.getState().setSidebarView('search')
+                requestAnimationFrame(() => {
+                    window.document.querySelector<HTMLInputElement>('.search-pane-input')?.focus()
+                })
+            }
+
+            // Cmd+Shift+D : Today's daily note
+            if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'd') {
+                e.preventDefault()
+                if (useVaultStore.getState().vaultPath) {
+                    usePeriodicNoteStore.getState().openPeriodicNote('daily')
+                }
+            }
+
             // Cmd+Shift+B : Open Browser Tab
             if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key === 'b') {
                 e.preventDefault()
@@ -91,6 +113,23 @@ export default function App() {
         }
     }, [])
 
+    // Watch the vault for external changes (git pull, sync tools, other editors)
+    useEffect(() => {
+        if (!vaultPath) return
+
+        window.api.watchVault(vaultPath).catch(error => console.error('Failed to watch vault:', error))
+        const unsubscribe = window.api.onVaultChanges(events => {
+            useVaultStore.getState().applyVaultChanges(events)
+            useAttachmentStore.getState().applyVaultChanges(events)
+            useEmbeddingStore.getState().applyVaultChanges(events)
+        })
+
+        return () => {
+            unsubscribe()
+            window.api.unwatchVault()
+        }
+    }, [vaultPath])
+
     const { openVault, toggleSidebar, isSidebarCollapsed } = useVaultStore()
 
     return (
@@ -125,6 +164,10 @@ export default function App() {
                 {/* AI Panel */}
                 {isPanelOpen && <AIPanel />}
             </div>
+
+            {/* Link update preview / undo after renaming or moving notes */}
+            {vaultPath && <LinkUpdateModal />}
+            <TemplatePromptModal />
         </div>
     )
 }
@@ -1,11 +1,18 @@
-import ReactMarkdown from 'react-markdown'
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import type { Components } from 'react-markdown'
+import { CitationChip } from './Citations'
+import { CITATION_URL_PREFIX, linkCitations } from '../../utils/citationUtils'
 
 interface AIMarkdownProps {
     content: string
 }
 
+// Citation links carry their target in a cite: URL, which the default transform would strip
+function urlTransform(url: string): string {
+    return url.startsWith(CITATION_URL_PREFIX) ? url : defaultUrlTransform(url)
+}
+
 export default function AIMarkdown({ content }: AIMarkdownProps) {
     const components: Components = {
         // Custom code block rendering
@@ -42,8 +49,11 @@ export default function AIMarkdown({ content }: AIMarkdownProps) {
                 </div>
             )
         },
-        // Custom link rendering
+        // Custom link rendering; [cite: ...] links become citation chips
         a({ href, children }) {
+            if (href?.startsWith(CITATION_URL_PREFIX)) {
+                return <CitationChip target={decodeURIComponent(href.slice(CITATION_URL_PREFIX.length))} />
+            }
             return (
                 <a
                     href={href}
@@ -120,8 +130,8 @@ export default function AIMarkdown({ content }: AIMarkdownProps) {
 
     return (
         <div className="ai-markdown">
-            <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
-                {content}
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} urlTransform={urlTransform}>
+                {linkCitations(content)}
             </ReactMarkdown>
         </div>
     )
@@ -1,35 +1,39 @@
 import { useState, useRef, useEffect } from 'react'
-import { Settings, X, FileText, Library, Send, ArrowRight, Zap, Sparkles, Plus, Check, Edit3, Trash2, File, Folder, History, MoreHorizontal, Paperclip, Globe, Square } from 'lucide-react'
+import { Settings, X, FileText, Library, Send, ArrowRight, Sparkles, Plus, Check, Edit3, Trash2, File, Folder, History, MoreHorizontal, Paperclip, Globe, Square, Layers } from 'lucide-react'
 import { useVaultStore } from '../../stores/vaultStore'
-import { useAIStore, type AIModel, type AIAttachment } from '../../stores/aiStore'
+import { useAIStore, type AIAttachment } from '../../stores/aiStore'
 import SessionHistoryModal from './SessionHistoryModal'
 import { useEditorStore, parseContentToBlocks } from '../../stores/editorStore'
-import { sendMessage } from '../../services/geminiService'
+import { sendMessage, buildContext } from '../../services/aiService'
+import type { BuiltContext, ContextOverride, ContextSectionId } from '../../services/contextBuilder'
+import type { AIAction } from '../../services/editTools'
+import { LLM_PROVIDERS, isProviderConfigured } from '../../services/llm'
 import SettingsModal from '../Settings/SettingsModal'
 import MentionDropdown, { type MentionedItem } from './MentionDropdown'
-import type { Block, BlockType, PendingDiff, Document } from '@shared/types'
+import type { Block, PendingDiff, Document } from '@shared/types'
 import { useDiffStore } from '../../stores/diffStore'
 import ReviewChangesModal from './ReviewChangesModal'
 import Button from '../common/Button'
 import { convertActionsToDiffs } from './diffHelpers'
+import { findBlock, updateBlockInTree, replaceBlockInTree, insertBlocksAfterInTree } from '../../utils/blockTreeUtils'
 import AIMarkdown from './AIMarkdown'
+import { UnresolvedCitations } from './Citations'
 import CompactDiffCard from './CompactDiffCard'
 import { useMultiFileDiff } from './useMultiFileDiff'
-
-const MODEL_OPTIONS: { value: AIModel; label: string; icon: React.ReactNode }[] = [
-    { value: 'gemini-3-flash-preview', label: 'Flash', icon: <Zap size={12} /> },
-    { value: 'gemini-3-pro-preview', label: 'Pro', icon: <Sparkles size={12} /> }
-]
-
-interface AIAction {
-    type: 'update' | 'insert' | 'delete' | 'create_file' | 'create_folder' | 'update_meta' | 'update_file'
-    id?: string
-    afterId?: string
-    content?: string
-    blockType?: BlockType
-    path?: string // For file/folder creation AND update_file
-    metaField?: 'title' | 'tags' | 'alwaysOn' // For metadata update
-    metaValue?: string | string[] | boolean // For metadata update
+import ContextInspector, { type ContextInspectorMode } from './ContextInspector'
+
+// Move and/or rename through the vault store, which keeps open tabs, history and links in step
+async function moveVaultItem(sourcePath: string, destPath: string): Promise<boolean> {
+    const { moveItem, renameItem } = useVaultStore.getState()
+    const getParent = (path: string) => path.slice(0, path.lastIndexOf('/'))
+    const getName = (path: string) => path.slice(path.lastIndexOf('/') + 1)
+
+    let currentPath = sourcePath
+    if (getParent(sourcePath) !== getParent(destPath)) {
+        if (!await moveItem(sourcePath, getParent(destPath))) return false
+        currentPath = `${getParent(destPath)}/${getName(sourcePath)}`
+    }
+    return getName(currentPath) === getName(destPath) || renameItem(currentPath, getName(destPath))
 }
 
 export default function AIPanel() {
@@ -41,9 +45,8 @@ export default function AIPanel() {
         addMessage,
         isLoading,
         setLoading,
-        apiKey,
-        selectedModel,
-        setSelectedModel,
+        providerSettings,
+        getEffectiveModel,
         panelWidth,
         setPanelWidth,
         truncateMessagesAfter,
@@ -63,6 +66,11 @@ export default function AIPanel() {
     // Get active document for use throughout the component
     const activeDocument = getActiveDocument()
 
+    // Provider and model for this chat (chat > vault > global)
+    const effectiveModel = getEffectiveModel()
+    const providerInfo = LLM_PROVIDERS[effectiveModel.provider]
+    const isProviderReady = isProviderConfigured(effectiveModel.provider, providerSettings[effectiveModel.provider])
+
     const [isResizing, setIsResizing] = useState(false)
     const resizeStartXRef = useRef<number | null>(null)
     const resizeStartWidthRef = useRef<number | null>(null)
@@ -143,6 +151,14 @@ export default function AIPanel() {
     }
     const [contextChips, setContextChips] = useState<ContextChip[]>([])
 
+    // Context inspector ("what the AI sees"): preview of the next message, or what was last sent
+    const [showInspector, setShowInspector] = useState(false)
+    const [inspectorMode, setInspectorMode] = useState<ContextInspectorMode>('next')
+    const [previewContext, setPreviewContext] = useState<BuiltContext | null>(null)
+    const [lastContext, setLastContext] = useState<BuiltContext | null>(null)
+    const [isBuildingContext, setIsBuildingContext] = useState(false)
+    const [contextOverrides, setContextOverrides] = useState<Partial<Record<ContextSectionId, ContextOverride>>>({})
+
     // Auto-add active document to context
     useEffect(() => {
         if (activeDocument) {
@@ -198,27 +214,61 @@ export default function AIPanel() {
     // Calculate total vault document count across all groups
     const vaultDocCount = editorGroups.reduce((acc, group) => acc + group.tabs.length, 0)
 
+    // Build user message with selected text context if present
+    const composeUserMessage = () => {
+        let userMessage = input.trim()
+        if (selectedTextContext) {
+            const contextPrefix = `[Selected Text]\n\`\`\`\n${selectedTextContext.text}\n\`\`\`\n\n`
+            userMessage = contextPrefix + userMessage
+        }
+        return userMessage
+    }
+
+    const refreshPreviewContext = async () => {
+        setIsBuildingContext(true)
+        try {
+            setPreviewContext(await buildContext(composeUserMessage(), getActiveDocument(), mentionedItems, contextOverrides))
+        } catch (error) {
+            console.error('Failed to build context preview:', error)
+        } finally {
+            setIsBuildingContext(false)
+        }
+    }
+
+    // Keep the preview in step with what would be sent (debounced while typing)
+    useEffect(() => {
+        if (!showInspector || inspectorMode !== 'next') return
+        const timer = setTimeout(refreshPreviewContext, 600)
+        return () => clearTimeout(timer)
+    }, [showInspector, inspectorMode, input, mentionedItems, contextOverrides, activeDocument?.filePath, selectedTextContext])
+
+    const handleOverrideChange = (id: ContextSectionId, override: ContextOverride | null) => {
+        setContextOverrides(prev => {
+            const next = { ...prev }
+            if (override) next[id] = override
+            else delete next[id]
+            return next
+        })
+    }
+
     const handleSubmit = async () => {
         if ((!input.trim() && pendingAttachments.length === 0 && mentionedItems.length === 0 && !selectedTextContext) || isLoading) return
 
-        if (!apiKey) {
+        if (!isProviderReady) {
             setShowSettings(true)
             return
         }
 
-        // Build user message with selected text context if present
-        let userMessage = input.trim()
-        if (selectedTextContext) {
-            const contextPrefix = `[Selected Text]\n\`\`\`\n${selectedTextContext.text}\n\`\`\`\n\n`
-            userMessage = contextPrefix + userMessage
-        }
+        const userMessage = composeUserMessage()
 
         const attachmentsToSend = [...pendingAttachments]
         const mentionsToSend = [...mentionedItems]
+        const overridesToSend = contextOverrides
 
         setInput('')
         setPendingAttachments([])
         setMentionedItems([])
+        setContextOverrides({})
         clearSelectedTextContext()
         setStreamingContent('')
 
@@ -240,15 +290,16 @@ export default function AIPanel() {
                 // Streaming callback
                 (chunk) => {
                     setStreamingContent(chunk)
-                }
+                },
+                overridesToSend,
+                setLastContext
             )
-            // Clear streaming content and add final message
+            // Clear streaming content and add final message (with its proposed edits)
             setStreamingContent('')
-            addMessage('assistant', response)
+            addMessage('assistant', response.text, undefined, response.actions)
         } catch (error) {
             setStreamingContent('')
             if (error instanceof Error && error.name === 'AbortError') {
-                console.log('Generation aborted by user')
                 // If there was streaming content, save it as partial response
                 if (streamingContent) {
                     addMessage('assistant', streamingContent + '\n\n*[Generation stopped]*')
@@ -452,7 +503,6 @@ export default function AIPanel() {
 
     // Dispatch Batch AI Actions (Transactional)
     const dispatchBatchActions = (actions: AIAction[], messageId?: string, skipDiffStore = false) => {
-        console.log('Dispatching Batch Actions:', actions)
         const activeDocument = getActiveDocument()
         const activeGroup = editorGroups.find(g => g.id === activeGroupId)
         const activeTabId = activeGroup?.activeTabId
@@ -482,14 +532,14 @@ export default function AIPanel() {
                 }
 
                 if (action.type === 'update' && action.id) {
-                    const oldBlock = activeDocument.blocks.find(b => b.block_id === action.id)
+                    const oldBlock = findBlock(activeDocument.blocks, action.id)
                     diff.oldContent = oldBlock?.content
                     diff.newContent = action.content
                 } else if (action.type === 'insert') {
                     diff.newContent = action.content
                     diff.blockType = action.blockType
                 } else if (action.type === 'delete' && action.id) {
-                    const oldBlock = activeDocument.blocks.find(b => b.block_id === action.id)
+                    const oldBlock = findBlock(activeDocument.blocks, action.id)
                     diff.oldContent = oldBlock?.content
                 }
 
@@ -498,64 +548,49 @@ export default function AIPanel() {
 
             // Store diffs in diffStore
             addDiffs(activeDocument.filePath, pendingDiffs)
-            console.log(`Stored ${pendingDiffs.length} diffs for visual review`)
         }
 
         // For non-document-edit actions: Apply immediately as before
-        let modifiedCount = 0
         for (const action of otherActions) {
             if (action.type === 'create_file' && action.path && action.content !== undefined) {
                 // Handle file creation
                 if (vaultPath) {
                     const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
                     window.api.createFile(fullPath, action.content)
-                        .then(() => {
-                            console.log(`Created file: ${fullPath}`)
-                            refreshTree()
-                        })
+                        .then(() => refreshTree())
                         .catch((err: any) => console.error(`Failed to create file: ${fullPath}`, err))
-                    modifiedCount++
                 }
             } else if (action.type === 'create_folder' && action.path) {
                 // Handle folder creation
                 if (vaultPath) {
                     const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
                     window.api.createFolder(fullPath)
-                        .then(() => {
-                            console.log(`Created folder: ${fullPath}`)
-                            refreshTree()
-                        })
+                        .then(() => refreshTree())
                         .catch((err: any) => console.error(`Failed to create folder: ${fullPath}`, err))
-                    modifiedCount++
                 }
             } else if (action.type === 'update_meta' && action.metaField && action.metaValue !== undefined && activeTabId) {
                 // Handle metadata update
                 const metaUpdates: Record<string, any> = {}
                 metaUpdates[action.metaField] = action.metaValue
                 updateDocumentMeta(activeTabId, metaUpdates)
-                modifiedCount++
-                console.log(`Updated metadata: ${action.metaField} = ${JSON.stringify(action.metaValue)}`)
             } else if (action.type === 'update_file' && action.path && action.content !== undefined) {
                 // Handle file update
                 if (vaultPath) {
                     const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
                     window.api.createFile(fullPath, action.content)
-                        .then(() => {
-                            console.log(`Updated file: ${fullPath}`)
-                            refreshTree()
-                        })
+                        .then(() => refreshTree())
                         .catch((err: any) => console.error(`Failed to update file: ${fullPath}`, err))
-                    modifiedCount++
+                }
+            } else if (action.type === 'move' && action.path && action.newPath) {
+                // Handle move / rename (the vault store then offers to update links)
+                if (vaultPath) {
+                    const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
+                    const destPath = action.newPath.startsWith('/') ? action.newPath : `${vaultPath}/${action.newPath}`
+                    moveVaultItem(fullPath, destPath)
+                        .then(moved => { if (!moved) console.error(`Failed to move: ${fullPath}`) })
                 }
             }
         }
-
-        if (documentEditActions.length > 0) {
-            console.log(`${documentEditActions.length} changes stored as diffs for review`)
-        }
-        if (modifiedCount > 0) {
-            console.log(`Applied ${modifiedCount} non-document changes immediately`)
-        }
     }
 
     // Apply all pending changes directly (for Apply All button)
@@ -569,35 +604,31 @@ export default function AIPanel() {
         let updatedBlocks = [...activeDocument.blocks]
 
         for (const action of actions) {
+            // Block IDs can be toggle children as well as top-level blocks
             if (action.type === 'update' && action.id && action.content !== undefined) {
-                const index = updatedBlocks.findIndex(b => b.block_id === action.id)
-                if (index !== -1) {
+                if (findBlock(updatedBlocks, action.id)) {
                     // Parse the content into blocks
                     const parsedBlocks = parseContentToBlocks(action.content)
                     if (parsedBlocks.length === 1) {
-                        updatedBlocks[index] = {
-                            ...updatedBlocks[index],
+                        updatedBlocks = updateBlockInTree(updatedBlocks, action.id, block => ({
+                            ...block,
                             content: parsedBlocks[0].content,
                             type: parsedBlocks[0].type
-                        }
+                        }))
                     } else {
-                        updatedBlocks.splice(index, 1, ...parsedBlocks)
+                        updatedBlocks = replaceBlockInTree(updatedBlocks, action.id, parsedBlocks)
                     }
                 }
             } else if (action.type === 'insert' && action.afterId && action.content !== undefined) {
-                const index = updatedBlocks.findIndex(b => b.block_id === action.afterId)
-                if (index !== -1) {
-                    // Parse the content into blocks
-                    const parsedBlocks = parseContentToBlocks(action.content)
-                    updatedBlocks.splice(index + 1, 0, ...parsedBlocks)
-                }
+                // Parse the content into blocks
+                const parsedBlocks = parseContentToBlocks(action.content)
+                updatedBlocks = insertBlocksAfterInTree(updatedBlocks, action.afterId, parsedBlocks)
             } else if (action.type === 'delete' && action.id) {
-                updatedBlocks = updatedBlocks.filter(b => b.block_id !== action.id)
+                updatedBlocks = replaceBlockInTree(updatedBlocks, action.id, [])
             }
         }
 
         updateDocument(activeTabId, updatedBlocks)
-        console.log('Applied all changes directly')
     }
 
     // Handle Undo - restore snapshot and truncate messages
@@ -636,8 +667,6 @@ export default function AIPanel() {
             newMap.delete(snapshotKey)
             return newMap
         })
-
-        console.log('Undo completed')
     }
 
     // Check if a message has been applied (has a snapshot)
@@ -752,6 +781,339 @@ export default function AIPanel() {
         return <>{parts}</>
     }
 
+    // Suggested edits of one answer: the multi-file card, or each change with Review / Apply All
+    const renderActionCard = (actions: AIAction[], messageId: string, key: React.Key) => {
+        // Group actions by file path to count unique files
+        const fileActionGroups = new Map<string, AIAction[]>()
+
+        for (const action of actions) {
+            if ((action.type === 'update_file' || action.type === 'create_file') && action.path) {
+                if (!fileActionGroups.has(action.path)) {
+                    fileActionGroups.set(action.path, [])
+                }
+                fileActionGroups.get(action.path)!.push(action)
+            }
+        }
+
+        // Check if this is a multi-file update scenario (2+ unique files)
+        const isMultiFileUpdate = fileActionGroups.size >= 2
+
+        // If 2+ files, use CompactDiffCard
+        if (isMultiFileUpdate) {
+            const fileSummaries: { filePath: string; fileName: string; deletions: number; additions: number; status: 'modified' | 'created' | 'deleted' | 'error' }[] = []
+
+            for (const [path, fileActions] of fileActionGroups.entries()) {
+                const fileName = path.split('/').pop() || path
+                const hasCreate = fileActions.some(a => a.type === 'create_file')
+
+                fileSummaries.push({
+                    filePath: path,
+                    fileName,
+                    deletions: 0,
+                    additions: 1,
+                    status: hasCreate ? 'created' : 'modified'
+                })
+            }
+
+            // Handler to apply multi-file actions
+            const handleApplyMultiFile = () => {
+                for (const action of actions) {
+                    if ((action.type === 'update_file' || action.type === 'create_file') && action.path && action.content !== undefined) {
+                        const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
+                        window.api.createFile(fullPath, action.content)
+                            .then(() => refreshTree())
+                            .catch((err: any) => console.error(`Failed to apply file: ${fullPath}`, err))
+                    }
+                }
+                // Block edits go to review; folders, moves and metadata are applied
+                dispatchBatchActions(actions.filter(a => a.type !== 'update_file' && a.type !== 'create_file'), messageId)
+            }
+
+            // Custom file click handler that opens file and stores block-level diffs
+            const handleMultiFileClick = async (filePath: string) => {
+                const action = actions.find(a => a.path === filePath)
+                const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
+
+                // Open the file first
+                await handleFileClick(filePath)
+
+                // If we have new content, parse it and create block-level diffs
+                if (action && action.content !== undefined) {
+                    // Wait a bit for the file to load in editor
+                    setTimeout(() => {
+                        const { editorGroups } = useEditorStore.getState()
+                        // Find the tab with this file
+                        let currentDoc: Document | null = null
+                        for (const group of editorGroups) {
+                            const tab = group.tabs.find(t => t.filePath === fullPath)
+                            if (tab?.document) {
+                                currentDoc = tab.document
+                                break
+                            }
+                        }
+
+                        if (currentDoc && currentDoc.blocks.length > 0) {
+                            // Parse new content to blocks
+                            const newBlocks = parseContentToBlocks(action.content!)
+                            const diffs: PendingDiff[] = []
+
+                            // Create proper block-level diffs by comparing
+                            const oldBlocks = currentDoc.blocks
+                            const maxLen = Math.max(oldBlocks.length, newBlocks.length)
+
+                            for (let i = 0; i < maxLen; i++) {
+                                const oldBlock = oldBlocks[i]
+                                const newBlock = newBlocks[i]
+
+                                if (oldBlock && newBlock) {
+                                    // Both exist - create update diff if content differs
+                                    if (oldBlock.content !== newBlock.content) {
+                                        diffs.push({
+                                            id: crypto.randomUUID(),
+                                            blockId: oldBlock.block_id,
+                                            type: 'update',
+                                            status: 'pending',
+                                            oldContent: oldBlock.content,
+                                            newContent: newBlock.content
+                                        })
+                                    }
+                                } else if (!oldBlock && newBlock) {
+                                    // New block - create insert diff
+                                    // Insert after the last old block, with insertIndex for ordering
+                                    const afterBlockId = oldBlocks[oldBlocks.length - 1]?.block_id || '__document_start__'
+                                    diffs.push({
+                                        id: crypto.randomUUID(),
+                                        blockId: afterBlockId,
+                                        type: 'insert',
+                                        status: 'pending',
+                                        newContent: newBlock.content,
+                                        blockType: newBlock.type,
+                                        insertIndex: i - oldBlocks.length // 0, 1, 2... for ordering multiple inserts
+                                    })
+                                } else if (oldBlock && !newBlock) {
+                                    // Old block deleted
+                                    diffs.push({
+                                        id: crypto.randomUUID(),
+                                        blockId: oldBlock.block_id,
+                                        type: 'delete',
+                                        status: 'pending',
+                                        oldContent: oldBlock.content
+                                    })
+                                }
+                            }
+
+                            if (diffs.length > 0) {
+                                addDiffs(fullPath, diffs)
+                            }
+                        }
+                    }, 500) // Wait for document to load
+                }
+            }
+
+            return (
+                <div key={key} className="ai-action-card">
+                    <CompactDiffCard
+                        fileSummaries={fileSummaries}
+                        onFileClick={handleMultiFileClick}
+                        onApplyFile={(filePath) => {
+                            const action = actions.find(a => a.path === filePath)
+                            if (action && action.content !== undefined) {
+                                const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
+                                window.api.createFile(fullPath, action.content)
+                                    .then(() => {
+                                        clearDiffsForFile(fullPath) // Clear diff after applying
+                                        refreshTree()
+                                    })
+                                    .catch((err: any) => console.error(`Failed to apply file: ${fullPath}`, err))
+                            }
+                        }}
+                        onRejectFile={(filePath) => {
+                            const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
+                            clearDiffsForFile(fullPath)
+                        }}
+                        onApplyAll={handleApplyMultiFile}
+                        onRejectAll={() => {
+                            // Clear all diffs for these files
+                            for (const summary of fileSummaries) {
+                                const fullPath = summary.filePath.startsWith('/') ? summary.filePath : `${vaultPath}/${summary.filePath}`
+                                clearDiffsForFile(fullPath)
+                            }
+                        }}
+                        isApplied={hasSnapshot(messageId)}
+                        onUndo={hasSnapshot(messageId) ? () => handleUndo(messageId) : undefined}
+                    />
+                </div>
+            )
+        } else {
+            // Single-document edit scenario - use verbose display
+            return (
+                <div key={key} className="ai-action-card">
+                    <div className="ai-action-header">
+                        <span>Suggested Changes ({actions.length})</span>
+                    </div>
+                    <div className="ai-action-content">
+                        {actions.map((action, i) => {
+                            // Handle File/Folder Creation
+                            if (action.type === 'create_file' || action.type === 'create_folder') {
+                                return (
+                                    <div key={i} className={`ai-diff-item ${action.type}`}>
+                                        <div className="ai-diff-header">
+                                            {action.type === 'create_file' ? <File size={12} /> : <Folder size={12} />}
+                                            <span className="ai-diff-type">{action.type.replace('_', ' ').toUpperCase()}</span>
+                                        </div>
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-new" style={{ fontWeight: 600 }}>{action.path}</div>
+                                            {action.type === 'create_file' && (
+                                                <div className="ai-diff-new" style={{ fontSize: '10px', opacity: 0.8 }}>
+                                                    {action.content?.slice(0, 100)}
+                                                    {(action.content?.length || 0) > 100 ? '...' : ''}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                )
+                            }
+
+                            // Handle Moves / Renames
+                            if (action.type === 'move') {
+                                return (
+                                    <div key={i} className="ai-diff-item move">
+                                        <div className="ai-diff-header">
+                                            <ArrowRight size={12} />
+                                            <span className="ai-diff-type">MOVE</span>
+                                        </div>
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-old">{action.path}</div>
+                                            <div className="ai-diff-new" style={{ fontWeight: 600 }}>{action.newPath}</div>
+                                        </div>
+                                    </div>
+                                )
+                            }
+
+                            // Handle Metadata Updates
+                            if (action.type === 'update_meta') {
+                                return (
+                                    <div key={i} className="ai-diff-item update_meta">
+                                        <div className="ai-diff-header">
+                                            <Settings size={12} />
+                                            <span className="ai-diff-type">UPDATE META</span>
+                                        </div>
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-new">
+                                                <strong>{action.metaField}</strong>: {JSON.stringify(action.metaValue)}
+                                            </div>
+                                        </div>
+                                    </div>
+                                )
+                            }
+
+                            // Handle File Updates (modify existing files by path)
+                            if (action.type === 'update_file') {
+                                return (
+                                    <div key={i} className="ai-diff-item update_file">
+                                        <div className="ai-diff-header">
+                                            <Edit3 size={12} />
+                                            <span className="ai-diff-type">UPDATE FILE</span>
+                                        </div>
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-new" style={{ fontWeight: 600 }}>{action.path}</div>
+                                            <div className="ai-diff-new" style={{ fontSize: '10px', opacity: 0.8, maxHeight: 80, overflow: 'hidden' }}>
+                                                {action.content?.slice(0, 200)}
+                                                {(action.content?.length || 0) > 200 ? '...' : ''}
+                                            </div>
+                                        </div>
+                                    </div>
+                                )
+                            }
+
+                            // Handle Document Edits (Update, Insert, Delete)
+                            const oldBlock = (activeDocument && action.id ? findBlock(activeDocument.blocks, action.id) : undefined)
+
+                            return (
+                                <div key={i} className={`ai-diff-item ${action.type}`}>
+                                    <div className="ai-diff-header">
+                                        {action.type === 'update' && <Edit3 size={12} />}
+                                        {action.type === 'insert' && <Plus size={12} />}
+                                        {action.type === 'delete' && <Trash2 size={12} />}
+                                        <span className="ai-diff-type">{action.type.toUpperCase()}</span>
+                                        {action.type === 'update' && <span className="ai-diff-id">ID: {action.id?.slice(0, 8)}...</span>}
+                                    </div>
+
+                                    {action.type === 'update' && (
+                                        <div className="ai-diff-body">
+                                            {oldBlock && (
+                                                <div className="ai-diff-old">
+                                                    {oldBlock.content.length > 50 ? oldBlock.content.slice(0, 50) + '...' : oldBlock.content}
+                                                </div>
+                                            )}
+
+                                            <div className="ai-diff-new">{action.content}</div>
+                                        </div>
+                                    )}
+
+                                    {action.type === 'insert' && (
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-new">{action.content}</div>
+                                        </div>
+                                    )}
+
+                                    {action.type === 'delete' && oldBlock && (
+                                        <div className="ai-diff-body">
+                                            <div className="ai-diff-old" style={{ textDecoration: 'line-through' }}>
+                                                {oldBlock.content}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )
+                        })}
+                    </div>
+                    <div className="ai-action-footer">
+                        {hasSnapshot(messageId) ? (
+                            <button
+                                className="ai-action-undo-btn"
+                                onClick={() => handleUndo(messageId)}
+                            >
+                                ↩ Undo Changes
+                            </button>
+                        ) : (
+                            <div className="ai-action-group">
+                                <Button
+                                    variant="default"
+                                    onClick={() => {
+                                        const diffsToReview = convertActionsToDiffs(actions, activeDocument)
+                                        if (activeDocument) {
+                                            // Add diffs to store - editor will render inline
+                                            addDiffs(activeDocument.filePath, diffsToReview)
+                                        }
+                                        // No modal - diffs will be shown inline in editor
+                                    }}
+                                    style={{ flex: 1 }}
+                                >
+                                    Review Changes
+                                </Button>
+                                <Button
+                                    variant="primary"
+                                    onClick={() => {
+                                        applyAllDiffs(actions)
+                                        // Clear any pending diffs for this file to prevent duplicates
+                                        if (activeDocument) {
+                                            clearDiffsForFile(activeDocument.filePath)
+                                        }
+                                        dispatchBatchActions(actions, messageId, true) // skipDiffStore=true for Apply All
+                                    }}
+                                    style={{ flex: 1 }}
+                                >
+                                    <Check size={12} /> Apply All
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div >
+            )
+        } // End of if/else for hasMultiFileUpdates
+    }
+
     // Render markdown code blocks with copy and apply buttons
     const renderMessage = (content: string, messageId: string) => {
         // Updated regex to catch batch-action
@@ -771,7 +1133,7 @@ export default function AIPanel() {
             const language = match[1] || 'text'
             const code = match[2]
 
-            // Handle Batch AI Action Blocks
+            // Handle Batch AI Action Blocks (answers from before edit tools, or prompts that still ask for them)
             if (language === 'json:batch-action') {
                 let actions: AIAction[] = []
                 let parseError: string | null = null
@@ -843,323 +1205,7 @@ export default function AIPanel() {
                 }
 
                 if (actions.length > 0) {
-                    // Group actions by file path to count unique files
-                    const fileActionGroups = new Map<string, AIAction[]>()
-
-                    for (const action of actions) {
-                        if ((action.type === 'update_file' || action.type === 'create_file') && action.path) {
-                            if (!fileActionGroups.has(action.path)) {
-                                fileActionGroups.set(action.path, [])
-                            }
-                            fileActionGroups.get(action.path)!.push(action)
-                        }
-                    }
-
-                    // Check if this is a multi-file update scenario (2+ unique files)
-                    const isMultiFileUpdate = fileActionGroups.size >= 2
-
-                    // If 2+ files, use CompactDiffCard
-                    if (isMultiFileUpdate) {
-                        const fileSummaries: { filePath: string; fileName: string; deletions: number; additions: number; status: 'modified' | 'created' | 'deleted' | 'error' }[] = []
-
-                        for (const [path, fileActions] of fileActionGroups.entries()) {
-                            const fileName = path.split('/').pop() || path
-                            const hasCreate = fileActions.some(a => a.type === 'create_file')
-
-                            fileSummaries.push({
-                                filePath: path,
-                                fileName,
-                                deletions: 0,
-                                additions: 1,
-                                status: hasCreate ? 'created' : 'modified'
-                            })
-                        }
-
-                        // Handler to apply multi-file actions
-                        const handleApplyMultiFile = () => {
-                            for (const action of actions) {
-                                if ((action.type === 'update_file' || action.type === 'create_file') && action.path && action.content !== undefined) {
-                                    const fullPath = action.path.startsWith('/') ? action.path : `${vaultPath}/${action.path}`
-                                    window.api.createFile(fullPath, action.content)
-                                        .then(() => {
-                                            console.log(`Applied file: ${fullPath}`)
-                                            refreshTree()
-                                        })
-                                        .catch((err: any) => console.error(`Failed to apply file: ${fullPath}`, err))
-                                }
-                            }
-                        }
-
-                        // Custom file click handler that opens file and stores block-level diffs
-                        const handleMultiFileClick = async (filePath: string) => {
-                            const action = actions.find(a => a.path === filePath)
-                            const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
-
-                            // Open the file first
-                            await handleFileClick(filePath)
-
-                            // If we have new content, parse it and create block-level diffs
-                            if (action && action.content !== undefined) {
-                                // Wait a bit for the file to load in editor
-                                setTimeout(() => {
-                                    const { editorGroups } = useEditorStore.getState()
-                                    // Find the tab with this file
-                                    let currentDoc: Document | null = null
-                                    for (const group of editorGroups) {
-                                        const tab = group.tabs.find(t => t.filePath === fullPath)
-                                        if (tab?.document) {
-                                            currentDoc = tab.document
-                                            break
-                                        }
-                                    }
-
-                                    if (currentDoc && currentDoc.blocks.length > 0) {
-                                        // Parse new content to blocks
-                                        const newBlocks = parseContentToBlocks(action.content!)
-                                        const diffs: PendingDiff[] = []
-
-                                        // Create proper block-level diffs by comparing
-                                        const oldBlocks = currentDoc.blocks
-                                        const maxLen = Math.max(oldBlocks.length, newBlocks.length)
-
-                                        for (let i = 0; i < maxLen; i++) {
-                                            const oldBlock = oldBlocks[i]
-                                            const newBlock = newBlocks[i]
-
-                                            if (oldBlock && newBlock) {
-                                                // Both exist - create update diff if content differs
-                                                if (oldBlock.content !== newBlock.content) {
-                                                    diffs.push({
-                                                        id: crypto.randomUUID(),
-                                                        blockId: oldBlock.block_id,
-                                                        type: 'update',
-                                                        status: 'pending',
-                                                        oldContent: oldBlock.content,
-                                                        newContent: newBlock.content
-                                                    })
-                                                }
-                                            } else if (!oldBlock && newBlock) {
-                                                // New block - create insert diff
-                                                // Insert after the last old block, with insertIndex for ordering
-                                                const afterBlockId = oldBlocks[oldBlocks.length - 1]?.block_id || '__document_start__'
-                                                diffs.push({
-                                                    id: crypto.randomUUID(),
-                                                    blockId: afterBlockId,
-                                                    type: 'insert',
-                                                    status: 'pending',
-                                                    newContent: newBlock.content,
-                                                    blockType: newBlock.type,
-                                                    insertIndex: i - oldBlocks.length // 0, 1, 2... for ordering multiple inserts
-                                                })
-                                            } else if (oldBlock && !newBlock) {
-                                                // Old block deleted
-                                                diffs.push({
-                                                    id: crypto.randomUUID(),
-                                                    blockId: oldBlock.block_id,
-                                                    type: 'delete',
-                                                    status: 'pending',
-                                                    oldContent: oldBlock.content
-                                                })
-                                            }
-                                        }
-
-                                        if (diffs.length > 0) {
-                                            addDiffs(fullPath, diffs)
-                                        }
-                                    }
-                                }, 500) // Wait for document to load
-                            }
-                        }
-
-                        parts.push(
-                            <div key={match.index} className="ai-action-card">
-                                <CompactDiffCard
-                                    fileSummaries={fileSummaries}
-                                    onFileClick={handleMultiFileClick}
-                                    onApplyFile={(filePath) => {
-                                        const action = actions.find(a => a.path === filePath)
-                                        if (action && action.content !== undefined) {
-                                            const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
-                                            window.api.createFile(fullPath, action.content)
-                                                .then(() => {
-                                                    console.log(`Applied file: ${fullPath}`)
-                                                    clearDiffsForFile(fullPath) // Clear diff after applying
-                                                    refreshTree()
-                                                })
-                                                .catch((err: any) => console.error(`Failed to apply file: ${fullPath}`, err))
-                                        }
-                                    }}
-                                    onRejectFile={(filePath) => {
-                                        const fullPath = filePath.startsWith('/') ? filePath : `${vaultPath}/${filePath}`
-                                        clearDiffsForFile(fullPath)
-                                    }}
-                                    onApplyAll={handleApplyMultiFile}
-                                    onRejectAll={() => {
-                                        // Clear all diffs for these files
-                                        for (const summary of fileSummaries) {
-                                            const fullPath = summary.filePath.startsWith('/') ? summary.filePath : `${vaultPath}/${summary.filePath}`
-                                            clearDiffsForFile(fullPath)
-                                        }
-                                    }}
-                                    isApplied={hasSnapshot(messageId)}
-                                    onUndo={hasSnapshot(messageId) ? () => handleUndo(messageId) : undefined}
-                                />
-                            </div>
-                        )
-                    } else {
-                        // Single-document edit scenario - use verbose display
-                        parts.push(
-                            <div key={match.index} className="ai-action-card">
-                                <div className="ai-action-header">
-                                    <span>Suggested Changes ({actions.length})</span>
-                                </div>
-                                <div className="ai-action-content">
-                                    {actions.map((action, i) => {
-                                        // Handle File/Folder Creation
-                                        if (action.type === 'create_file' || action.type === 'create_folder') {
-                                            return (
-                                                <div key={i} className={`ai-diff-item ${action.type}`}>
-                                                    <div className="ai-diff-header">
-                                                        {action.type === 'create_file' ? <File size={12} /> : <Folder size={12} />}
-                                                        <span className="ai-diff-type">{action.type.replace('_', ' ').toUpperCase()}</span>
-                                                    </div>
-                                                    <div className="ai-diff-body">
-                                                        <div className="ai-diff-new" style={{ fontWeight: 600 }}>{action.path}</div>
-                                                        {action.type === 'create_file' && (
-                                                            <div className="ai-diff-new" style={{ fontSize: '10px', opacity: 0.8 }}>
-                                                                {action.content?.slice(0, 100)}
-                                                                {(action.content?.length || 0) > 100 ? '...' : ''}
-                                                            </div>
-                                                        )}
-                                                    </div>
-                                                </div>
-                                            )
-                                        }
-
-                                        // Handle Metadata Updates
-                                        if (action.type === 'update_meta') {
-                                            return (
-                                                <div key={i} className="ai-diff-item update_meta">
-                                                    <div className="ai-diff-header">
-                                                        <Settings size={12} />
-                                                        <span className="ai-diff-type">UPDATE META</span>
-                                                    </div>
-                                                    <div className="ai-diff-body">
-                                                        <div className="ai-diff-new">
-                                                            <strong>{action.metaField}</strong>: {JSON.stringify(action.metaValue)}
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            )
-                                        }
-
-                                        // Handle File Updates (modify existing files by path)
-                                        if (action.type === 'update_file') {
-                                            return (
-                                                <div key={i} className="ai-diff-item update_file">
-                                                    <div className="ai-diff-header">
-                                                        <Edit3 size={12} />
-                                                        <span className="ai-diff-type">UPDATE FILE</span>
-                                                    </div>
-                                                    <div className="ai-diff-body">
-                                                        <div className="ai-diff-new" style={{ fontWeight: 600 }}>{action.path}</div>
-                                                        <div className="ai-diff-new" style={{ fontSize: '10px', opacity: 0.8, maxHeight: 80, overflow: 'hidden' }}>
-                                                            {action.content?.slice(0, 200)}
-                                                            {(action.content?.length || 0) > 200 ? '...' : ''}
-                                                        </div>
-                                                    </div>
-                                                </div>
-                                            )
-                                        }
-
-                                        // Handle Document Edits (Update, Insert, Delete)
-                                        const oldBlock = activeDocument?.blocks.find(b => b.block_id === action.id)
-
-                                        return (
-                                            <div key={i} className={`ai-diff-item ${action.type}`}>
-                                                <div className="ai-diff-header">
-                                                    {action.type === 'update' && <Edit3 size={12} />}
-                                                    {action.type === 'insert' && <Plus size={12} />}
-                                                    {action.type === 'delete' && <Trash2 size={12} />}
-                                                    <span className="ai-diff-type">{action.type.toUpperCase()}</span>
-                                                    {action.type === 'update' && <span className="ai-diff-id">ID: {action.id?.slice(0, 8)}...</span>}
-                                                </div>
-
-                                                {action.type === 'update' && (
-                                                    <div className="ai-diff-body">
-                                                        {oldBlock && (
-                                                            <div className="ai-diff-old">
-                                                                {oldBlock.content.length > 50 ? oldBlock.content.slice(0, 50) + '...' : oldBlock.content}
-                                                            </div>
-                                                        )}
-
-                                                        <div className="ai-diff-new">{action.content}</div>
-                                                    </div>
-                                                )}
-
-                                                {action.type === 'insert' && (
-                                                    <div className="ai-diff-body">
-                                                        <div className="ai-diff-new">{action.content}</div>
-                                                    </div>
-                                                )}
-
-                                                {action.type === 'delete' && oldBlock && (
-                                                    <div className="ai-diff-body">
-                                                        <div className="ai-diff-old" style={{ textDecoration: 'line-through' }}>
-                                                            {oldBlock.content}
-                                                        </div>
-                                                    </div>
-                                                )}
-                                            </div>
-                                        )
-                                    })}
-                                </div>
-                                <div className="ai-action-footer">
-                                    {hasSnapshot(messageId) ? (
-                                        <button
-                                            className="ai-action-undo-btn"
-                                            onClick={() => handleUndo(messageId)}
-                                        >
-                                            ↩ Undo Changes
-                                        </button>
-                                    ) : (
-                                        <div className="ai-action-group">
-                                            <Button
-                                                variant="default"
-                                                onClick={() => {
-                                                    const diffsToReview = convertActionsToDiffs(actions, activeDocument)
-                                                    console.log('Review Changes clicked - adding inline diffs', { actions, diffsToReview })
-
-                                                    if (activeDocument) {
-                                                        // Add diffs to store - editor will render inline
-                                                        addDiffs(activeDocument.filePath, diffsToReview)
-                                                    }
-                                                    // No modal - diffs will be shown inline in editor
-                                                }}
-                                                style={{ flex: 1 }}
-                                            >
-                                                Review Changes
-                                            </Button>
-                                            <Button
-                                                variant="primary"
-                                                onClick={() => {
-                                                    applyAllDiffs(actions)
-                                                    // Clear any pending diffs for this file to prevent duplicates
-                                                    if (activeDocument) {
-                                                        clearDiffsForFile(activeDocument.filePath)
-                                                    }
-                                                    dispatchBatchActions(actions, messageId, true) // skipDiffStore=true for Apply All
-                                                }}
-                                                style={{ flex: 1 }}
-                                            >
-                                                <Check size={12} /> Apply All
-                                            </Button>
-                                        </div>
-                                    )}
-                                </div>
-                            </div >
-                        )
-                    } // End of if/else for hasMultiFileUpdates
+                    parts.push(renderActionCard(actions, messageId, match.index))
                 } else {
                     // Parse failed - show raw JSON as copyable code block
                     parts.push(
@@ -1350,6 +1396,8 @@ export default function AIPanel() {
                                 {message.role === 'assistant'
                                     ? renderMessageWithThinking(message.content, message.id, false)
                                     : message.content}
+                                {message.actions && renderActionCard(message.actions, message.id, 'actions')}
+                                {message.role === 'assistant' && <UnresolvedCitations content={message.content} />}
                             </div>
                         </div>
                     ))}
@@ -1377,7 +1425,7 @@ export default function AIPanel() {
 
                 {/* Input Area */}
                 <div className="ai-input-area">
-                    {!apiKey && (
+                    {!isProviderReady && (
                         <div
                             style={{
                                 marginBottom: 8,
@@ -1390,10 +1438,25 @@ export default function AIPanel() {
                             }}
                             onClick={() => setShowSettings(true)}
                         >
-                            ⚠️ Set your Gemini API key to start chatting
+                            ⚠️ Set your {providerInfo.label} API key to start chatting
                         </div>
                     )}
 
+                    {/* Context Inspector */}
+                    {showInspector && (
+                        <ContextInspector
+                            mode={inspectorMode}
+                            onModeChange={setInspectorMode}
+                            context={inspectorMode === 'next' ? previewContext : lastContext}
+                            isBuilding={isBuildingContext}
+                            hasLastContext={!!lastContext}
+                            overrides={contextOverrides}
+                            onOverrideChange={handleOverrideChange}
+                            onRefresh={refreshPreviewContext}
+                            onClose={() => setShowInspector(false)}
+                        />
+                    )}
+
                     {/* Pending Attachments Preview */}
                     {pendingAttachments.length > 0 && (
                         <div className="pending-attachments" style={{ marginBottom: 8 }}>
@@ -1589,28 +1652,47 @@ export default function AIPanel() {
                                 >
                                     <Plus size={16} />
                                 </button>
-                                <div style={{ width: 1, height: 16, background: 'var(--color-divider)', margin: '0 4px' }} />
-                                {/* Web Search Toggle */}
                                 <button
-                                    onClick={() => setWebSearchEnabled(!webSearchEnabled)}
-                                    title={webSearchEnabled ? 'Web Search Enabled' : 'Enable Web Search'}
+                                    className="ai-toolbar-btn"
+                                    onClick={() => setShowInspector(!showInspector)}
+                                    title="What the AI sees"
                                     style={{
-                                        display: 'flex',
-                                        alignItems: 'center',
-                                        justifyContent: 'center',
                                         padding: 4,
-                                        borderRadius: 4,
+                                        color: showInspector || Object.keys(contextOverrides).length > 0 ? 'var(--color-accent)' : 'var(--color-text-tertiary)',
+                                        background: showInspector ? 'var(--color-accent-alpha)' : 'transparent',
                                         border: 'none',
-                                        cursor: 'pointer',
-                                        background: webSearchEnabled ? 'var(--color-accent-alpha)' : 'transparent',
-                                        color: webSearchEnabled ? 'var(--color-accent)' : 'var(--color-text-tertiary)',
-                                        transition: 'all 0.2s'
+                                        borderRadius: 4,
+                                        cursor: 'pointer'
                                     }}
                                 >
-                                    <Globe size={16} />
+                                    <Layers size={16} />
                                 </button>
                                 <div style={{ width: 1, height: 16, background: 'var(--color-divider)', margin: '0 4px' }} />
-                                {/* Simple Model Selector Trigger (Dropdown logic can be added later or simple toggle) */}
+                                {/* Web Search Toggle (only providers with search grounding) */}
+                                {providerInfo.webSearch && (
+                                    <>
+                                        <button
+                                            onClick={() => setWebSearchEnabled(!webSearchEnabled)}
+                                            title={webSearchEnabled ? 'Web Search Enabled' : 'Enable Web Search'}
+                                            style={{
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                justifyContent: 'center',
+                                                padding: 4,
+                                                borderRadius: 4,
+                                                border: 'none',
+                                                cursor: 'pointer',
+                                                background: webSearchEnabled ? 'var(--color-accent-alpha)' : 'transparent',
+                                                color: webSearchEnabled ? 'var(--color-accent)' : 'var(--color-text-tertiary)',
+                                                transition: 'all 0.2s'
+                                            }}
+                                        >
+                                            <Globe size={16} />
+                                        </button>
+                                        <div style={{ width: 1, height: 16, background: 'var(--color-divider)', margin: '0 4px' }} />
+                                    </>
+                                )}
+                                {/* Model in use; chosen per chat or per vault in settings */}
                                 <div
                                     className="ai-model-trigger"
                                     style={{
@@ -1621,17 +1703,13 @@ export default function AIPanel() {
                                         color: 'var(--color-text-secondary)',
                                         cursor: 'pointer',
                                         padding: '4px 8px',
-                                        borderRadius: 4,
-                                        // user might want a dropdown, for now specific selection logic is simplified or cycles
-                                    }}
-                                    onClick={() => {
-                                        // Cycle models for now or open a simple menu
-                                        const nextModel = selectedModel === 'gemini-3-flash-preview' ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview'
-                                        setSelectedModel(nextModel)
+                                        borderRadius: 4
                                     }}
+                                    onClick={() => setShowSettings(true)}
+                                    title={`${providerInfo.label} · ${effectiveModel.model}`}
                                 >
-                                    {selectedModel === 'gemini-3-flash-preview' ? <Zap size={14} /> : <Sparkles size={14} />}
-                                    <span>{selectedModel === 'gemini-3-flash-preview' ? 'Gemini 3 Flash' : 'Gemini 3 Pro'}</span>
+                                    <Sparkles size={14} />
+                                    <span>{effectiveModel.model}</span>
                                 </div>
                             </div>
 
@@ -1681,31 +1759,27 @@ export default function AIPanel() {
                                 let updatedBlocks = [...activeDocument.blocks]
 
                                 if (diff.type === 'update' && diff.blockId && diff.newContent !== undefined) {
-                                    const index = updatedBlocks.findIndex(b => b.block_id === diff.blockId)
-                                    if (index !== -1) {
+                                    if (findBlock(updatedBlocks, diff.blockId)) {
                                         // Parse the new content into blocks
                                         const parsedBlocks = parseContentToBlocks(diff.newContent)
                                         if (parsedBlocks.length === 1) {
                                             // Single block: just update content
-                                            updatedBlocks[index] = {
-                                                ...updatedBlocks[index],
+                                            updatedBlocks = updateBlockInTree(updatedBlocks, diff.blockId, block => ({
+                                                ...block,
                                                 content: parsedBlocks[0].content,
                                                 type: parsedBlocks[0].type
-                                            }
+                                            }))
                                         } else {
                                             // Multiple blocks: replace the target block with parsed blocks
-                                            updatedBlocks.splice(index, 1, ...parsedBlocks)
+                                            updatedBlocks = replaceBlockInTree(updatedBlocks, diff.blockId, parsedBlocks)
                                         }
                                     }
                                 } else if (diff.type === 'insert' && diff.blockId && diff.newContent !== undefined) {
-                                    const index = updatedBlocks.findIndex(b => b.block_id === diff.blockId)
-                                    if (index !== -1) {
-                                        // Parse the new content into blocks
-                                        const parsedBlocks = parseContentToBlocks(diff.newContent)
-                                        updatedBlocks.splice(index + 1, 0, ...parsedBlocks)
-                                    }
+                                    // Parse the new content into blocks
+                                    const parsedBlocks = parseContentToBlocks(diff.newContent)
+                                    updatedBlocks = insertBlocksAfterInTree(updatedBlocks, diff.blockId, parsedBlocks)
                                 } else if (diff.type === 'delete' && diff.blockId) {
-                                    updatedBlocks = updatedBlocks.filter(b => b.block_id !== diff.blockId)
+                                    updatedBlocks = replaceBlockInTree(updatedBlocks, diff.blockId, [])
                                 }
 
                                 updateDocument(activeTabId, updatedBlocks)
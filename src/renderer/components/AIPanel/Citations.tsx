@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertTriangle, FileText } from 'lucide-react'
+import { BlockPreview } from '../common/BlockPreview'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { openCitation, resolveCitation, type ResolvedCitation } from '../../services/citationService'
+import { extractCitations, parseCitation } from '../../utils/citationUtils'
+
+const SHOW_DELAY_MS = 400
+const HIDE_DELAY_MS = 200
+const MAX_PREVIEW_BLOCKS = 30
+const PREVIEW_WIDTH = 360
+const LABEL_EXCERPT_CHARS = 24
+
+/**
+ * Resolve citation targets, again whenever the vault's notes change.
+ * undefined while resolving; null for targets that point nowhere.
+ */
+function useResolvedCitations(targets: string[]): Record<string, ResolvedCitation | null> | undefined {
+    const documentIndex = useVaultStore(state => state.documentIndex)
+    const [resolved, setResolved] = useState<Record<string, ResolvedCitation | null>>()
+    const key = targets.join('\n')
+
+    useEffect(() => {
+        let cancelled = false
+        Promise.all(targets.map(target => resolveCitation(parseCitation(target))))
+            .then(results => {
+                if (!cancelled) setResolved(Object.fromEntries(targets.map((target, i) => [target, results[i]])))
+            })
+        return () => { cancelled = true }
+    }, [key, documentIndex])
+
+    return resolved
+}
+
+function getChipLabel(target: string, resolved: ResolvedCitation | null | undefined): string {
+    const citation = parseCitation(target)
+    if (!resolved) return target
+    if (citation.anchor) return `${resolved.title} › ^${citation.anchor}`
+    if (resolved.reveal?.blockId) {
+        const text = resolved.blocks[0].content.replace(/\s+/g, ' ').trim()
+        const excerpt = text.length > LABEL_EXCERPT_CHARS ? `${text.slice(0, LABEL_EXCERPT_CHARS)}…` : text
+        return excerpt ? `${resolved.title} › ${excerpt}` : resolved.title
+    }
+    if (citation.fragment) return `${resolved.title} › ${citation.fragment}`
+    return resolved.title
+}
+
+/**
+ * A [cite: ...] in an AI answer: opens the note at the cited block, previews it on hover,
+ * and is flagged when it doesn't match anything in the vault
+ */
+export function CitationChip({ target }: { target: string }) {
+    const resolved = useResolvedCitations([target])?.[target]
+    const [preview, setPreview] = useState<{ x: number, y: number } | null>(null)
+    const showTimer = useRef<ReturnType<typeof setTimeout>>()
+    const hideTimer = useRef<ReturnType<typeof setTimeout>>()
+
+    useEffect(() => () => {
+        clearTimeout(showTimer.current)
+        clearTimeout(hideTimer.current)
+    }, [])
+
+    const isUnresolved = resolved === null
+
+    const handleEnter = (e: React.MouseEvent<HTMLElement>) => {
+        if (!resolved) return
+        const rect = e.currentTarget.getBoundingClientRect()
+        clearTimeout(hideTimer.current)
+        clearTimeout(showTimer.current)
+        showTimer.current = setTimeout(() => {
+            // Keep the card inside the window; the AI panel sits at its right edge
+            const x = Math.max(8, Math.min(rect.left, window.innerWidth - PREVIEW_WIDTH - 8))
+            setPreview({ x, y: rect.bottom + 6 })
+        }, SHOW_DELAY_MS)
+    }
+
+    const handleLeave = () => {
+        clearTimeout(showTimer.current)
+        hideTimer.current = setTimeout(() => setPreview(null), HIDE_DELAY_MS)
+    }
+
+    const handleOpen = () => {
+        if (!resolved) return
+        setPreview(null)
+        openCitation(resolved)
+    }
+
+    return (
+        <>
+            <button
+                className={`ai-citation ${isUnresolved ? 'unresolved' : ''}`}
+                onClick={handleOpen}
+                onMouseEnter={handleEnter}
+                onMouseLeave={handleLeave}
+                disabled={!resolved}
+                title={isUnresolved ? `Source not found: ${target}` : target}
+            >
+                {isUnresolved ? <AlertTriangle size={11} /> : <FileText size={11} />}
+                <span className="ai-citation-label">{getChipLabel(target, resolved)}</span>
+            </button>
+            {preview && resolved && (
+                <div
+                    className="link-preview"
+                    style={{ left: preview.x, top: preview.y }}
+                    onMouseEnter={() => clearTimeout(hideTimer.current)}
+                    onMouseLeave={() => setPreview(null)}
+                >
+                    <div className="link-preview-title" onClick={handleOpen}>
+                        {getChipLabel(target, resolved)}
+                    </div>
+                    <div className="link-preview-body">
+                        {resolved.blocks.slice(0, MAX_PREVIEW_BLOCKS).map(block => (
+                            <BlockPreview
+                                key={block.block_id}
+                                block={block}
+                                blocks={resolved.blocks}
+                                onLinkClick={(link) => {
+                                    useEditorStore.getState().openLink(link)
+                                    setPreview(null)
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
+        </>
+    )
+}
+
+/**
+ * Warning under an answer whose citations don't all resolve (made up, or the note changed since)
+ */
+export function UnresolvedCitations({ content }: { content: string }) {
+    const targets = extractCitations(content.replace(/<thinking>[\s\S]*?<\/thinking>/g, ''))
+    const resolved = useResolvedCitations(targets)
+    if (!resolved) return null
+
+    const unresolved = targets.filter(target => resolved[target] === null)
+    if (unresolved.length === 0) return null
+
+    return (
+        <div className="ai-citation-warning" title={unresolved.join('\n')}>
+            <AlertTriangle size={12} />
+            <span>
+                {targets.length === 1
+                    ? 'The cited source could not be found in the vault.'
+                    : `${unresolved.length} of ${targets.length} cited sources could not be found in the vault.`}
+            </span>
+        </div>
+    )
+}
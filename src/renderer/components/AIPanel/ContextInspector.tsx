@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, EyeOff, Pin, RefreshCw, X } from 'lucide-react'
+import type { BuiltContext, ContextOverride, ContextSectionId, ContextSectionStatus } from '../../services/contextBuilder'
+
+export type ContextInspectorMode = 'next' | 'last'
+
+interface ContextInspectorProps {
+    mode: ContextInspectorMode
+    onModeChange: (mode: ContextInspectorMode) => void
+    context: BuiltContext | null        // For the current mode
+    isBuilding: boolean
+    hasLastContext: boolean
+    overrides: Partial<Record<ContextSectionId, ContextOverride>>
+    onOverrideChange: (id: ContextSectionId, override: ContextOverride | null) => void
+    onRefresh: () => void
+    onClose: () => void
+}
+
+const STATUS_LABELS: Record<ContextSectionStatus, string> = {
+    full: 'Full',
+    trimmed: 'Trimmed',
+    summarized: 'Condensed',
+    dropped: 'Dropped',
+    empty: 'Empty'
+}
+
+function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+/**
+ * "What the AI sees": each context section with its estimated token count and whether it was
+ * sent whole, trimmed to the budget or dropped. Sections can be pinned (always sent whole) or
+ * dropped before the next message.
+ */
+export default function ContextInspector({
+    mode,
+    onModeChange,
+    context,
+    isBuilding,
+    hasLastContext,
+    overrides,
+    onOverrideChange,
+    onRefresh,
+    onClose
+}: ContextInspectorProps) {
+    const [expanded, setExpanded] = useState<ContextSectionId | null>(null)
+
+    const usage = context ? Math.min(100, (context.totalTokens / context.budget) * 100) : 0
+
+    return (
+        <div className="ai-context-inspector">
+            <div className="ai-context-inspector-header">
+                <div className="link-health-tabs">
+                    <button
+                        className={`link-health-tab ${mode === 'next' ? 'active' : ''}`}
+                        onClick={() => onModeChange('next')}
+                    >
+                        Next message
+                    </button>
+                    <button
+                        className={`link-health-tab ${mode === 'last' ? 'active' : ''}`}
+                        onClick={() => onModeChange('last')}
+                        disabled={!hasLastContext}
+                    >
+                        Last sent
+                    </button>
+                </div>
+                {mode === 'next' && (
+                    <button className="ai-context-inspector-action" onClick={onRefresh} title="Refresh" disabled={isBuilding}>
+                        <RefreshCw size={12} className={isBuilding ? 'spinning' : undefined} />
+                    </button>
+                )}
+                <button className="ai-context-inspector-action" onClick={onClose} title="Close">
+                    <X size={12} />
+                </button>
+            </div>
+
+            {context ? (
+                <>
+                    <div className="ai-context-budget">
+                        <div className="ai-context-budget-bar">
+                            <div
+                                className={`ai-context-budget-fill ${context.totalTokens > context.budget ? 'over' : ''}`}
+                                style={{ width: `${usage}%` }}
+                            />
+                        </div>
+                        <span>
+                            ~{formatTokens(context.totalTokens)} / {formatTokens(context.budget)} tokens
+                        </span>
+                    </div>
+
+                    <div className="ai-context-sections">
+                        {context.sections.map(section => {
+                            const isExpanded = expanded === section.id
+                            return (
+                                <div key={section.id} className={`ai-context-section ${section.status}`}>
+                                    <div className="ai-context-section-row">
+                                        <button
+                                            className="ai-context-section-toggle"
+                                            onClick={() => setExpanded(isExpanded ? null : section.id)}
+                                            disabled={section.status === 'empty'}
+                                        >
+                                            {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                                            <span className="ai-context-section-label">{section.label}</span>
+                                        </button>
+                                        <span className="ai-context-section-status">{STATUS_LABELS[section.status]}</span>
+                                        <span className="ai-context-section-tokens">
+                                            {section.tokens !== section.fullTokens
+                                                ? `${formatTokens(section.tokens)} / ${formatTokens(section.fullTokens)}`
+                                                : formatTokens(section.tokens)}
+                                        </span>
+                                        {mode === 'next' && !section.required && section.status !== 'empty' && (
+                                            <>
+                                                <button
+                                                    className={`ai-context-inspector-action ${section.override === 'pinned' ? 'active' : ''}`}
+                                                    onClick={() => onOverrideChange(section.id, section.override === 'pinned' ? null : 'pinned')}
+                                                    title="Pin: always send whole"
+                                                >
+                                                    <Pin size={12} />
+                                                </button>
+                                                <button
+                                                    className={`ai-context-inspector-action ${section.override === 'dropped' ? 'active' : ''}`}
+                                                    onClick={() => onOverrideChange(section.id, section.override === 'dropped' ? null : 'dropped')}
+                                                    title="Drop: don't send"
+                                                >
+                                                    <EyeOff size={12} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                    {isExpanded && (
+                                        <pre className="ai-context-section-content">
+                                            {section.content || '(Not sent)'}
+                                        </pre>
+                                    )}
+                                </div>
+                            )
+                        })}
+                        <div className="ai-context-section">
+                            <div className="ai-context-section-row">
+                                <span className="ai-context-section-label">User Message</span>
+                                <span className="ai-context-section-tokens">{formatTokens(context.messageTokens)}</span>
+                            </div>
+                        </div>
+                    </div>
+                </>
+            ) : (
+                <div className="ai-context-inspector-empty">
+                    {isBuilding ? 'Building context…' : 'No context yet'}
+                </div>
+            )}
+        </div>
+    )
+}
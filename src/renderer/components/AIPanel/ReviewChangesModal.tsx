@@ -23,11 +23,6 @@ export default function ReviewChangesModal({
     const [acceptedDiffs, setAcceptedDiffs] = useState<Set<string>>(new Set())
     const [rejectedDiffs, setRejectedDiffs] = useState<Set<string>>(new Set())
 
-    // Debug: Log diffs when modal opens
-    if (isOpen && diffs.length > 0) {
-        console.log('ReviewChangesModal diffs:', diffs)
-    }
-
     if (!isOpen) return null
 
     const handleAccept = (diffId: string) => {
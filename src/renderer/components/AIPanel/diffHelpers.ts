@@ -1,15 +1,6 @@
 import type { PendingDiff, Block } from '@shared/types'
-
-interface AIAction {
-    type: 'update' | 'insert' | 'delete' | 'create_file' | 'create_folder' | 'update_meta' | 'update_file'
-    id?: string
-    afterId?: string
-    content?: string
-    blockType?: string
-    path?: string
-    metaField?: string
-    metaValue?: any
-}
+import { findBlock } from '../../utils/blockTreeUtils'
+import type { AIAction } from '../../services/editTools'
 
 interface ActiveDocument {
     blocks: Block[]
@@ -50,14 +41,14 @@ export const convertActionsToDiffs = (
             }
 
             if (action.type === 'update' && action.id) {
-                const oldBlock = activeDoc.blocks.find((b: Block) => b.block_id === action.id)
+                const oldBlock = findBlock(activeDoc.blocks, action.id)
                 diff.oldContent = oldBlock?.content
                 diff.newContent = action.content
             } else if (action.type === 'insert') {
                 diff.newContent = action.content
                 diff.blockType = action.blockType as any
             } else if (action.type === 'delete' && action.id) {
-                const oldBlock = activeDoc.blocks.find((b: Block) => b.block_id === action.id)
+                const oldBlock = findBlock(activeDoc.blocks, action.id)
                 diff.oldContent = oldBlock?.content
             }
 
@@ -30,7 +30,7 @@ function ContextRenderer({ context }: { context: string }) {
 
 export default function BacklinkSection({ currentNoteId }: BacklinkSectionProps) {
     const { getBacklinks, parsedDocs } = useGraphStore()
-    const { openTab } = useEditorStore()
+    const { openTab, revealBlock } = useEditorStore()
 
     // Only render if we have parsed docs (graph has been initialized)
     if (parsedDocs.size === 0) {
@@ -53,11 +53,31 @@ export default function BacklinkSection({ currentNoteId }: BacklinkSectionProps)
                 <ul className="backlinks-list">
                     {backlinks.map((backlink) => (
                         <li
-                            key={backlink.path}
+                            key={`${backlink.path}#${backlink.anchor ?? ''}`}
                             className="backlink-item"
                             onClick={() => handleBacklinkClick(backlink.path, backlink.title)}
                         >
-                            <div className="backlink-source">{backlink.title}</div>
+                            <div className="backlink-source">
+                                {backlink.title}
+                                {backlink.anchor && (
+                                    <span
+                                        className="backlink-anchor"
+                                        onClick={(e) => {
+                                            // Jump to the referenced heading/block in this note
+                                            e.stopPropagation()
+                                            const isBlock = backlink.anchor!.startsWith('^')
+                                            revealBlock({
+                                                filePath: currentNoteId,
+                                                heading: isBlock ? undefined : backlink.anchor,
+                                                anchor: isBlock ? backlink.anchor!.slice(1) : undefined
+                                            })
+                                        }}
+                                        title="Show referenced section"
+                                    >
+                                        #{backlink.anchor}
+                                    </span>
+                                )}
+                            </div>
                             <ContextRenderer context={backlink.context} />
                         </li>
                     ))}
@@ -1,12 +1,27 @@
 import { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react'
 import { GripVertical, Check, Image as ImageIcon, Plus, Copy, ChevronRight, ExternalLink, X as CloseIcon } from 'lucide-react'
-import type { Document, Block, BlockType, TableCell, PendingDiff } from '@shared/types'
+import type { Document, Block, BlockType, PendingDiff, PropertyType } from '@shared/types'
+import { coercePropertyValue, parseFrontmatter, normalizeTags } from '@shared/frontmatter'
+import { getEmbedBlockType, parseMarkdownToDocument } from '@shared/markdown'
+import { parseWikiLink, getWikiLinkLabel, findAnchorBlockIndex, generateBlockAnchor } from '@shared/wikiLinks'
 import { useEditorStore } from '../../stores/editorStore'
 import { useVaultStore } from '../../stores/vaultStore'
 import { useHighlightStore } from '../../stores/highlightStore'
 import { useDiffStore } from '../../stores/diffStore'
+import { useTemplateStore } from '../../stores/templateStore'
 import { getNumberingForBlock } from '../../utils/numberingUtils'
-import SlashMenu from './SlashMenu'
+import { extractCursor } from '../../utils/templateUtils'
+import { getCalloutKind, getCalloutTitle } from '../../utils/calloutUtils'
+import {
+    flattenVisibleBlocks,
+    findBlock,
+    findBlockLocation,
+    removeBlocksFromTree,
+    replaceBlockInTree,
+    moveBlocksInTree,
+    type BlockDropPosition
+} from '../../utils/blockTreeUtils'
+import SlashMenu, { type SlashCommand } from './SlashMenu'
 import BlockMenu, { BlockAction } from './BlockMenu'
 import BacklinkMenu from './BacklinkMenu'
 import TableBlock, { createDefaultTableData } from './TableBlock'
@@ -16,11 +31,24 @@ import HighlightTooltip from './HighlightTooltip'
 import TextSelectionTooltip from './TextSelectionTooltip'
 import FileBlock from './FileBlock'
 import InlineDiff from './InlineDiff'
+import PropertyField, { PROPERTY_TYPES } from './PropertyField'
+import LinkPreview from './LinkPreview'
+import EmbedBlock from './EmbedBlock'
+import QueryBlock from './QueryBlock'
+import PeriodicNoteNav from './PeriodicNoteNav'
+import CalloutTypeMenu from './CalloutTypeMenu'
+import TemplatePicker from '../common/TemplatePicker'
+import { CalloutPreview } from '../common/BlockPreview'
 import { useBlockHistory } from '../../hooks/useBlockHistory'
+import { useAttachmentSrc } from '../../hooks/useAttachmentSrc'
+import { readClipboard, isRichPaste, convertClipboard, splitBlockAtPaste, type PasteResult } from '../../services/pasteService'
 import { useAIStore, type SelectedTextContext } from '../../stores/aiStore'
 
 
 
+// Frontmatter keys with dedicated header UI (not shown as custom properties)
+const RESERVED_META_KEYS = ['id', 'title', 'tags', 'created_at', 'updated_at', 'alwaysOn']
+
 interface BlockEditorProps {
     document: Document
     tabId: string
@@ -35,30 +63,30 @@ interface BlockComponentProps {
     isFocused: boolean
     onChange: (content: string, alt?: string) => void
     onKeyDown: (e: React.KeyboardEvent) => void
+    onPaste: (e: React.ClipboardEvent, textarea: HTMLTextAreaElement) => void
     onFocus: () => void
     onBlur: () => void
     registerRef: (el: HTMLTextAreaElement | null) => void
     onTodoToggle: (checked: boolean) => void
     onToggleCollapse: (collapsed: boolean) => void
-    onChildChange: (childIndex: number, content: string) => void
-    onChildDelete: (childIndex: number) => void
     onChildAdd: () => void
     onContextMenu: (e: React.MouseEvent) => void
     onHandleClick: (e: React.MouseEvent) => void
-    renderChild?: (block: Block) => React.ReactNode
+    renderChild?: (child: Block, childIndex: number) => React.ReactNode // Toggle children, as full blocks
     viewMode: 'edit' | 'preview'
     onLinkClick: (target: string) => void
     onBacklinkTrigger: (blockId: string, query: string, position: { x: number, y: number }) => void
     onBacklinkQueryChange: (query: string) => void
     onBacklinkClose: () => void
-    onTableDataChange?: (data: TableCell[][]) => void
+    onTableChange?: (updates: Pick<Block, 'tableData' | 'tableHeader'>) => void
+    onCalloutChange: (updates: Pick<Block, 'calloutType' | 'calloutTitle' | 'calloutFold'>) => void
     // Drag-and-drop props
     onDragStart: (e: React.DragEvent, blockId: string) => void
     onDragEnd: () => void
     onDragOver: (e: React.DragEvent, blockId: string) => void
     onDrop: (e: React.DragEvent, blockId: string) => void
     isDragOver: boolean
-    dropPosition: 'above' | 'below' | null
+    dropPosition: BlockDropPosition | null
     isDragging: boolean
     // Multi-select with Shift-click
     onBlockSelect: (blockId: string, shiftKey: boolean) => void
@@ -67,6 +95,8 @@ interface BlockComponentProps {
     onHighlightLeave?: () => void
     // All blocks array for numbering calculation
     blocks: Block[]
+    // Path of the document being edited (root of the embed chain)
+    documentPath: string
     // Diff support
     diff?: PendingDiff
     onAcceptDiff?: (diffId: string) => void
@@ -138,21 +168,21 @@ const MarkdownRenderer = ({
                 }
 
                 // Backlink
-                const linkMatch = part.match(/^\[\[(.+?)(?:\|(.+?))?\]\]$/)
+                const linkMatch = part.match(/^\[\[(.+?)\]\]$/)
                 if (linkMatch) {
-                    const target = linkMatch[1]
-                    const alt = linkMatch[2] || target
+                    const link = parseWikiLink(linkMatch[1])
+                    const target = linkMatch[1].split('|')[0]
                     return (
                         <span
                             key={i}
                             className="backlink"
+                            data-link-target={target}
                             onClick={(e) => {
                                 e.stopPropagation()
                                 onClick(target)
                             }}
-                            title={`Link to ${target}`}
                         >
-                            {alt}
+                            {getWikiLinkLabel(link)}
                         </span>
                     )
                 }
@@ -222,13 +252,12 @@ function BlockComponent({
     isFocused,
     onChange,
     onKeyDown,
+    onPaste,
     onFocus,
     onBlur,
     registerRef,
     onTodoToggle,
     onToggleCollapse,
-    onChildChange,
-    onChildDelete,
     onChildAdd,
     onContextMenu,
     onHandleClick,
@@ -238,7 +267,8 @@ function BlockComponent({
     onBacklinkTrigger,
     onBacklinkQueryChange,
     onBacklinkClose,
-    onTableDataChange,
+    onTableChange,
+    onCalloutChange,
     onDragStart,
     onDragEnd,
     onDragOver,
@@ -249,9 +279,12 @@ function BlockComponent({
     onBlockSelect,
     onHighlightHover,
     onHighlightLeave,
-    blocks
+    blocks,
+    documentPath
 }: BlockComponentProps) {
     const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+    const imgSrc = useAttachmentSrc(block.type === 'image' ? block.content : '', documentPath)
+    const [calloutMenuPosition, setCalloutMenuPosition] = useState<{ x: number; y: number } | null>(null)
 
     // Get className for block type
     const getInputClassName = () => {
@@ -260,7 +293,7 @@ function BlockComponent({
             classes.push(block.type)
         }
         if (block.type === 'quote') classes.push('quote')
-        if (block.type === 'code') classes.push('code')
+        if (block.type === 'code' || block.type === 'query' || block.type === 'raw') classes.push('code')
         if (block.type === 'todo' && block.checked) classes.push('checked')
         return classes.join(' ')
     }
@@ -271,6 +304,7 @@ function BlockComponent({
         if (isSelected) classes.push('block-selected')
         if (isDragOver && dropPosition === 'above') classes.push('drop-above')
         if (isDragOver && dropPosition === 'below') classes.push('drop-below')
+        if (isDragOver && dropPosition === 'inside') classes.push('drop-inside')
         if (isDragging) classes.push('dragging')
         return classes.join(' ')
     }
@@ -278,6 +312,8 @@ function BlockComponent({
     const handleWrapperClick = (e: React.MouseEvent) => {
         // Only trigger if click is directly on the wrapper or handle
         if ((e.target as HTMLElement).closest('.block-handle')) {
+            // Toggle children sit inside their toggle's wrapper
+            e.stopPropagation()
             onHandleClick(e)
             return
         }
@@ -302,6 +338,7 @@ function BlockComponent({
             }
 
             e.preventDefault()
+            e.stopPropagation()
             onBlockSelect(block.block_id, e.shiftKey)
         }
     }
@@ -331,6 +368,7 @@ function BlockComponent({
 
     // Drag handlers for the block handle
     const handleDragStart = (e: React.DragEvent) => {
+        e.stopPropagation()
         e.dataTransfer.effectAllowed = 'move'
         e.dataTransfer.setData('text/plain', block.block_id)
         onDragStart(e, block.block_id)
@@ -338,20 +376,30 @@ function BlockComponent({
 
     const handleDragOver = (e: React.DragEvent) => {
         e.preventDefault()
+        e.stopPropagation()
         e.dataTransfer.dropEffect = 'move'
         onDragOver(e, block.block_id)
     }
 
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault()
+        e.stopPropagation()
         onDrop(e, block.block_id)
     }
 
     // Common wrapper props
     const wrapperProps = {
         className: getBlockClassName(),
-        onContextMenu,
+        'data-block-id': block.block_id,
+        onContextMenu: (e: React.MouseEvent) => {
+            e.stopPropagation()
+            onContextMenu(e)
+        },
         onClick: handleWrapperClick,
+        onPaste: (e: React.ClipboardEvent) => {
+            // Toggle children sit inside their toggle's wrapper; only this block's own textarea counts
+            if (textareaRef.current && e.target === textareaRef.current) onPaste(e, textareaRef.current)
+        },
         onDragOver: handleDragOver,
         onDrop: handleDrop,
         onDragLeave: () => { },
@@ -407,17 +455,14 @@ function BlockComponent({
             return (
                 <div className="preview-toggle" style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
                     <div className="toggle-header-row">
-                        <span className={`toggle-arrow ${isExpanded ? 'expanded' : ''}`} onClick={() => onToggleCollapse(!block.checked)}>▶</span>
+                        <span className={`toggle-arrow ${isExpanded ? 'expanded' : ''}`} onClick={() => onToggleCollapse(isExpanded)}>▶</span>
                         <span className="toggle-title"><MarkdownRenderer content={block.content} onClick={onLinkClick} /></span>
                     </div>
                     {isExpanded && block.children && (
                         <div className="block-toggle-children">
                             {block.children.map((child, i) => (
                                 <div key={child.block_id} className="preview-child">
-                                    {/* Simple recursion for preview? Or proper component? */}
-                                    {/* Ideally we should recurse BlockComponent with viewMode='preview' */}
-                                    {/* But BlockComponent is not exported for recursion easily without props drilling */}
-                                    {renderChild ? renderChild(child) : <div className="preview-text"><MarkdownRenderer content={child.content} onClick={onLinkClick} /></div>}
+                                    {renderChild ? renderChild(child, i) : <div className="preview-text"><MarkdownRenderer content={child.content} onClick={onLinkClick} /></div>}
                                 </div>
                             ))}
                         </div>
@@ -443,6 +488,11 @@ function BlockComponent({
         if (block.type === 'heading1') return <h1 className="preview-h1" style={previewStyle}>{contentElement}</h1>
         if (block.type === 'heading2') return <h2 className="preview-h2" style={previewStyle}>{contentElement}</h2>
         if (block.type === 'heading3') return <h3 className="preview-h3" style={previewStyle}>{contentElement}</h3>
+        if (block.type === 'heading4') return <h4 className="preview-h4" style={previewStyle}>{contentElement}</h4>
+        if (block.type === 'heading5') return <h5 className="preview-h5" style={previewStyle}>{contentElement}</h5>
+        if (block.type === 'heading6') return <h6 className="preview-h6" style={previewStyle}>{contentElement}</h6>
+        // Markdown without a block type of its own is shown as written
+        if (block.type === 'raw') return <pre className="preview-raw" style={previewStyle}>{block.content}</pre>
         if (block.type === 'bullet') return <li className="preview-li" style={previewStyle}>{contentElement}</li>
         if (block.type === 'numbered') {
             const numbering = getNumberingForBlock(blocks, block.block_id)
@@ -470,60 +520,20 @@ function BlockComponent({
         )
         if (block.type === 'quote') return <blockquote className="preview-quote" style={previewStyle}>{contentElement}</blockquote>
 
-        // Callout Block
         if (block.type === 'callout') {
-            const match = block.content.match(/^\[!(.*?)\]\s?(.*)$/m)
-            const type = match ? match[1].toLowerCase() : 'info'
-            const content = match ? block.content.substring(match[0].length).trim() || match[2] : block.content
-
-            // Determine Icon and Color class based on type
-            let icon = 'ℹ️'
-            let title = type.toUpperCase()
-            if (type === 'tip' || type === 'success') { icon = '✅'; title = 'TIP' }
-            if (type === 'warning') { icon = '⚠️'; title = 'WARNING' }
-            if (type === 'danger' || type === 'error') { icon = '🚫'; title = 'ERROR' }
-            if (type === 'note') { icon = '📝'; title = 'NOTE' }
-
-            // If there's a title in the content line (after [!TYPE]), use it
-            const titleMatch = block.content.match(/^\[!.*?\]\s*(.*?)(\n|$)/)
-            if (titleMatch && titleMatch[1]) {
-                title = titleMatch[1]
-            }
-
-            // Extract body (everything after the first line)
-            const body = block.content.split('\n').slice(1).join('\n')
-
-            // If simple one-liner
-            const isOneLiner = block.content.indexOf('\n') === -1
-            const displayContent = isOneLiner ? (match ? match[2] : block.content) : body
-
             return (
-                <div className={`preview-callout callout-${type}`} style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
-                    <div className="callout-header">
-                        <span className="callout-icon">{icon}</span>
-                        <strong className="callout-title">{title}</strong>
-                    </div>
-                    {/* Render body if exists, or remaining content if one-liner */}
-                    {displayContent && (
-                        <div className="callout-content">
-                            <MarkdownRenderer content={displayContent} onClick={onLinkClick} />
-                        </div>
-                    )}
-                </div>
+                <CalloutPreview
+                    block={block}
+                    onLinkClick={onLinkClick}
+                    onToggleCollapse={onToggleCollapse}
+                    embedAncestors={documentPath ? [documentPath] : []}
+                    style={previewStyle}
+                />
             )
         }
 
         if (block.type === 'divider') return <hr className="preview-divider" />
         if (block.type === 'image') {
-            let imgSrc = block.content
-            if (block.content.startsWith('http://') || block.content.startsWith('https://')) {
-                imgSrc = block.content
-            } else if (block.content.startsWith('file://')) {
-                imgSrc = block.content.replace('file://', 'media://')
-            } else {
-                // Assume local path
-                imgSrc = `media://${block.content}`
-            }
             return (
                 <div className="block-preview block-image-container" style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
                     {block.content ? (
@@ -541,11 +551,29 @@ function BlockComponent({
             )
         }
 
+        // Embed block (Preview Mode)
+        if (block.type === 'embed') {
+            return (
+                <div className="block-preview" style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
+                    <EmbedBlock link={block.content} ancestors={[documentPath]} />
+                </div>
+            )
+        }
+
+        // Query block (Preview Mode)
+        if (block.type === 'query') {
+            return (
+                <div className="block-preview" style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
+                    <QueryBlock query={block.content} hostPath={documentPath} />
+                </div>
+            )
+        }
+
         // File block (Preview Mode)
         if (block.type === 'file') {
             return (
                 <div className="block-preview block-file-container" style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
-                    <FileBlock src={block.content} viewMode="preview" />
+                    <FileBlock src={block.content} notePath={documentPath} viewMode="preview" />
                 </div>
             )
         }
@@ -570,7 +598,9 @@ function BlockComponent({
                 <div style={{ paddingLeft: block.indent ? `${block.indent * 24}px` : undefined }}>
                     <TableBlock
                         tableData={block.tableData}
+                        hasHeader={block.tableHeader !== false}
                         onChange={() => { }}
+                        renderInline={(content) => <MarkdownRenderer content={content} onClick={onLinkClick} />}
                         viewMode="preview"
                     />
                 </div>
@@ -608,15 +638,6 @@ function BlockComponent({
 
     // Image block
     if (block.type === 'image') {
-        let imgSrc = block.content
-        if (block.content.startsWith('http://') || block.content.startsWith('https://')) {
-            imgSrc = block.content
-        } else if (block.content.startsWith('file://')) {
-            imgSrc = block.content.replace('file://', 'media://')
-        } else {
-            // Assume local path
-            imgSrc = `media://${block.content}`
-        }
 
         return (
             <div {...wrapperProps} className={getBlockClassName() + " block-image-container"}>
@@ -669,13 +690,64 @@ function BlockComponent({
         )
     }
 
+    // Embed block (Edit Mode) - read-only, edit the source through the open button
+    if (block.type === 'embed') {
+        return (
+            <div {...wrapperProps} className={getBlockClassName()}>
+                <span className="block-handle" draggable onDragStart={handleDragStart} onDragEnd={onDragEnd}><GripVertical size={14} /></span>
+                <div className="block-content">
+                    <EmbedBlock link={block.content} ancestors={[documentPath]} />
+                    <textarea
+                        ref={(el) => {
+                            textareaRef.current = el
+                            registerRef(el)
+                        }}
+                        className="sr-only"
+                        value={`![[${block.content}]]`}
+                        readOnly
+                        onKeyDown={onKeyDown}
+                        onFocus={onFocus}
+                        onBlur={onBlur}
+                    />
+                </div>
+            </div>
+        )
+    }
+
+    // Query block (Edit Mode) - query text with the live results below
+    if (block.type === 'query') {
+        return (
+            <div {...wrapperProps} className={getBlockClassName()}>
+                <span className="block-handle" draggable onDragStart={handleDragStart} onDragEnd={onDragEnd}><GripVertical size={14} /></span>
+                <div className="block-content block-code-wrapper">
+                    <span className="code-language-label">query</span>
+                    <textarea
+                        ref={(el) => {
+                            textareaRef.current = el
+                            registerRef(el)
+                        }}
+                        className={getInputClassName()}
+                        value={block.content}
+                        onChange={(e) => onChange(e.target.value)}
+                        onKeyDown={onKeyDown}
+                        onFocus={onFocus}
+                        onBlur={onBlur}
+                        placeholder='FROM "Projects" WHERE status = "open" SORT updated_at DESC'
+                        rows={1}
+                    />
+                    <QueryBlock query={block.content} hostPath={documentPath} />
+                </div>
+            </div>
+        )
+    }
+
     // File block (Edit Mode)
     if (block.type === 'file') {
         return (
             <div {...wrapperProps} className={getBlockClassName() + " block-file-container"}>
                 <span className="block-handle" draggable onDragStart={handleDragStart} onDragEnd={onDragEnd}><GripVertical size={14} /></span>
                 <div className="block-content block-file">
-                    <FileBlock src={block.content} viewMode="edit" />
+                    <FileBlock src={block.content} notePath={documentPath} viewMode="edit" />
                     <textarea
                         ref={(el) => {
                             textareaRef.current = el
@@ -828,12 +900,39 @@ function BlockComponent({
         )
     }
 
-    // Callout block
+    // Callout block: type, title and fold in the header, markdown body below
     if (block.type === 'callout') {
+        const kind = getCalloutKind(block.calloutType)
         return (
             <div {...wrapperProps}>
                 <span className="block-handle" draggable onDragStart={handleDragStart} onDragEnd={onDragEnd}><GripVertical size={14} /></span>
-                <div className="block-content block-callout">
+                <div className={`block-content block-callout callout-${kind.type}`}>
+                    <div className="callout-edit-header">
+                        <button
+                            className="callout-type-button"
+                            title="Callout type"
+                            onClick={(e) => {
+                                const rect = e.currentTarget.getBoundingClientRect()
+                                setCalloutMenuPosition({ x: rect.left, y: rect.bottom + 4 })
+                            }}
+                        >
+                            <span>{kind.icon}</span>
+                            <span>{kind.label}</span>
+                        </button>
+                        <input
+                            className="callout-title-input"
+                            value={block.calloutTitle ?? ''}
+                            placeholder={getCalloutTitle({ ...block, calloutTitle: undefined })}
+                            onChange={(e) => onCalloutChange({ calloutTitle: e.target.value || undefined })}
+                        />
+                        <button
+                            className={`callout-fold-button ${block.calloutFold ? 'active' : ''}`}
+                            title={block.calloutFold ? 'Foldable' : 'Make foldable'}
+                            onClick={() => onCalloutChange({ calloutFold: block.calloutFold ? undefined : '+' })}
+                        >
+                            <ChevronRight size={14} />
+                        </button>
+                    </div>
                     <textarea
                         ref={(el) => {
                             textareaRef.current = el
@@ -865,6 +964,17 @@ function BlockComponent({
                         rows={1}
                     />
                 </div>
+                {calloutMenuPosition && (
+                    <CalloutTypeMenu
+                        position={calloutMenuPosition}
+                        current={block.calloutType}
+                        onSelect={(calloutType) => {
+                            onCalloutChange({ calloutType })
+                            setCalloutMenuPosition(null)
+                        }}
+                        onClose={() => setCalloutMenuPosition(null)}
+                    />
+                )}
             </div>
         )
     }
@@ -920,28 +1030,7 @@ function BlockComponent({
                     {/* Children */}
                     {isExpanded && (
                         <div className="block-toggle-children">
-                            {hasChildren && block.children!.map((child, childIndex) => (
-                                <div key={child.block_id} className="toggle-child-block">
-                                    <span className="child-bullet">•</span>
-                                    <textarea
-                                        className="child-input"
-                                        value={child.content}
-                                        onChange={(e) => onChildChange(childIndex, e.target.value)}
-                                        onKeyDown={(e) => {
-                                            if (e.key === 'Backspace' && child.content === '') {
-                                                e.preventDefault()
-                                                onChildDelete(childIndex)
-                                            } else if (e.key === 'Enter' && !e.shiftKey) {
-                                                e.preventDefault()
-                                                onChildAdd()
-                                            }
-                                        }}
-                                        onClick={handleTextAreaClick}
-                                        placeholder="Toggle content..."
-                                        rows={1}
-                                    />
-                                </div>
-                            ))}
+                            {hasChildren && block.children!.map((child, childIndex) => renderChild?.(child, childIndex))}
                             <button
                                 className="toggle-add-child-btn"
                                 onClick={() => onChildAdd()}
@@ -1003,11 +1092,11 @@ function BlockComponent({
                 <div className="block-content">
                     <TableBlock
                         tableData={tableData}
-                        onChange={(newData) => {
-                            if (onTableDataChange) {
-                                onTableDataChange(newData)
-                            }
-                        }}
+                        hasHeader={block.tableHeader !== false}
+                        onChange={(newData) => onTableChange?.({ tableData: newData })}
+                        onHeaderChange={(hasHeader) => onTableChange?.({ tableHeader: hasHeader ? undefined : false })}
+                        renderInline={(content) => <MarkdownRenderer content={content} onClick={onLinkClick} />}
+                        exportName={documentPath.split('/').pop()?.replace(/\.md$/, '')}
                         viewMode="edit"
                     />
                 </div>
@@ -1021,6 +1110,9 @@ function BlockComponent({
             case 'heading1': return 'Heading 1'
             case 'heading2': return 'Heading 2'
             case 'heading3': return 'Heading 3'
+            case 'heading4': return 'Heading 4'
+            case 'heading5': return 'Heading 5'
+            case 'heading6': return 'Heading 6'
             case 'quote': return 'Quote'
             case 'code': return 'Code'
             default: return isFirstBlock ? "Type '/' for commands, or # for heading" : ''
@@ -1087,7 +1179,7 @@ function BlockComponent({
 }
 
 export default function BlockEditor({ document, tabId, viewMode }: BlockEditorProps) {
-    const { updateDocument, updateDocumentMeta, saveTab, openTab, renameFile } = useEditorStore()
+    const { updateDocument, updateDocumentMeta, saveTab, openTab, openLink } = useEditorStore()
     const { documentIndex, vaultPath, createNewFile, renameItem } = useVaultStore() // Added renameItem
     const { getDiffsForFile, getDiffForBlock, getInsertDiffsAfterBlock, acceptDiff, rejectDiff } = useDiffStore()
     const [blocks, setBlocks] = useState<Block[]>(document.blocks)
@@ -1097,6 +1189,8 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     const [backlinkMenu, setBacklinkMenu] = useState<{ position: { x: number, y: number }, query: string, blockId: string } | null>(null)
     const [selectedBlockIds, setSelectedBlockIds] = useState<Set<string>>(new Set())
     const [blockMenu, setBlockMenu] = useState<{ id: string, position: { x: number, y: number } } | null>(null)
+    // Callout type picker, opened from /callout (turns the block into a callout) or the block menu
+    const [calloutTypeMenu, setCalloutTypeMenu] = useState<{ id: string, position: { x: number, y: number }, convert: boolean } | null>(null)
 
     // State for editable filename in header
     const currentFileName = document.filePath?.split('/').pop()?.replace(/\.md$/, '') || 'Untitled'
@@ -1111,12 +1205,41 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     // Drag-and-drop state
     const [draggedBlockId, setDraggedBlockId] = useState<string | null>(null)
     const [dropTargetId, setDropTargetId] = useState<string | null>(null)
-    const [dropPosition, setDropPosition] = useState<'above' | 'below' | null>(null)
+    const [dropPosition, setDropPosition] = useState<BlockDropPosition | null>(null)
     const lastSelectRef = useRef<string | null>(null)
 
     // Block-level undo/redo history
     const { pushState, undo, redo, canUndo, canRedo, pushToRedo } = useBlockHistory() as ReturnType<typeof useBlockHistory> & { pushToRedo: (blocks: Block[]) => void }
 
+    // Scroll to and flash a block requested through revealBlock (search results, block links)
+    const revealTarget = useEditorStore(state => state.revealTarget)
+    const clearRevealTarget = useEditorStore(state => state.clearRevealTarget)
+    useEffect(() => {
+        if (!revealTarget || revealTarget.filePath !== document.filePath) return
+        const anchorIndex = revealTarget.heading || revealTarget.anchor
+            ? findAnchorBlockIndex(blocks, { heading: revealTarget.heading, blockId: revealTarget.anchor })
+            : -1
+        const blockId = revealTarget.blockId
+            ?? blocks[revealTarget.blockIndex ?? anchorIndex]?.block_id
+        clearRevealTarget()
+        if (!blockId) return
+
+        // Wait a frame so a freshly opened document has rendered its blocks
+        requestAnimationFrame(() => {
+            const el = editorRef.current?.querySelector(`[data-block-id="${blockId}"]`) as HTMLElement | null
+            if (!el) return
+            el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+            if (revealTarget.cursorOffset !== undefined) {
+                const textarea = blockRefs.current.get(blockId)
+                textarea?.focus()
+                textarea?.setSelectionRange(revealTarget.cursorOffset, revealTarget.cursorOffset)
+                return
+            }
+            el.classList.add('block-flash')
+            setTimeout(() => el.classList.remove('block-flash'), 1600)
+        })
+    }, [revealTarget, document.filePath, blocks, clearRevealTarget])
+
     // Drag selection box state
     const [isSelecting, setIsSelecting] = useState(false)
     const [selectionStart, setSelectionStart] = useState<{ x: number, y: number } | null>(null)
@@ -1163,8 +1286,9 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     // Debounced autosave - save after 1.5 seconds of inactivity
     useEffect(() => {
         const timer = setTimeout(() => {
-            // Check if document is dirty before saving
-            saveTab(tabId)
+            // Check if document is dirty before saving (blocks also change when a clean tab reloads from disk)
+            const tab = useEditorStore.getState().editorGroups.flatMap(g => g.tabs).find(t => t.id === tabId)
+            if (tab?.isDirty) saveTab(tabId)
         }, 1500)
 
         return () => clearTimeout(timer)
@@ -1341,9 +1465,26 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                 insertBlockAfter(blockMenu.id, newBlockBelow)
                 setTimeout(() => focusBlock(newBlockBelow.block_id), 0)
                 break
+            case 'callout_type':
+                setCalloutTypeMenu({ id: blockMenu.id, position: blockMenu.position, convert: false })
+                break
+            case 'copy_link': {
+                const target = flatList[currentIndex]
+                if (!target) break
+                const noteName = document.filePath.split('/').pop()?.replace('.md', '') || ''
+                // Headings are linked by text; other blocks get a stable ^anchor
+                if (target.type.startsWith('heading')) {
+                    navigator.clipboard.writeText(`[[${noteName}#${target.content}]]`)
+                } else {
+                    const anchor = target.anchor ?? generateBlockAnchor()
+                    if (!target.anchor) updateBlock(target.block_id, { anchor })
+                    navigator.clipboard.writeText(`[[${noteName}#^${anchor}]]`)
+                }
+                break
+            }
         }
         setBlockMenu(null)
-    }, [blockMenu, blocks, deleteBlock, insertBlockAfter, focusBlock, createNewBlock])
+    }, [blockMenu, blocks, deleteBlock, insertBlockAfter, focusBlock, createNewBlock, updateBlock, document.filePath])
 
     // Drag-and-drop handlers
     const handleDragStart = useCallback((e: React.DragEvent, blockId: string) => {
@@ -1365,9 +1506,20 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         if (draggedBlockId === targetBlockId) return
         if (selectedBlockIds.has(targetBlockId)) return
 
-        const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
-        const midY = rect.top + rect.height / 2
-        const position = e.clientY < midY ? 'above' : 'below'
+        const wrapper = e.currentTarget as HTMLElement
+        let position: BlockDropPosition
+        // An expanded toggle is measured by its header row: the lower half of it drops
+        // blocks inside, as the first children
+        const toggleHeader = wrapper.querySelector(':scope > .block-toggle-content > .toggle-header-row')
+        if (toggleHeader && wrapper.querySelector(':scope > .block-toggle-content > .block-toggle-children')) {
+            const rect = toggleHeader.getBoundingClientRect()
+            const midY = rect.top + rect.height / 2
+            position = e.clientY < midY ? 'above' : e.clientY < rect.bottom ? 'inside' : 'below'
+        } else {
+            const rect = wrapper.getBoundingClientRect()
+            const midY = rect.top + rect.height / 2
+            position = e.clientY < midY ? 'above' : 'below'
+        }
 
         setDropTargetId(targetBlockId)
         setDropPosition(position)
@@ -1387,23 +1539,8 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         // Save current state for undo before moving
         pushState(blocks)
         isLocalUpdate.current = true
-        setBlocks(prev => {
-            // Remove blocks to move
-            const remaining = prev.filter(b => !blocksToMove.includes(b.block_id))
-            const movedBlocks = prev.filter(b => blocksToMove.includes(b.block_id))
-
-            // Find target index in remaining array
-            const targetIdx = remaining.findIndex(b => b.block_id === targetBlockId)
-            if (targetIdx === -1) return prev
-
-            // Insert at correct position
-            const insertIdx = dropPosition === 'below' ? targetIdx + 1 : targetIdx
-            return [
-                ...remaining.slice(0, insertIdx),
-                ...movedBlocks,
-                ...remaining.slice(insertIdx)
-            ]
-        })
+        // Blocks move between levels too: into a toggle, out of it, or into another one
+        setBlocks(prev => moveBlocksInTree(prev, new Set(blocksToMove), targetBlockId, dropPosition ?? 'above'))
 
         handleDragEnd()
         setSelectedBlockIds(new Set())
@@ -1413,11 +1550,12 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     const handleBlockSelect = useCallback((blockId: string, shiftKey: boolean) => {
         if (shiftKey && lastSelectRef.current) {
             // Range select
-            const startIdx = blocks.findIndex(b => b.block_id === lastSelectRef.current)
-            const endIdx = blocks.findIndex(b => b.block_id === blockId)
+            const visibleBlocks = flattenVisibleBlocks(blocks)
+            const startIdx = visibleBlocks.findIndex(b => b.block_id === lastSelectRef.current)
+            const endIdx = visibleBlocks.findIndex(b => b.block_id === blockId)
             if (startIdx !== -1 && endIdx !== -1) {
                 const [from, to] = startIdx < endIdx ? [startIdx, endIdx] : [endIdx, startIdx]
-                const rangeIds = blocks.slice(from, to + 1).map(b => b.block_id)
+                const rangeIds = visibleBlocks.slice(from, to + 1).map(b => b.block_id)
                 setSelectedBlockIds(new Set(rangeIds))
             }
         } else {
@@ -1546,7 +1684,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                     pushState(blocks)
                     isLocalUpdate.current = true
                     setBlocks(prev => {
-                        const rem = prev.filter(b => !selectedBlockIds.has(b.block_id))
+                        const [rem] = removeBlocksFromTree(prev, selectedBlockIds)
                         if (rem.length === 0) return [createNewBlock('')]
                         return rem
                     })
@@ -1807,21 +1945,28 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     const mergeWithPrevious = useCallback((blockId: string) => {
         isLocalUpdate.current = true
         setBlocks(prev => {
-            const index = prev.findIndex(b => b.block_id === blockId)
-            if (index <= 0) return prev
+            // Merge within the block's own level (a toggle's first child stays where it is)
+            const merge = (siblings: Block[]): Block[] => {
+                const index = siblings.findIndex(b => b.block_id === blockId)
+                if (index === -1) {
+                    return siblings.map(b => b.children ? { ...b, children: merge(b.children) } : b)
+                }
+                if (index === 0) return siblings
 
-            const prevBlock = prev[index - 1]
-            const currentBlock = prev[index]
+                const prevBlock = siblings[index - 1]
+                const currentBlock = siblings[index]
 
-            if (prevBlock.type === 'divider') return prev
+                if (prevBlock.type === 'divider') return siblings
 
-            const mergedContent = prevBlock.content + currentBlock.content
+                const mergedContent = prevBlock.content + currentBlock.content
 
-            return [
-                ...prev.slice(0, index - 1),
-                { ...prevBlock, content: mergedContent },
-                ...prev.slice(index + 1)
-            ]
+                return [
+                    ...siblings.slice(0, index - 1),
+                    { ...prevBlock, content: mergedContent },
+                    ...siblings.slice(index + 1)
+                ]
+            }
+            return merge(prev)
         })
     }, [])
 
@@ -1867,6 +2012,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                     children: [...currentChildren, newChild],
                     collapsed: false // Expand when adding child
                 })
+                focusBlock(newChild.block_id)
                 return
             }
 
@@ -1893,7 +2039,14 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         if (e.key === 'Tab') {
             e.preventDefault()
             const { indentBlock, outdentBlock } = useEditorStore.getState()
-            if (e.shiftKey) {
+            const location = findBlockLocation(blocks, block.block_id)
+            if (e.shiftKey && location?.parent && !block.indent) {
+                // Outdenting an unindented toggle child moves it out, right below the toggle
+                pushState(blocks)
+                isLocalUpdate.current = true
+                setBlocks(prev => moveBlocksInTree(prev, new Set([block.block_id]), location.parent!.block_id, 'below'))
+                focusBlock(block.block_id, selectionStart)
+            } else if (e.shiftKey) {
                 outdentBlock(tabId, block.block_id)
             } else {
                 indentBlock(tabId, block.block_id)
@@ -1905,9 +2058,10 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         if (e.key === 'Backspace' && selectionStart === 0 && selectionStart === selectionEnd) {
             if (block.content === '') {
                 e.preventDefault()
-                const blockIndex = blocks.findIndex(b => b.block_id === block.block_id)
+                const visibleBlocks = flattenVisibleBlocks(blocks)
+                const blockIndex = visibleBlocks.findIndex(b => b.block_id === block.block_id)
                 if (blockIndex > 0) {
-                    const prevBlock = blocks[blockIndex - 1]
+                    const prevBlock = visibleBlocks[blockIndex - 1]
                     deleteBlock(block.block_id)
                     focusBlock(prevBlock.block_id, prevBlock.content.length)
                 }
@@ -1916,9 +2070,9 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                 updateBlock(block.block_id, { type: 'text' })
             } else {
                 e.preventDefault()
-                const blockIndex = blocks.findIndex(b => b.block_id === block.block_id)
-                if (blockIndex > 0) {
-                    const prevBlock = blocks[blockIndex - 1]
+                const location = findBlockLocation(blocks, block.block_id)
+                if (location && location.index > 0) {
+                    const prevBlock = location.siblings[location.index - 1]
                     const cursorPos = prevBlock.content.length
                     mergeWithPrevious(block.block_id)
                     focusBlock(prevBlock.block_id, cursorPos)
@@ -1929,18 +2083,20 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         // Arrow up
         if (e.key === 'ArrowUp' && selectionStart === 0) {
             e.preventDefault()
-            const blockIndex = blocks.findIndex(b => b.block_id === block.block_id)
+            const visibleBlocks = flattenVisibleBlocks(blocks)
+            const blockIndex = visibleBlocks.findIndex(b => b.block_id === block.block_id)
             if (blockIndex > 0) {
-                focusBlock(blocks[blockIndex - 1].block_id)
+                focusBlock(visibleBlocks[blockIndex - 1].block_id)
             }
         }
 
         // Arrow down
         if (e.key === 'ArrowDown' && selectionStart === block.content.length) {
             e.preventDefault()
-            const blockIndex = blocks.findIndex(b => b.block_id === block.block_id)
-            if (blockIndex < blocks.length - 1) {
-                focusBlock(blocks[blockIndex + 1].block_id, 0)
+            const visibleBlocks = flattenVisibleBlocks(blocks)
+            const blockIndex = visibleBlocks.findIndex(b => b.block_id === block.block_id)
+            if (blockIndex < visibleBlocks.length - 1) {
+                focusBlock(visibleBlocks[blockIndex + 1].block_id, 0)
             }
         }
 
@@ -1956,6 +2112,9 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                 if (trimmed === '#') return { type: 'heading1' as BlockType, content: '' }
                 if (trimmed === '##') return { type: 'heading2' as BlockType, content: '' }
                 if (trimmed === '###') return { type: 'heading3' as BlockType, content: '' }
+                if (trimmed === '####') return { type: 'heading4' as BlockType, content: '' }
+                if (trimmed === '#####') return { type: 'heading5' as BlockType, content: '' }
+                if (trimmed === '######') return { type: 'heading6' as BlockType, content: '' }
                 if (trimmed === '-' || trimmed === '*') return { type: 'bullet' as BlockType, content: '' }
                 if (trimmed === '[]' || trimmed === '[ ]') return { type: 'todo' as BlockType, content: '', checked: false }
                 if (trimmed === '>') return { type: 'quote' as BlockType, content: '' }
@@ -1993,7 +2152,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
             }
         }
 
-    }, [blocks, slashMenuPosition, updateBlock, createNewBlock, insertBlockAfter, deleteBlock, mergeWithPrevious, focusBlock])
+    }, [blocks, slashMenuPosition, updateBlock, createNewBlock, insertBlockAfter, deleteBlock, mergeWithPrevious, focusBlock, pushState])
 
     const handleBlockChange = useCallback((block: Block, value: string, blockIndex: number) => {
         if (value === '/' && block.content === '') {
@@ -2022,10 +2181,17 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
             const match = value.match(/^!\[\[(.+?)(?:\|(.+?))?\]\]$/)
             if (match) {
                 const fileName = match[1]
-                // Check if it's a non-image file (treat as file block)
-                const ext = fileName.split('.').pop()?.toLowerCase() || ''
-                const imageExts = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'ico']
-                if (!imageExts.includes(ext)) {
+                const embedType = getEmbedBlockType(fileName)
+                // Note / section / block transclusion
+                if (embedType === 'embed') {
+                    updateBlock(block.block_id, {
+                        type: 'embed',
+                        content: match[2] ? `${fileName}|${match[2]}` : fileName
+                    })
+                    return
+                }
+                // Non-image attachment (treat as file block)
+                if (embedType === 'file') {
                     updateBlock(block.block_id, {
                         type: 'file',
                         content: fileName
@@ -2046,9 +2212,63 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         updateBlock(block.block_id, { content: value })
     }, [slashMenuPosition, updateBlock])
 
-    const handleSlashMenuSelect = useCallback(async (type: BlockType) => {
+    // Rich paste: clipboard HTML, files and multi-line Markdown become blocks at the cursor
+    const handleBlockPaste = useCallback(async (e: React.ClipboardEvent, textarea: HTMLTextAreaElement, block: Block) => {
+        const content = readClipboard(e.clipboardData)
+        if (!isRichPaste(content, block.type)) return
+        e.preventDefault()
+
+        // Images and files have no text to split; pasted content goes below them
+        const isAttachment = block.type === 'image' || block.type === 'file'
+        const before = isAttachment ? block.content : textarea.value.slice(0, textarea.selectionStart)
+        const after = isAttachment ? '' : textarea.value.slice(textarea.selectionEnd)
+
+        let result: PasteResult
+        try {
+            result = await convertClipboard(content, document.filePath)
+        } catch (error) {
+            console.error('Failed to paste:', error)
+            return
+        }
+
+        if ('text' in result && !isAttachment) {
+            pushState(blocks)
+            updateBlock(block.block_id, { content: before + result.text + after })
+            focusBlock(block.block_id, before.length + result.text.length)
+            return
+        }
+
+        const pasted = 'text' in result
+            ? [{ block_id: crypto.randomUUID(), type: 'text' as const, content: result.text }]
+            : result.blocks
+        if (pasted.length === 0) return
+
+        pushState(blocks)
+        isLocalUpdate.current = true
+        setBlocks(prev => replaceBlockInTree(prev, block.block_id, splitBlockAtPaste(block, before, after, pasted)))
+
+        const last = pasted[pasted.length - 1]
+        focusBlock(last.block_id, last.content.length)
+    }, [blocks, document.filePath, pushState, updateBlock, focusBlock])
+
+    const handleSlashMenuSelect = useCallback(async (type: SlashCommand) => {
         if (!slashMenuBlockId) return
 
+        if (type === 'template') {
+            setTemplateBlockId(slashMenuBlockId)
+            setSlashMenuPosition(null)
+            setSlashMenuBlockId(null)
+            return
+        }
+
+        if (type === 'callout' && slashMenuPosition) {
+            // Pick the callout type before converting the block
+            setCalloutTypeMenu({ id: slashMenuBlockId, position: slashMenuPosition, convert: true })
+            setSlashMenuPosition(null)
+            setSlashMenuBlockId(null)
+            return
+        }
+
         if (type === 'image') {
             // @ts-ignore
             const filePath = await window.api.openFileDialog()
@@ -2098,7 +2318,51 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         setSlashMenuPosition(null)
         setSlashMenuBlockId(null)
         focusBlock(slashMenuBlockId)
-    }, [slashMenuBlockId, updateBlock, focusBlock])
+    }, [slashMenuBlockId, slashMenuPosition, updateBlock, focusBlock])
+
+    const handleCalloutTypeSelect = useCallback((calloutType: string) => {
+        if (!calloutTypeMenu) return
+        if (calloutTypeMenu.convert) {
+            updateBlock(calloutTypeMenu.id, { type: 'callout', content: '', calloutType })
+            focusBlock(calloutTypeMenu.id)
+        } else {
+            updateBlock(calloutTypeMenu.id, { calloutType })
+        }
+        setCalloutTypeMenu(null)
+    }, [calloutTypeMenu, updateBlock, focusBlock])
+
+    // Replace the slash-command block with the template body; template tags / properties go to the frontmatter
+    const [templateBlockId, setTemplateBlockId] = useState<string | null>(null)
+    const insertTemplate = useCallback(async (blockId: string, templatePath: string) => {
+        const rendered = await useTemplateStore.getState().renderTemplate(templatePath, currentFileName)
+        if (rendered === null) return
+
+        const { data, body } = parseFrontmatter(rendered)
+        const { content, cursor } = extractCursor(body.replace(/^\n+/, '').replace(/\n+$/, ''), document.filePath)
+        const templateBlocks = parseMarkdownToDocument(content, document.filePath).blocks
+
+        const meta: Record<string, any> = {}
+        for (const [key, value] of Object.entries(data)) {
+            if (key === 'tags') {
+                const tags = [...new Set([...document.meta.tags, ...normalizeTags(value)])]
+                if (tags.length !== document.meta.tags.length) meta.tags = tags
+            } else if (!['id', 'title', 'created_at', 'updated_at'].includes(key) && document.meta[key] === undefined) {
+                meta[key] = value
+            }
+        }
+        if (Object.keys(meta).length > 0) updateDocumentMeta(tabId, meta)
+
+        const replaceBlock = (nodes: Block[]): Block[] => nodes.flatMap(node => {
+            if (node.block_id === blockId) return templateBlocks
+            return node.children ? [{ ...node, children: replaceBlock(node.children) }] : [node]
+        })
+        pushState(blocks)
+        isLocalUpdate.current = true
+        setBlocks(prev => replaceBlock(prev))
+
+        const cursorBlock = templateBlocks[cursor?.blockIndex ?? templateBlocks.length - 1]
+        if (cursorBlock) focusBlock(cursorBlock.block_id, cursor?.offset ?? cursorBlock.content.length)
+    }, [blocks, currentFileName, document.filePath, document.meta, tabId, updateDocumentMeta, pushState, focusBlock])
 
     const handleTodoToggle = useCallback((blockId: string, checked: boolean) => {
         updateBlock(blockId, { checked })
@@ -2108,6 +2372,24 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
     const [isAddingProperty, setIsAddingProperty] = useState(false)
     const [newPropKey, setNewPropKey] = useState('')
     const [newPropValue, setNewPropValue] = useState('')
+    const [newPropType, setNewPropType] = useState<PropertyType>('text')
+
+    const addProperty = () => {
+        const key = newPropKey.trim()
+        if (!key || RESERVED_META_KEYS.includes(key)) return
+        // Checkbox and list properties may start out empty
+        if (!newPropValue && newPropType !== 'checkbox' && newPropType !== 'list') return
+
+        updateDocumentMeta(tabId, { [key]: coercePropertyValue(newPropValue, newPropType) })
+        setNewPropKey('')
+        setNewPropValue('')
+        setNewPropType('text')
+        setIsAddingProperty(false)
+    }
+
+    const handleMetaLinkClick = (target: string) => {
+        openLink(target)
+    }
 
     const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter' || e.key === ' ') {
@@ -2129,6 +2411,184 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
         updateDocumentMeta(tabId, { tags: newTags })
     }
 
+    // One block (or its inline diff) and the inserts proposed after it; toggles render their
+    // children through this too
+    const renderBlock = (block: Block, index: number, siblings: Block[]): React.ReactNode[] => {
+        const diff = getDiffForBlock(document.filePath, block.block_id)
+        const insertDiffs = getInsertDiffsAfterBlock(document.filePath, block.block_id)
+        const elements: React.ReactNode[] = []
+
+        // 1. Render the block (with diff wrapper if update/delete)
+        if (diff) {
+            elements.push(
+                <InlineDiff
+                    key={`diff-${block.block_id}`}
+                    diff={diff}
+                    block={block}
+                    blocks={siblings}
+                    onAccept={(diffId) => {
+                        const acceptedDiff = acceptDiff(document.filePath, diffId)
+                        if (acceptedDiff) {
+                            if (acceptedDiff.type === 'update' && acceptedDiff.newContent !== undefined) {
+                                updateBlock(block.block_id, { content: acceptedDiff.newContent })
+                            } else if (acceptedDiff.type === 'delete') {
+                                deleteBlock(block.block_id)
+                            }
+                        }
+                    }}
+                    onReject={(diffId) => {
+                        rejectDiff(document.filePath, diffId)
+                    }}
+                    onLinkClick={(target) => openLink(target)}
+                />
+            )
+        } else {
+            elements.push(
+                <BlockComponent
+                    key={block.block_id}
+                    block={block}
+                    index={index}
+                    isFocused={focusedBlockId === block.block_id}
+                    isSelected={selectedBlockIds.has(block.block_id)}
+                    onFocus={() => {
+                        setFocusedBlockId(block.block_id)
+                        if (selectedBlockIds.size > 0) setSelectedBlockIds(new Set())
+                    }}
+                    onBlur={() => setFocusedBlockId(null)}
+                    onChange={(value, alt) => {
+                        if (alt !== undefined) updateBlock(block.block_id, { alt })
+                        else handleBlockChange(block, value, index)
+                    }}
+                    onKeyDown={(e) => handleBlockKeyDown(e, block)}
+                    onPaste={(e, textarea) => handleBlockPaste(e, textarea, block)}
+                    onTodoToggle={(checked) => handleTodoToggle(block.block_id, checked)}
+                    onToggleCollapse={(collapsed) => updateBlock(block.block_id,
+                        block.type === 'callout' ? { calloutFold: collapsed ? '-' : '+' } : { collapsed }
+                    )}
+                    onCalloutChange={(updates) => updateBlock(block.block_id, updates)}
+                    onChildAdd={() => {
+                        const newChild: Block = {
+                            block_id: crypto.randomUUID(),
+                            type: 'text',
+                            content: ''
+                        }
+                        const currentChildren = block.children || []
+                        updateBlock(block.block_id, { children: [...currentChildren, newChild] })
+                        focusBlock(newChild.block_id)
+                    }}
+                    renderChild={(child, childIndex) => renderBlock(child, childIndex, block.children!)}
+                    isFirstBlock={siblings === blocks && index === 0}
+                    registerRef={(el) => {
+                        if (el) blockRefs.current.set(block.block_id, el)
+                        else blockRefs.current.delete(block.block_id)
+                    }}
+                    onContextMenu={(e) => {
+                        e.preventDefault()
+                        setBlockMenu({
+                            id: block.block_id,
+                            position: { x: e.clientX, y: e.clientY }
+                        })
+                    }}
+                    onHandleClick={(e) => {
+                        e.preventDefault()
+                        const rect = (e.target as HTMLElement).getBoundingClientRect()
+                        setBlockMenu({
+                            id: block.block_id,
+                            position: { x: rect.right + 10, y: rect.top }
+                        })
+                    }}
+                    viewMode={viewMode}
+                    onLinkClick={async (target) => {
+                        if (await openLink(target)) return
+                        // Unresolved link: create the note (without the #anchor part)
+                        const noteName = parseWikiLink(target).target
+                        if (!noteName) return
+                        if (vaultPath) {
+                            createNewFile(vaultPath, `${noteName}.md`).then((newPath) => {
+                                if (newPath) {
+                                    openTab(newPath, noteName)
+                                }
+                            })
+                        } else {
+                            console.warn('File not found and no vault path:', target)
+                        }
+                    }}
+                    onBacklinkTrigger={(blockId, query, position) => {
+                        setBacklinkMenu({ blockId, query, position })
+                    }}
+                    onBacklinkQueryChange={(query) => {
+                        setBacklinkMenu(prev => prev ? { ...prev, query } : null)
+                    }}
+                    onBacklinkClose={() => {
+                        setBacklinkMenu(null)
+                    }}
+                    onTableChange={(updates) => {
+                        updateBlock(block.block_id, updates)
+                    }}
+                    onDragStart={handleDragStart}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={handleDragOver}
+                    onDrop={handleDrop}
+                    isDragOver={dropTargetId === block.block_id}
+                    dropPosition={dropTargetId === block.block_id ? dropPosition : null}
+                    isDragging={draggedBlockId === block.block_id || (!!draggedBlockId && selectedBlockIds.has(block.block_id))}
+                    onBlockSelect={handleBlockSelect}
+                    onHighlightHover={(e, blockId, text, comment) => {
+                        if (highlightHoverTimer.current) {
+                            clearTimeout(highlightHoverTimer.current)
+                            highlightHoverTimer.current = null
+                        }
+                        const rect = (e.target as HTMLElement).getBoundingClientRect()
+                        setHighlightTooltip({
+                            visible: true,
+                            position: { x: rect.left, y: rect.bottom + 5 },
+                            text,
+                            comment,
+                            blockId
+                        })
+                    }}
+                    onHighlightLeave={() => {
+                        highlightHoverTimer.current = setTimeout(() => {
+                            setHighlightTooltip(null)
+                        }, 150)
+                    }}
+                    blocks={siblings}
+                    documentPath={document.filePath}
+                />
+            )
+        }
+
+        // 2. Render insert diffs after this block (in order)
+        for (const insertDiff of insertDiffs) {
+            elements.push(
+                <InlineDiff
+                    key={`insert-${insertDiff.id}`}
+                    diff={insertDiff}
+                    block={block} // Reference block (insert after this)
+                    blocks={siblings}
+                    onAccept={(diffId) => {
+                        const acceptedDiff = acceptDiff(document.filePath, diffId)
+                        if (acceptedDiff && acceptedDiff.newContent !== undefined) {
+                            // Insert a new block after the reference block
+                            const newBlock: Block = {
+                                block_id: crypto.randomUUID(),
+                                type: acceptedDiff.blockType || 'text',
+                                content: acceptedDiff.newContent
+                            }
+                            updateDocument(tabId, recursiveInsertBlockAfter(blocks, block.block_id, newBlock))
+                        }
+                    }}
+                    onReject={(diffId) => {
+                        rejectDiff(document.filePath, diffId)
+                    }}
+                    onLinkClick={(target) => openLink(target)}
+                />
+            )
+        }
+
+        return elements
+    }
+
     return (
         <div
             className={`block-editor ${isSelecting ? 'selecting' : ''}`}
@@ -2148,6 +2608,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
             {/* Header */}
             {/* Header */}
             <div className="document-header">
+                <PeriodicNoteNav filePath={document.filePath} />
                 <input
                     className="document-title-input"
                     value={headerTitle}
@@ -2156,12 +2617,9 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                         const newName = headerTitle.trim()
                         if (newName && newName !== currentFileName) {
                             const newFileName = newName.endsWith('.md') ? newName : `${newName}.md`
+                            // renameItem also moves open tabs to the new path
                             const success = await renameItem(document.filePath, newFileName)
-                            if (success) {
-                                // Update tab path via editorStore
-                                const parentPath = document.filePath.substring(0, document.filePath.lastIndexOf('/'))
-                                renameFile(document.filePath, `${parentPath}/${newFileName}`)
-                            } else {
+                            if (!success) {
                                 // Revert on failure
                                 setHeaderTitle(currentFileName)
                             }
@@ -2218,18 +2676,18 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                         </label>
                     </div>
 
-                    {/* Custom Metadata */}
+                    {/* Custom Metadata (typed properties) */}
                     {Object.entries(document.meta).map(([key, value]) => {
-                        if (['id', 'title', 'tags', 'created_at', 'updated_at', 'alwaysOn'].includes(key)) return null
+                        if (RESERVED_META_KEYS.includes(key) || value === undefined) return null
                         return (
-                            <div key={key} className="meta-row">
-                                <span className="meta-label">{key}</span>
-                                <input
-                                    className="meta-value-input"
-                                    value={String(value)}
-                                    onChange={(e) => updateDocumentMeta(tabId, { [key]: e.target.value })}
-                                />
-                            </div>
+                            <PropertyField
+                                key={key}
+                                name={key}
+                                value={value}
+                                onChange={(newValue) => updateDocumentMeta(tabId, { [key]: newValue })}
+                                onRemove={() => updateDocumentMeta(tabId, { [key]: undefined })}
+                                onLinkClick={handleMetaLinkClick}
+                            />
                         )
                     })}
 
@@ -2242,42 +2700,30 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                                 value={newPropKey}
                                 onChange={(e) => setNewPropKey(e.target.value)}
                                 onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                        if (newPropKey && newPropValue) {
-                                            updateDocumentMeta(tabId, { [newPropKey]: newPropValue })
-                                            setNewPropKey('')
-                                            setNewPropValue('')
-                                            setIsAddingProperty(false)
-                                        }
-                                    }
+                                    if (e.key === 'Enter') addProperty()
                                 }}
                             />
+                            <select
+                                className="meta-type-select"
+                                value={newPropType}
+                                onChange={(e) => setNewPropType(e.target.value as PropertyType)}
+                            >
+                                {PROPERTY_TYPES.map(t => (
+                                    <option key={t.type} value={t.type}>{t.label}</option>
+                                ))}
+                            </select>
                             <input
                                 className="meta-value-input"
                                 placeholder="Value"
                                 value={newPropValue}
                                 onChange={(e) => setNewPropValue(e.target.value)}
                                 onKeyDown={(e) => {
-                                    if (e.key === 'Enter') {
-                                        if (newPropKey && newPropValue) {
-                                            updateDocumentMeta(tabId, { [newPropKey]: newPropValue })
-                                            setNewPropKey('')
-                                            setNewPropValue('')
-                                            setIsAddingProperty(false)
-                                        }
-                                    }
+                                    if (e.key === 'Enter') addProperty()
                                 }}
                             />
                             <button
                                 className="meta-add-confirm-btn"
-                                onClick={() => {
-                                    if (newPropKey && newPropValue) {
-                                        updateDocumentMeta(tabId, { [newPropKey]: newPropValue })
-                                        setNewPropKey('')
-                                        setNewPropValue('')
-                                        setIsAddingProperty(false)
-                                    }
-                                }}
+                                onClick={addProperty}
                             >Add</button>
                             <button
                                 className="meta-add-cancel-btn"
@@ -2296,197 +2742,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
             </div>
 
             {/* Blocks */}
-            {blocks.flatMap((block, index) => {
-                const diff = getDiffForBlock(document.filePath, block.block_id)
-                const insertDiffs = getInsertDiffsAfterBlock(document.filePath, block.block_id)
-                const elements: React.ReactNode[] = []
-
-                // 1. Render the block (with diff wrapper if update/delete)
-                if (diff) {
-                    elements.push(
-                        <InlineDiff
-                            key={`diff-${block.block_id}`}
-                            diff={diff}
-                            block={block}
-                            blocks={blocks}
-                            onAccept={(diffId) => {
-                                const acceptedDiff = acceptDiff(document.filePath, diffId)
-                                if (acceptedDiff) {
-                                    if (acceptedDiff.type === 'update' && acceptedDiff.newContent !== undefined) {
-                                        updateBlock(block.block_id, { content: acceptedDiff.newContent })
-                                    } else if (acceptedDiff.type === 'delete') {
-                                        deleteBlock(block.block_id)
-                                    }
-                                }
-                            }}
-                            onReject={(diffId) => {
-                                rejectDiff(document.filePath, diffId)
-                            }}
-                            onLinkClick={(target) => {
-                                const doc = documentIndex.find(d => d.title === target || d.path.endsWith(`/${target}.md`))
-                                if (doc) openTab(doc.path, doc.title)
-                            }}
-                        />
-                    )
-                } else {
-                    elements.push(
-                        <BlockComponent
-                            key={block.block_id}
-                            block={block}
-                            index={index}
-                            isFocused={focusedBlockId === block.block_id}
-                            isSelected={selectedBlockIds.has(block.block_id)}
-                            onFocus={() => {
-                                setFocusedBlockId(block.block_id)
-                                if (selectedBlockIds.size > 0) setSelectedBlockIds(new Set())
-                            }}
-                            onBlur={() => setFocusedBlockId(null)}
-                            onChange={(value, alt) => {
-                                if (alt !== undefined) updateBlock(block.block_id, { alt })
-                                else handleBlockChange(block, value, index)
-                            }}
-                            onKeyDown={(e) => handleBlockKeyDown(e, block)}
-                            onTodoToggle={(checked) => handleTodoToggle(block.block_id, checked)}
-                            onToggleCollapse={(collapsed) => updateBlock(block.block_id, { collapsed })}
-                            onChildChange={(childIndex, content) => {
-                                if (block.children) {
-                                    const newChildren = [...block.children]
-                                    newChildren[childIndex] = { ...newChildren[childIndex], content }
-                                    updateBlock(block.block_id, { children: newChildren })
-                                }
-                            }}
-                            onChildDelete={(childIndex) => {
-                                if (block.children) {
-                                    const newChildren = block.children.filter((_, i) => i !== childIndex)
-                                    updateBlock(block.block_id, { children: newChildren })
-                                }
-                            }}
-                            onChildAdd={() => {
-                                const newChild: Block = {
-                                    block_id: crypto.randomUUID(),
-                                    type: 'text',
-                                    content: ''
-                                }
-                                const currentChildren = block.children || []
-                                updateBlock(block.block_id, { children: [...currentChildren, newChild] })
-                            }}
-                            isFirstBlock={index === 0}
-                            registerRef={(el) => {
-                                if (el) blockRefs.current.set(block.block_id, el)
-                                else blockRefs.current.delete(block.block_id)
-                            }}
-                            onContextMenu={(e) => {
-                                e.preventDefault()
-                                setBlockMenu({
-                                    id: block.block_id,
-                                    position: { x: e.clientX, y: e.clientY }
-                                })
-                            }}
-                            onHandleClick={(e) => {
-                                e.preventDefault()
-                                const rect = (e.target as HTMLElement).getBoundingClientRect()
-                                setBlockMenu({
-                                    id: block.block_id,
-                                    position: { x: rect.right + 10, y: rect.top }
-                                })
-                            }}
-                            viewMode={viewMode}
-                            onLinkClick={(target) => {
-                                const doc = documentIndex.find(d => d.title === target || d.path.endsWith(`/${target}.md`))
-                                if (doc) {
-                                    openTab(doc.path, doc.title)
-                                } else {
-                                    if (vaultPath) {
-                                        createNewFile(vaultPath, `${target}.md`).then((newPath) => {
-                                            if (newPath) {
-                                                openTab(newPath, target)
-                                            }
-                                        })
-                                    } else {
-                                        console.warn('File not found and no vault path:', target)
-                                    }
-                                }
-                            }}
-                            onBacklinkTrigger={(blockId, query, position) => {
-                                setBacklinkMenu({ blockId, query, position })
-                            }}
-                            onBacklinkQueryChange={(query) => {
-                                setBacklinkMenu(prev => prev ? { ...prev, query } : null)
-                            }}
-                            onBacklinkClose={() => {
-                                setBacklinkMenu(null)
-                            }}
-                            onTableDataChange={(data) => {
-                                updateBlock(block.block_id, { tableData: data })
-                            }}
-                            onDragStart={handleDragStart}
-                            onDragEnd={handleDragEnd}
-                            onDragOver={handleDragOver}
-                            onDrop={handleDrop}
-                            isDragOver={dropTargetId === block.block_id}
-                            dropPosition={dropTargetId === block.block_id ? dropPosition : null}
-                            isDragging={draggedBlockId === block.block_id || (!!draggedBlockId && selectedBlockIds.has(block.block_id))}
-                            onBlockSelect={handleBlockSelect}
-                            onHighlightHover={(e, blockId, text, comment) => {
-                                if (highlightHoverTimer.current) {
-                                    clearTimeout(highlightHoverTimer.current)
-                                    highlightHoverTimer.current = null
-                                }
-                                const rect = (e.target as HTMLElement).getBoundingClientRect()
-                                setHighlightTooltip({
-                                    visible: true,
-                                    position: { x: rect.left, y: rect.bottom + 5 },
-                                    text,
-                                    comment,
-                                    blockId
-                                })
-                            }}
-                            onHighlightLeave={() => {
-                                highlightHoverTimer.current = setTimeout(() => {
-                                    setHighlightTooltip(null)
-                                }, 150)
-                            }}
-                            blocks={blocks}
-                        />
-                    )
-                }
-
-                // 2. Render insert diffs after this block (in order)
-                for (const insertDiff of insertDiffs) {
-                    elements.push(
-                        <InlineDiff
-                            key={`insert-${insertDiff.id}`}
-                            diff={insertDiff}
-                            block={block} // Reference block (insert after this)
-                            blocks={blocks}
-                            onAccept={(diffId) => {
-                                const acceptedDiff = acceptDiff(document.filePath, diffId)
-                                if (acceptedDiff && acceptedDiff.newContent !== undefined) {
-                                    // Insert a new block after the reference block
-                                    const newBlock: Block = {
-                                        block_id: crypto.randomUUID(),
-                                        type: acceptedDiff.blockType || 'text',
-                                        content: acceptedDiff.newContent
-                                    }
-                                    const insertIdx = blocks.findIndex(b => b.block_id === block.block_id) + 1
-                                    const updatedBlocks = [...blocks]
-                                    updatedBlocks.splice(insertIdx, 0, newBlock)
-                                    updateDocument(tabId, updatedBlocks)
-                                }
-                            }}
-                            onReject={(diffId) => {
-                                rejectDiff(document.filePath, diffId)
-                            }}
-                            onLinkClick={(target) => {
-                                const doc = documentIndex.find(d => d.title === target || d.path.endsWith(`/${target}.md`))
-                                if (doc) openTab(doc.path, doc.title)
-                            }}
-                        />
-                    )
-                }
-
-                return elements
-            })}
+            {blocks.flatMap((block, index) => renderBlock(block, index, blocks))}
 
             {/* Backlinks Section - rendered after all blocks */}
             <BacklinkSection currentNoteId={document.filePath} />
@@ -2514,15 +2770,34 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                 />
             )}
 
+            {/* Template picker (/template) */}
+            {templateBlockId && (
+                <TemplatePicker
+                    onSelect={(templatePath) => templatePath && insertTemplate(templateBlockId, templatePath)}
+                    onClose={() => setTemplateBlockId(null)}
+                />
+            )}
+
             {/* Block Menu */}
             {blockMenu && (
                 <BlockMenu
                     position={blockMenu.position}
+                    blockType={findBlock(blocks, blockMenu.id)?.type}
                     onSelect={handleBlockMenuSelect}
                     onClose={() => setBlockMenu(null)}
                 />
             )}
 
+            {/* Callout type picker */}
+            {calloutTypeMenu && (
+                <CalloutTypeMenu
+                    position={calloutTypeMenu.position}
+                    current={calloutTypeMenu.convert ? undefined : findBlock(blocks, calloutTypeMenu.id)?.calloutType}
+                    onSelect={handleCalloutTypeSelect}
+                    onClose={() => setCalloutTypeMenu(null)}
+                />
+            )}
+
             {/* Backlink Menu */}
             {backlinkMenu && (
                 <BacklinkMenu
@@ -2530,7 +2805,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                     query={backlinkMenu.query}
                     onSelect={async (fileName) => {
                         if (backlinkMenu.blockId) {
-                            const block = blocks.find(b => b.block_id === backlinkMenu.blockId)
+                            const block = findBlock(blocks, backlinkMenu.blockId)
                             if (block) {
                                 // Replace [[query with [[fileName]]
                                 const content = block.content
@@ -2562,7 +2837,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                         if (highlightSelectedRange && highlightModalMode === 'create') {
                             // Create new highlight
                             const { blockId, start, end } = highlightSelectedRange
-                            const block = blocks.find(b => b.block_id === blockId)
+                            const block = findBlock(blocks, blockId)
                             if (block) {
                                 const selectedText = block.content.slice(start, end)
                                 const date = new Date().toISOString().split('T')[0]
@@ -2579,7 +2854,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                         } else if (editingHighlight && highlightModalMode === 'edit') {
                             // Edit existing highlight
                             const { blockId, originalText } = editingHighlight
-                            const block = blocks.find(b => b.block_id === blockId)
+                            const block = findBlock(blocks, blockId)
                             if (block) {
                                 // Find and replace the old highlight with new comment
                                 const oldPattern = new RegExp(`==${originalText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}==(?:\\^\\[.*?\\])?`)
@@ -2628,7 +2903,7 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                     }}
                     onDelete={() => {
                         // Remove highlight from block
-                        const block = blocks.find(b => b.block_id === highlightTooltip.blockId)
+                        const block = findBlock(blocks, highlightTooltip.blockId)
                         if (block) {
                             // Pattern that handles nested [[backlinks]] and |date in comments
                             const escapedText = highlightTooltip.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
@@ -2642,15 +2917,15 @@ export default function BlockEditor({ document, tabId, viewMode }: BlockEditorPr
                         setHighlightTooltip(null)
                     }}
                     onBacklinkClick={(target) => {
-                        const doc = documentIndex.find(d => d.title === target)
-                        if (doc) {
-                            openTab(doc.path, doc.title)
-                        }
+                        openLink(target)
                         setHighlightTooltip(null)
                     }}
                 />
             )}
 
+            {/* Hover preview for [[links]] */}
+            <LinkPreview containerRef={editorRef} filePath={document.filePath} />
+
             {/* Text Selection Tooltip for Chat */}
             {textSelectionTooltip && (
                 <TextSelectionTooltip
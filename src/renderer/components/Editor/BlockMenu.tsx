@@ -3,13 +3,17 @@ import {
     Trash2,
     ArrowUpToLine,
     ArrowDownToLine,
+    Link,
+    Lightbulb,
     X
 } from 'lucide-react'
+import type { BlockType } from '@shared/types'
 
-export type BlockAction = 'delete' | 'insert_above' | 'insert_below'
+export type BlockAction = 'delete' | 'insert_above' | 'insert_below' | 'copy_link' | 'callout_type'
 
 interface BlockMenuProps {
     position: { x: number; y: number }
+    blockType?: BlockType // Type of the block the menu is for (type-specific items)
     onSelect: (action: BlockAction) => void
     onClose: () => void
 }
@@ -20,19 +24,24 @@ interface MenuItem {
     icon: React.ReactNode
     shortcut?: string
     variant?: 'default' | 'danger'
+    blockTypes?: BlockType[] // Only shown for these block types
 }
 
 const MENU_ITEMS: MenuItem[] = [
     { action: 'insert_above', label: 'Insert Above', icon: <ArrowUpToLine size={16} />, shortcut: 'Cmd+Up' },
     { action: 'insert_below', label: 'Insert Below', icon: <ArrowDownToLine size={16} />, shortcut: 'Cmd+Down' },
+    { action: 'copy_link', label: 'Copy Link to Block', icon: <Link size={16} /> },
+    { action: 'callout_type', label: 'Callout Type', icon: <Lightbulb size={16} />, blockTypes: ['callout'] },
     { action: 'delete', label: 'Delete', icon: <Trash2 size={16} />, shortcut: 'Del', variant: 'danger' },
 ]
 
 export default function BlockMenu({
     position,
+    blockType,
     onSelect,
     onClose
 }: BlockMenuProps) {
+    const items = MENU_ITEMS.filter(item => !item.blockTypes || (blockType && item.blockTypes.includes(blockType)))
     const [selectedIndex, setSelectedIndex] = useState(0)
     const menuRef = useRef<HTMLDivElement>(null)
     const [adjustedPos, setAdjustedPos] = useState(position)
@@ -70,18 +79,18 @@ export default function BlockMenu({
                 case 'ArrowDown':
                     e.preventDefault()
                     setSelectedIndex((prev) =>
-                        prev < MENU_ITEMS.length - 1 ? prev + 1 : 0
+                        prev < items.length - 1 ? prev + 1 : 0
                     )
                     break
                 case 'ArrowUp':
                     e.preventDefault()
                     setSelectedIndex((prev) =>
-                        prev > 0 ? prev - 1 : MENU_ITEMS.length - 1
+                        prev > 0 ? prev - 1 : items.length - 1
                     )
                     break
                 case 'Enter':
                     e.preventDefault()
-                    onSelect(MENU_ITEMS[selectedIndex].action)
+                    onSelect(items[selectedIndex].action)
                     break
                 case 'Escape':
                     e.preventDefault()
@@ -117,7 +126,7 @@ export default function BlockMenu({
                 minWidth: '180px'
             }}
         >
-            {MENU_ITEMS.map((item, index) => (
+            {items.map((item, index) => (
                 <div
                     key={item.action}
                     className={`slash-menu-item ${index === selectedIndex ? 'selected' : ''} ${item.variant === 'danger' ? 'danger' : ''}`}
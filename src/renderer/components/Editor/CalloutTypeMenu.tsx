@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef, useLayoutEffect } from 'react'
+import { Check } from 'lucide-react'
+import { CALLOUT_KINDS, getCalloutKind } from '../../utils/calloutUtils'
+
+interface CalloutTypeMenuProps {
+    position: { x: number; y: number }
+    current?: string // calloutType of the block being changed
+    onSelect: (type: string) => void
+    onClose: () => void
+}
+
+/**
+ * Pick a callout type (from the slash menu, the block menu or a callout's header)
+ */
+export default function CalloutTypeMenu({
+    position,
+    current,
+    onSelect,
+    onClose
+}: CalloutTypeMenuProps) {
+    const currentType = current ? getCalloutKind(current).type : null
+    const [selectedIndex, setSelectedIndex] = useState(() =>
+        Math.max(0, CALLOUT_KINDS.findIndex(kind => kind.type === currentType))
+    )
+    const menuRef = useRef<HTMLDivElement>(null)
+    const [adjustedPos, setAdjustedPos] = useState(position)
+
+    // Adjust position if menu would overflow viewport
+    useLayoutEffect(() => {
+        if (menuRef.current) {
+            const rect = menuRef.current.getBoundingClientRect()
+
+            let newX = position.x
+            let newY = position.y
+
+            if (position.y + rect.height > window.innerHeight - 10) {
+                newY = Math.max(10, position.y - rect.height)
+            }
+            if (position.x + rect.width > window.innerWidth - 10) {
+                newX = Math.max(10, position.x - rect.width)
+            }
+
+            setAdjustedPos({ x: newX, y: newY })
+        }
+    }, [position])
+
+    // Handle keyboard navigation
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            switch (e.key) {
+                case 'ArrowDown':
+                    e.preventDefault()
+                    setSelectedIndex((prev) => prev < CALLOUT_KINDS.length - 1 ? prev + 1 : 0)
+                    break
+                case 'ArrowUp':
+                    e.preventDefault()
+                    setSelectedIndex((prev) => prev > 0 ? prev - 1 : CALLOUT_KINDS.length - 1)
+                    break
+                case 'Enter':
+                    e.preventDefault()
+                    onSelect(CALLOUT_KINDS[selectedIndex].type.toUpperCase())
+                    break
+                case 'Escape':
+                    e.preventDefault()
+                    onClose()
+                    break
+            }
+        }
+
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [selectedIndex, onSelect, onClose])
+
+    // Click outside to close
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                onClose()
+            }
+        }
+
+        document.addEventListener('mousedown', handleClickOutside)
+        return () => document.removeEventListener('mousedown', handleClickOutside)
+    }, [onClose])
+
+    return (
+        <div
+            ref={menuRef}
+            className="slash-menu callout-type-menu"
+            style={{
+                position: 'fixed',
+                left: adjustedPos.x,
+                top: adjustedPos.y,
+                minWidth: '180px'
+            }}
+        >
+            {CALLOUT_KINDS.map((kind, index) => (
+                <div
+                    key={kind.type}
+                    className={`slash-menu-item ${index === selectedIndex ? 'selected' : ''}`}
+                    onMouseDown={(e) => {
+                        e.preventDefault()
+                        onSelect(kind.type.toUpperCase())
+                    }}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                >
+                    <span className="slash-menu-icon">{kind.icon}</span>
+                    <span className="slash-menu-label">{kind.label}</span>
+                    {kind.type === currentType && (
+                        <span className="slash-menu-shortcut"><Check size={14} /></span>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -1,8 +1,9 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
-import { useEditorStore } from '../../stores/editorStore'
+import { useEditorStore, type ExternalChange } from '../../stores/editorStore'
 import { useVaultStore } from '../../stores/vaultStore'
 import identityIconUrl from '../../assets/icons/identity.svg?url'
 import BlockEditor from './BlockEditor'
+import ExternalChangeBanner from './ExternalChangeBanner'
 import BrowserTab from './BrowserTab'
 import GraphView from '../GraphView/GraphView'
 import TabBar from '../TabBar/TabBar'
@@ -48,9 +49,10 @@ interface ScrollableEditorProps {
     tabId: string
     viewMode: 'edit' | 'preview'
     hasAnimated?: boolean
+    externalChange?: ExternalChange
 }
 
-function ScrollableEditor({ document, tabId, viewMode, hasAnimated }: ScrollableEditorProps) {
+function ScrollableEditor({ document, tabId, viewMode, hasAnimated, externalChange }: ScrollableEditorProps) {
     const editorContainerRef = useRef<HTMLDivElement>(null)
     const { showTopOverlay, showBottomOverlay, scrollToTop } = useScrollOverlay(editorContainerRef)
     const { vaultPath } = useVaultStore()
@@ -159,7 +161,8 @@ function ScrollableEditor({ document, tabId, viewMode, hasAnimated }: Scrollable
                 }
 
                 // Copy image to vault attachments folder
-                const relativePath = await window.api.copyImageToVault(filePath, vaultPath)
+                const targetDir = document?.filePath ? useVaultStore.getState().getAttachmentDir(document.filePath) : null
+                const relativePath = await window.api.copyImageToVault(filePath, vaultPath, targetDir ?? undefined)
 
                 // Add image block to document
                 const fullPath = `${vaultPath}/${relativePath}`
@@ -168,7 +171,7 @@ function ScrollableEditor({ document, tabId, viewMode, hasAnimated }: Scrollable
                 console.error('Failed to copy image:', error)
             }
         }
-    }, [vaultPath, tabId, addImageBlock])
+    }, [vaultPath, tabId, addImageBlock, document?.filePath])
 
     return (
         <div className="scrollable-editor-wrapper">
@@ -180,6 +183,8 @@ function ScrollableEditor({ document, tabId, viewMode, hasAnimated }: Scrollable
                 <span className="scroll-overlay-filename">{fileName}</span>
             </div>
 
+            {externalChange && <ExternalChangeBanner tabId={tabId} change={externalChange} />}
+
             {/* Editor container */}
             <div
                 ref={editorContainerRef}
@@ -326,6 +331,7 @@ export default function EditorArea() {
                                         tabId={activeTab.id}
                                         viewMode={activeTab.viewMode || 'edit'}
                                         hasAnimated={activeTab.hasAnimated}
+                                        externalChange={activeTab.externalChange}
                                     />
                                 )}
                             </div>
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import type { Block } from '@shared/types'
+import { parseMarkdownToDocument } from '@shared/markdown'
+import { parseWikiLink, getAnchorSection, getWikiLinkAnchor } from '@shared/wikiLinks'
+import { BlockPreview } from '../common/BlockPreview'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+
+// Nested embeds deeper than this are not rendered
+const MAX_EMBED_DEPTH = 4
+
+interface EmbedBlockProps {
+    link: string         // Inside of ![[...]]
+    ancestors: string[]  // Embed chain: host file path first, then "path" / "path#anchor" of each embed
+}
+
+/**
+ * Read-only transclusion of a note, heading section or block.
+ * Uses the open tab's document when the source is being edited (live), otherwise the file on disk.
+ */
+export default function EmbedBlock({ link, ancestors }: EmbedBlockProps) {
+    const parsed = parseWikiLink(link)
+    const anchor = getWikiLinkAnchor(parsed)
+    const hostPath = ancestors[ancestors.length - 1]?.split('#')[0] ?? ''
+
+    const documentIndex = useVaultStore(state => state.documentIndex)
+    const sourcePath = parsed.target
+        ? documentIndex.find(d => d.title === parsed.target || d.path.endsWith(`/${parsed.target}.md`))?.path
+        : hostPath
+    const revision = useVaultStore(state => (sourcePath ? state.fileRevisions[sourcePath] : undefined) ?? 0)
+    const openLink = useEditorStore(state => state.openLink)
+    const liveBlocks = useEditorStore(state => {
+        if (!sourcePath) return undefined
+        for (const group of state.editorGroups) {
+            const tab = group.tabs.find(t => t.filePath === sourcePath && t.document)
+            if (tab) return tab.document!.blocks
+        }
+        return undefined
+    })
+
+    const [diskBlocks, setDiskBlocks] = useState<Block[] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const key = anchor ? `${sourcePath}#${anchor}` : sourcePath ?? ''
+    // A whole-note embed contains every section of that note, so any ancestor from the same file is a cycle
+    const isCycle = !!sourcePath && ancestors.some(a =>
+        a === key || (!anchor && a.split('#')[0] === sourcePath)
+    )
+    const isTooDeep = ancestors.length > MAX_EMBED_DEPTH
+
+    useEffect(() => {
+        if (!sourcePath || liveBlocks || isCycle || isTooDeep) return
+        let cancelled = false
+        window.api.readFile(sourcePath)
+            .then(content => {
+                if (cancelled) return
+                setDiskBlocks(parseMarkdownToDocument(content, sourcePath).blocks)
+                setError(null)
+            })
+            .catch(() => !cancelled && setError('파일을 읽을 수 없습니다.'))
+        return () => { cancelled = true }
+    }, [sourcePath, revision, !!liveBlocks, isCycle, isTooDeep])
+
+    const title = parsed.alias || (anchor ? `${parsed.target || 'This note'} › ${anchor}` : parsed.target)
+
+    const renderBody = () => {
+        if (!sourcePath) return <div className="embed-message">"{parsed.target}" 노트를 찾을 수 없습니다.</div>
+        if (isCycle) return <div className="embed-message">순환 임베드는 표시할 수 없습니다.</div>
+        if (isTooDeep) return <div className="embed-message">임베드 깊이 제한({MAX_EMBED_DEPTH})을 넘었습니다.</div>
+        if (error) return <div className="embed-message">{error}</div>
+
+        const blocks = liveBlocks ?? diskBlocks
+        if (!blocks) return <div className="embed-message">Loading...</div>
+
+        const section = getAnchorSection(blocks, parsed)
+        if (section.length === 0) return <div className="embed-message">{anchor} 섹션을 찾을 수 없습니다.</div>
+
+        return section.map(block => (
+            <BlockPreview
+                key={block.block_id}
+                block={block}
+                blocks={section}
+                onLinkClick={(target) => openLink(target)}
+                embedAncestors={[...ancestors, key]}
+            />
+        ))
+    }
+
+    return (
+        <div className="embed-block" contentEditable={false}>
+            <div className="embed-header">
+                <span className="embed-title">{title}</span>
+                {sourcePath && (
+                    <button
+                        className="embed-open-btn"
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                            e.stopPropagation()
+                            openLink(link)
+                        }}
+                        title="Open original to edit"
+                    >
+                        <ExternalLink size={12} />
+                    </button>
+                )}
+            </div>
+            <div className="embed-body">{renderBody()}</div>
+        </div>
+    )
+}
@@ -0,0 +1,64 @@
+import { AlertTriangle } from 'lucide-react'
+import { useEditorStore, type ExternalChange } from '../../stores/editorStore'
+
+interface ExternalChangeBannerProps {
+    tabId: string
+    change: ExternalChange
+}
+
+/**
+ * Shown above the editor when the file changed or was deleted on disk while the tab had unsaved edits
+ */
+export default function ExternalChangeBanner({ tabId, change }: ExternalChangeBannerProps) {
+    const { resolveExternalChange, saveTab, closeTab } = useEditorStore()
+
+    if (change.type === 'deleted') {
+        return (
+            <div className="external-change-banner">
+                <AlertTriangle size={14} />
+                <span className="external-change-message">이 파일이 디스크에서 삭제되었습니다.</span>
+                <div className="external-change-actions">
+                    <button
+                        onClick={() => {
+                            resolveExternalChange(tabId, 'keep')
+                            saveTab(tabId)
+                        }}
+                    >Keep & Save</button>
+                    <button onClick={() => closeTab(tabId)}>Close</button>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="external-change-banner">
+            <AlertTriangle size={14} />
+            <span className="external-change-message">
+                이 파일이 외부에서 변경되었습니다. 저장하지 않은 변경사항이 있습니다.
+            </span>
+            <div className="external-change-actions">
+                <button
+                    className="primary"
+                    onClick={() => {
+                        const conflicts = resolveExternalChange(tabId, 'merge')
+                        if (conflicts > 0) {
+                            window.alert(`${conflicts}개의 충돌이 있습니다. <<<<<<< / >>>>>>> 표시된 부분을 확인해주세요.`)
+                        }
+                    }}
+                    title="Combine both versions"
+                >Merge</button>
+                <button
+                    onClick={() => resolveExternalChange(tabId, 'reload')}
+                    title="Discard my changes and load the version on disk"
+                >Reload</button>
+                <button
+                    onClick={() => {
+                        resolveExternalChange(tabId, 'keep')
+                        saveTab(tabId)
+                    }}
+                    title="Overwrite the version on disk with mine"
+                >Keep Mine</button>
+            </div>
+        </div>
+    )
+}
@@ -1,12 +1,13 @@
 import { useState, lazy, Suspense } from 'react'
 import { FileText, File, ExternalLink } from 'lucide-react'
-import { useVaultStore } from '../../stores/vaultStore'
+import { useAttachmentSrc } from '../../hooks/useAttachmentSrc'
 
 // Lazy load react-pdf to avoid loading it for non-PDF files
 const PDFViewer = lazy(() => import('./PDFViewer'))
 
 interface FileBlockProps {
     src: string
+    notePath?: string  // Note the block is in; relative paths resolve from its folder
     viewMode: 'edit' | 'preview'
 }
 
@@ -32,34 +33,12 @@ function getFileIcon(extension: string) {
     }
 }
 
-export default function FileBlock({ src, viewMode }: FileBlockProps) {
-    const { vaultPath } = useVaultStore()
+export default function FileBlock({ src, notePath, viewMode }: FileBlockProps) {
     const extension = getFileExtension(src)
     const fileName = getFileName(src)
     const isPdf = extension === 'pdf'
 
-    // Resolve file source - handle relative paths, full paths, and URLs
-    let fileSrc = src
-
-    if (src.startsWith('http://') || src.startsWith('https://')) {
-        // Remote URL - use as is
-        fileSrc = src
-    } else if (src.startsWith('/')) {
-        // Full path - convert to media:// protocol
-        fileSrc = `media://${src}`
-    } else if (src.startsWith('file://')) {
-        // file:// protocol - convert to media://
-        fileSrc = src.replace('file://', 'media://')
-    } else {
-        // Relative path (just filename) - resolve against vault path
-        // The file could be in vault root or in a subdirectory
-        // For now, assume it's in the vault root
-        if (vaultPath) {
-            fileSrc = `media://${vaultPath}/${src}`
-        } else {
-            fileSrc = `media://${src}`
-        }
-    }
+    const fileSrc = useAttachmentSrc(src, notePath)
 
     // PDF files get the full viewer
     if (isPdf) {
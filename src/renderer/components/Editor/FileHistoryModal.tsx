@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react'
+import Modal from '../common/Modal'
+import { useEditorStore } from '../../stores/editorStore'
+import { useVaultStore } from '../../stores/vaultStore'
+import { diffLines } from '../../utils/mergeUtils'
+import { parseMarkdownToDocument, serializeDocumentToMarkdown } from '@shared/markdown'
+import type { FileSnapshot } from '@shared/types'
+
+interface FileHistoryModalProps {
+    tabId: string
+    onClose: () => void
+}
+
+const formatTimestamp = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    })
+
+/**
+ * Lists saved snapshots of a note, diffs the selected one against the current blocks and restores it
+ */
+export default function FileHistoryModal({ tabId, onClose }: FileHistoryModalProps) {
+    const { editorGroups, restoreSnapshot } = useEditorStore()
+    const { vaultPath } = useVaultStore()
+    const tab = editorGroups.flatMap(g => g.tabs).find(t => t.id === tabId)
+    const filePath = tab?.filePath
+
+    const [snapshots, setSnapshots] = useState<FileSnapshot[]>([])
+    const [selectedId, setSelectedId] = useState<string | null>(null)
+    const [snapshotContent, setSnapshotContent] = useState<string | null>(null)
+    const [isLoading, setIsLoading] = useState(true)
+
+    useEffect(() => {
+        if (!vaultPath || !filePath) return
+        window.api.listSnapshots(vaultPath, filePath)
+            .then(list => {
+                setSnapshots(list)
+                setSelectedId(list[0]?.id ?? null)
+            })
+            .catch(error => console.error('Failed to list snapshots:', error))
+            .finally(() => setIsLoading(false))
+    }, [vaultPath, filePath])
+
+    useEffect(() => {
+        if (!vaultPath || !filePath || !selectedId) {
+            setSnapshotContent(null)
+            return
+        }
+        window.api.readSnapshot(vaultPath, filePath, selectedId)
+            .then(setSnapshotContent)
+            .catch(error => console.error('Failed to read snapshot:', error))
+    }, [vaultPath, filePath, selectedId])
+
+    // Compare in normalized form so parser formatting doesn't show up as changes
+    const diff = useMemo(() => {
+        if (snapshotContent === null || !tab?.document) return null
+        const current = serializeDocumentToMarkdown(tab.document, { touch: false })
+        const snapshot = serializeDocumentToMarkdown(parseMarkdownToDocument(snapshotContent, tab.filePath), { touch: false })
+        return diffLines(current, snapshot)
+    }, [snapshotContent, tab?.document, tab?.filePath])
+
+    const hasChanges = diff?.some(line => line.type !== 'same') ?? false
+
+    const handleRestore = async () => {
+        if (snapshotContent === null) return
+        await restoreSnapshot(tabId, snapshotContent)
+        onClose()
+    }
+
+    const footer = (
+        <>
+            <button className="btn btn-secondary" onClick={onClose}>
+                Close
+            </button>
+            <button className="btn btn-primary" onClick={handleRestore} disabled={snapshotContent === null || !hasChanges}>
+                Restore
+            </button>
+        </>
+    )
+
+    return (
+        <Modal
+            isOpen={true}
+            onClose={onClose}
+            title={`File History — ${tab?.title ?? ''}`}
+            footer={footer}
+            width="820px"
+        >
+            {isLoading ? (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            ) : snapshots.length === 0 ? (
+                <div className="file-history-empty">저장된 버전이 없습니다.</div>
+            ) : (
+                <div className="file-history">
+                    <div className="file-history-list">
+                        {snapshots.map(snapshot => (
+                            <button
+                                key={snapshot.id}
+                                className={`file-history-item ${selectedId === snapshot.id ? 'active' : ''}`}
+                                onClick={() => setSelectedId(snapshot.id)}
+                            >
+                                <span className="file-history-date">{formatTimestamp(snapshot.timestamp)}</span>
+                                <span className="file-history-size">{(snapshot.size / 1024).toFixed(1)} KB</span>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="file-history-diff">
+                        {diff === null ? (
+                            <div className="file-history-empty">
+                                {snapshotContent === null ? '' : '파일이 너무 커서 비교할 수 없습니다.'}
+                            </div>
+                        ) : !hasChanges ? (
+                            <div className="file-history-empty">현재 문서와 동일합니다.</div>
+                        ) : (
+                            diff.map((line, index) => (
+                                <div key={index} className={`file-history-line ${line.type}`}>
+                                    <span className="file-history-marker">
+                                        {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                                    </span>
+                                    {line.text || ' '}
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Block } from '@shared/types'
+import { parseMarkdownToDocument } from '@shared/markdown'
+import { parseWikiLink, getAnchorSection, getWikiLinkAnchor } from '@shared/wikiLinks'
+import { BlockPreview } from '../common/BlockPreview'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+
+interface LinkPreviewProps {
+    containerRef: React.RefObject<HTMLElement>
+    filePath: string  // Document the links live in ([[#Heading]] points here)
+}
+
+const SHOW_DELAY_MS = 400
+const HIDE_DELAY_MS = 200
+const MAX_PREVIEW_BLOCKS = 30
+
+/**
+ * Hover card for [[wikilinks]] inside the editor: shows the linked note, or only the
+ * linked heading section / block for [[Note#Heading]] and [[Note#^id]]
+ */
+export default function LinkPreview({ containerRef, filePath }: LinkPreviewProps) {
+    const { documentIndex } = useVaultStore()
+    const { openLink } = useEditorStore()
+    const [hover, setHover] = useState<{ link: string, position: { x: number, y: number } } | null>(null)
+    const [section, setSection] = useState<{ title: string, blocks: Block[] } | null>(null)
+    const [notFound, setNotFound] = useState(false)
+    const showTimer = useRef<ReturnType<typeof setTimeout>>()
+    const hideTimer = useRef<ReturnType<typeof setTimeout>>()
+
+    // Listen for hovers on rendered links inside the editor
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container) return
+
+        const handleOver = (e: MouseEvent) => {
+            const el = (e.target as HTMLElement).closest('.backlink[data-link-target]') as HTMLElement | null
+            if (!el) return
+            clearTimeout(hideTimer.current)
+            clearTimeout(showTimer.current)
+            showTimer.current = setTimeout(() => {
+                const rect = el.getBoundingClientRect()
+                setHover({ link: el.dataset.linkTarget!, position: { x: rect.left, y: rect.bottom + 6 } })
+            }, SHOW_DELAY_MS)
+        }
+
+        const handleOut = (e: MouseEvent) => {
+            const el = (e.target as HTMLElement).closest('.backlink[data-link-target]')
+            if (!el || el.contains(e.relatedTarget as Node)) return
+            clearTimeout(showTimer.current)
+            hideTimer.current = setTimeout(() => setHover(null), HIDE_DELAY_MS)
+        }
+
+        container.addEventListener('mouseover', handleOver)
+        container.addEventListener('mouseout', handleOut)
+        return () => {
+            container.removeEventListener('mouseover', handleOver)
+            container.removeEventListener('mouseout', handleOut)
+            clearTimeout(showTimer.current)
+            clearTimeout(hideTimer.current)
+        }
+    }, [containerRef])
+
+    // Load the target note and cut out the linked section
+    useEffect(() => {
+        setSection(null)
+        setNotFound(false)
+        if (!hover) return
+
+        const link = parseWikiLink(hover.link)
+        const doc = link.target
+            ? documentIndex.find(d => d.title === link.target || d.path.endsWith(`/${link.target}.md`))
+            : documentIndex.find(d => d.path === filePath)
+        if (!doc) {
+            setNotFound(true)
+            return
+        }
+
+        let cancelled = false
+        window.api.readFile(doc.path)
+            .then(content => {
+                if (cancelled) return
+                const blocks = getAnchorSection(parseMarkdownToDocument(content, doc.path).blocks, link)
+                const anchor = getWikiLinkAnchor(link)
+                if (blocks.length === 0) setNotFound(true)
+                else setSection({ title: anchor ? `${doc.title} › ${anchor}` : doc.title, blocks: blocks.slice(0, MAX_PREVIEW_BLOCKS) })
+            })
+            .catch(() => !cancelled && setNotFound(true))
+
+        return () => { cancelled = true }
+    }, [hover, documentIndex, filePath])
+
+    if (!hover || (!section && !notFound)) return null
+
+    return (
+        <div
+            className="link-preview"
+            style={{ left: hover.position.x, top: hover.position.y }}
+            onMouseDown={(e) => e.stopPropagation()}  // Don't start a block selection in the editor
+            onMouseEnter={() => clearTimeout(hideTimer.current)}
+            onMouseLeave={() => setHover(null)}
+        >
+            {notFound ? (
+                <div className="link-preview-empty">링크 대상을 찾을 수 없습니다.</div>
+            ) : section && (
+                <>
+                    <div
+                        className="link-preview-title"
+                        onClick={() => {
+                            openLink(hover.link)
+                            setHover(null)
+                        }}
+                    >
+                        {section.title}
+                    </div>
+                    <div className="link-preview-body">
+                        {section.blocks.map(block => (
+                            <BlockPreview
+                                key={block.block_id}
+                                block={block}
+                                blocks={section.blocks}
+                                onLinkClick={(target) => {
+                                    openLink(target)
+                                    setHover(null)
+                                }}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
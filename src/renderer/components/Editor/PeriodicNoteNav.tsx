@@ -0,0 +1,47 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { useVaultStore } from '../../stores/vaultStore'
+import { usePeriodicNoteStore } from '../../stores/periodicNoteStore'
+import { formatDate, getISOWeek } from '../../utils/templateUtils'
+import type { NotePeriod } from '../../utils/periodicNoteUtils'
+
+const PERIOD_LABELS: Record<NotePeriod, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly'
+}
+
+function formatPeriod(period: NotePeriod, date: Date): string {
+    switch (period) {
+        case 'daily': return formatDate(date, 'ddd, MMM D YYYY')
+        case 'weekly': {
+            const { week, year } = getISOWeek(date)
+            return `Week ${week}, ${year}`
+        }
+        case 'monthly': return formatDate(date, 'MMMM YYYY')
+    }
+}
+
+/**
+ * Previous / next links shown above a daily, weekly or monthly note
+ */
+export default function PeriodicNoteNav({ filePath }: { filePath: string }) {
+    const { getNoteInfo, openAdjacentNote } = usePeriodicNoteStore()
+    const { vaultPath } = useVaultStore()
+
+    const info = vaultPath ? getNoteInfo(filePath) : null
+    if (!info) return null
+
+    return (
+        <div className="periodic-note-nav">
+            <button className="sidebar-btn" onClick={() => openAdjacentNote(filePath, -1)} title="Previous">
+                <ChevronLeft size={14} />
+            </button>
+            <span className="periodic-note-label">
+                {PERIOD_LABELS[info.period]} · {formatPeriod(info.period, info.date)}
+            </span>
+            <button className="sidebar-btn" onClick={() => openAdjacentNote(filePath, 1)} title="Next">
+                <ChevronRight size={14} />
+            </button>
+        </div>
+    )
+}
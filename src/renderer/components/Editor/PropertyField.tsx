@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import type { PropertyType } from '@shared/types'
+import { inferPropertyType, coercePropertyValue } from '@shared/frontmatter'
+
+export const PROPERTY_TYPES: { type: PropertyType; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'number', label: 'Number' },
+    { type: 'date', label: 'Date' },
+    { type: 'list', label: 'List' },
+    { type: 'checkbox', label: 'Checkbox' },
+    { type: 'link', label: 'Link' }
+]
+
+interface PropertyFieldProps {
+    name: string
+    value: unknown
+    onChange: (value: unknown) => void
+    onRemove: () => void
+    onLinkClick: (target: string) => void
+}
+
+/**
+ * Renders a single custom frontmatter property with an editor matching its type.
+ * Nested maps are shown read-only so they survive the round-trip untouched.
+ */
+export default function PropertyField({ name, value, onChange, onRemove, onLinkClick }: PropertyFieldProps) {
+    const [listInput, setListInput] = useState('')
+    const isNestedMap = value !== null && typeof value === 'object' && !Array.isArray(value)
+    const type = inferPropertyType(value)
+
+    const renderValue = () => {
+        if (isNestedMap) {
+            return (
+                <span className="meta-value-readonly" title="Nested values can be edited in the source file">
+                    {JSON.stringify(value)}
+                </span>
+            )
+        }
+
+        switch (type) {
+            case 'checkbox':
+                return (
+                    <input
+                        type="checkbox"
+                        className="meta-checkbox"
+                        checked={value === true}
+                        onChange={(e) => onChange(e.target.checked)}
+                    />
+                )
+            case 'number':
+                return (
+                    <input
+                        type="number"
+                        className="meta-value-input"
+                        value={String(value)}
+                        onChange={(e) => {
+                            const num = e.target.valueAsNumber
+                            onChange(isNaN(num) ? 0 : num)
+                        }}
+                    />
+                )
+            case 'date': {
+                // Keep any time/zone suffix, the picker only edits the date part
+                const text = String(value)
+                return (
+                    <input
+                        type="date"
+                        className="meta-value-input"
+                        value={text.slice(0, 10)}
+                        onChange={(e) => {
+                            if (e.target.value) onChange(e.target.value + text.slice(10))
+                        }}
+                    />
+                )
+            }
+            case 'list': {
+                const items = (value as unknown[]).map(item => String(item))
+                return (
+                    <div className="meta-tags-editable">
+                        {items.map((item, i) => (
+                            <span key={i} className="meta-tag-chip">
+                                {item}
+                                <button
+                                    className="tag-remove-btn"
+                                    onClick={() => onChange((value as unknown[]).filter((_, j) => j !== i))}
+                                >×</button>
+                            </span>
+                        ))}
+                        <input
+                            type="text"
+                            className="tag-input"
+                            placeholder="항목 추가"
+                            value={listInput}
+                            onChange={(e) => setListInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault()
+                                    const item = listInput.trim()
+                                    if (item) onChange([...(value as unknown[]), item])
+                                    setListInput('')
+                                } else if (e.key === 'Backspace' && listInput === '' && items.length > 0) {
+                                    onChange((value as unknown[]).slice(0, -1))
+                                }
+                            }}
+                        />
+                    </div>
+                )
+            }
+            case 'link': {
+                const target = String(value).replace(/^\[\[|\]\]$/g, '').split('|')[0]
+                return (
+                    <div className="meta-link-value">
+                        <input
+                            className="meta-value-input"
+                            value={target}
+                            onChange={(e) => onChange(e.target.value ? `[[${e.target.value}]]` : '')}
+                        />
+                        {target && (
+                            <button
+                                className="meta-link-open-btn"
+                                onClick={() => onLinkClick(target)}
+                                title={`Open ${target}`}
+                            >
+                                <ExternalLink size={12} />
+                            </button>
+                        )}
+                    </div>
+                )
+            }
+            default:
+                return (
+                    <input
+                        className="meta-value-input"
+                        value={value === null || value === undefined ? '' : String(value)}
+                        onChange={(e) => onChange(e.target.value)}
+                    />
+                )
+        }
+    }
+
+    return (
+        <div className="meta-row meta-property-row">
+            <span className="meta-label">{name}</span>
+            {!isNestedMap && (
+                <select
+                    className="meta-type-select"
+                    value={type}
+                    onChange={(e) => onChange(coercePropertyValue(value, e.target.value as PropertyType))}
+                    title="Property type"
+                >
+                    {PROPERTY_TYPES.map(t => (
+                        <option key={t.type} value={t.type}>{t.label}</option>
+                    ))}
+                </select>
+            )}
+            {renderValue()}
+            <button className="meta-property-remove-btn" onClick={onRemove} title="Remove property">×</button>
+        </div>
+    )
+}
@@ -0,0 +1,98 @@
+import { useMemo } from 'react'
+import { Database } from 'lucide-react'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { parseQuery, runQuery, getFieldValue, formatQueryValue, type QueryResult } from '../../utils/queryUtils'
+
+interface QueryBlockProps {
+    query: string       // Query text (inside the ```query fence)
+    hostPath?: string   // Note containing the block (left out of the results)
+}
+
+/**
+ * Live results of a query block over the document index, as a table or a list
+ */
+export default function QueryBlock({ query, hostPath }: QueryBlockProps) {
+    const { vaultPath, documentIndex } = useVaultStore()
+    const openTab = useEditorStore(state => state.openTab)
+
+    const result = useMemo((): QueryResult | { error: string } => {
+        if (!vaultPath) return { error: 'No vault open' }
+        try {
+            return runQuery(parseQuery(query), documentIndex, vaultPath, hostPath)
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : 'Invalid query' }
+        }
+    }, [query, documentIndex, vaultPath, hostPath])
+
+    const renderFileLink = (path: string, filename: string) => (
+        <span
+            className="query-file-link"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+                e.stopPropagation()
+                openTab(path, filename)
+            }}
+        >
+            {filename}
+        </span>
+    )
+
+    const renderBody = () => {
+        if ('error' in result) return <div className="embed-message">{result.error}</div>
+        if (result.notes.length === 0) return <div className="embed-message">조건에 맞는 노트가 없습니다.</div>
+
+        if (result.query.view === 'list') {
+            const [field] = result.columns
+            return (
+                <ul className="query-list">
+                    {result.notes.map(note => (
+                        <li key={note.path}>
+                            {renderFileLink(note.path, note.filename)}
+                            {field && (
+                                <span className="query-list-value">
+                                    {formatQueryValue(getFieldValue(note, field, vaultPath!))}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )
+        }
+
+        return (
+            <div className="query-table-wrapper">
+                <table className="query-table">
+                    <thead>
+                        <tr>
+                            <th>File</th>
+                            {result.columns.map(column => <th key={column}>{column}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.notes.map(note => (
+                            <tr key={note.path}>
+                                <td>{renderFileLink(note.path, note.filename)}</td>
+                                {result.columns.map(column => (
+                                    <td key={column}>{formatQueryValue(getFieldValue(note, column, vaultPath!))}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )
+    }
+
+    return (
+        <div className="embed-block query-block" contentEditable={false}>
+            <div className="embed-header">
+                <Database size={12} />
+                <span className="embed-title">
+                    {'error' in result ? 'Query' : `Query · ${result.notes.length} notes`}
+                </span>
+            </div>
+            <div className="embed-body">{renderBody()}</div>
+        </div>
+    )
+}
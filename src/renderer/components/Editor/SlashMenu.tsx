@@ -14,18 +14,23 @@ import {
     Image as ImageIcon,
     ChevronRight,
     Table2,
-    FileText
+    FileText,
+    LayoutTemplate,
+    Database
 } from 'lucide-react'
 import type { BlockType } from '@shared/types'
 
+// Block types plus commands that don't map to a single block
+export type SlashCommand = BlockType | 'template'
+
 interface SlashMenuProps {
     position: { x: number; y: number }
-    onSelect: (type: BlockType) => void
+    onSelect: (type: SlashCommand) => void
     onClose: () => void
 }
 
 interface MenuItem {
-    type: BlockType
+    type: SlashCommand
     label: string
     icon: React.ReactNode
     shortcut?: string
@@ -46,7 +51,9 @@ const MENU_ITEMS: MenuItem[] = [
     { type: 'callout', label: 'Callout', icon: <Lightbulb size={16} />, shortcut: '' },
     { type: 'image', label: 'Image', icon: <ImageIcon size={16} />, shortcut: '' },
     { type: 'file', label: 'File', icon: <FileText size={16} />, shortcut: '' },
-    { type: 'table', label: 'Table', icon: <Table2 size={16} />, shortcut: '' }
+    { type: 'table', label: 'Table', icon: <Table2 size={16} />, shortcut: '' },
+    { type: 'query', label: 'Query', icon: <Database size={16} />, shortcut: '' },
+    { type: 'template', label: 'Template', icon: <LayoutTemplate size={16} />, shortcut: '' }
 ]
 
 export default function SlashMenu({
@@ -1,82 +1,182 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
-import { Plus, Trash2 } from 'lucide-react'
-import type { TableCell } from '@shared/types'
+import { useState, useRef, useCallback, useLayoutEffect } from 'react'
+import {
+    Plus,
+    Trash2,
+    GripVertical,
+    GripHorizontal,
+    AlignLeft,
+    AlignCenter,
+    AlignRight,
+    ArrowUpNarrowWide,
+    ArrowDownWideNarrow,
+    PanelTop,
+    Upload,
+    Download
+} from 'lucide-react'
+import type { TableAlign, TableCell } from '@shared/types'
+import {
+    isDelimitedText,
+    parseDelimitedText,
+    toTableData,
+    tableToCsv,
+    pasteIntoTable,
+    setColumnAlign,
+    sortTableRows,
+    moveItem
+} from '../../utils/tableUtils'
 
 interface TableBlockProps {
     tableData: TableCell[][]
+    hasHeader?: boolean // First row is a header row (default)
     onChange: (data: TableCell[][]) => void
+    onHeaderChange?: (hasHeader: boolean) => void
+    renderInline?: (content: string) => React.ReactNode // Inline Markdown of a cell
+    exportName?: string // File name (without .csv) offered when exporting
     viewMode: 'edit' | 'preview'
 }
 
-export default function TableBlock({ tableData, onChange, viewMode }: TableBlockProps) {
+// Alignment button cycles: default -> left -> center -> right -> default
+const ALIGN_CYCLE: (TableAlign | undefined)[] = [undefined, 'left', 'center', 'right']
+
+const ALIGN_ICONS: Record<TableAlign, React.ReactNode> = {
+    left: <AlignLeft size={12} />,
+    center: <AlignCenter size={12} />,
+    right: <AlignRight size={12} />
+}
+
+// Row or column being dragged by its grip
+interface TableDrag {
+    kind: 'row' | 'col'
+    from: number
+    to: number | null
+}
+
+interface CellEditorProps {
+    content: string
+    className: string
+    style: React.CSSProperties
+    onCommit: (content: string) => void
+    onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) => void
+    onPaste: (e: React.ClipboardEvent<HTMLDivElement>) => void
+}
+
+/**
+ * The active cell: plain text, editable, focused with the caret at the end
+ */
+function CellEditor({ content, className, style, onCommit, onKeyDown, onPaste }: CellEditorProps) {
+    const ref = useRef<HTMLDivElement>(null)
+
+    useLayoutEffect(() => {
+        const el = ref.current
+        if (!el) return
+        el.textContent = content
+        el.focus()
+        const range = document.createRange()
+        range.selectNodeContents(el)
+        range.collapse(false)
+        const selection = window.getSelection()
+        selection?.removeAllRanges()
+        selection?.addRange(range)
+        // Only on mount: the text is the browser's while editing
+    }, [])
+
+    return (
+        <div
+            ref={ref}
+            className={className}
+            style={style}
+            contentEditable
+            suppressContentEditableWarning
+            onBlur={(e) => onCommit(e.currentTarget.textContent || '')}
+            onKeyDown={onKeyDown}
+            onPaste={onPaste}
+        />
+    )
+}
+
+export default function TableBlock({
+    tableData,
+    hasHeader = true,
+    onChange,
+    onHeaderChange,
+    renderInline,
+    exportName,
+    viewMode
+}: TableBlockProps) {
     const [activeCell, setActiveCell] = useState<{ row: number; col: number } | null>(null)
     const [hoveredRow, setHoveredRow] = useState<number | null>(null)
     const [hoveredCol, setHoveredCol] = useState<number | null>(null)
-    const cellRefs = useRef<Map<string, HTMLDivElement>>(new Map())
+    const [drag, setDrag] = useState<TableDrag | null>(null)
 
     const rows = tableData.length
     const cols = tableData[0]?.length || 0
 
+    const renderContent = (content: string) => renderInline ? renderInline(content) : content
+    const getAlignStyle = (cell: TableCell | undefined): React.CSSProperties =>
+        cell?.align ? { textAlign: cell.align } : {}
+
     // Cell editing
     const handleCellChange = useCallback((rowIndex: number, colIndex: number, content: string) => {
+        if (tableData[rowIndex]?.[colIndex]?.content === content) return
         const newData = tableData.map((row, rIdx) =>
             row.map((cell, cIdx) =>
                 rIdx === rowIndex && cIdx === colIndex
-                    ? { content }
+                    ? { ...cell, content }
                     : cell
             )
         )
         onChange(newData)
     }, [tableData, onChange])
 
-    // Navigation with Tab/Enter
-    const handleKeyDown = useCallback((e: React.KeyboardEvent, rowIndex: number, colIndex: number) => {
+    // Navigation with Tab/Enter/arrows: the current text is saved before moving on
+    const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>, rowIndex: number, colIndex: number) => {
+        const moveTo = (row: number, col: number) => {
+            handleCellChange(rowIndex, colIndex, e.currentTarget.textContent || '')
+            setActiveCell({ row, col })
+        }
+
         if (e.key === 'Tab') {
             e.preventDefault()
             const nextCol = e.shiftKey ? colIndex - 1 : colIndex + 1
 
             if (nextCol >= 0 && nextCol < cols) {
-                setActiveCell({ row: rowIndex, col: nextCol })
-                const ref = cellRefs.current.get(`${rowIndex}-${nextCol}`)
-                ref?.focus()
+                moveTo(rowIndex, nextCol)
             } else if (!e.shiftKey && nextCol >= cols && rowIndex < rows - 1) {
                 // Move to next row
-                setActiveCell({ row: rowIndex + 1, col: 0 })
-                const ref = cellRefs.current.get(`${rowIndex + 1}-0`)
-                ref?.focus()
+                moveTo(rowIndex + 1, 0)
             } else if (e.shiftKey && nextCol < 0 && rowIndex > 0) {
                 // Move to prev row
-                setActiveCell({ row: rowIndex - 1, col: cols - 1 })
-                const ref = cellRefs.current.get(`${rowIndex - 1}-${cols - 1}`)
-                ref?.focus()
-            }
-        } else if (e.key === 'Enter' && !e.shiftKey) {
-            e.preventDefault()
-            if (rowIndex < rows - 1) {
-                setActiveCell({ row: rowIndex + 1, col: colIndex })
-                const ref = cellRefs.current.get(`${rowIndex + 1}-${colIndex}`)
-                ref?.focus()
+                moveTo(rowIndex - 1, cols - 1)
             }
-        } else if (e.key === 'ArrowDown') {
+        } else if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'ArrowDown') {
             e.preventDefault()
-            if (rowIndex < rows - 1) {
-                setActiveCell({ row: rowIndex + 1, col: colIndex })
-                const ref = cellRefs.current.get(`${rowIndex + 1}-${colIndex}`)
-                ref?.focus()
-            }
+            if (rowIndex < rows - 1) moveTo(rowIndex + 1, colIndex)
         } else if (e.key === 'ArrowUp') {
             e.preventDefault()
-            if (rowIndex > 0) {
-                setActiveCell({ row: rowIndex - 1, col: colIndex })
-                const ref = cellRefs.current.get(`${rowIndex - 1}-${colIndex}`)
-                ref?.focus()
-            }
+            if (rowIndex > 0) moveTo(rowIndex - 1, colIndex)
+        } else if (e.key === 'Escape') {
+            e.preventDefault()
+            e.currentTarget.blur()
+        }
+    }, [rows, cols, handleCellChange])
+
+    // CSV/TSV pasted into a cell fills the table from that cell on; other text is pasted as plain text
+    const handlePaste = useCallback((e: React.ClipboardEvent<HTMLDivElement>, rowIndex: number, colIndex: number) => {
+        e.preventDefault()
+        const text = e.clipboardData.getData('text/plain')
+        if (!isDelimitedText(text)) {
+            window.document.execCommand('insertText', false, text)
+            return
         }
-    }, [rows, cols])
+        setActiveCell(null)
+        onChange(pasteIntoTable(tableData, parseDelimitedText(text), rowIndex, colIndex))
+    }, [tableData, onChange])
 
     // Add row
     const addRow = useCallback((afterIndex?: number) => {
-        const newRow: TableCell[] = Array(cols).fill(null).map(() => ({ content: '' }))
+        const newRow: TableCell[] = (tableData[0] || []).map(cell =>
+            cell.align ? { content: '', align: cell.align } : { content: '' }
+        )
         const insertIndex = afterIndex !== undefined ? afterIndex + 1 : rows
         const newData = [
             ...tableData.slice(0, insertIndex),
@@ -84,7 +184,7 @@ export default function TableBlock({ tableData, onChange, viewMode }: TableBlock
             ...tableData.slice(insertIndex)
         ]
         onChange(newData)
-    }, [tableData, cols, rows, onChange])
+    }, [tableData, rows, onChange])
 
     // Add column
     const addColumn = useCallback((afterIndex?: number) => {
@@ -111,31 +211,77 @@ export default function TableBlock({ tableData, onChange, viewMode }: TableBlock
         onChange(newData)
     }, [tableData, cols, onChange])
 
-    // Register cell refs
-    const registerCellRef = useCallback((key: string, el: HTMLDivElement | null) => {
-        if (el) {
-            cellRefs.current.set(key, el)
-        } else {
-            cellRefs.current.delete(key)
+    const cycleAlign = useCallback((colIndex: number) => {
+        const current = ALIGN_CYCLE.indexOf(tableData[0]?.[colIndex]?.align)
+        onChange(setColumnAlign(tableData, colIndex, ALIGN_CYCLE[(current + 1) % ALIGN_CYCLE.length]))
+    }, [tableData, onChange])
+
+    const sortByColumn = useCallback((colIndex: number, direction: 'asc' | 'desc') => {
+        onChange(sortTableRows(tableData, colIndex, direction, hasHeader))
+    }, [tableData, hasHeader, onChange])
+
+    // Row / column drag-reorder (kept out of the editor's block drag-and-drop)
+    const startDrag = (e: React.DragEvent, kind: TableDrag['kind'], from: number) => {
+        e.stopPropagation()
+        e.dataTransfer.effectAllowed = 'move'
+        e.dataTransfer.setData(`application/x-table-${kind}`, String(from))
+        setActiveCell(null)
+        setDrag({ kind, from, to: null })
+    }
+
+    const dragOver = (e: React.DragEvent, kind: TableDrag['kind'], to: number) => {
+        if (drag?.kind !== kind) return
+        e.preventDefault()
+        e.stopPropagation()
+        if (drag.to !== to) setDrag({ ...drag, to })
+    }
+
+    const drop = (e: React.DragEvent, kind: TableDrag['kind']) => {
+        if (drag?.kind !== kind) return
+        e.preventDefault()
+        e.stopPropagation()
+        if (drag.to !== null && drag.to !== drag.from) {
+            onChange(kind === 'row'
+                ? moveItem(tableData, drag.from, drag.to)
+                : tableData.map(row => moveItem(row, drag.from, drag.to!)))
         }
-    }, [])
+        setDrag(null)
+    }
+
+    const importFile = async () => {
+        const filePath = await window.api.openTableFileDialog()
+        if (!filePath) return
+        const text = await window.api.readFile(filePath)
+        const parsed = parseDelimitedText(text, filePath.toLowerCase().endsWith('.tsv') ? '\t' : undefined)
+        if (parsed.length === 0) return
+        onChange(toTableData(parsed))
+    }
+
+    const exportFile = () => {
+        window.api.exportFileDialog(`${exportName || 'table'}.csv`, tableToCsv(tableData), [
+            { name: 'CSV', extensions: ['csv'] }
+        ])
+    }
 
     if (viewMode === 'preview') {
+        const bodyRows = hasHeader ? tableData.slice(1) : tableData
         return (
             <div className="table-block-preview">
                 <table className="table-preview">
-                    <thead>
-                        <tr>
-                            {tableData[0]?.map((cell, colIdx) => (
-                                <th key={colIdx}>{cell.content || ''}</th>
-                            ))}
-                        </tr>
-                    </thead>
+                    {hasHeader && (
+                        <thead>
+                            <tr>
+                                {tableData[0]?.map((cell, colIdx) => (
+                                    <th key={colIdx} style={getAlignStyle(cell)}>{renderContent(cell.content || '')}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                    )}
                     <tbody>
-                        {tableData.slice(1).map((row, rowIdx) => (
+                        {bodyRows.map((row, rowIdx) => (
                             <tr key={rowIdx}>
                                 {row.map((cell, colIdx) => (
-                                    <td key={colIdx}>{cell.content || ''}</td>
+                                    <td key={colIdx} style={getAlignStyle(cell)}>{renderContent(cell.content || '')}</td>
                                 ))}
                             </tr>
                         ))}
@@ -147,23 +293,76 @@ export default function TableBlock({ tableData, onChange, viewMode }: TableBlock
 
     return (
         <div className="table-block" onMouseLeave={() => { setHoveredRow(null); setHoveredCol(null) }}>
+            {/* Table toolbar */}
+            <div className="table-toolbar">
+                {onHeaderChange && (
+                    <button
+                        className={`table-toolbar-btn ${hasHeader ? 'active' : ''}`}
+                        onClick={() => onHeaderChange(!hasHeader)}
+                        title={hasHeader ? 'Remove header row' : 'Use first row as header'}
+                    >
+                        <PanelTop size={12} /> Header
+                    </button>
+                )}
+                <button className="table-toolbar-btn" onClick={importFile} title="Import CSV/TSV">
+                    <Upload size={12} /> Import
+                </button>
+                <button className="table-toolbar-btn" onClick={exportFile} title="Export as CSV">
+                    <Download size={12} /> Export
+                </button>
+            </div>
+
             {/* Column controls */}
             <div className="table-col-controls">
                 <div className="table-col-spacer" />
-                {tableData[0]?.map((_, colIdx) => (
+                {tableData[0]?.map((cell, colIdx) => (
                     <div
                         key={colIdx}
-                        className="table-col-control"
+                        className={`table-col-control ${drag?.kind === 'col' && drag.to === colIdx ? 'drop-target' : ''}`}
                         onMouseEnter={() => setHoveredCol(colIdx)}
+                        onDragOver={(e) => dragOver(e, 'col', colIdx)}
+                        onDrop={(e) => drop(e, 'col')}
                     >
                         {hoveredCol === colIdx && (
-                            <button
-                                className="table-delete-btn"
-                                onClick={() => deleteColumn(colIdx)}
-                                title="Delete column"
-                            >
-                                <Trash2 size={12} />
-                            </button>
+                            <>
+                                <span
+                                    className="table-grip"
+                                    draggable
+                                    onDragStart={(e) => startDrag(e, 'col', colIdx)}
+                                    onDragEnd={() => setDrag(null)}
+                                    title="Drag to move column"
+                                >
+                                    <GripHorizontal size={12} />
+                                </span>
+                                <button
+                                    className="table-control-btn"
+                                    onClick={() => cycleAlign(colIdx)}
+                                    title={`Alignment: ${cell.align || 'default'}`}
+                                >
+                                    {ALIGN_ICONS[cell.align || 'left']}
+                                </button>
+                                <button
+                                    className="table-control-btn"
+                                    onClick={() => sortByColumn(colIdx, 'asc')}
+                                    title="Sort ascending"
+                                >
+                                    <ArrowUpNarrowWide size={12} />
+                                </button>
+                                <button
+                                    className="table-control-btn"
+                                    onClick={() => sortByColumn(colIdx, 'desc')}
+                                    title="Sort descending"
+                                >
+                                    <ArrowDownWideNarrow size={12} />
+                                </button>
+                                <button
+                                    className="table-delete-btn"
+                                    onClick={() => deleteColumn(colIdx)}
+                                    title="Delete column"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </>
                         )}
                     </div>
                 ))}
@@ -178,44 +377,76 @@ export default function TableBlock({ tableData, onChange, viewMode }: TableBlock
 
             {/* Table body */}
             <div className="table-body">
-                {tableData.map((row, rowIdx) => (
-                    <div
-                        key={rowIdx}
-                        className={`table-row ${rowIdx === 0 ? 'table-header-row' : ''}`}
-                        onMouseEnter={() => setHoveredRow(rowIdx)}
-                    >
-                        {/* Row control */}
-                        <div className="table-row-control">
-                            {hoveredRow === rowIdx && rows > 1 && (
-                                <button
-                                    className="table-delete-btn"
-                                    onClick={() => deleteRow(rowIdx)}
-                                    title="Delete row"
-                                >
-                                    <Trash2 size={12} />
-                                </button>
-                            )}
-                        </div>
+                {tableData.map((row, rowIdx) => {
+                    const isHeader = hasHeader && rowIdx === 0
+                    return (
+                        <div
+                            key={rowIdx}
+                            className={`table-row ${isHeader ? 'table-header-row' : ''} ${drag?.kind === 'row' && drag.to === rowIdx ? 'drop-target' : ''}`}
+                            onMouseEnter={() => setHoveredRow(rowIdx)}
+                            onDragOver={(e) => dragOver(e, 'row', rowIdx)}
+                            onDrop={(e) => drop(e, 'row')}
+                        >
+                            {/* Row control */}
+                            <div className="table-row-control">
+                                {hoveredRow === rowIdx && (
+                                    <span
+                                        className="table-grip"
+                                        draggable
+                                        onDragStart={(e) => startDrag(e, 'row', rowIdx)}
+                                        onDragEnd={() => setDrag(null)}
+                                        title="Drag to move row"
+                                    >
+                                        <GripVertical size={12} />
+                                    </span>
+                                )}
+                                {hoveredRow === rowIdx && rows > 1 && (
+                                    <button
+                                        className="table-delete-btn"
+                                        onClick={() => deleteRow(rowIdx)}
+                                        title="Delete row"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
 
-                        {/* Cells */}
-                        {row.map((cell, colIdx) => (
-                            <div
-                                key={colIdx}
-                                ref={(el) => registerCellRef(`${rowIdx}-${colIdx}`, el)}
-                                className={`table-cell ${activeCell?.row === rowIdx && activeCell?.col === colIdx ? 'active' : ''
-                                    } ${rowIdx === 0 ? 'header-cell' : ''}`}
-                                contentEditable
-                                suppressContentEditableWarning
-                                onFocus={() => setActiveCell({ row: rowIdx, col: colIdx })}
-                                onBlur={(e) => {
-                                    handleCellChange(rowIdx, colIdx, e.currentTarget.textContent || '')
-                                }}
-                                onKeyDown={(e) => handleKeyDown(e, rowIdx, colIdx)}
-                                dangerouslySetInnerHTML={{ __html: cell.content }}
-                            />
-                        ))}
-                    </div>
-                ))}
+                            {/* Cells: the active one is edited as text, the others show their Markdown */}
+                            {row.map((cell, colIdx) => {
+                                const className = `table-cell ${isHeader ? 'header-cell' : ''}`
+                                if (activeCell?.row === rowIdx && activeCell?.col === colIdx) {
+                                    return (
+                                        <CellEditor
+                                            key={colIdx}
+                                            content={cell.content}
+                                            className={`${className} active`}
+                                            style={getAlignStyle(tableData[0]?.[colIdx])}
+                                            onCommit={(content) => {
+                                                handleCellChange(rowIdx, colIdx, content)
+                                                setActiveCell(current =>
+                                                    current?.row === rowIdx && current?.col === colIdx ? null : current
+                                                )
+                                            }}
+                                            onKeyDown={(e) => handleKeyDown(e, rowIdx, colIdx)}
+                                            onPaste={(e) => handlePaste(e, rowIdx, colIdx)}
+                                        />
+                                    )
+                                }
+                                return (
+                                    <div
+                                        key={colIdx}
+                                        className={className}
+                                        style={getAlignStyle(tableData[0]?.[colIdx])}
+                                        tabIndex={0}
+                                        onFocus={() => setActiveCell({ row: rowIdx, col: colIdx })}
+                                    >
+                                        {renderContent(cell.content)}
+                                    </div>
+                                )
+                            })}
+                        </div>
+                    )
+                })}
             </div>
 
             {/* Add row button */}
@@ -5,6 +5,7 @@ import { useEditorStore } from '../../stores/editorStore'
 import { useVaultStore } from '../../stores/vaultStore'
 import { useThemeStore } from '../../stores/themeStore'
 import { ExternalLink } from 'lucide-react'
+import { TemplateSelect } from '../common/TemplatePicker'
 
 export default function GraphView() {
     const containerRef = useRef<HTMLDivElement>(null)
@@ -472,11 +473,11 @@ export default function GraphView() {
     }, [nodes, links, theme, settings, isCmdPressed]) // Re-run if graph data, theme, settings, or Cmd state change
 
 
-    const handleCreateNode = async (name: string, folderPath: string, content: string, tags: string[]) => {
+    const handleCreateNode = async (name: string, folderPath: string, content: string, tags: string[], templatePath?: string | null) => {
         if (!showCreateModal) return;
 
         // Create new file
-        const newFilePath = await createNewFile(folderPath, name, content, tags)
+        const newFilePath = await createNewFile(folderPath, name, content, tags, templatePath)
 
         if (newFilePath) {
             // Create backlink
@@ -697,12 +698,13 @@ function GraphNodePreviewModal({ node, content, x, y, onOpen }: { node: GraphNod
 }
 
 // Internal Modal Component
-function GraphNodeCreationModal({ x, y, defaultPath, onConfirm, onCancel }: { x: number, y: number, defaultPath?: string, onConfirm: (name: string, folderPath: string, content: string, tags: string[]) => void, onCancel: () => void }) {
+function GraphNodeCreationModal({ x, y, defaultPath, onConfirm, onCancel }: { x: number, y: number, defaultPath?: string, onConfirm: (name: string, folderPath: string, content: string, tags: string[], templatePath?: string | null) => void, onCancel: () => void }) {
     const { fileTree, vaultPath } = useVaultStore()
     const [name, setName] = useState('')
     const [tags, setTags] = useState('')
     const [content, setContent] = useState('')
     const [folderPath, setFolderPath] = useState(defaultPath || vaultPath || '')
+    const [templatePath, setTemplatePath] = useState<string | null | undefined>(undefined)
     const inputRef = useRef<HTMLInputElement>(null)
 
     // Helper to get all folders
@@ -786,6 +788,11 @@ function GraphNodeCreationModal({ x, y, defaultPath, onConfirm, onCancel }: { x:
                 </select>
             </div>
 
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                <label style={{ fontSize: '11px', color: 'var(--color-text-secondary)' }}>Template</label>
+                <TemplateSelect value={templatePath} onChange={setTemplatePath} folderPath={folderPath} />
+            </div>
+
             <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
                 <label style={{ fontSize: '11px', color: 'var(--color-text-secondary)' }}>Tags</label>
                 <input
@@ -829,7 +836,7 @@ function GraphNodeCreationModal({ x, y, defaultPath, onConfirm, onCancel }: { x:
                         if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
                             if (name.trim()) {
                                 const parsedTags = tags.split(',').map(t => t.trim()).filter(Boolean)
-                                onConfirm(name, folderPath, content, parsedTags)
+                                onConfirm(name, folderPath, content, parsedTags, templatePath)
                             }
                         }
                         if (e.key === 'Escape') onCancel()
@@ -859,7 +866,7 @@ function GraphNodeCreationModal({ x, y, defaultPath, onConfirm, onCancel }: { x:
                     onClick={() => {
                         if (name.trim()) {
                             const parsedTags = tags.split(',').map(t => t.trim()).filter(Boolean)
-                            onConfirm(name, folderPath, content, parsedTags)
+                            onConfirm(name, folderPath, content, parsedTags, templatePath)
                         }
                     }}
                     style={{
@@ -1,8 +1,17 @@
 import { useState } from 'react'
-import { Settings, Plug } from 'lucide-react'
-import { useAIStore, DEFAULT_SYSTEM_PROMPT } from '../../stores/aiStore'
+import { Settings, Plug, Plus, X } from 'lucide-react'
+import { useAIStore, DEFAULT_SYSTEM_PROMPT, type AIModelChoice } from '../../stores/aiStore'
 import { useVaultStore } from '../../stores/vaultStore'
+import { useTemplateStore } from '../../stores/templateStore'
+import { usePeriodicNoteStore, type PeriodicNoteSettings } from '../../stores/periodicNoteStore'
+import { NOTE_PERIODS } from '../../utils/periodicNoteUtils'
+import { formatDate } from '../../utils/templateUtils'
+import { useEmbeddingStore } from '../../stores/embeddingStore'
+import { LLM_PROVIDERS, LLM_PROVIDER_IDS } from '../../services/llm'
+import { EMBEDDING_PROVIDERS, EMBEDDING_PROVIDER_IDS } from '../../services/llm/embeddings'
+import type { EmbeddingModelChoice, EmbeddingProviderId, LLMProviderId } from '../../services/llm/types'
 import Modal from '../common/Modal'
+import { TemplateSelect } from '../common/TemplatePicker'
 import MCPSettings from './MCPSettings'
 
 interface SettingsModalProps {
@@ -13,34 +22,78 @@ type SettingsTab = 'general' | 'mcp'
 
 export default function SettingsModal({ onClose }: SettingsModalProps) {
     const {
-        apiKey,
-        setApiKey,
+        providerSettings,
+        setProviderSettings,
+        defaultModel,
+        vaultModels = {},
+        setDefaultModel,
+        setVaultModel,
+        sessions,
+        activeSessionId,
+        setSessionModel,
+        semanticSearchEnabled,
+        embeddingModel,
+        smartContextTopK,
+        contextTokenBudget,
+        setSemanticSearchEnabled,
+        setEmbeddingModel,
+        setSmartContextTopK,
+        setContextTokenBudget,
         customSystemPrompt,
         vaultSystemPrompts = {},
         setCustomSystemPrompt,
         setVaultSystemPrompt,
         resetSystemPrompt
     } = useAIStore()
-    const { vaultPath } = useVaultStore()
+    const { vaultPath, attachmentFolder, attachmentFolderRules, setAttachmentFolder, setAttachmentFolderRules } = useVaultStore()
+    const { templatesFolder, setTemplatesFolder } = useTemplateStore()
+    const { notes: embeddedNotes, isIndexing, progress: indexProgress, error: indexError, syncIndex, rebuildIndex } = useEmbeddingStore()
+    const { settings: periodicSettings, setPeriodSettings } = usePeriodicNoteStore()
 
     const [activeTab, setActiveTab] = useState<SettingsTab>('general')
-    const [localApiKey, setLocalApiKey] = useState(apiKey || '')
+    const [localProviderSettings, setLocalProviderSettings] = useState(providerSettings)
+    const [localModel, setLocalModel] = useState<AIModelChoice>(
+        vaultPath && vaultModels[vaultPath] ? vaultModels[vaultPath] : defaultModel
+    )
+    const activeSession = sessions.find(s => s.id === activeSessionId)
+    const [localSessionModel, setLocalSessionModel] = useState<AIModelChoice | null>(activeSession?.model ?? null)
+    const [localSemantic, setLocalSemantic] = useState(semanticSearchEnabled)
+    const [localEmbeddingModel, setLocalEmbeddingModel] = useState<EmbeddingModelChoice>(embeddingModel)
+    const [localTopK, setLocalTopK] = useState(smartContextTopK)
+    const [localBudget, setLocalBudget] = useState(contextTokenBudget)
     const [localPrompt, setLocalPrompt] = useState(
         vaultPath && vaultSystemPrompts[vaultPath]
             ? vaultSystemPrompts[vaultPath]
             : customSystemPrompt
     )
+    const [localTemplatesFolder, setLocalTemplatesFolder] = useState(templatesFolder)
+    const [localPeriodic, setLocalPeriodic] = useState(periodicSettings)
+    const [localAttachmentFolder, setLocalAttachmentFolder] = useState(attachmentFolder)
+    const [localAttachmentRules, setLocalAttachmentRules] = useState(Object.entries(attachmentFolderRules))
 
     const isVaultMode = !!vaultPath
     const hasVaultSpecificPrompt = isVaultMode && !!vaultSystemPrompts[vaultPath!]
 
     const handleSave = () => {
-        setApiKey(localApiKey || null)
+        LLM_PROVIDER_IDS.forEach(provider => setProviderSettings(provider, localProviderSettings[provider]))
         if (isVaultMode) {
             setVaultSystemPrompt(vaultPath!, localPrompt)
+            setVaultModel(vaultPath!, localModel)
         } else {
             setCustomSystemPrompt(localPrompt)
+            setDefaultModel(localModel)
         }
+        if (activeSession) setSessionModel(activeSession.id, localSessionModel)
+        setSemanticSearchEnabled(localSemantic)
+        setEmbeddingModel(localEmbeddingModel)
+        setSmartContextTopK(localTopK)
+        setContextTokenBudget(localBudget)
+        // A different embedding model rebuilds the index
+        syncIndex()
+        setTemplatesFolder(localTemplatesFolder)
+        setAttachmentFolder(localAttachmentFolder)
+        setAttachmentFolderRules(Object.fromEntries(localAttachmentRules))
+        NOTE_PERIODS.forEach(period => setPeriodSettings(period, localPeriodic[period]))
         onClose()
     }
 
@@ -55,6 +108,44 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
         }
     }
 
+    const handleClearVaultModel = () => {
+        if (isVaultMode) {
+            setVaultModel(vaultPath!, null)
+            setLocalModel(defaultModel)
+        }
+    }
+
+    const updateProviderSettings = (provider: LLMProviderId, changes: { apiKey?: string; baseUrl?: string }) =>
+        setLocalProviderSettings(prev => ({ ...prev, [provider]: { ...prev[provider], ...changes } }))
+
+    // Provider select + model name (suggestions per provider; any name the endpoint knows works)
+    const renderModelPicker = (choice: AIModelChoice, onChange: (choice: AIModelChoice) => void) => (
+        <div className="ai-model-row">
+            <select
+                className="form-input"
+                value={choice.provider}
+                onChange={(e) => {
+                    const provider = e.target.value as LLMProviderId
+                    onChange({ provider, model: LLM_PROVIDERS[provider].models[0] })
+                }}
+            >
+                {LLM_PROVIDER_IDS.map(id => (
+                    <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+                ))}
+            </select>
+            <input
+                type="text"
+                className="form-input"
+                value={choice.model}
+                onChange={(e) => onChange({ ...choice, model: e.target.value })}
+                list={`ai-models-${choice.provider}`}
+                placeholder="Model"
+            />
+        </div>
+    )
+
+    const embeddedChunkCount = Object.values(embeddedNotes).reduce((sum, note) => sum + note.chunks.length, 0)
+
     const footer = activeTab === 'general' ? (
         <>
             <button className="btn btn-secondary" onClick={onClose}>
@@ -101,14 +192,84 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                 {activeTab === 'general' && (
                     <>
                         <div className="form-group">
-                            <label className="form-label">Gemini API Key</label>
-                            <input
-                                type="password"
-                                className="form-input"
-                                value={localApiKey}
-                                onChange={(e) => setLocalApiKey(e.target.value)}
-                                placeholder="Enter your Gemini API key..."
-                            />
+                            <label className="form-label" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                                    {isVaultMode ? (
+                                        <>
+                                            Model
+                                            <span style={{
+                                                fontSize: 'var(--text-xs)',
+                                                padding: '2px 6px',
+                                                borderRadius: 4,
+                                                background: 'var(--color-accent-light)',
+                                                color: 'var(--color-accent)'
+                                            }}>
+                                                Current Vault
+                                            </span>
+                                        </>
+                                    ) : (
+                                        'Model (Global)'
+                                    )}
+                                </span>
+                                {isVaultMode && vaultModels[vaultPath!] && (
+                                    <button
+                                        onClick={handleClearVaultModel}
+                                        style={{
+                                            fontSize: 'var(--text-xs)',
+                                            color: 'var(--color-text-secondary)',
+                                            textDecoration: 'underline'
+                                        }}
+                                        title="Remove vault-specific model and use global default"
+                                    >
+                                        Use Global
+                                    </button>
+                                )}
+                            </label>
+                            {renderModelPicker(localModel, setLocalModel)}
+                            {activeSession && (
+                                <>
+                                    <label className="ai-session-model">
+                                        <input
+                                            type="checkbox"
+                                            checked={localSessionModel !== null}
+                                            onChange={(e) => setLocalSessionModel(e.target.checked ? localModel : null)}
+                                        />
+                                        이 대화에서만 다른 모델 사용
+                                    </label>
+                                    {localSessionModel && renderModelPicker(localSessionModel, setLocalSessionModel)}
+                                </>
+                            )}
+                            {LLM_PROVIDER_IDS.map(id => (
+                                <datalist key={id} id={`ai-models-${id}`}>
+                                    {LLM_PROVIDERS[id].models.map(model => <option key={model} value={model} />)}
+                                </datalist>
+                            ))}
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">Providers</label>
+                            {LLM_PROVIDER_IDS.filter(id => id !== 'mock').map(id => (
+                                <div key={id} className="ai-provider-row">
+                                    <span className="ai-provider-name">{LLM_PROVIDERS[id].label}</span>
+                                    <input
+                                        type="password"
+                                        className="form-input"
+                                        value={localProviderSettings[id].apiKey}
+                                        onChange={(e) => updateProviderSettings(id, { apiKey: e.target.value })}
+                                        placeholder={LLM_PROVIDERS[id].needsApiKey ? 'API key' : 'API key (optional)'}
+                                    />
+                                    {LLM_PROVIDERS[id].defaultBaseUrl && (
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={localProviderSettings[id].baseUrl}
+                                            onChange={(e) => updateProviderSettings(id, { baseUrl: e.target.value })}
+                                            placeholder={LLM_PROVIDERS[id].defaultBaseUrl}
+                                            title="Base URL"
+                                        />
+                                    )}
+                                </div>
+                            ))}
                             <p
                                 style={{
                                     marginTop: 8,
@@ -116,7 +277,7 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                                     color: 'var(--color-text-tertiary)'
                                 }}
                             >
-                                Get your API key from{' '}
+                                Gemini 키는{' '}
                                 <a
                                     href="https://aistudio.google.com/apikey"
                                     target="_blank"
@@ -124,6 +285,107 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                                 >
                                     Google AI Studio
                                 </a>
+                                에서 받을 수 있습니다. Ollama나 llama.cpp 같은 로컬 서버는 OpenAI-compatible의 Base URL을
+                                http://localhost:11434/v1 처럼 지정하면 키 없이 사용할 수 있습니다. Mock은 네트워크 없이 동작하는 테스트용입니다.
+                            </p>
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">Smart Context</label>
+                            <label className="ai-session-model">
+                                <input
+                                    type="checkbox"
+                                    checked={localSemantic}
+                                    onChange={(e) => setLocalSemantic(e.target.checked)}
+                                />
+                                질문과 가까운 문단을 임베딩 인덱스에서 찾아 컨텍스트에 넣기
+                            </label>
+                            {localSemantic && (
+                                <>
+                                    <div className="ai-model-row ai-embedding-row">
+                                        <select
+                                            className="form-input"
+                                            value={localEmbeddingModel.provider}
+                                            onChange={(e) => {
+                                                const provider = e.target.value as EmbeddingProviderId
+                                                setLocalEmbeddingModel({ provider, model: EMBEDDING_PROVIDERS[provider].models[0] })
+                                            }}
+                                        >
+                                            {EMBEDDING_PROVIDER_IDS.map(id => (
+                                                <option key={id} value={id}>{EMBEDDING_PROVIDERS[id].label}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={localEmbeddingModel.model}
+                                            onChange={(e) => setLocalEmbeddingModel({ ...localEmbeddingModel, model: e.target.value })}
+                                            list={`embedding-models-${localEmbeddingModel.provider}`}
+                                            placeholder="Embedding model"
+                                        />
+                                        <input
+                                            type="number"
+                                            className="form-input"
+                                            min={1}
+                                            max={50}
+                                            value={localTopK}
+                                            onChange={(e) => setLocalTopK(parseInt(e.target.value) || 1)}
+                                            title="Passages per message"
+                                        />
+                                    </div>
+                                    {EMBEDDING_PROVIDER_IDS.map(id => (
+                                        <datalist key={id} id={`embedding-models-${id}`}>
+                                            {EMBEDDING_PROVIDERS[id].models.map(model => <option key={model} value={model} />)}
+                                        </datalist>
+                                    ))}
+                                    {isVaultMode && (
+                                        <div className="ai-index-status">
+                                            <span>
+                                                {isIndexing
+                                                    ? `Indexing… ${indexProgress.done} / ${indexProgress.total} notes`
+                                                    : `${Object.keys(embeddedNotes).length} notes, ${embeddedChunkCount} passages indexed`}
+                                                {indexError && <span className="ai-index-error"> · {indexError}</span>}
+                                            </span>
+                                            <button className="btn btn-secondary" onClick={() => rebuildIndex()} disabled={isIndexing}>
+                                                Rebuild
+                                            </button>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                            <p
+                                style={{
+                                    marginTop: 8,
+                                    fontSize: 'var(--text-xs)',
+                                    color: 'var(--color-text-tertiary)'
+                                }}
+                            >
+                                Local은 네트워크 없이 단어 해시로 임베딩합니다. 더 정확한 검색이 필요하면 OpenAI-compatible(Ollama의
+                                nomic-embed-text 등)이나 Gemini 임베딩 모델을 고르세요. 위 Providers의 키와 Base URL을 사용하며,
+                                인덱스는 볼트의 .cortex/embeddings.json에 저장되어 저장할 때마다 바뀐 문단만 다시 임베딩합니다.
+                            </p>
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">Context Budget (tokens)</label>
+                            <input
+                                type="number"
+                                className="form-input"
+                                min={2000}
+                                step={1000}
+                                value={localBudget}
+                                onChange={(e) => setLocalBudget(parseInt(e.target.value) || 0)}
+                            />
+                            <p
+                                style={{
+                                    marginTop: 8,
+                                    fontSize: 'var(--text-xs)',
+                                    color: 'var(--color-text-tertiary)'
+                                }}
+                            >
+                                메시지와 함께 보내는 컨텍스트의 최대 토큰 수(추정치)입니다. 넘치면 우선순위가 낮은 것부터 줄입니다:
+                                대화 기록 → 볼트 컨텍스트 → 활성 문서 → 멘션. 시스템 프롬프트와 고정(📌)한 섹션은 항상 그대로 보냅니다.
+                                채팅 입력창의 레이어 버튼으로 실제로 보내는 내용을 확인할 수 있습니다.
                             </p>
                         </div>
 
@@ -194,6 +456,128 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                             </p>
                         </div>
 
+                        <div className="form-group">
+                            <label className="form-label">Templates Folder</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={localTemplatesFolder}
+                                onChange={(e) => setLocalTemplatesFolder(e.target.value)}
+                                placeholder="Templates"
+                            />
+                            <p
+                                style={{
+                                    marginTop: 8,
+                                    fontSize: 'var(--text-xs)',
+                                    color: 'var(--color-text-tertiary)'
+                                }}
+                            >
+                                볼트 기준 경로입니다. 이 폴더의 노트를 새 노트의 템플릿으로 사용할 수 있습니다.
+                            </p>
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">Attachments Folder</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={localAttachmentFolder}
+                                onChange={(e) => setLocalAttachmentFolder(e.target.value)}
+                                placeholder="attachments"
+                            />
+                            {localAttachmentRules.map(([folder, target], index) => {
+                                const update = (rule: [string, string]) =>
+                                    setLocalAttachmentRules(prev => prev.map((r, i) => i === index ? rule : r))
+                                return (
+                                    <div key={index} className="attachment-rule-row">
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={folder}
+                                            onChange={(e) => update([e.target.value, target])}
+                                            placeholder="Notes in folder"
+                                            title="Notes in folder"
+                                        />
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={target}
+                                            onChange={(e) => update([folder, e.target.value])}
+                                            placeholder="Attachments folder"
+                                            title="Attachments folder"
+                                        />
+                                        <button
+                                            className="sidebar-btn"
+                                            onClick={() => setLocalAttachmentRules(prev => prev.filter((_, i) => i !== index))}
+                                            title="Remove Rule"
+                                        >
+                                            <X size={14} />
+                                        </button>
+                                    </div>
+                                )
+                            })}
+                            <button
+                                className="btn btn-secondary attachment-rule-add"
+                                onClick={() => setLocalAttachmentRules(prev => [...prev, ['', '']])}
+                            >
+                                <Plus size={14} /> Folder Rule
+                            </button>
+                            <p
+                                style={{
+                                    marginTop: 8,
+                                    fontSize: 'var(--text-xs)',
+                                    color: 'var(--color-text-tertiary)'
+                                }}
+                            >
+                                붙여넣거나 끌어놓은 파일을 저장할 폴더입니다. '/'는 볼트 루트, '.'는 노트와 같은 폴더, './sub'는 노트 폴더 안의 하위 폴더입니다.
+                                폴더 규칙은 그 폴더(와 하위 폴더)의 노트에 우선 적용됩니다.
+                            </p>
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">Periodic Notes</label>
+                            {NOTE_PERIODS.map(period => {
+                                const { folder, format, templatePath } = localPeriodic[period]
+                                const update = (changes: Partial<PeriodicNoteSettings>) =>
+                                    setLocalPeriodic(prev => ({ ...prev, [period]: { ...prev[period], ...changes } }))
+                                return (
+                                    <div key={period} className="periodic-settings-row">
+                                        <span className="periodic-settings-period">{period}</span>
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={folder}
+                                            onChange={(e) => update({ folder: e.target.value })}
+                                            placeholder="Folder"
+                                            title="Folder"
+                                        />
+                                        <input
+                                            type="text"
+                                            className="form-input"
+                                            value={format}
+                                            onChange={(e) => update({ format: e.target.value })}
+                                            placeholder="File name format"
+                                            title={`File name format (e.g. ${formatDate(new Date(), format || 'YYYY-MM-DD')})`}
+                                        />
+                                        <TemplateSelect
+                                            value={templatePath}
+                                            onChange={(path) => update({ templatePath: path })}
+                                            folderPath={vaultPath ? `${vaultPath}/${folder}` : folder}
+                                        />
+                                    </div>
+                                )
+                            })}
+                            <p
+                                style={{
+                                    marginTop: 8,
+                                    fontSize: 'var(--text-xs)',
+                                    color: 'var(--color-text-tertiary)'
+                                }}
+                            >
+                                파일 이름 형식: YYYY, MM, DD, ddd, GGGG, ww 등. [W]처럼 대괄호 안의 글자는 그대로 사용됩니다.
+                            </p>
+                        </div>
+
                         <div
                             style={{
                                 padding: 12,
@@ -205,7 +589,7 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                         >
                             <strong>Fixed Guardrails:</strong>
                             <ul style={{ marginTop: 4, paddingLeft: 16 }}>
-                                <li>Model restriction (Gemini 2.0 Flash/Pro only)</li>
+                                <li>Only the providers and endpoints you configure</li>
                                 <li>Local-only data access</li>
                                 <li>Diff-only document edits</li>
                             </ul>
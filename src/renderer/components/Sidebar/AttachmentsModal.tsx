@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import { File, FileText, Image as ImageIcon, Pencil, RefreshCw, Trash2, Unlink } from 'lucide-react'
+import { getEmbedBlockType } from '@shared/markdown'
+import Modal from '../common/Modal'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { useAttachmentStore } from '../../stores/attachmentStore'
+import { describeAttachment, formatFileSize } from '../../utils/attachmentUtils'
+
+interface AttachmentsModalProps {
+    onClose: () => void
+}
+
+type AttachmentFilter = 'all' | 'unused' | 'broken'
+
+function getNoteTitle(path: string): string {
+    return (path.split('/').pop() || path).replace(/\.md$/, '')
+}
+
+/**
+ * Attachments browser: every file in the vault that isn't a note, its size and the notes that use it.
+ * Unused attachments can be moved to the trash and references to missing files are listed.
+ */
+export default function AttachmentsModal({ onClose }: AttachmentsModalProps) {
+    const { vaultPath, renameItem } = useVaultStore()
+    const { openTab } = useEditorStore()
+    const { attachments, report, isScanning, scanUsage, trashAttachments } = useAttachmentStore()
+    const [filter, setFilter] = useState<AttachmentFilter>('all')
+    const [renaming, setRenaming] = useState<{ path: string; name: string } | null>(null)
+
+    // Usage changes with every edit; scan again each time the browser opens
+    useEffect(() => {
+        scanUsage()
+    }, [vaultPath])
+
+    if (!vaultPath) return null
+
+    const orphans = report?.orphans ?? []
+    const broken = report?.broken ?? []
+    const shown = filter === 'unused' ? attachments.filter(a => orphans.includes(a.path)) : attachments
+    const totalSize = shown.reduce((sum, a) => sum + a.size, 0)
+
+    const openNote = (path: string) => {
+        openTab(path, getNoteTitle(path))
+        onClose()
+    }
+
+    const handleRename = async () => {
+        if (!renaming) return
+        const name = renaming.name.trim()
+        const oldName = renaming.path.split('/').pop()
+        setRenaming(null)
+        if (!name || name === oldName) return
+        if (/[\\/]/.test(name)) {
+            alert('이름에 / 또는 \\ 를 쓸 수 없습니다.')
+            return
+        }
+        // The vault store offers to update the notes that reference the old name
+        if (await renameItem(renaming.path, name)) await scanUsage()
+    }
+
+    const handleTrash = async (paths: string[]) => {
+        const message = paths.length === 1
+            ? `"${paths[0].split('/').pop()}"을(를) 휴지통으로 옮길까요?`
+            : `사용되지 않는 첨부 파일 ${paths.length}개를 휴지통으로 옮길까요?`
+        if (!confirm(message)) return
+        const failed = await trashAttachments(paths)
+        if (failed.length > 0) alert(`${failed.length}개 파일을 옮기지 못했습니다.`)
+    }
+
+    const filters: { id: AttachmentFilter, label: string, count: number }[] = [
+        { id: 'all', label: 'All', count: attachments.length },
+        { id: 'unused', label: 'Unused', count: orphans.length },
+        { id: 'broken', label: 'Broken', count: broken.length }
+    ]
+
+    const renderAttachment = (path: string, size: number) => {
+        const { name, folder } = describeAttachment(path, vaultPath)
+        const users = report?.usage.get(path) ?? []
+        return (
+            <div key={path} className="trash-item attachments-item">
+                {getEmbedBlockType(path) === 'image' ? <ImageIcon size={14} /> : <File size={14} />}
+                <div className="trash-item-info">
+                    {renaming?.path === path ? (
+                        <input
+                            className="form-input attachments-rename"
+                            value={renaming.name}
+                            autoFocus
+                            onChange={e => setRenaming({ path, name: e.target.value })}
+                            onBlur={handleRename}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') e.currentTarget.blur()
+                                if (e.key === 'Escape') setRenaming(null)
+                            }}
+                        />
+                    ) : (
+                        <div className="trash-item-name">{name}</div>
+                    )}
+                    <div className="trash-item-path">
+                        {folder || '/'} · {formatFileSize(size)}
+                    </div>
+                    {report && (
+                        <div className="attachments-users">
+                            {users.length === 0 ? (
+                                <span className="attachments-unused">사용하는 노트 없음</span>
+                            ) : users.map(notePath => (
+                                <button key={notePath} className="attachments-user" onClick={() => openNote(notePath)}>
+                                    <FileText size={11} />
+                                    {getNoteTitle(notePath)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <button className="sidebar-btn" onClick={() => setRenaming({ path, name })} title="Rename">
+                    <Pencil size={14} />
+                </button>
+                <button className="sidebar-btn" onClick={() => handleTrash([path])} title="Move to Trash">
+                    <Trash2 size={14} />
+                </button>
+            </div>
+        )
+    }
+
+    const renderBroken = () => broken.length === 0 ? (
+        <div className="trash-empty">끊어진 첨부 파일 참조가 없습니다.</div>
+    ) : (
+        <div className="trash-list">
+            {broken.map((reference, i) => (
+                <div
+                    key={`${reference.notePath}:${reference.line}:${i}`}
+                    className="trash-item attachments-broken"
+                    onClick={() => openNote(reference.notePath)}
+                >
+                    <Unlink size={14} />
+                    <div className="trash-item-info">
+                        <div className="trash-item-name">{reference.embed ? '!' : ''}[[{reference.target}]]</div>
+                        <div className="trash-item-path">
+                            {describeAttachment(reference.notePath, vaultPath).name} · line {reference.line}
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+
+    const footer = (
+        <>
+            <button className="btn btn-secondary" onClick={() => scanUsage()} disabled={isScanning}>
+                <RefreshCw size={14} /> Rescan
+            </button>
+            {filter === 'unused' && (
+                <button className="btn btn-secondary" onClick={() => handleTrash(orphans)} disabled={isScanning || orphans.length === 0}>
+                    <Trash2 size={14} /> Move All to Trash
+                </button>
+            )}
+            <button className="btn btn-primary" onClick={onClose}>
+                Close
+            </button>
+        </>
+    )
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Attachments" footer={footer} width="560px">
+            <div className="link-health-tabs attachments-filters">
+                {filters.map(({ id, label, count }) => (
+                    <button
+                        key={id}
+                        className={`link-health-tab ${filter === id ? 'active' : ''}`}
+                        onClick={() => setFilter(id)}
+                    >
+                        {label} <span className="link-health-count">{report || id === 'all' ? count : '…'}</span>
+                    </button>
+                ))}
+            </div>
+
+            {isScanning && !report ? (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            ) : filter === 'broken' ? (
+                renderBroken()
+            ) : shown.length === 0 ? (
+                <div className="trash-empty">
+                    {filter === 'unused' ? '사용되지 않는 첨부 파일이 없습니다.' : '첨부 파일이 없습니다.'}
+                </div>
+            ) : (
+                <>
+                    <div className="attachments-summary">
+                        {shown.length} files · {formatFileSize(totalSize)}
+                    </div>
+                    <div className="trash-list">
+                        {shown.map(a => renderAttachment(a.path, a.size))}
+                    </div>
+                </>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,121 @@
+import { useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight, CalendarCheck } from 'lucide-react'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { usePeriodicNoteStore } from '../../stores/periodicNoteStore'
+import { formatDate, getISOWeek } from '../../utils/templateUtils'
+import { getPeriodStart, shiftPeriod, getDateKey } from '../../utils/periodicNoteUtils'
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Month calendar: days / weeks / the month open (or create) their periodic note,
+ * dots mark the ones that already have a note
+ */
+export default function CalendarPane() {
+    const { fileTree } = useVaultStore()
+    const { settings, getNoteInfo, getExistingDates, openPeriodicNote } = usePeriodicNoteStore()
+    const activeFilePath = useEditorStore(state => {
+        const group = state.editorGroups.find(g => g.id === state.activeGroupId)
+        return group?.tabs.find(t => t.id === group.activeTabId)?.filePath ?? null
+    })
+    const [month, setMonth] = useState(() => getPeriodStart('monthly', new Date()))
+
+    const existing = useMemo(() => ({
+        daily: getExistingDates('daily'),
+        weekly: getExistingDates('weekly'),
+        monthly: getExistingDates('monthly')
+    }), [fileTree, settings])
+
+    const activeNote = activeFilePath ? getNoteInfo(activeFilePath) : null
+    const todayKey = getDateKey(new Date())
+
+    // Full weeks covering the month, starting on Monday
+    const weeks = useMemo(() => {
+        const rows: Date[][] = []
+        let weekStart = getPeriodStart('weekly', month)
+        while (weekStart.getMonth() === month.getMonth() || weekStart < month) {
+            rows.push(Array.from({ length: 7 }, (_, i) =>
+                new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)
+            ))
+            weekStart = shiftPeriod('weekly', weekStart, 1)
+        }
+        return rows
+    }, [month])
+
+    const isActive = (period: 'daily' | 'weekly' | 'monthly', date: Date) =>
+        activeNote?.period === period && getDateKey(activeNote.date) === getDateKey(date)
+
+    return (
+        <div className="calendar-pane">
+            <div className="calendar-header">
+                <button className="sidebar-btn" onClick={() => setMonth(shiftPeriod('monthly', month, -1))} title="Previous Month">
+                    <ChevronLeft size={14} />
+                </button>
+                <button
+                    className={`calendar-month ${isActive('monthly', month) ? 'active' : ''}`}
+                    onClick={() => openPeriodicNote('monthly', month)}
+                    title="Open Monthly Note"
+                >
+                    {formatDate(month, 'MMMM YYYY')}
+                    {existing.monthly.has(getDateKey(month)) && <span className="calendar-dot" />}
+                </button>
+                <button className="sidebar-btn" onClick={() => setMonth(shiftPeriod('monthly', month, 1))} title="Next Month">
+                    <ChevronRight size={14} />
+                </button>
+                <button
+                    className="sidebar-btn"
+                    onClick={() => {
+                        setMonth(getPeriodStart('monthly', new Date()))
+                        openPeriodicNote('daily')
+                    }}
+                    title="Today (Cmd+Shift+D)"
+                >
+                    <CalendarCheck size={14} />
+                </button>
+            </div>
+
+            <div className="calendar-grid">
+                <span className="calendar-weekday">W</span>
+                {WEEKDAY_LABELS.map(label => (
+                    <span key={label} className="calendar-weekday">{label.slice(0, 2)}</span>
+                ))}
+
+                {weeks.map(days => {
+                    const weekStart = days[0]
+                    return [
+                        <button
+                            key={`w-${getDateKey(weekStart)}`}
+                            className={`calendar-week ${isActive('weekly', weekStart) ? 'active' : ''}`}
+                            onClick={() => openPeriodicNote('weekly', weekStart)}
+                            title="Open Weekly Note"
+                        >
+                            {getISOWeek(weekStart).week}
+                            {existing.weekly.has(getDateKey(weekStart)) && <span className="calendar-dot" />}
+                        </button>,
+                        ...days.map(day => {
+                            const key = getDateKey(day)
+                            const classes = [
+                                'calendar-day',
+                                day.getMonth() !== month.getMonth() ? 'outside' : '',
+                                key === todayKey ? 'today' : '',
+                                isActive('daily', day) ? 'active' : ''
+                            ].filter(Boolean).join(' ')
+                            return (
+                                <button
+                                    key={key}
+                                    className={classes}
+                                    onClick={() => openPeriodicNote('daily', day)}
+                                    title={formatDate(day, 'dddd, MMMM D')}
+                                >
+                                    {day.getDate()}
+                                    {existing.daily.has(key) && <span className="calendar-dot" />}
+                                </button>
+                            )
+                        })
+                    ]
+                })}
+            </div>
+        </div>
+    )
+}
@@ -3,6 +3,7 @@ import { X, File, Folder } from 'lucide-react'
 import { useVaultStore } from '../../stores/vaultStore'
 import { useEditorStore } from '../../stores/editorStore'
 import { useAIStore } from '../../stores/aiStore'
+import { TemplateSelect } from '../common/TemplatePicker'
 
 interface CreateItemModalProps {
     type: 'file' | 'folder'
@@ -20,6 +21,7 @@ export default function CreateItemModal({
     const { setFolderPrompt } = useAIStore()
     const [name, setName] = useState('')
     const [prompt, setPrompt] = useState('')
+    const [templatePath, setTemplatePath] = useState<string | null | undefined>(undefined)
     const [isLoading, setIsLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
 
@@ -36,7 +38,7 @@ export default function CreateItemModal({
 
         try {
             if (type === 'file') {
-                const filePath = await createNewFile(parentPath, name.trim())
+                const filePath = await createNewFile(parentPath, name.trim(), undefined, [], templatePath)
                 if (filePath) {
                     // Open the new file in editor
                     const fileName = name.trim().endsWith('.md') ? name.trim() : `${name.trim()}.md`
@@ -114,6 +116,14 @@ export default function CreateItemModal({
                                     .md extension will be added automatically if not provided
                                 </p>
                             )}
+                            {type === 'file' && (
+                                <>
+                                    <label className="form-label" style={{ marginTop: 16 }}>
+                                        Template
+                                    </label>
+                                    <TemplateSelect value={templatePath} onChange={setTemplatePath} folderPath={parentPath} />
+                                </>
+                            )}
                             {type === 'folder' && (
                                 <>
                                     <label className="form-label" style={{ marginTop: 16 }}>
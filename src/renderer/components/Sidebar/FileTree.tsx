@@ -8,13 +8,20 @@ import {
     FilePlus,
     FolderPlus,
     Trash2,
-    Edit3
+    Edit3,
+    LayoutTemplate,
+    FileCode,
+    FileDown,
+    FileArchive
 } from 'lucide-react'
 import type { FileNode } from '@shared/types'
 import { useEditorStore } from '../../stores/editorStore'
 import { useVaultStore } from '../../stores/vaultStore'
 import CreateItemModal from './CreateItemModal'
 import RenameItemModal from './RenameItemModal'
+import TemplatePicker from '../common/TemplatePicker'
+import { useTemplateStore } from '../../stores/templateStore'
+import { exportItem, type ExportFormat } from '../../services/exportService'
 
 interface FileTreeProps {
     nodes: FileNode[]
@@ -66,9 +73,11 @@ function FileTreeItem({ node, level, collapseAll }: FileTreeItemProps) {
     const [contextMenuPos, setContextMenuPos] = useState({ x: 0, y: 0 })
     const [showCreateModal, setShowCreateModal] = useState<'file' | 'folder' | null>(null)
     const [showRenameModal, setShowRenameModal] = useState(false)
+    const [showTemplatePicker, setShowTemplatePicker] = useState(false)
 
     const { openTab, editorGroups, activeGroupId } = useEditorStore()
     const { moveItem, deleteItem } = useVaultStore()
+    const { setFolderTemplate } = useTemplateStore()
     const itemRef = useRef<HTMLDivElement>(null)
     const isInitialMount = useRef(true)
 
@@ -158,6 +167,23 @@ function FileTreeItem({ node, level, collapseAll }: FileTreeItemProps) {
         }
     }
 
+    const handleExport = async (format: ExportFormat) => {
+        setShowContextMenu(false)
+        try {
+            const result = await exportItem(node.path, format)
+            if (result && (result.missing.length > 0 || result.skipped.length > 0)) {
+                const notes = [
+                    result.missing.length > 0 ? `Attachments not found:\n${result.missing.join('\n')}` : '',
+                    result.skipped.length > 0 ? `Attachments outside the vault (skipped):\n${result.skipped.join('\n')}` : ''
+                ]
+                alert(`Exported to ${result.path}\n\n${notes.filter(Boolean).join('\n\n')}`)
+            }
+        } catch (error) {
+            console.error('Export failed:', error)
+            alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+
     return (
         <>
             <div
@@ -220,6 +246,20 @@ function FileTreeItem({ node, level, collapseAll }: FileTreeItemProps) {
                         setShowContextMenu(false)
                         setShowRenameModal(true)
                     }}
+                    onSetTemplate={() => {
+                        setShowContextMenu(false)
+                        setShowTemplatePicker(true)
+                    }}
+                    onExport={handleExport}
+                />
+            )}
+
+            {/* Default template for notes created in this folder */}
+            {showTemplatePicker && (
+                <TemplatePicker
+                    blankLabel="No default template"
+                    onSelect={(templatePath) => setFolderTemplate(node.path, templatePath)}
+                    onClose={() => setShowTemplatePicker(false)}
                 />
             )}
 
@@ -253,6 +293,8 @@ interface ContextMenuProps {
     onNewFolder: () => void
     onRename: () => void
     onDelete: () => void
+    onSetTemplate: () => void
+    onExport: (format: ExportFormat) => void
 }
 
 function ContextMenu({
@@ -263,7 +305,9 @@ function ContextMenu({
     onNewFile,
     onNewFolder,
     onRename,
-    onDelete
+    onDelete,
+    onSetTemplate,
+    onExport
 }: ContextMenuProps) {
     const menuRef = useRef<HTMLDivElement>(null)
     const [adjustedPos, setAdjustedPos] = useState<{ x: number; y: number } | null>(null)
@@ -339,6 +383,10 @@ function ContextMenu({
                             <FolderPlus size={14} />
                             <span>New Folder</span>
                         </button>
+                        <button className="context-menu-item" onClick={onSetTemplate}>
+                            <LayoutTemplate size={14} />
+                            <span>Default Template...</span>
+                        </button>
                         <div
                             style={{
                                 height: 1,
@@ -348,6 +396,25 @@ function ContextMenu({
                         />
                     </>
                 )}
+                <button className="context-menu-item" onClick={() => onExport('html')}>
+                    <FileCode size={14} />
+                    <span>Export as HTML</span>
+                </button>
+                <button className="context-menu-item" onClick={() => onExport('pdf')}>
+                    <FileDown size={14} />
+                    <span>Export as PDF</span>
+                </button>
+                <button className="context-menu-item" onClick={() => onExport('markdown')}>
+                    <FileArchive size={14} />
+                    <span>Export as Markdown (zip)</span>
+                </button>
+                <div
+                    style={{
+                        height: 1,
+                        background: 'var(--color-divider)',
+                        margin: 'var(--space-1) 0'
+                    }}
+                />
                 <button
                     className="context-menu-item"
                     onClick={onRename}
@@ -0,0 +1,300 @@
+import { useState, type ClipboardEvent } from 'react'
+import { ArrowLeft, FileArchive, FileCode, FolderOpen, Gem, NotebookText } from 'lucide-react'
+import Modal from '../common/Modal'
+import { useVaultStore } from '../../stores/vaultStore'
+import {
+    importNotionExport,
+    importHtmlFiles,
+    importHtmlText,
+    analyzeObsidianSource,
+    adoptObsidianVault
+} from '../../services/importService'
+import type { ImportReportEntry, ImportStatus, ObsidianAnalysis } from '../../utils/importUtils'
+
+interface ImportModalProps {
+    onClose: () => void
+}
+
+type ImportStep = 'source' | 'notion' | 'obsidian' | 'html' | 'report'
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+    converted: 'Converted',
+    partial: 'Partly converted',
+    copied: 'Copied',
+    skipped: 'Skipped',
+    failed: 'Failed'
+}
+
+/**
+ * Import wizard: Notion export, Obsidian vault or HTML, then a per-file report of what could not be converted
+ */
+export default function ImportModal({ onClose }: ImportModalProps) {
+    const { vaultPath } = useVaultStore()
+    const [step, setStep] = useState<ImportStep>('source')
+    const [isWorking, setIsWorking] = useState(false)
+    const [report, setReport] = useState<ImportReportEntry[]>([])
+
+    const [obsidianPath, setObsidianPath] = useState<string | null>(null)
+    const [analysis, setAnalysis] = useState<ObsidianAnalysis | null>(null)
+    const [addFrontmatter, setAddFrontmatter] = useState(true)
+
+    const [pastedHtml, setPastedHtml] = useState('')
+    const [pastedText, setPastedText] = useState('')
+    const [noteName, setNoteName] = useState('')
+
+    const run = async (task: () => Promise<ImportReportEntry[]>) => {
+        setIsWorking(true)
+        try {
+            setReport(await task())
+            setStep('report')
+        } catch (error) {
+            console.error('Import failed:', error)
+            alert(`가져오기에 실패했습니다: ${error instanceof Error ? error.message : error}`)
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    const handleNotion = async (kind: 'folder' | 'zip') => {
+        const [sourcePath] = await window.api.openImportSourceDialog(kind) ?? []
+        if (sourcePath) await run(() => importNotionExport(sourcePath))
+    }
+
+    const handleChooseObsidian = async () => {
+        const [sourcePath] = await window.api.openImportSourceDialog('folder') ?? []
+        if (!sourcePath) return
+        setIsWorking(true)
+        try {
+            const result = await analyzeObsidianSource(sourcePath)
+            if (!result.isObsidianVault && !confirm('.obsidian 설정 폴더가 없습니다. 그래도 이 폴더를 볼트로 열까요?')) return
+            setObsidianPath(sourcePath)
+            setAnalysis(result)
+        } catch (error) {
+            alert(`폴더를 읽지 못했습니다: ${error instanceof Error ? error.message : error}`)
+        } finally {
+            setIsWorking(false)
+        }
+    }
+
+    const handleHtmlFiles = async () => {
+        const paths = await window.api.openImportSourceDialog('html')
+        if (paths && paths.length > 0) await run(() => importHtmlFiles(paths))
+    }
+
+    const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+        const html = e.clipboardData.getData('text/html')
+        if (!html) return
+        e.preventDefault()
+        setPastedHtml(html)
+        setPastedText(e.clipboardData.getData('text/plain'))
+    }
+
+    const renderSource = () => (
+        <div className="import-sources">
+            <button className="import-source" onClick={() => setStep('notion')} disabled={!vaultPath}>
+                <NotebookText size={18} />
+                <div>
+                    <div className="import-source-name">Notion</div>
+                    <div className="import-source-desc">"Markdown & CSV"로 내보낸 zip 또는 폴더</div>
+                </div>
+            </button>
+            <button className="import-source" onClick={() => setStep('obsidian')}>
+                <Gem size={18} />
+                <div>
+                    <div className="import-source-name">Obsidian</div>
+                    <div className="import-source-desc">볼트를 그대로 열고 설정을 가져옵니다</div>
+                </div>
+            </button>
+            <button className="import-source" onClick={() => setStep('html')} disabled={!vaultPath}>
+                <FileCode size={18} />
+                <div>
+                    <div className="import-source-name">HTML / Word</div>
+                    <div className="import-source-desc">저장한 웹 페이지, HTML로 저장한 문서 또는 붙여넣은 내용</div>
+                </div>
+            </button>
+            {!vaultPath && <div className="import-hint">Notion과 HTML을 가져오려면 먼저 볼트를 열어주세요.</div>}
+        </div>
+    )
+
+    const renderNotion = () => (
+        <div className="import-step">
+            <p className="import-hint">
+                새 폴더에 가져옵니다. 파일 이름의 Notion ID를 지우고 링크를 [[링크]]로, 데이터베이스 CSV를 표로 바꿉니다.
+            </p>
+            <div className="import-actions">
+                <button className="btn btn-secondary" onClick={() => handleNotion('zip')} disabled={isWorking}>
+                    <FileArchive size={14} /> Choose Zip
+                </button>
+                <button className="btn btn-secondary" onClick={() => handleNotion('folder')} disabled={isWorking}>
+                    <FolderOpen size={14} /> Choose Folder
+                </button>
+            </div>
+        </div>
+    )
+
+    const renderObsidian = () => (
+        <div className="import-step">
+            <p className="import-hint">볼트 폴더를 그대로 엽니다. 파일은 옮기거나 바꾸지 않습니다.</p>
+            <div className="import-actions">
+                <button className="btn btn-secondary" onClick={handleChooseObsidian} disabled={isWorking}>
+                    <FolderOpen size={14} /> Choose Vault
+                </button>
+                {obsidianPath && <span className="import-path">{obsidianPath}</span>}
+            </div>
+            {analysis && (
+                <div className="import-settings">
+                    <div>Notes: {analysis.noteCount}</div>
+                    <div>Attachment folder: {analysis.settings.attachmentFolder ?? '(unchanged)'}</div>
+                    {analysis.settings.templatesFolder && <div>Templates folder: {analysis.settings.templatesFolder}</div>}
+                    {analysis.settings.dailyNotes && (
+                        <div>
+                            Daily notes: {analysis.settings.dailyNotes.folder || '/'} · {analysis.settings.dailyNotes.format || 'YYYY-MM-DD'}
+                        </div>
+                    )}
+                    {analysis.settings.plugins.length > 0 && <div>Plugins: {analysis.settings.plugins.join(', ')}</div>}
+                    {analysis.notesWithoutFrontmatter.length > 0 && (
+                        <label className="import-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={addFrontmatter}
+                                onChange={e => setAddFrontmatter(e.target.checked)}
+                            />
+                            프론트매터가 없는 노트 {analysis.notesWithoutFrontmatter.length}개에 추가 (링크와 쿼리에 필요)
+                        </label>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+
+    const renderHtml = () => (
+        <div className="import-step">
+            <div className="import-actions">
+                <button className="btn btn-secondary" onClick={handleHtmlFiles} disabled={isWorking}>
+                    <FileCode size={14} /> Choose HTML Files
+                </button>
+            </div>
+            <div className="form-group">
+                <label className="form-label">Or paste from a browser or Word</label>
+                <textarea
+                    className="form-input form-textarea"
+                    value={pastedHtml ? pastedText || '(HTML)' : ''}
+                    onPaste={handlePaste}
+                    onChange={e => {
+                        if (!e.target.value) setPastedHtml('')
+                    }}
+                    placeholder="여기에 붙여넣기 (Ctrl+V)"
+                    rows={6}
+                />
+            </div>
+            <div className="form-group">
+                <label className="form-label">Note Name</label>
+                <input
+                    type="text"
+                    className="form-input"
+                    value={noteName}
+                    onChange={e => setNoteName(e.target.value)}
+                    placeholder="비워 두면 페이지 제목을 사용합니다"
+                />
+            </div>
+        </div>
+    )
+
+    const renderReport = () => {
+        const counts = report.reduce<Partial<Record<ImportStatus, number>>>((acc, entry) => {
+            acc[entry.status] = (acc[entry.status] ?? 0) + 1
+            return acc
+        }, {})
+        const withIssues = report.filter(entry => entry.issues.length > 0)
+
+        return (
+            <div className="import-step">
+                <div className="import-summary">
+                    {(Object.keys(STATUS_LABELS) as ImportStatus[])
+                        .filter(status => counts[status])
+                        .map(status => (
+                            <span key={status} className={`import-status import-status-${status}`}>
+                                {STATUS_LABELS[status]}: {counts[status]}
+                            </span>
+                        ))}
+                </div>
+                {withIssues.length > 0 ? (
+                    <div className="import-report">
+                        {withIssues.map((entry, i) => (
+                            <div key={`${entry.source}-${i}`} className="import-report-entry">
+                                <div className="import-report-file">
+                                    <span className={`import-status import-status-${entry.status}`}>{STATUS_LABELS[entry.status]}</span>
+                                    {entry.target ?? entry.source}
+                                </div>
+                                <ul className="import-report-issues">
+                                    {entry.issues.map((issue, j) => <li key={j}>{issue}</li>)}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="trash-empty">모든 파일을 변환했습니다.</div>
+                )}
+                {withIssues.length > 0 && report.length > withIssues.length && (
+                    <div className="import-hint">나머지 {report.length - withIssues.length}개 파일은 문제없이 가져왔습니다.</div>
+                )}
+            </div>
+        )
+    }
+
+    const titles: Record<ImportStep, string> = {
+        source: 'Import',
+        notion: 'Import from Notion',
+        obsidian: 'Open Obsidian Vault',
+        html: 'Import HTML',
+        report: 'Import Report'
+    }
+
+    const footer = (
+        <>
+            {step !== 'source' && step !== 'report' && (
+                <button className="btn btn-secondary" onClick={() => setStep('source')} disabled={isWorking}>
+                    <ArrowLeft size={14} /> Back
+                </button>
+            )}
+            {step === 'obsidian' && (
+                <button
+                    className="btn btn-primary"
+                    onClick={() => run(() => adoptObsidianVault(obsidianPath!, analysis!, addFrontmatter))}
+                    disabled={isWorking || !analysis}
+                >
+                    Open as Vault
+                </button>
+            )}
+            {step === 'html' && (
+                <button
+                    className="btn btn-primary"
+                    onClick={() => run(() => importHtmlText(pastedHtml, noteName))}
+                    disabled={isWorking || !pastedHtml}
+                >
+                    Import Pasted
+                </button>
+            )}
+            {(step === 'source' || step === 'report' || step === 'notion') && (
+                <button className="btn btn-primary" onClick={onClose} disabled={isWorking}>
+                    {step === 'report' ? 'Done' : 'Close'}
+                </button>
+            )}
+        </>
+    )
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={titles[step]} footer={footer} width="520px">
+            {step === 'source' && renderSource()}
+            {step === 'notion' && renderNotion()}
+            {step === 'obsidian' && renderObsidian()}
+            {step === 'html' && renderHtml()}
+            {step === 'report' && renderReport()}
+            {isWorking && (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            )}
+        </Modal>
+    )
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ArrowRight, EyeOff, Eye, FilePlus, FileText } from 'lucide-react'
+import Modal from '../common/Modal'
+import { TemplateSelect } from '../common/TemplatePicker'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { useGraphStore, type LinkIssue } from '../../stores/graphStore'
+
+type HealthSection = 'unresolved' | 'ambiguous' | 'orphans'
+
+/**
+ * Creates the note a broken link points at, optionally from a template
+ */
+function CreateMissingNoteModal({ target, onClose }: { target: string, onClose: () => void }) {
+    const { vaultPath, createNewFile } = useVaultStore()
+    const { openTab } = useEditorStore()
+    const [templatePath, setTemplatePath] = useState<string | null | undefined>(undefined)
+    const [isCreating, setIsCreating] = useState(false)
+
+    // [[folder/Note]] creates the note inside that folder
+    const segments = target.split('/')
+    const name = segments.pop()!
+    const parentPath = [vaultPath, ...segments].join('/')
+
+    const handleCreate = async () => {
+        setIsCreating(true)
+        const filePath = await createNewFile(parentPath, name, undefined, [], templatePath)
+        setIsCreating(false)
+        if (filePath) {
+            await useGraphStore.getState().refreshGraph()
+            openTab(filePath, name)
+            onClose()
+        }
+    }
+
+    const footer = (
+        <>
+            <button className="btn btn-secondary" onClick={onClose}>
+                Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleCreate} disabled={isCreating}>
+                Create
+            </button>
+        </>
+    )
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title={`Create "${target}"`} footer={footer} width="400px">
+            <label className="form-label">Template</label>
+            <TemplateSelect value={templatePath} onChange={setTemplatePath} folderPath={parentPath} />
+        </Modal>
+    )
+}
+
+/**
+ * Link health: unresolved links, links matching several notes, and orphan notes
+ */
+export default function LinkHealthPane() {
+    const { vaultPath, ignoredLinkIssues, toggleIgnoredLinkIssue, relinkTarget } = useVaultStore()
+    const { openTab } = useEditorStore()
+    const { parsedDocs, isLoading, refreshGraph, getLinkHealth } = useGraphStore()
+    const [section, setSection] = useState<HealthSection>('unresolved')
+    const [showIgnored, setShowIgnored] = useState(false)
+    const [createTarget, setCreateTarget] = useState<string | null>(null)
+
+    // The link cache is built lazily (graph view / saves); build it when the pane opens
+    useEffect(() => {
+        if (parsedDocs.size === 0) refreshGraph()
+    }, [vaultPath])
+
+    const report = useMemo(() => getLinkHealth(), [parsedDocs])
+
+    const toRelative = (path: string) =>
+        vaultPath && path.startsWith(`${vaultPath}/`) ? path.slice(vaultPath.length + 1) : path
+    // Link text for a note: vault path without .md (unique even when names collide)
+    const toLinkTarget = (path: string) => toRelative(path).replace(/\.md$/, '')
+
+    // Ignore keys are absolute so they stay per vault
+    const issueKey = (kind: HealthSection, id: string) =>
+        kind === 'orphans' ? `orphan:${id}` : `${kind}:${vaultPath}/${id}`
+    const isVisible = (key: string) => showIgnored || !ignoredLinkIssues.includes(key)
+
+    const unresolved = report.unresolved.filter(issue => isVisible(issueKey('unresolved', issue.target)))
+    const ambiguous = report.ambiguous.filter(issue => isVisible(issueKey('ambiguous', issue.target)))
+    const orphans = report.orphans.filter(orphan => isVisible(issueKey('orphans', orphan.path)))
+
+    const renderIgnoreButton = (key: string) => {
+        const isIgnored = ignoredLinkIssues.includes(key)
+        return (
+            <button
+                className="sidebar-btn"
+                onClick={(e) => {
+                    e.stopPropagation()
+                    toggleIgnoredLinkIssue(key)
+                }}
+                title={isIgnored ? 'Stop Ignoring' : 'Ignore'}
+            >
+                {isIgnored ? <Eye size={13} /> : <EyeOff size={13} />}
+            </button>
+        )
+    }
+
+    const renderIssue = (issue: LinkIssue, kind: 'unresolved' | 'ambiguous') => (
+        <div key={issue.target} className="link-health-issue">
+            <div className="link-health-issue-header">
+                <span className="link-health-target">[[{issue.target}]]</span>
+                {kind === 'unresolved' && (
+                    <button className="sidebar-btn" onClick={() => setCreateTarget(issue.target)} title="Create Note">
+                        <FilePlus size={13} />
+                    </button>
+                )}
+                {renderIgnoreButton(issueKey(kind, issue.target))}
+            </div>
+            {issue.sources.map(source => (
+                <div
+                    key={`${source.path}:${source.link}`}
+                    className="link-health-source"
+                    onClick={() => openTab(source.path, source.title)}
+                >
+                    <div className="link-health-source-title">{toRelative(source.path)}</div>
+                    <div className="link-health-context">{source.context}</div>
+                </div>
+            ))}
+            {issue.candidates.length > 0 && (
+                <div className="link-health-candidates">
+                    <span>{kind === 'unresolved' ? 'Relink to' : 'Point to'}</span>
+                    {issue.candidates.map(path => {
+                        const newTarget = kind === 'unresolved'
+                            ? path.split('/').pop()!.replace('.md', '')
+                            : toLinkTarget(path)
+                        return (
+                            <button
+                                key={path}
+                                className="link-health-candidate"
+                                onClick={() => relinkTarget(issue.sources.map(s => s.path), issue.target, newTarget)}
+                                title={toRelative(path)}
+                            >
+                                <ArrowRight size={11} />
+                                {newTarget}
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+        </div>
+    )
+
+    const sections: { id: HealthSection, label: string, count: number }[] = [
+        { id: 'unresolved', label: 'Unresolved', count: unresolved.length },
+        { id: 'ambiguous', label: 'Ambiguous', count: ambiguous.length },
+        { id: 'orphans', label: 'Orphans', count: orphans.length }
+    ]
+
+    return (
+        <div className="link-health-pane">
+            <div className="link-health-tabs">
+                {sections.map(({ id, label, count }) => (
+                    <button
+                        key={id}
+                        className={`link-health-tab ${section === id ? 'active' : ''}`}
+                        onClick={() => setSection(id)}
+                    >
+                        {label} <span className="link-health-count">{count}</span>
+                    </button>
+                ))}
+                <button
+                    className={`sidebar-btn ${showIgnored ? 'active' : ''}`}
+                    onClick={() => setShowIgnored(!showIgnored)}
+                    title={showIgnored ? 'Hide Ignored' : 'Show Ignored'}
+                >
+                    <Eye size={13} />
+                </button>
+            </div>
+
+            {isLoading && parsedDocs.size === 0 ? (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            ) : section === 'unresolved' ? (
+                unresolved.length === 0
+                    ? <div className="search-pane-empty">끊어진 링크가 없습니다.</div>
+                    : unresolved.map(issue => renderIssue(issue, 'unresolved'))
+            ) : section === 'ambiguous' ? (
+                ambiguous.length === 0
+                    ? <div className="search-pane-empty">모호한 링크가 없습니다.</div>
+                    : ambiguous.map(issue => renderIssue(issue, 'ambiguous'))
+            ) : orphans.length === 0 ? (
+                <div className="search-pane-empty">고립된 노트가 없습니다.</div>
+            ) : (
+                orphans.map(orphan => (
+                    <div
+                        key={orphan.path}
+                        className="link-health-issue-header link-health-orphan"
+                        onClick={() => openTab(orphan.path, orphan.title)}
+                    >
+                        <FileText size={13} />
+                        <span className="link-health-target">{orphan.title}</span>
+                        <span className="search-result-folder">{toRelative(orphan.path).split('/').slice(0, -1).join('/')}</span>
+                        {renderIgnoreButton(issueKey('orphans', orphan.path))}
+                    </div>
+                ))
+            )}
+
+            {createTarget && (
+                <CreateMissingNoteModal target={createTarget} onClose={() => setCreateTarget(null)} />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react'
+import { FileText, Undo2, X } from 'lucide-react'
+import Modal from '../common/Modal'
+import { useVaultStore } from '../../stores/vaultStore'
+
+// How long the undo bar stays visible after links were updated
+const UNDO_TIMEOUT_MS = 15000
+
+/**
+ * Preview of the [[links]] that a rename/move would break, with a one-click update,
+ * followed by an undo bar that reverts the link update together with the rename/move
+ */
+export default function LinkUpdateModal() {
+    const {
+        vaultPath,
+        linkUpdate,
+        lastLinkUpdate,
+        applyLinkUpdate,
+        dismissLinkUpdate,
+        undoLinkUpdate,
+        clearLastLinkUpdate
+    } = useVaultStore()
+    const [isApplying, setIsApplying] = useState(false)
+
+    useEffect(() => {
+        if (!lastLinkUpdate) return
+        const timer = setTimeout(clearLastLinkUpdate, UNDO_TIMEOUT_MS)
+        return () => clearTimeout(timer)
+    }, [lastLinkUpdate])
+
+    const toRelative = (path: string) =>
+        vaultPath && path.startsWith(`${vaultPath}/`) ? path.slice(vaultPath.length + 1) : path
+
+    const handleApply = async () => {
+        setIsApplying(true)
+        await applyLinkUpdate()
+        setIsApplying(false)
+    }
+
+    if (linkUpdate) {
+        const changeCount = linkUpdate.files.reduce((sum, file) => sum + Math.max(file.changes.length, 1), 0)
+        const footer = (
+            <>
+                <button className="btn btn-secondary" onClick={dismissLinkUpdate} disabled={isApplying}>
+                    Skip
+                </button>
+                <button className="btn btn-primary" onClick={handleApply} disabled={isApplying}>
+                    {isApplying ? 'Updating...' : 'Update Links'}
+                </button>
+            </>
+        )
+
+        return (
+            <Modal isOpen={true} onClose={dismissLinkUpdate} title="Update Links" footer={footer} width="560px">
+                <div className="link-update-summary">
+                    <code>{toRelative(linkUpdate.oldPath)}</code> → <code>{toRelative(linkUpdate.newPath)}</code>
+                    <div>{linkUpdate.files.length}개 파일에서 {changeCount}개의 링크를 수정합니다.</div>
+                </div>
+                <div className="link-update-list">
+                    {linkUpdate.files.map(file => (
+                        <div key={file.path} className="link-update-file">
+                            <div className="link-update-file-name">
+                                <FileText size={14} />
+                                <span>{toRelative(file.path)}</span>
+                            </div>
+                            {file.changes.map(change => (
+                                <div key={change.line} className="link-update-change">
+                                    <span className="link-update-line">{change.line}</span>
+                                    <div>
+                                        <div className="link-update-before">{change.before.trim()}</div>
+                                        <div className="link-update-after">{change.after.trim()}</div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </Modal>
+        )
+    }
+
+    if (!lastLinkUpdate) return null
+
+    return (
+        <div className="link-update-undo">
+            <span>{lastLinkUpdate.files.length}개 파일의 링크를 수정했습니다.</span>
+            <button className="link-update-undo-btn" onClick={() => undoLinkUpdate()}>
+                <Undo2 size={14} />
+                Undo
+            </button>
+            <button className="sidebar-btn" onClick={clearLastLinkUpdate} title="Dismiss">
+                <X size={14} />
+            </button>
+        </div>
+    )
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef } from 'react'
+import { Search, FileText, X } from 'lucide-react'
+import type { SearchResult, SearchSnippet } from '@shared/types'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+
+const SEARCH_DEBOUNCE_MS = 200
+
+// Render snippet text with the matched ranges wrapped in <mark>
+function HighlightedText({ snippet }: { snippet: SearchSnippet }) {
+    const parts: React.ReactNode[] = []
+    let cursor = 0
+    snippet.highlights.forEach(([start, end], i) => {
+        if (start > cursor) parts.push(snippet.text.slice(cursor, start))
+        parts.push(<mark key={i}>{snippet.text.slice(start, end)}</mark>)
+        cursor = end
+    })
+    if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor))
+    return <>{parts}</>
+}
+
+export default function SearchPane() {
+    const { vaultPath, setSidebarView } = useVaultStore()
+    const { openTab, revealBlock } = useEditorStore()
+    const [query, setQuery] = useState('')
+    const [results, setResults] = useState<SearchResult[]>([])
+    const [isSearching, setIsSearching] = useState(false)
+    const requestIdRef = useRef(0)
+
+    useEffect(() => {
+        if (!vaultPath || !query.trim()) {
+            setResults([])
+            setIsSearching(false)
+            return
+        }
+
+        const requestId = ++requestIdRef.current
+        setIsSearching(true)
+        const timer = setTimeout(async () => {
+            try {
+                const found = await window.api.searchVault(vaultPath, query)
+                // Ignore responses for outdated queries
+                if (requestId === requestIdRef.current) setResults(found)
+            } catch (error) {
+                console.error('Search failed:', error)
+            } finally {
+                if (requestId === requestIdRef.current) setIsSearching(false)
+            }
+        }, SEARCH_DEBOUNCE_MS)
+
+        return () => clearTimeout(timer)
+    }, [query, vaultPath])
+
+    const openResult = async (result: SearchResult, snippet?: SearchSnippet) => {
+        await openTab(result.path, result.title)
+        if (snippet) {
+            revealBlock({ filePath: result.path, blockIndex: snippet.blockIndex })
+        }
+    }
+
+    const getRelativeFolder = (filePath: string) => {
+        if (!vaultPath) return ''
+        const relative = filePath.startsWith(vaultPath) ? filePath.slice(vaultPath.length + 1) : filePath
+        return relative.split('/').slice(0, -1).join('/')
+    }
+
+    return (
+        <div className="search-pane">
+            <div className="search-pane-input-wrapper">
+                <Search size={14} />
+                <input
+                    className="search-pane-input"
+                    placeholder="Search vault"
+                    value={query}
+                    autoFocus
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') {
+                            e.preventDefault()
+                            setSidebarView('files')
+                        } else if (e.key === 'Enter' && results.length > 0) {
+                            e.preventDefault()
+                            openResult(results[0], results[0].snippets[0])
+                        }
+                    }}
+                />
+                {query && (
+                    <button className="search-pane-clear" onClick={() => setQuery('')} title="Clear">
+                        <X size={12} />
+                    </button>
+                )}
+            </div>
+
+            <div className="search-pane-results">
+                {!query.trim() ? (
+                    <div className="search-pane-help">
+                        <div><code>"exact phrase"</code> 구문 검색</div>
+                        <div><code>proj*</code> 접두어 검색</div>
+                        <div><code>tag:</code> <code>path:</code> <code>title:</code> 필드 검색</div>
+                    </div>
+                ) : results.length === 0 ? (
+                    <div className="search-pane-empty">{isSearching ? 'Searching...' : 'No results'}</div>
+                ) : (
+                    <>
+                        <div className="search-pane-count">{results.length} files</div>
+                        {results.map(result => (
+                            <div key={result.path} className="search-result">
+                                <div className="search-result-header" onClick={() => openResult(result)}>
+                                    <FileText size={13} />
+                                    <span className="search-result-title">{result.title}</span>
+                                    <span className="search-result-folder">{getRelativeFolder(result.path)}</span>
+                                </div>
+                                {result.snippets.map(snippet => (
+                                    <div
+                                        key={snippet.blockIndex}
+                                        className="search-result-snippet"
+                                        onClick={() => openResult(result, snippet)}
+                                    >
+                                        <HighlightedText snippet={snippet} />
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -10,19 +10,36 @@ import {
     Sun,
     Moon,
     Share2,
-    Orbit
+    Orbit,
+    Search,
+    Trash2,
+    Import,
+    Paperclip,
+    HeartPulse,
+    CalendarDays,
+    ListTodo
 } from 'lucide-react'
 import { useVaultStore } from '../../stores/vaultStore'
 import { useThemeStore } from '../../stores/themeStore'
 import FileTree from './FileTree'
+import SearchPane from './SearchPane'
+import LinkHealthPane from './LinkHealthPane'
+import CalendarPane from './CalendarPane'
+import TasksPane from './TasksPane'
 import CreateItemModal from './CreateItemModal'
+import TrashModal from './TrashModal'
+import ImportModal from './ImportModal'
+import AttachmentsModal from './AttachmentsModal'
 
 export default function Sidebar() {
-    const { vaultPath, fileTree, openVault, refreshTree, isLoading, isSidebarCollapsed, toggleSidebar } =
+    const { vaultPath, fileTree, openVault, refreshTree, isLoading, isSidebarCollapsed, toggleSidebar, sidebarView, setSidebarView } =
         useVaultStore()
     const { theme, toggleTheme } = useThemeStore()
     const [showCreateModal, setShowCreateModal] = useState<'file' | 'folder' | null>(null)
     const [collapseAll, setCollapseAll] = useState(0)  // 값을 증가시켜 collapse 트리거
+    const [showTrash, setShowTrash] = useState(false)
+    const [showImport, setShowImport] = useState(false)
+    const [showAttachments, setShowAttachments] = useState(false)
 
     return (
         <div
@@ -110,6 +127,34 @@ export default function Sidebar() {
                                 >
                                     <Orbit size={16} />
                                 </button>
+                                <button
+                                    className={`sidebar-btn ${sidebarView === 'search' ? 'active' : ''}`}
+                                    onClick={() => setSidebarView(sidebarView === 'search' ? 'files' : 'search')}
+                                    title="Search (Cmd+Shift+F)"
+                                >
+                                    <Search size={16} />
+                                </button>
+                                <button
+                                    className={`sidebar-btn ${sidebarView === 'links' ? 'active' : ''}`}
+                                    onClick={() => setSidebarView(sidebarView === 'links' ? 'files' : 'links')}
+                                    title="Link Health"
+                                >
+                                    <HeartPulse size={16} />
+                                </button>
+                                <button
+                                    className={`sidebar-btn ${sidebarView === 'calendar' ? 'active' : ''}`}
+                                    onClick={() => setSidebarView(sidebarView === 'calendar' ? 'files' : 'calendar')}
+                                    title="Calendar"
+                                >
+                                    <CalendarDays size={16} />
+                                </button>
+                                <button
+                                    className={`sidebar-btn ${sidebarView === 'tasks' ? 'active' : ''}`}
+                                    onClick={() => setSidebarView(sidebarView === 'tasks' ? 'files' : 'tasks')}
+                                    title="Tasks"
+                                >
+                                    <ListTodo size={16} />
+                                </button>
                             </>
                         )}
                         <div style={{ flex: 1 }} />
@@ -127,10 +172,43 @@ export default function Sidebar() {
                         >
                             <RefreshCw size={16} />
                         </button>
+                        <button
+                            className="sidebar-btn"
+                            onClick={() => setShowImport(true)}
+                            title="Import"
+                        >
+                            <Import size={16} />
+                        </button>
+                        {vaultPath && (
+                            <button
+                                className="sidebar-btn"
+                                onClick={() => setShowAttachments(true)}
+                                title="Attachments"
+                            >
+                                <Paperclip size={16} />
+                            </button>
+                        )}
+                        {vaultPath && (
+                            <button
+                                className="sidebar-btn"
+                                onClick={() => setShowTrash(true)}
+                                title="Trash"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        )}
                     </div>
 
                     <div className="sidebar-content" style={{ opacity: 1, transition: 'opacity 0.2s' }}>
-                        {isLoading ? (
+                        {sidebarView === 'search' && vaultPath ? (
+                            <SearchPane />
+                        ) : sidebarView === 'links' && vaultPath ? (
+                            <LinkHealthPane />
+                        ) : sidebarView === 'calendar' && vaultPath ? (
+                            <CalendarPane />
+                        ) : sidebarView === 'tasks' && vaultPath ? (
+                            <TasksPane />
+                        ) : isLoading ? (
                             <div className="loading">
                                 <div className="loading-spinner" />
                             </div>
@@ -155,6 +233,18 @@ export default function Sidebar() {
                         />
                     )}
 
+                    {showTrash && vaultPath && (
+                        <TrashModal onClose={() => setShowTrash(false)} />
+                    )}
+
+                    {showImport && (
+                        <ImportModal onClose={() => setShowImport(false)} />
+                    )}
+
+                    {showAttachments && vaultPath && (
+                        <AttachmentsModal onClose={() => setShowAttachments(false)} />
+                    )}
+
                     <div
                         className="sidebar-footer"
                         style={{
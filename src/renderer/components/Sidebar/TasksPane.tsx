@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Check } from 'lucide-react'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useEditorStore } from '../../stores/editorStore'
+import { useGraphStore } from '../../stores/graphStore'
+import { getTaskDueStatus, PRIORITY_ORDER, type Task, type TaskDueStatus, type TaskPriority } from '../../utils/taskUtils'
+import { isSameOrInside } from '../../utils/fileTreeUtils'
+
+type TaskGrouping = 'note' | 'due' | 'priority' | 'tag'
+type DueFilter = 'all' | 'overdue' | 'today'
+type StatusFilter = 'open' | 'done' | 'all'
+
+const DUE_GROUP_LABELS: Record<TaskDueStatus, string> = {
+    overdue: 'Overdue',
+    today: 'Today',
+    upcoming: 'Upcoming',
+    none: 'No Date'
+}
+
+const PRIORITY_ICONS: Record<TaskPriority, string> = { high: '⏫', medium: '🔼', low: '🔽' }
+
+// Open tasks first, then by priority, then by due date
+function compareTasks(a: Task, b: Task): number {
+    if (a.checked !== b.checked) return a.checked ? 1 : -1
+    const priorityA = a.priority ? PRIORITY_ORDER[a.priority] : 3
+    const priorityB = b.priority ? PRIORITY_ORDER[b.priority] : 3
+    if (priorityA !== priorityB) return priorityA - priorityB
+    if (a.due !== b.due) return (a.due ?? '9999') < (b.due ?? '9999') ? -1 : 1
+    return a.path === b.path ? a.index - b.index : a.path.localeCompare(b.path)
+}
+
+/**
+ * Todo blocks from every note, with due dates, priorities and tags
+ */
+export default function TasksPane() {
+    const { vaultPath } = useVaultStore()
+    const { openTab, revealBlock, setTaskChecked } = useEditorStore()
+    const { parsedDocs, isLoading, refreshGraph, getTasks } = useGraphStore()
+    const [grouping, setGrouping] = useState<TaskGrouping>('note')
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+    const [dueFilter, setDueFilter] = useState<DueFilter>('all')
+    const [tagFilter, setTagFilter] = useState('')
+    const [folderFilter, setFolderFilter] = useState('')
+
+    // Tasks come from the link cache, which is built lazily
+    useEffect(() => {
+        if (parsedDocs.size === 0) refreshGraph()
+    }, [vaultPath])
+
+    const tasks = useMemo(() => getTasks(), [parsedDocs])
+
+    const toRelative = (path: string) =>
+        vaultPath && path.startsWith(`${vaultPath}/`) ? path.slice(vaultPath.length + 1) : path
+    const getFolder = (path: string) => path.substring(0, path.lastIndexOf('/'))
+    const getTitle = (path: string) => path.split('/').pop()?.replace('.md', '') || path
+
+    const allTags = useMemo(() => [...new Set(tasks.flatMap(task => task.tags))].sort(), [tasks])
+    const allFolders = useMemo(() =>
+        [...new Set(tasks.map(task => getFolder(task.path)))].filter(folder => folder !== vaultPath).sort(),
+    [tasks, vaultPath])
+
+    const filtered = tasks.filter(task => {
+        if (statusFilter === 'open' && task.checked) return false
+        if (statusFilter === 'done' && !task.checked) return false
+        if (dueFilter !== 'all' && getTaskDueStatus(task) !== dueFilter) return false
+        if (tagFilter && !task.tags.includes(tagFilter)) return false
+        if (folderFilter && !isSameOrInside(getFolder(task.path), folderFilter)) return false
+        return true
+    }).sort(compareTasks)
+
+    const groups = useMemo(() => {
+        const map = new Map<string, Task[]>()
+        const add = (key: string, task: Task) => map.set(key, [...(map.get(key) ?? []), task])
+
+        for (const task of filtered) {
+            switch (grouping) {
+                case 'note': add(task.path, task); break
+                case 'due': add(getTaskDueStatus(task), task); break
+                case 'priority': add(task.priority ?? 'none', task); break
+                case 'tag':
+                    if (task.tags.length === 0) add('', task)
+                    task.tags.forEach(tag => add(tag, task))
+                    break
+            }
+        }
+
+        const order: Record<TaskGrouping, (key: string) => string> = {
+            note: key => toRelative(key),
+            due: key => String(Object.keys(DUE_GROUP_LABELS).indexOf(key)),
+            priority: key => String(PRIORITY_ORDER[key as TaskPriority] ?? 3),
+            tag: key => key || '\uffff'  // Untagged last
+        }
+        return [...map.entries()].sort(([a], [b]) => order[grouping](a).localeCompare(order[grouping](b)))
+    }, [filtered, grouping])
+
+    const getGroupLabel = (key: string) => {
+        switch (grouping) {
+            case 'note': return getTitle(key)
+            case 'due': return DUE_GROUP_LABELS[key as TaskDueStatus]
+            case 'priority': return key === 'none' ? 'No Priority' : `${key[0].toUpperCase()}${key.slice(1)}`
+            case 'tag': return key ? `#${key}` : 'No Tag'
+        }
+    }
+
+    const openTask = async (task: Task) => {
+        await openTab(task.path, getTitle(task.path))
+        revealBlock({ filePath: task.path, blockIndex: task.blockIndex })
+    }
+
+    const renderTask = (task: Task) => {
+        const status = getTaskDueStatus(task)
+        return (
+            <div key={`${task.path}:${task.index}`} className={`task-item ${task.checked ? 'checked' : ''}`}>
+                <div
+                    className={`block-checkbox ${task.checked ? 'checked' : ''}`}
+                    onClick={() => setTaskChecked(task.path, task.index, task.content, !task.checked)}
+                >
+                    {task.checked && <Check size={12} strokeWidth={3} />}
+                </div>
+                <div className="task-body" onClick={() => openTask(task)}>
+                    <div className="task-text">
+                        {task.priority && <span className="task-priority">{PRIORITY_ICONS[task.priority]}</span>}
+                        {task.text || task.content}
+                    </div>
+                    <div className="task-meta">
+                        {task.due && <span className={`task-due ${status}`}>{task.due}</span>}
+                        {grouping !== 'note' && <span className="search-result-folder">{getTitle(task.path)}</span>}
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="tasks-pane">
+            <div className="link-health-tabs">
+                {(['open', 'done', 'all'] as StatusFilter[]).map(status => (
+                    <button
+                        key={status}
+                        className={`link-health-tab ${statusFilter === status ? 'active' : ''}`}
+                        onClick={() => setStatusFilter(status)}
+                    >
+                        {status === 'open' ? 'Open' : status === 'done' ? 'Done' : 'All'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="tasks-filters">
+                <select className="tasks-select" value={dueFilter} onChange={(e) => setDueFilter(e.target.value as DueFilter)}>
+                    <option value="all">Any date</option>
+                    <option value="overdue">Overdue</option>
+                    <option value="today">Today</option>
+                </select>
+                <select className="tasks-select" value={tagFilter} onChange={(e) => setTagFilter(e.target.value)}>
+                    <option value="">Any tag</option>
+                    {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+                <select className="tasks-select" value={folderFilter} onChange={(e) => setFolderFilter(e.target.value)}>
+                    <option value="">Any folder</option>
+                    {allFolders.map(folder => <option key={folder} value={folder}>{toRelative(folder)}</option>)}
+                </select>
+                <select className="tasks-select" value={grouping} onChange={(e) => setGrouping(e.target.value as TaskGrouping)}>
+                    <option value="note">Group: Note</option>
+                    <option value="due">Group: Due</option>
+                    <option value="priority">Group: Priority</option>
+                    <option value="tag">Group: Tag</option>
+                </select>
+            </div>
+
+            {isLoading && parsedDocs.size === 0 ? (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            ) : groups.length === 0 ? (
+                <div className="search-pane-empty">할 일이 없습니다.</div>
+            ) : (
+                groups.map(([key, groupTasks]) => (
+                    <div key={key} className="tasks-group">
+                        <div
+                            className="tasks-group-header"
+                            title={grouping === 'note' ? toRelative(key) : undefined}
+                            onClick={grouping === 'note' ? () => openTab(key, getTitle(key)) : undefined}
+                        >
+                            <span>{getGroupLabel(key)}</span>
+                            <span className="link-health-count">{groupTasks.length}</span>
+                        </div>
+                        {groupTasks.map(renderTask)}
+                    </div>
+                ))
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react'
+import { File, Folder, RotateCcw, Trash2 } from 'lucide-react'
+import Modal from '../common/Modal'
+import { useVaultStore } from '../../stores/vaultStore'
+import type { TrashEntry } from '@shared/types'
+
+interface TrashModalProps {
+    onClose: () => void
+}
+
+/**
+ * Lists items in the vault's .trash folder with restore / permanent delete actions
+ */
+export default function TrashModal({ onClose }: TrashModalProps) {
+    const { vaultPath, restoreTrashItem } = useVaultStore()
+    const [entries, setEntries] = useState<TrashEntry[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+
+    const loadEntries = async () => {
+        if (!vaultPath) return
+        try {
+            setEntries(await window.api.listTrash(vaultPath))
+        } catch (error) {
+            console.error('Failed to list trash:', error)
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        loadEntries()
+    }, [vaultPath])
+
+    const handleRestore = async (id: string) => {
+        const restoredPath = await restoreTrashItem(id)
+        if (restoredPath) await loadEntries()
+    }
+
+    const handleDelete = async (entry: TrashEntry) => {
+        if (!vaultPath || !confirm(`"${entry.name}"을(를) 영구적으로 삭제할까요?`)) return
+        await window.api.emptyTrash(vaultPath, entry.id)
+        await loadEntries()
+    }
+
+    const handleEmpty = async () => {
+        if (!vaultPath || !confirm('휴지통을 비울까요? 이 작업은 되돌릴 수 없습니다.')) return
+        await window.api.emptyTrash(vaultPath)
+        await loadEntries()
+    }
+
+    const footer = (
+        <>
+            <button className="btn btn-secondary" onClick={handleEmpty} disabled={entries.length === 0}>
+                Empty Trash
+            </button>
+            <button className="btn btn-primary" onClick={onClose}>
+                Close
+            </button>
+        </>
+    )
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Trash" footer={footer} width="460px">
+            {isLoading ? (
+                <div className="loading">
+                    <div className="loading-spinner" />
+                </div>
+            ) : entries.length === 0 ? (
+                <div className="trash-empty">휴지통이 비어 있습니다.</div>
+            ) : (
+                <div className="trash-list">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="trash-item">
+                            {entry.isDirectory ? <Folder size={14} /> : <File size={14} />}
+                            <div className="trash-item-info">
+                                <div className="trash-item-name">{entry.name}</div>
+                                <div className="trash-item-path">
+                                    {entry.originalPath} · {new Date(entry.trashedAt).toLocaleString()}
+                                </div>
+                            </div>
+                            <button className="sidebar-btn" onClick={() => handleRestore(entry.id)} title="Restore">
+                                <RotateCcw size={14} />
+                            </button>
+                            <button className="sidebar-btn" onClick={() => handleDelete(entry)} title="Delete Permanently">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Modal>
+    )
+}
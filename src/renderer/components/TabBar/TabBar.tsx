@@ -1,6 +1,7 @@
-import { useEffect, useRef } from 'react'
-import { X, Columns, Globe, Eye, Edit3 } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { X, Columns, Globe, Eye, Edit3, History } from 'lucide-react'
 import { useEditorStore } from '../../stores/editorStore'
+import FileHistoryModal from '../Editor/FileHistoryModal'
 
 interface TabBarProps {
     groupId: string
@@ -18,6 +19,7 @@ export default function TabBar({ groupId }: TabBarProps) {
         openBrowserTab,
         toggleViewMode
     } = useEditorStore()
+    const [historyTabId, setHistoryTabId] = useState<string | null>(null)
 
     const group = editorGroups.find(g => g.id === groupId)
     if (!group) return null
@@ -123,7 +125,22 @@ export default function TabBar({ groupId }: TabBarProps) {
                         {activeTab.viewMode === 'preview' ? <Edit3 size={14} /> : <Eye size={14} />}
                     </button>
                 )}
+
+                {/* File History Button */}
+                {activeTab && activeTab.type === 'document' && (
+                    <button
+                        className="tab-action-btn"
+                        onClick={() => setHistoryTabId(activeTab.id)}
+                        title="File History"
+                    >
+                        <History size={14} />
+                    </button>
+                )}
             </div>
+
+            {historyTabId && (
+                <FileHistoryModal tabId={historyTabId} onClose={() => setHistoryTabId(null)} />
+            )}
         </div>
     )
 }
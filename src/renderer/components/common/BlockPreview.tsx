@@ -1,10 +1,15 @@
-import React from 'react'
-import { Check, Image as ImageIcon, X } from 'lucide-react'
+import React, { useMemo } from 'react'
+import { Check, ChevronRight, Image as ImageIcon, X } from 'lucide-react'
 import type { Block, TableCell, PendingDiff } from '@shared/types'
+import { parseContentToBlocks } from '@shared/markdown'
 import { MarkdownRenderer } from './MarkdownRenderer'
 import { getNumberingForBlock } from '../../utils/numberingUtils'
+import { getCalloutKind, getCalloutTitle } from '../../utils/calloutUtils'
 import FileBlock from '../Editor/FileBlock'
 import TableBlock from '../Editor/TableBlock'
+import EmbedBlock from '../Editor/EmbedBlock'
+import QueryBlock from '../Editor/QueryBlock'
+import { useAttachmentSrc } from '../../hooks/useAttachmentSrc'
 
 interface BlockPreviewProps {
     block: Block
@@ -18,6 +23,7 @@ interface BlockPreviewProps {
     diff?: PendingDiff
     onAcceptDiff?: (diffId: string) => void
     onRejectDiff?: (diffId: string) => void
+    embedAncestors?: string[] // Embed chain for nested ![[...]] (cycle / depth checks)
 }
 
 const DiffFooter = ({ onAccept, onReject }: { onAccept: () => void, onReject: () => void }) => (
@@ -43,6 +49,57 @@ const DiffFooter = ({ onAccept, onReject }: { onAccept: () => void, onReject: ()
     </div>
 )
 
+interface CalloutPreviewProps {
+    block: Block
+    onLinkClick: (target: string) => void
+    onToggleCollapse?: (collapsed: boolean) => void
+    embedAncestors?: string[]
+    style?: React.CSSProperties
+}
+
+/**
+ * Callout with its type icon and title. The body is markdown of its own, rendered as nested
+ * blocks; foldable callouts ([!type]+ / [!type]-) open and close from the header.
+ */
+export const CalloutPreview = ({ block, onLinkClick, onToggleCollapse, embedAncestors, style }: CalloutPreviewProps) => {
+    const kind = getCalloutKind(block.calloutType)
+    const bodyBlocks = useMemo(() => block.content ? parseContentToBlocks(block.content) : [], [block.content])
+    const collapsed = block.calloutFold === '-'
+
+    return (
+        <div className={`preview-callout callout-${kind.type}`} style={style}>
+            <div
+                className={`callout-header ${block.calloutFold ? 'foldable' : ''}`}
+                onClick={block.calloutFold ? (e) => {
+                    e.stopPropagation()
+                    onToggleCollapse?.(!collapsed)
+                } : undefined}
+            >
+                <span className="callout-icon">{kind.icon}</span>
+                <strong className="callout-title">
+                    <MarkdownRenderer content={getCalloutTitle(block)} onClick={onLinkClick} />
+                </strong>
+                {block.calloutFold && (
+                    <ChevronRight size={14} className={`callout-fold ${collapsed ? '' : 'expanded'}`} />
+                )}
+            </div>
+            {!collapsed && bodyBlocks.length > 0 && (
+                <div className="callout-content">
+                    {bodyBlocks.map(child => (
+                        <BlockPreview
+                            key={child.block_id}
+                            block={child}
+                            blocks={bodyBlocks}
+                            onLinkClick={onLinkClick}
+                            embedAncestors={embedAncestors}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
+
 export const BlockPreview = ({
     block,
     blocks,
@@ -54,8 +111,12 @@ export const BlockPreview = ({
     renderChild,
     diff,
     onAcceptDiff,
-    onRejectDiff
+    onRejectDiff,
+    embedAncestors = []
 }: BlockPreviewProps) => {
+    const notePath = embedAncestors[embedAncestors.length - 1]?.split('#')[0]
+    const imgSrc = useAttachmentSrc(block.type === 'image' ? block.content : '', notePath)
+
     if (diff) {
         if (diff.type === 'delete') {
             return (
@@ -145,6 +206,11 @@ export const BlockPreview = ({
     if (block.type === 'heading1') return <h1 className="preview-h1" style={previewStyle}>{contentElement}</h1>
     if (block.type === 'heading2') return <h2 className="preview-h2" style={previewStyle}>{contentElement}</h2>
     if (block.type === 'heading3') return <h3 className="preview-h3" style={previewStyle}>{contentElement}</h3>
+    if (block.type === 'heading4') return <h4 className="preview-h4" style={previewStyle}>{contentElement}</h4>
+    if (block.type === 'heading5') return <h5 className="preview-h5" style={previewStyle}>{contentElement}</h5>
+    if (block.type === 'heading6') return <h6 className="preview-h6" style={previewStyle}>{contentElement}</h6>
+    // Markdown without a block type of its own is shown as written
+    if (block.type === 'raw') return <pre className="preview-raw" style={previewStyle}>{block.content}</pre>
     if (block.type === 'bullet') return <li className="preview-li" style={previewStyle}>{contentElement}</li>
     if (block.type === 'numbered') {
         const numbering = getNumberingForBlock(blocks, block.block_id)
@@ -172,60 +238,20 @@ export const BlockPreview = ({
     )
     if (block.type === 'quote') return <blockquote className="preview-quote" style={previewStyle}>{contentElement}</blockquote>
 
-    // Callout Block
     if (block.type === 'callout') {
-        const match = block.content.match(/^\[!(.*?)\]\s?(.*)$/m)
-        const type = match ? match[1].toLowerCase() : 'info'
-        const content = match ? block.content.substring(match[0].length).trim() || match[2] : block.content
-
-        // Determine Icon and Color class based on type
-        let icon = 'ℹ️'
-        let title = type.toUpperCase()
-        if (type === 'tip' || type === 'success') { icon = '✅'; title = 'TIP' }
-        if (type === 'warning') { icon = '⚠️'; title = 'WARNING' }
-        if (type === 'danger' || type === 'error') { icon = '🚫'; title = 'ERROR' }
-        if (type === 'note') { icon = '📝'; title = 'NOTE' }
-
-        // If there's a title in the content line (after [!TYPE]), use it
-        const titleMatch = block.content.match(/^\[!.*?\]\s*(.*?)(\n|$)/)
-        if (titleMatch && titleMatch[1]) {
-            title = titleMatch[1]
-        }
-
-        // Extract body (everything after the first line)
-        const body = block.content.split('\n').slice(1).join('\n')
-
-        // If simple one-liner
-        const isOneLiner = block.content.indexOf('\n') === -1
-        const displayContent = isOneLiner ? (match ? match[2] : block.content) : body
-
         return (
-            <div className={`preview-callout callout-${type}`} style={previewStyle}>
-                <div className="callout-header">
-                    <span className="callout-icon">{icon}</span>
-                    <strong className="callout-title">{title}</strong>
-                </div>
-                {/* Render body if exists, or remaining content if one-liner */}
-                {displayContent && (
-                    <div className="callout-content">
-                        <MarkdownRenderer content={displayContent} onClick={onLinkClick} />
-                    </div>
-                )}
-            </div>
+            <CalloutPreview
+                block={block}
+                onLinkClick={onLinkClick}
+                onToggleCollapse={onToggleCollapse}
+                embedAncestors={embedAncestors}
+                style={previewStyle}
+            />
         )
     }
 
     if (block.type === 'divider') return <hr className="preview-divider" style={previewStyle} />
     if (block.type === 'image') {
-        let imgSrc = block.content
-        if (block.content.startsWith('http://') || block.content.startsWith('https://')) {
-            imgSrc = block.content
-        } else if (block.content.startsWith('file://')) {
-            imgSrc = block.content.replace('file://', 'media://')
-        } else {
-            // Assume local path
-            imgSrc = `media://${block.content}`
-        }
         return (
             <div className="block-preview block-image-container" style={previewStyle}>
                 {block.content ? (
@@ -247,7 +273,25 @@ export const BlockPreview = ({
     if (block.type === 'file') {
         return (
             <div className="block-preview block-file-container" style={previewStyle}>
-                <FileBlock src={block.content} viewMode="preview" />
+                <FileBlock src={block.content} notePath={notePath} viewMode="preview" />
+            </div>
+        )
+    }
+
+    // Embedded note / section / block
+    if (block.type === 'embed') {
+        return (
+            <div style={previewStyle}>
+                <EmbedBlock link={block.content} ancestors={embedAncestors} />
+            </div>
+        )
+    }
+
+    // Live query results
+    if (block.type === 'query') {
+        return (
+            <div style={previewStyle}>
+                <QueryBlock query={block.content} hostPath={notePath} />
             </div>
         )
     }
@@ -272,7 +316,9 @@ export const BlockPreview = ({
             <div style={previewStyle}>
                 <TableBlock
                     tableData={block.tableData}
+                    hasHeader={block.tableHeader !== false}
                     onChange={() => { }}
+                    renderInline={(content) => <MarkdownRenderer content={content} onClick={onLinkClick} />}
                     viewMode="preview"
                 />
             </div>
@@ -300,9 +346,12 @@ export const BlockPreview = ({
                         {block.children.map((child) => (
                             <div key={child.block_id} className="preview-child">
                                 {renderChild ? renderChild(child) : (
-                                    <div className="preview-text">
-                                        <MarkdownRenderer content={child.content} onClick={onLinkClick} />
-                                    </div>
+                                    <BlockPreview
+                                        block={child}
+                                        blocks={block.children!}
+                                        onLinkClick={onLinkClick}
+                                        embedAncestors={embedAncestors}
+                                    />
                                 )}
                             </div>
                         ))}
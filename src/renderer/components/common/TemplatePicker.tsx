@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { FileText, LayoutTemplate, Search } from 'lucide-react'
+import Modal from './Modal'
+import { useVaultStore } from '../../stores/vaultStore'
+import { useTemplateStore } from '../../stores/templateStore'
+
+interface TemplatePickerProps {
+    onSelect: (templatePath: string | null) => void
+    onClose: () => void
+    blankLabel?: string  // Adds an option that selects no template
+}
+
+function getTemplateName(path: string): string {
+    return path.split('/').pop()?.replace('.md', '') || path
+}
+
+/**
+ * Filterable list of the notes in the vault's templates folder
+ */
+export default function TemplatePicker({ onSelect, onClose, blankLabel }: TemplatePickerProps) {
+    const { vaultPath } = useVaultStore()
+    const { templatesFolder, getTemplates } = useTemplateStore()
+    const [filter, setFilter] = useState('')
+    const [selectedIndex, setSelectedIndex] = useState(0)
+
+    const templates = getTemplates().filter(path =>
+        getTemplateName(path).toLowerCase().includes(filter.toLowerCase())
+    )
+    const options: (string | null)[] = blankLabel && !filter ? [null, ...templates] : templates
+
+    const choose = (option: string | null) => {
+        onSelect(option)
+        onClose()
+    }
+
+    return (
+        <Modal isOpen={true} onClose={onClose} title="Templates" width="400px">
+            <div className="template-picker">
+                <div className="search-pane-input-wrapper">
+                    <Search size={14} />
+                    <input
+                        className="search-pane-input"
+                        placeholder="Filter templates"
+                        value={filter}
+                        autoFocus
+                        onChange={(e) => {
+                            setFilter(e.target.value)
+                            setSelectedIndex(0)
+                        }}
+                        onKeyDown={(e) => {
+                            // Keep keys away from the dialog / editor this picker was opened from
+                            e.stopPropagation()
+                            if (e.key === 'Escape') {
+                                e.preventDefault()
+                                onClose()
+                            } else if (e.key === 'ArrowDown') {
+                                e.preventDefault()
+                                setSelectedIndex(prev => Math.min(prev + 1, options.length - 1))
+                            } else if (e.key === 'ArrowUp') {
+                                e.preventDefault()
+                                setSelectedIndex(prev => Math.max(prev - 1, 0))
+                            } else if (e.key === 'Enter' && options.length > 0) {
+                                e.preventDefault()
+                                choose(options[selectedIndex])
+                            }
+                        }}
+                    />
+                </div>
+
+                <div className="template-picker-list">
+                    {options.length === 0 ? (
+                        <div className="search-pane-empty">
+                            {filter ? 'No matching templates' : `${templatesFolder} 폴더에 템플릿이 없습니다.`}
+                        </div>
+                    ) : options.map((option, index) => (
+                        <div
+                            key={option ?? ''}
+                            className={`slash-menu-item ${index === selectedIndex ? 'selected' : ''}`}
+                            onClick={() => choose(option)}
+                            onMouseEnter={() => setSelectedIndex(index)}
+                        >
+                            <span className="slash-menu-icon">
+                                {option ? <LayoutTemplate size={16} /> : <FileText size={16} />}
+                            </span>
+                            <span className="slash-menu-label">{option ? getTemplateName(option) : blankLabel}</span>
+                            {option && vaultPath && (
+                                <span className="slash-menu-shortcut">
+                                    {option.slice(vaultPath.length + 1).split('/').slice(1, -1).join('/')}
+                                </span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </Modal>
+    )
+}
+
+interface TemplateSelectProps {
+    value: string | null | undefined  // undefined = folder default, null = no template
+    onChange: (templatePath: string | null | undefined) => void
+    folderPath: string  // Folder the note will be created in (for its default template)
+}
+
+/**
+ * Form field showing the template a new note will use, with the picker behind it
+ */
+export function TemplateSelect({ value, onChange, folderPath }: TemplateSelectProps) {
+    const { getFolderTemplate } = useTemplateStore()
+    const [isPickerOpen, setIsPickerOpen] = useState(false)
+    const folderTemplate = getFolderTemplate(folderPath)
+
+    const label = value === undefined
+        ? folderTemplate ? `${getTemplateName(folderTemplate)} (folder default)` : 'Default'
+        : value === null ? 'Blank' : getTemplateName(value)
+
+    return (
+        <>
+            <div className="template-select">
+                <button type="button" className="template-select-btn" onClick={() => setIsPickerOpen(true)}>
+                    <LayoutTemplate size={14} />
+                    <span>{label}</span>
+                </button>
+                {value !== undefined && (
+                    <button type="button" className="template-select-reset" onClick={() => onChange(undefined)}>
+                        Reset
+                    </button>
+                )}
+            </div>
+            {isPickerOpen && (
+                <TemplatePicker
+                    blankLabel="Blank"
+                    onSelect={onChange}
+                    onClose={() => setIsPickerOpen(false)}
+                />
+            )}
+        </>
+    )
+}
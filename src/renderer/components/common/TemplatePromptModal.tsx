@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import Modal from './Modal'
+import { useTemplateStore } from '../../stores/templateStore'
+
+/**
+ * Asks for the {{prompt:Label}} values of a template that is being applied
+ */
+export default function TemplatePromptModal() {
+    const { pendingPrompt, resolvePrompt } = useTemplateStore()
+    const [values, setValues] = useState<Record<string, string>>({})
+
+    useEffect(() => {
+        setValues({})
+    }, [pendingPrompt])
+
+    if (!pendingPrompt) return null
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault()
+        resolvePrompt(Object.fromEntries(pendingPrompt.labels.map(label => [label, values[label] ?? ''])))
+    }
+
+    const footer = (
+        <>
+            <button type="button" className="btn btn-secondary" onClick={() => resolvePrompt(null)}>
+                Cancel
+            </button>
+            <button type="submit" form="template-prompt-form" className="btn btn-primary">
+                Apply
+            </button>
+        </>
+    )
+
+    return (
+        <Modal isOpen={true} onClose={() => resolvePrompt(null)} title={pendingPrompt.templateName} footer={footer} width="400px">
+            <form id="template-prompt-form" onSubmit={handleSubmit}>
+                {pendingPrompt.labels.map((label, index) => (
+                    <div key={label} className="form-group">
+                        <label className="form-label">{label}</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={values[label] ?? ''}
+                            onChange={(e) => setValues(prev => ({ ...prev, [label]: e.target.value }))}
+                            autoFocus={index === 0}
+                        />
+                    </div>
+                ))}
+            </form>
+        </Modal>
+    )
+}
@@ -0,0 +1,18 @@
+import { useAttachmentStore } from '../stores/attachmentStore'
+import { useVaultStore } from '../stores/vaultStore'
+
+/**
+ * Source for an image or file block: web URLs as they are, vault files through media://.
+ * Bare names (![[photo.png]]) and relative paths are looked up among the vault's attachments
+ * from the note they are in; files that aren't found fall back to the vault root.
+ */
+export function useAttachmentSrc(target: string, notePath?: string): string {
+    const vaultPath = useVaultStore(state => state.vaultPath)
+    const resolved = useAttachmentStore(state => target ? state.resolveAttachment(target, notePath) : null)
+
+    if (!target || /^https?:\/\//.test(target)) return target
+    if (resolved) return `media://${resolved}`
+    if (target.startsWith('file://')) return target.replace('file://', 'media://')
+    if (target.startsWith('/') || !vaultPath) return `media://${target}`
+    return `media://${vaultPath}/${target}`
+}
@@ -0,0 +1,531 @@
+import type { Block, Document, FileNode } from '@shared/types'
+import { useAIStore } from '../stores/aiStore'
+import { useVaultStore } from '../stores/vaultStore'
+import { useEmbeddingStore, type RetrievedChunk } from '../stores/embeddingStore'
+import type { AIAttachment } from '../stores/aiStore'
+import { LLM_PROVIDERS, acceptsMediaType, createProvider, isProviderConfigured } from './llm'
+import { isEmbedderConfigured } from './llm/embeddings'
+import type { LLMMessage, LLMPart, LLMTool, LLMToolResult } from './llm/types'
+import { getChunkTarget } from '../utils/embeddingUtils'
+import { buildContextFromSections, type BuiltContext, type ContextOverride, type ContextSection, type ContextSectionId } from './contextBuilder'
+import { EDIT_TOOL_DEFINITIONS, isEditTool, runEditToolCall, type AIAction } from './editTools'
+import { anchorCitations } from './citationService'
+
+// MCP Tool types (mirroring what preload exposes)
+interface MCPTool {
+    name: string
+    description?: string
+    inputSchema: Record<string, unknown>
+    serverId: string
+}
+
+// Tool names every provider accepts
+function toToolName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_]/g, '_')
+}
+
+/**
+ * Convert MCP tools to provider tool definitions (the built-in edit tools win on a name clash)
+ */
+function mcpToolsToDefinitions(mcpTools: MCPTool[]): LLMTool[] {
+    return mcpTools.filter(tool => !isEditTool(toToolName(tool.name))).map(tool => ({
+        name: toToolName(tool.name),
+        description: tool.description || `Tool: ${tool.name}`,
+        parameters: tool.inputSchema
+    }))
+}
+
+/**
+ * Get all MCP tools from connected servers
+ */
+async function getMCPTools(): Promise<MCPTool[]> {
+    try {
+        const tools = await window.api.mcpGetTools()
+        return tools
+    } catch (e) {
+        console.warn('[AIService] Failed to get MCP tools:', e)
+        return []
+    }
+}
+
+/**
+ * Execute an MCP tool call
+ */
+async function executeMCPTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    mcpTools: MCPTool[]
+): Promise<{ success: boolean; result?: unknown; error?: string }> {
+    // Find which server has this tool
+    const tool = mcpTools.find(t => toToolName(t.name) === toolName || t.name === toolName)
+    if (!tool) {
+        return { success: false, error: `Tool ${toolName} not found` }
+    }
+
+    try {
+        const result = await window.api.mcpCallTool(tool.serverId, tool.name, args)
+        return result
+    } catch (e) {
+        return { success: false, error: String(e) }
+    }
+}
+
+// WindowAPI is defined globally in vite-env.d.ts
+
+// Helper to get all file paths from the tree
+function getAllFilePaths(nodes: FileNode[]): string[] {
+    let paths: string[] = []
+    for (const node of nodes) {
+        if (!node.isDirectory && (node.name.endsWith('.md') || node.name.endsWith('.txt'))) {
+            paths.push(node.path)
+        } else if (node.children) {
+            paths = [...paths, ...getAllFilePaths(node.children)]
+        }
+    }
+    return paths
+}
+
+// Chat messages considered for the history section (older ones are never sent)
+const MAX_HISTORY_MESSAGES = 40
+
+// Passages retrieved per note whose tag was mentioned
+const TAG_TRIGGER_CHUNKS = 2
+
+// Paths in the prompt are vault-relative, as the model cites and edits them
+function toRelativePath(filePath: string, vaultPath: string | null): string {
+    return vaultPath && filePath.startsWith(vaultPath + '/') ? filePath.slice(vaultPath.length + 1) : filePath
+}
+
+function formatRetrievedChunk(chunk: RetrievedChunk, vaultPath: string): string {
+    const relativePath = toRelativePath(chunk.path, vaultPath)
+    const location = [relativePath, chunk.heading].filter(Boolean).join(' > ')
+    return `### ${location} (relevance ${chunk.score.toFixed(2)})\n[Source: ${getChunkTarget(relativePath, chunk)}]\n${chunk.text}`
+}
+
+// Build smart context from vault: Always-on docs, plus the passages closest to the message
+// (from the embedding index) and the best passages of notes whose tags the message mentions.
+// Items are in keeping order, so trimming to the context budget drops the least relevant first.
+async function getSmartContext(userMessage: string, activeFilePath?: string): Promise<ContextSection> {
+    const { documentIndex, vaultPath } = useVaultStore.getState()
+    const { semanticSearchEnabled, embeddingModel, providerSettings, smartContextTopK } = useAIStore.getState()
+
+    const items: string[] = []
+    const lowerMessage = userMessage.toLowerCase()
+
+    // 1. Always-on docs
+    const alwaysOnDocs = documentIndex.filter(d => d.alwaysOn).slice(0, 10)
+
+    // 2. Tag triggers
+    const triggeredDocs = documentIndex.filter(d =>
+        !d.alwaysOn &&
+        d.tags.some(tag => lowerMessage.includes(tag.toLowerCase()))
+    )
+
+    // 3. Load always-on content
+    for (const doc of alwaysOnDocs) {
+        try {
+            const content = await window.api.readFile(doc.path)
+            items.push(`### ${doc.title} [Always-on]\n[Source: ${toRelativePath(doc.path, vaultPath)}]\n${content}`)
+        } catch (e) {
+            console.warn(`Failed to read ${doc.path}`, e)
+        }
+    }
+
+    // 4. Retrieve passages; without the index, tag-triggered notes are read whole
+    if (semanticSearchEnabled && vaultPath && isEmbedderConfigured(embeddingModel, providerSettings)) {
+        const { search } = useEmbeddingStore.getState()
+        const excludePaths = [...alwaysOnDocs.map(d => d.path), ...(activeFilePath ? [activeFilePath] : [])]
+        try {
+            // One ranking for both: the overall top-k and each triggered note's best passages
+            const ranked = await search(userMessage, Infinity, { excludePaths })
+            const retrieved = ranked.slice(0, smartContextTopK)
+            for (const doc of triggeredDocs.slice(0, 10)) {
+                retrieved.push(...ranked.filter(chunk => chunk.path === doc.path).slice(0, TAG_TRIGGER_CHUNKS))
+            }
+            const seen = new Set<string>()
+            for (const chunk of retrieved) {
+                const key = `${chunk.path}:${chunk.blockIndex}`
+                if (seen.has(key)) continue
+                seen.add(key)
+                items.push(formatRetrievedChunk(chunk, vaultPath))
+            }
+        } catch (e) {
+            console.warn('[AIService] Semantic retrieval failed:', e)
+        }
+    } else {
+        for (const doc of triggeredDocs.slice(0, Math.max(0, 10 - alwaysOnDocs.length))) {
+            try {
+                const content = await window.api.readFile(doc.path)
+                const matchedTags = doc.tags.filter(tag => lowerMessage.includes(tag.toLowerCase()))
+                items.push(`### ${doc.title} [Triggered by: ${matchedTags.join(', ')}]\n[Source: ${toRelativePath(doc.path, vaultPath)}]\n${content}`)
+            } catch (e) {
+                console.warn(`Failed to read ${doc.path}`, e)
+            }
+        }
+    }
+
+    return {
+        id: 'vault',
+        label: 'Vault Context',
+        header: '## Vault Context (Smart Context)\nWhen you use a passage, cite it right after the sentence as [cite: <its Source>].\n\n',
+        items,
+        separator: '\n\n',
+        priority: 50
+    }
+}
+
+// Build context from document; one item per top-level block, so trimming cuts from the end
+function buildActiveDocumentContext(document: Document | null): ContextSection {
+    const section: ContextSection = {
+        id: 'activeDocument',
+        label: 'Active Document',
+        header: '',
+        items: ['No document is currently open.'],
+        separator: '\n',
+        priority: 70
+    }
+    if (!document) return section
+
+    const relativePath = toRelativePath(document.filePath, useVaultStore.getState().vaultPath)
+
+    // Toggle children are listed under their toggle, one tab deeper, with IDs of their own
+    const formatBlocks = (blocks: Block[], depth: number): string[] => blocks.flatMap(block => {
+        const line = formatBlock(block)
+            .split('\n')
+            .map(text => '\t'.repeat(depth) + text)
+            .join('\n')
+        return block.children ? [line, ...formatBlocks(block.children, depth + 1)] : [line]
+    })
+
+    const formatBlock = (block: Block): string => {
+        const idPrefix = `[Block ID: ${block.block_id}] `
+        if (block.type === 'divider') return `${idPrefix}---`
+        if (block.type === 'heading1') return `${idPrefix}# ${block.content}`
+        if (block.type === 'heading2') return `${idPrefix}## ${block.content}`
+        if (block.type === 'heading3') return `${idPrefix}### ${block.content}`
+        if (block.type === 'heading4') return `${idPrefix}#### ${block.content}`
+        if (block.type === 'heading5') return `${idPrefix}##### ${block.content}`
+        if (block.type === 'heading6') return `${idPrefix}###### ${block.content}`
+        if (block.type === 'bullet') return `${idPrefix}- ${block.content}`
+        if (block.type === 'numbered') return `${idPrefix}1. ${block.content}`
+        if (block.type === 'todo') return `${idPrefix}- [${block.checked ? 'x' : ' '}] ${block.content}`
+        if (block.type === 'quote') return `${idPrefix}> ${block.content}`
+        if (block.type === 'code') return `${idPrefix}\`\`\`\n${block.content}\n\`\`\``
+        if (block.type === 'callout') return `${idPrefix}> [!${block.calloutType || 'NOTE'}]${block.calloutTitle ? ` ${block.calloutTitle}` : ''}\n> ${block.content}`
+        if (block.type === 'toggle') return `${idPrefix}>> ${block.content}`
+        return `${idPrefix}${block.content}`
+    }
+
+    return {
+        ...section,
+        header: `## Active Document (User is currently looking at this)
+
+**Title:** ${document.meta.title}
+**Path:** ${relativePath}
+**ID:** ${document.meta.id}
+**Tags:** ${document.meta.tags.join(', ') || 'none'}
+**Created:** ${document.meta.created_at}
+**Updated:** ${document.meta.updated_at}
+
+### Content:
+When you use a block, cite it as [cite: ${relativePath}#<Block ID>].
+
+`,
+        items: document.blocks.map(block => formatBlocks([block], 0).join('\n'))
+    }
+}
+
+// Oldest messages are condensed, then dropped, when the history doesn't fit the budget
+function buildChatHistory(): ContextSection {
+    const { sessions, activeSessionId } = useAIStore.getState()
+    const activeSession = sessions.find(s => s.id === activeSessionId)
+    const recentMessages = activeSession ? activeSession.messages.slice(-MAX_HISTORY_MESSAGES) : []
+
+    return {
+        id: 'history',
+        label: 'Chat History',
+        header: `## Chat History
+The following is the recent conversation history between the user and you (Assistant). Use this to maintain context.
+
+`,
+        items: recentMessages.map(m => {
+            const edits = m.actions ? `\n(Proposed edits: ${m.actions.map(action => action.type).join(', ')})` : ''
+            return `[${m.role.toUpperCase()}]: ${m.content}${edits}`
+        }),
+        separator: '\n\n',
+        priority: 30,
+        condense: true
+    }
+}
+
+export interface MentionedItem {
+    type: 'file' | 'directory'
+    path: string
+    name: string
+}
+
+// Build context from mentioned items (files and directories)
+async function buildMentionedContext(mentionedItems: MentionedItem[]): Promise<ContextSection> {
+    const contextParts: string[] = []
+    const vaultPath = useVaultStore.getState().vaultPath
+
+    for (const item of mentionedItems) {
+        try {
+            if (item.type === 'file') {
+                const content = await window.api.readFile(item.path)
+                contextParts.push(`## Mentioned File: ${item.name}\n[Source: ${toRelativePath(item.path, vaultPath)}]\n${content}`)
+            } else if (item.type === 'directory') {
+                // Read all .md files in the directory recursively
+                const { fileTree } = useVaultStore.getState()
+
+                // Find the folder node and get all .md files
+                const findFolder = (nodes: FileNode[], targetPath: string): FileNode | null => {
+                    for (const node of nodes) {
+                        if (node.path === targetPath) return node
+                        if (node.children) {
+                            const found = findFolder(node.children, targetPath)
+                            if (found) return found
+                        }
+                    }
+                    return null
+                }
+
+                const getMdFiles = (node: FileNode): string[] => {
+                    let paths: string[] = []
+                    if (!node.isDirectory && node.name.endsWith('.md')) {
+                        paths.push(node.path)
+                    } else if (node.children) {
+                        for (const child of node.children) {
+                            paths = [...paths, ...getMdFiles(child)]
+                        }
+                    }
+                    return paths
+                }
+
+                const folderNode = findFolder(fileTree, item.path)
+                if (folderNode && folderNode.children) {
+                    const mdFiles = getMdFiles(folderNode).slice(0, 10) // Limit to 10 files
+
+                    for (const filePath of mdFiles) {
+                        try {
+                            const content = await window.api.readFile(filePath)
+                            const fileName = filePath.split('/').pop() || 'Unknown'
+                            contextParts.push(`## Mentioned Folder: ${item.name} / ${fileName}\n[Source: ${toRelativePath(filePath, vaultPath)}]\n${content}`)
+                        } catch (e) {
+                            console.warn(`Failed to read ${filePath}`, e)
+                        }
+                    }
+                }
+            }
+        } catch (e) {
+            console.warn(`Failed to read mentioned item ${item.path}`, e)
+        }
+    }
+
+    return {
+        id: 'mentions',
+        label: 'Mentioned Context',
+        header: '## Mentioned Context (User explicitly referenced these)\nWhen you use a file, cite it as [cite: <its Source>], adding #Heading or #^anchor for a part of it.\n\n',
+        items: contextParts,
+        separator: '\n\n---\n\n',
+        priority: 80
+    }
+}
+
+/**
+ * Gather every context section and fit them to the context budget.
+ * Also used by the AI panel's inspector to preview what the next message sends.
+ */
+export async function buildContext(
+    userMessage: string,
+    activeDocument: Document | null,
+    mentionedItems: MentionedItem[] = [],
+    overrides: Partial<Record<ContextSectionId, ContextOverride>> = {}
+): Promise<BuiltContext> {
+    const vaultPath = useVaultStore.getState().vaultPath
+    const { customSystemPrompt, vaultSystemPrompts, getFolderPromptForPath, contextTokenBudget } = useAIStore.getState()
+
+    // Determine effective system prompt
+    let effectiveSystemPrompt = customSystemPrompt
+    if (vaultPath && vaultSystemPrompts[vaultPath]) {
+        effectiveSystemPrompt = vaultSystemPrompts[vaultPath]
+    }
+
+    // Get folder-specific prompt if available
+    const folderPrompt = activeDocument?.filePath
+        ? getFolderPromptForPath(activeDocument.filePath)
+        : null
+
+    const sections: ContextSection[] = [
+        { id: 'system', label: 'System Prompt', header: '', items: [effectiveSystemPrompt], separator: '', priority: 100, required: true },
+        {
+            id: 'folder',
+            label: 'Folder Prompt',
+            header: '## Folder Context (Auto-applied from folder settings)\n\n',
+            items: folderPrompt ? [folderPrompt] : [],
+            separator: '',
+            priority: 90
+        },
+        await buildMentionedContext(mentionedItems),
+        await getSmartContext(userMessage, activeDocument?.filePath),
+        buildActiveDocumentContext(activeDocument),
+        buildChatHistory()
+    ]
+
+    return buildContextFromSections(sections, userMessage, contextTokenBudget, overrides)
+}
+
+// The final answer, and the edits the model proposed through edit tools (for review)
+export interface AIResponse {
+    text: string
+    actions: AIAction[]
+}
+
+export async function sendMessage(
+    userMessage: string,
+    activeDocument: Document | null,
+    attachments: AIAttachment[] = [],
+    mentionedItems: MentionedItem[] = [],
+    signal?: AbortSignal,
+    onChunk?: (text: string) => void,
+    contextOverrides: Partial<Record<ContextSectionId, ContextOverride>> = {},
+    onContext?: (context: BuiltContext) => void
+): Promise<AIResponse> {
+    const { providerSettings, webSearchEnabled, getEffectiveModel } = useAIStore.getState()
+    const { provider: providerId, model } = getEffectiveModel()
+    const providerInfo = LLM_PROVIDERS[providerId]
+    const settings = providerSettings[providerId]
+
+    if (!isProviderConfigured(providerId, settings)) {
+        throw new Error(`API key not set. Please configure your ${providerInfo.label} API key in settings.`)
+    }
+
+    if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError')
+    }
+
+    const provider = createProvider(providerId, settings)
+
+    // Fetch MCP tools from connected servers
+    const mcpTools = await getMCPTools()
+    const tools = [...EDIT_TOOL_DEFINITIONS, ...mcpToolsToDefinitions(mcpTools)]
+
+    const context = await buildContext(userMessage, activeDocument, mentionedItems, contextOverrides)
+    onContext?.(context)
+
+    if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError')
+    }
+
+    // Construct parts array
+    const parts: LLMPart[] = [{ type: 'text', text: context.text }]
+
+    // Add attachments the model accepts; tell it about the others
+    for (const att of attachments) {
+        if (acceptsMediaType(providerId, att.mimeType)) {
+            parts.push({ type: 'media', mimeType: att.mimeType, data: att.data.split(',')[1] || att.data })
+        } else {
+            parts.push({ type: 'text', text: `\n\n(Attachment "${att.name}" was not sent: ${providerInfo.label} does not accept ${att.mimeType} files)` })
+        }
+    }
+
+    // Check for YouTube URL in the message (Gemini watches the video itself)
+    // Regex that captures standard youtube.com and youtu.be URLs, ignoring trailing text
+    const youtubeRegex = /(https?:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)[a-zA-Z0-9_-]+(?:&[a-zA-Z0-9_=-]+)*)/g
+    const youtubeMatch = providerId === 'gemini' ? userMessage.match(youtubeRegex) : null
+
+    if (youtubeMatch) {
+        try {
+            const url = youtubeMatch[0]
+            const processed = await window.api.processYouTubeUrl(settings.apiKey, url)
+
+            if (processed.strategy === 'file_api' && processed.fileUri) {
+                // Configured file upload (legacy path if activated)
+                parts.push({ type: 'media', mimeType: processed.mimeType || 'video/mp4', uri: processed.fileUri })
+                parts.push({ type: 'text', text: `\n\n(Video Attached: ${url})` })
+            } else {
+                // Direct URL Strategy (Gemini Video Understanding)
+                parts.push({ type: 'media', mimeType: 'video/mp4', uri: url })
+                parts.push({ type: 'text', text: "\n\n(Analyze the video content above)" })
+            }
+        } catch (error) {
+            console.error('Failed to process YouTube URL:', error)
+        }
+    }
+
+    parts.push({ type: 'text', text: userMessage })
+
+    try {
+        const messages: LLMMessage[] = [{ role: 'user', parts }]
+        let fullResponse = ''       // Text of every round, tool-call rounds included
+        let roundSeparator = ''     // Put before the next round's text once it starts
+        const generate = () => provider.generate({
+            model,
+            messages,
+            tools,
+            webSearch: webSearchEnabled && providerInfo.webSearch,
+            signal,
+            onText: (delta) => {
+                fullResponse += roundSeparator + delta
+                roundSeparator = ''
+                onChunk?.(fullResponse)
+            }
+        })
+
+        let turn = await generate()
+
+        // Edits are checked against the vault as it is now, and only staged for review
+        const actions: AIAction[] = []
+        const { vaultPath, fileTree } = useVaultStore.getState()
+        const editContext = { document: activeDocument, vaultPath, fileTree, staged: actions }
+
+        // Handle tool calls in a loop (the model may request multiple rounds)
+        const MAX_FUNCTION_CALL_ROUNDS = 5
+        let currentRound = 0
+
+        while (turn.toolCalls.length > 0 && currentRound < MAX_FUNCTION_CALL_ROUNDS) {
+            currentRound++
+
+            // Execute each function call
+            const results: LLMToolResult[] = []
+            for (const call of turn.toolCalls) {
+                if (isEditTool(call.name)) {
+                    // Invalid arguments go back to the model, which retries in the next round
+                    const result = runEditToolCall(call, editContext)
+                    if ('error' in result) {
+                        results.push({ call, output: { error: result.error } })
+                    } else {
+                        actions.push(...result.actions)
+                        results.push({ call, output: { status: 'staged', message: 'Shown to the user for review; applied once they accept it.' } })
+                    }
+                    continue
+                }
+
+                onChunk?.(fullResponse + `\n\n🔧 *도구 실행 중: ${call.name}...*`)
+                const result = await executeMCPTool(call.name, call.args, mcpTools)
+                results.push({ call, output: result.success ? result.result : { error: result.error } })
+            }
+
+            // Add the calls and their results to the conversation and send it back
+            messages.push({ role: 'assistant', text: turn.text, toolCalls: turn.toolCalls })
+            messages.push({ role: 'tool', results })
+            if (fullResponse) roundSeparator = '\n\n'
+            turn = await generate()
+        }
+
+        if (turn.toolCalls.length > 0 && currentRound >= MAX_FUNCTION_CALL_ROUNDS) {
+            console.warn('[AIService] Max function call rounds reached, stopping.')
+            fullResponse += '\n\n⚠️ *최대 도구 호출 횟수에 도달했습니다.*'
+        }
+
+        // Citations of the active document's blocks are made to outlast its Block IDs
+        const text = activeDocument ? anchorCitations(fullResponse, activeDocument.filePath) : fullResponse
+        return { text, actions }
+    } catch (error) {
+        if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+            throw new DOMException('Aborted', 'AbortError')
+        }
+        console.error(`${providerInfo.label} API error:`, error)
+        throw error
+    }
+}
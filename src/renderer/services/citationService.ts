@@ -0,0 +1,119 @@
+import type { Block, Document } from '@shared/types'
+import { parseMarkdownToDocument } from '@shared/markdown'
+import { useVaultStore } from '../stores/vaultStore'
+import { useEditorStore, type RevealTarget } from '../stores/editorStore'
+import { findTreeNode } from '../utils/fileTreeUtils'
+import { findCitedBlocks, parseCitation, replaceCitations, type Citation } from '../utils/citationUtils'
+
+// Heading text that can be written as a [cite: path#Heading] target
+const CITABLE_HEADING_REGEX = /^[^\]#|^\n]+$/
+
+export interface ResolvedCitation {
+    filePath: string
+    title: string
+    blocks: Block[]             // The cited block or section, or the whole note
+    reveal?: RevealTarget       // Block to scroll to once the note is open
+}
+
+/**
+ * Note a citation's path points to: a vault-relative path (with or without .md), else a note title
+ */
+function findCitedNote(path: string): { filePath: string; title: string } | null {
+    const { vaultPath, fileTree, documentIndex } = useVaultStore.getState()
+    if (!vaultPath || !path) return null
+
+    const relativePath = path.replace(/^\/+/, '')
+    for (const candidate of [relativePath, `${relativePath}.md`]) {
+        const node = findTreeNode(fileTree, `${vaultPath}/${candidate}`)
+        if (node && !node.isDirectory) {
+            const entry = documentIndex.find(d => d.path === node.path)
+            return { filePath: node.path, title: entry?.title ?? node.name.replace(/\.md$/, '') }
+        }
+    }
+
+    const entry = documentIndex.find(d => d.title === path || d.path.endsWith(`/${relativePath}`))
+    return entry ? { filePath: entry.path, title: entry.title } : null
+}
+
+/**
+ * Block IDs are only stable while a note is open, so an open tab is read before the file
+ */
+async function loadDocument(filePath: string): Promise<Document> {
+    const tab = useEditorStore.getState().editorGroups
+        .flatMap(group => group.tabs)
+        .find(t => t.filePath === filePath && t.document)
+    if (tab?.document) return tab.document
+    return parseMarkdownToDocument(await window.api.readFile(filePath), filePath)
+}
+
+/**
+ * Find the note and blocks a citation points to, or null if it doesn't resolve
+ */
+export async function resolveCitation(citation: Citation): Promise<ResolvedCitation | null> {
+    const note = findCitedNote(citation.path)
+    if (!note) return null
+
+    let document: Document
+    try {
+        document = await loadDocument(note.filePath)
+    } catch {
+        return null
+    }
+
+    const { blocks, byBlockId } = findCitedBlocks(document.blocks, citation)
+    if (blocks.length === 0) return null
+
+    let reveal: RevealTarget | undefined
+    if (citation.anchor) reveal = { filePath: note.filePath, anchor: citation.anchor }
+    else if (byBlockId) reveal = { filePath: note.filePath, blockId: blocks[0].block_id }
+    else if (citation.fragment) reveal = { filePath: note.filePath, heading: citation.fragment }
+
+    return { ...note, blocks, reveal }
+}
+
+/**
+ * Open the cited note and flash the cited block
+ */
+export async function openCitation(resolved: ResolvedCitation): Promise<void> {
+    const { openTab, revealBlock } = useEditorStore.getState()
+    await openTab(resolved.filePath, resolved.title)
+    if (resolved.reveal) revealBlock(resolved.reveal)
+}
+
+function flattenBlocks(blocks: Block[]): Block[] {
+    return blocks.flatMap(block => [block, ...flattenBlocks(block.children ?? [])])
+}
+
+/**
+ * Block IDs change every time a note is parsed, so once an answer is complete its citations of
+ * the open note's blocks are rewritten to targets that survive a reload: headings by their text,
+ * blocks with a ^anchor by it, and other blocks by the section they are in. The note itself is
+ * never changed.
+ */
+export function anchorCitations(content: string, filePath: string): string {
+    const tab = useEditorStore.getState().editorGroups
+        .flatMap(group => group.tabs)
+        .find(t => t.filePath === filePath && t.document)
+    if (!tab?.document) return content
+
+    const blocks = flattenBlocks(tab.document.blocks)
+
+    // Stable #fragment for a Block ID ('' for the whole note), or null if it isn't one
+    const getStableFragment = (blockId: string): string | null => {
+        const index = blocks.findIndex(block => block.block_id === blockId)
+        if (index === -1) return null
+        const block = blocks[index]
+
+        if (block.type.startsWith('heading') && CITABLE_HEADING_REGEX.test(block.content)) return block.content
+        if (block.anchor) return `^${block.anchor}`
+        const heading = blocks.slice(0, index).reverse().find(b => b.type.startsWith('heading'))
+        return heading && CITABLE_HEADING_REGEX.test(heading.content) ? heading.content : ''
+    }
+
+    return replaceCitations(content, target => {
+        const citation = parseCitation(target)
+        const fragment = citation.fragment ? getStableFragment(citation.fragment) : null
+        if (fragment === null) return target
+        return fragment ? `${citation.path}#${fragment}` : citation.path
+    })
+}
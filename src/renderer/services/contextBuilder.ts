@@ -0,0 +1,189 @@
+/**
+ * Token-budgeted prompt assembly.
+ *
+ * Each context source becomes a section of items (files, passages, messages...). Sections are
+ * filled in priority order; the ones that don't fit are trimmed item by item (chat history is
+ * condensed first), and anything left without room is dropped. Pinned sections are always sent
+ * whole; dropped ones never.
+ */
+
+export type ContextSectionId = 'system' | 'folder' | 'mentions' | 'vault' | 'activeDocument' | 'history'
+
+export type ContextOverride = 'pinned' | 'dropped'
+
+// A section as gathered, before the budget is applied
+export interface ContextSection {
+    id: ContextSectionId
+    label: string
+    header: string          // Written before the items
+    items: string[]         // In keeping order: the first items survive trimming
+    separator: string
+    priority: number        // Higher is filled first
+    condense?: boolean      // Shorten items (oldest first) before dropping them, e.g. chat history
+    required?: boolean      // Always sent whole and can't be dropped (the system prompt)
+}
+
+export type ContextSectionStatus = 'full' | 'trimmed' | 'summarized' | 'dropped' | 'empty'
+
+export interface BuiltContextSection {
+    id: ContextSectionId
+    label: string
+    content: string         // What is sent ('' when dropped)
+    tokens: number
+    fullTokens: number      // Before trimming
+    status: ContextSectionStatus
+    override?: ContextOverride
+    required: boolean
+}
+
+export interface BuiltContext {
+    sections: BuiltContextSection[]
+    messageTokens: number
+    totalTokens: number
+    budget: number
+    text: string            // The assembled prompt, up to the user message
+}
+
+// Sections with less room than this are dropped rather than cut to a stub
+const MIN_SECTION_TOKENS = 64
+// Condensed items keep about this many characters
+const CONDENSED_ITEM_CHARS = 240
+// Items never condensed at the end of a condensable section (the latest messages)
+const KEEP_RECENT_ITEMS = 2
+
+/**
+ * Rough token count without a tokenizer: about 4 characters per token for Latin text, one per
+ * character for CJK and Hangul, which tokenizers split much more finely
+ */
+export function estimateTokens(text: string): number {
+    let ascii = 0
+    let other = 0
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 0x80) ascii++
+        else other++
+    }
+    return Math.ceil(ascii / 4 + other)
+}
+
+function renderSection(section: ContextSection, items: string[]): string {
+    return `${section.header}${items.join(section.separator)}`
+}
+
+// Cut text at a line (or, failing that, character) boundary to fit `tokens`
+function truncateToTokens(text: string, tokens: number): string {
+    if (estimateTokens(text) <= tokens) return text
+    let low = 0
+    let high = text.length
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2)
+        if (estimateTokens(text.slice(0, mid)) <= tokens) low = mid
+        else high = mid - 1
+    }
+    const cut = text.slice(0, low)
+    const lineEnd = cut.lastIndexOf('\n')
+    return lineEnd > cut.length / 2 ? cut.slice(0, lineEnd) : cut
+}
+
+function condenseItem(item: string): string {
+    const flat = item.replace(/\s+/g, ' ').trim()
+    return flat.length > CONDENSED_ITEM_CHARS ? `${flat.slice(0, CONDENSED_ITEM_CHARS)}…` : flat
+}
+
+/**
+ * Fit a section into `tokens`: condense (if allowed), then keep leading items, cutting the last
+ * one that partly fits
+ */
+function reduceSection(section: ContextSection, tokens: number): { content: string; status: ContextSectionStatus } {
+    let items = section.items
+    let status: ContextSectionStatus = 'trimmed'
+
+    if (section.condense) {
+        const condensed = [...items]
+        const oldest = Math.max(0, items.length - KEEP_RECENT_ITEMS)
+        for (let i = 0; i < oldest && estimateTokens(renderSection(section, condensed)) > tokens; i++) {
+            condensed[i] = condenseItem(condensed[i])
+        }
+        items = condensed
+        status = 'summarized'
+        // Still too long: drop the oldest
+        while (items.length > 1 && estimateTokens(renderSection(section, items)) > tokens) {
+            items = items.slice(1)
+        }
+        if (estimateTokens(renderSection(section, items)) <= tokens) {
+            return { content: renderSection(section, items), status }
+        }
+        status = 'trimmed'
+    }
+
+    const kept: string[] = []
+    const note = (count: number) => `\n\n(… ${count} more item${count === 1 ? '' : 's'} left out to fit the context budget)`
+    for (let i = 0; i < items.length; i++) {
+        const remaining = items.length - i - 1
+        const withItem = renderSection(section, [...kept, items[i]]) + (remaining > 0 ? note(remaining) : '')
+        if (estimateTokens(withItem) <= tokens) {
+            kept.push(items[i])
+            continue
+        }
+        // Cut this item to whatever room is left
+        const room = tokens - estimateTokens(renderSection(section, [...kept, '']) + note(items.length - i))
+        if (room >= MIN_SECTION_TOKENS / 2) {
+            kept.push(`${truncateToTokens(items[i], room - 4)}\n(… cut)`)
+        }
+        const left = items.length - kept.length
+        return { content: renderSection(section, kept) + (left > 0 ? note(left) : ''), status }
+    }
+    return { content: renderSection(section, kept), status }
+}
+
+/**
+ * Apply the token budget. `message` (the user's own text) always fits first; then pinned
+ * sections, then the rest by priority.
+ */
+export function buildContextFromSections(
+    sections: ContextSection[],
+    message: string,
+    budget: number,
+    overrides: Partial<Record<ContextSectionId, ContextOverride>> = {}
+): BuiltContext {
+    const messageTokens = estimateTokens(message)
+    let remaining = budget - messageTokens
+    const built = new Map<ContextSectionId, BuiltContextSection>()
+
+    const fullContent = (section: ContextSection) => section.items.length > 0 ? renderSection(section, section.items) : ''
+    const isKept = (section: ContextSection) => section.required || overrides[section.id] === 'pinned'
+    const order = [...sections].sort((a, b) => Number(isKept(b)) - Number(isKept(a)) || b.priority - a.priority)
+
+    for (const section of order) {
+        const content = fullContent(section)
+        const fullTokens = estimateTokens(content)
+        const override = section.required ? undefined : overrides[section.id]
+        const base = { id: section.id, label: section.label, fullTokens, override, required: !!section.required }
+
+        if (!content) {
+            built.set(section.id, { ...base, content: '', tokens: 0, status: 'empty' })
+        } else if (override === 'dropped') {
+            built.set(section.id, { ...base, content: '', tokens: 0, status: 'dropped' })
+        } else if (isKept(section) || fullTokens <= remaining) {
+            remaining -= fullTokens
+            built.set(section.id, { ...base, content, tokens: fullTokens, status: 'full' })
+        } else if (remaining >= MIN_SECTION_TOKENS) {
+            const reduced = reduceSection(section, remaining)
+            const tokens = estimateTokens(reduced.content)
+            remaining -= tokens
+            built.set(section.id, { ...base, content: reduced.content, tokens, status: reduced.status })
+        } else {
+            built.set(section.id, { ...base, content: '', tokens: 0, status: 'dropped' })
+        }
+    }
+
+    // Back to prompt order
+    const result = sections.map(section => built.get(section.id)!)
+    const text = [...result.filter(s => s.content).map(s => s.content), '## User Message (Respond to this)\n'].join('\n\n---\n\n')
+    return {
+        sections: result,
+        messageTokens,
+        totalTokens: messageTokens + result.reduce((sum, s) => sum + s.tokens, 0),
+        budget,
+        text
+    }
+}
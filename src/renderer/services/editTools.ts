@@ -0,0 +1,213 @@
+import type { BlockType, Document, FileNode } from '@shared/types'
+import type { LLMTool, LLMToolCall } from './llm/types'
+import { findBlock } from '../utils/blockTreeUtils'
+import { findTreeNode } from '../utils/fileTreeUtils'
+import { validateJSONSchema, type JSONSchema } from '../utils/jsonSchemaUtils'
+
+/**
+ * Document and vault edits, declared to the model as function tools. Calls are validated
+ * against their schema and the vault, then staged as actions for the AI panel's review;
+ * nothing is written until the user accepts them. Invalid calls go back to the model as
+ * tool errors so it can fix its arguments.
+ */
+
+export type AIActionType = 'update' | 'insert' | 'delete' | 'update_meta' | 'create_file' | 'create_folder' | 'update_file' | 'move'
+
+export interface AIAction {
+    type: AIActionType
+    id?: string             // update / delete: Block ID
+    afterId?: string        // insert: Block ID to insert after
+    content?: string
+    blockType?: BlockType
+    path?: string           // Vault-relative file or folder
+    newPath?: string        // move: destination (a new name renames it)
+    metaField?: 'title' | 'tags' | 'alwaysOn'
+    metaValue?: string | string[] | boolean
+}
+
+// What edit calls are checked against
+export interface EditToolContext {
+    document: Document | null   // The active document (block edits and metadata)
+    vaultPath: string | null
+    fileTree: FileNode[]
+    staged: AIAction[]          // Staged earlier in the same answer (not on disk yet)
+}
+
+type Args = Record<string, any>
+
+interface EditTool {
+    description: string
+    parameters: JSONSchema
+    needsDocument?: boolean
+    check?: (args: Args, context: EditToolContext) => string | null
+    toActions: (args: Args) => AIAction[]
+}
+
+const INSERT_BLOCK_TYPES: BlockType[] = [
+    'text', 'heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6',
+    'bullet', 'numbered', 'todo', 'quote', 'code', 'callout', 'toggle', 'divider'
+]
+
+const blockIdParameter: JSONSchema = { type: 'string', minLength: 1, description: 'Block ID from a [Block ID: ...] label of the active document' }
+const pathParameter: JSONSchema = { type: 'string', minLength: 1, description: 'Path relative to the vault root, e.g. "Projects/Plan.md"' }
+const contentParameter: JSONSchema = { type: 'string', description: 'Markdown; several lines become several blocks' }
+const fileContentParameter: JSONSchema = { type: 'string', description: 'The whole file as Markdown, frontmatter included' }
+
+function getNode(context: EditToolContext, relativePath: string): FileNode | null {
+    return context.vaultPath ? findTreeNode(context.fileTree, `${context.vaultPath}/${relativePath}`) : null
+}
+
+function checkPath(path: string): string | null {
+    if (path.startsWith('/')) return `"${path}" must be relative to the vault root`
+    if (path.split('/').includes('..')) return `"${path}" must stay inside the vault`
+    return null
+}
+
+function checkBlock(context: EditToolContext, blockId: string): string | null {
+    return findBlock(context.document!.blocks, blockId) ? null : `No block with ID "${blockId}" in the active document`
+}
+
+const EDIT_TOOLS: Record<string, EditTool> = {
+    update_block: {
+        description: 'Replace the content of a block in the active document.',
+        parameters: {
+            type: 'object',
+            properties: { id: blockIdParameter, content: contentParameter },
+            required: ['id', 'content']
+        },
+        needsDocument: true,
+        check: (args, context) => checkBlock(context, args.id),
+        toActions: (args) => [{ type: 'update', id: args.id, content: args.content }]
+    },
+    insert_block: {
+        description: 'Insert new blocks after a block of the active document.',
+        parameters: {
+            type: 'object',
+            properties: {
+                afterId: { ...blockIdParameter, description: 'Block ID (from a [Block ID: ...] label) to insert after' },
+                content: contentParameter,
+                blockType: { type: 'string', enum: INSERT_BLOCK_TYPES, description: 'Type of the new block (default: text)' }
+            },
+            required: ['afterId', 'content']
+        },
+        needsDocument: true,
+        check: (args, context) => checkBlock(context, args.afterId),
+        toActions: (args) => [{ type: 'insert', afterId: args.afterId, content: args.content, blockType: args.blockType ?? 'text' }]
+    },
+    delete_block: {
+        description: 'Delete a block of the active document.',
+        parameters: {
+            type: 'object',
+            properties: { id: blockIdParameter },
+            required: ['id']
+        },
+        needsDocument: true,
+        check: (args, context) => checkBlock(context, args.id),
+        toActions: (args) => [{ type: 'delete', id: args.id }]
+    },
+    update_meta: {
+        description: 'Change the title, tags or Always-on flag of the active document. Give only the fields to change.',
+        parameters: {
+            type: 'object',
+            properties: {
+                title: { type: 'string', minLength: 1 },
+                tags: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'The complete new tag list, without #' },
+                alwaysOn: { type: 'boolean', description: 'Always include this note in the AI context' }
+            }
+        },
+        needsDocument: true,
+        check: (args) => args.title == null && args.tags == null && args.alwaysOn == null
+            ? 'Give at least one of title, tags or alwaysOn'
+            : null,
+        toActions: (args) => (['title', 'tags', 'alwaysOn'] as const)
+            .filter(field => args[field] != null)
+            .map(field => ({ type: 'update_meta', metaField: field, metaValue: args[field] }))
+    },
+    create_file: {
+        description: 'Create a new file in the vault. Works without an open document.',
+        parameters: {
+            type: 'object',
+            properties: { path: pathParameter, content: fileContentParameter },
+            required: ['path', 'content']
+        },
+        check: (args, context) => checkPath(args.path)
+            ?? (getNode(context, args.path) ? `"${args.path}" already exists; use update_file to change it` : null),
+        toActions: (args) => [{ type: 'create_file', path: args.path, content: args.content }]
+    },
+    create_folder: {
+        description: 'Create a new folder in the vault.',
+        parameters: {
+            type: 'object',
+            properties: { path: pathParameter },
+            required: ['path']
+        },
+        check: (args, context) => checkPath(args.path)
+            ?? (getNode(context, args.path) ? `"${args.path}" already exists` : null),
+        toActions: (args) => [{ type: 'create_folder', path: args.path }]
+    },
+    update_file: {
+        description: 'Replace the whole content of an existing file in the vault, whether or not it is open.',
+        parameters: {
+            type: 'object',
+            properties: { path: pathParameter, content: fileContentParameter },
+            required: ['path', 'content']
+        },
+        check: (args, context) => {
+            const node = getNode(context, args.path)
+            return checkPath(args.path)
+                ?? (!node || node.isDirectory ? `No file at "${args.path}"; use create_file to create it` : null)
+        },
+        toActions: (args) => [{ type: 'update_file', path: args.path, content: args.content }]
+    },
+    move_item: {
+        description: 'Move or rename a file or folder in the vault. Links to it can be updated afterwards.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: pathParameter,
+                newPath: { ...pathParameter, description: 'New path relative to the vault root; the folder must exist' }
+            },
+            required: ['path', 'newPath']
+        },
+        check: (args, context) => {
+            const parent = args.newPath.includes('/') ? args.newPath.slice(0, args.newPath.lastIndexOf('/')) : ''
+            const hasParent = !parent
+                || !!getNode(context, parent)?.isDirectory
+                || context.staged.some(action => action.type === 'create_folder' && action.path === parent)
+            return checkPath(args.path) ?? checkPath(args.newPath)
+                ?? (!getNode(context, args.path) ? `Nothing at "${args.path}"` : null)
+                ?? (getNode(context, args.newPath) ? `"${args.newPath}" already exists` : null)
+                ?? (!hasParent ? `No folder "${parent}"; create it first with create_folder` : null)
+        },
+        toActions: (args) => [{ type: 'move', path: args.path, newPath: args.newPath }]
+    }
+}
+
+export const EDIT_TOOL_DEFINITIONS: LLMTool[] = Object.entries(EDIT_TOOLS).map(([name, tool]) => ({
+    name,
+    description: tool.description,
+    parameters: tool.parameters as Record<string, unknown>
+}))
+
+export function isEditTool(name: string): boolean {
+    return name in EDIT_TOOLS
+}
+
+/**
+ * Validate an edit call and turn it into actions for review, or an error for the model
+ */
+export function runEditToolCall(call: LLMToolCall, context: EditToolContext): { actions: AIAction[] } | { error: string } {
+    const tool = EDIT_TOOLS[call.name]
+    const retry = `Fix the arguments and call ${call.name} again.`
+
+    const errors = validateJSONSchema(tool.parameters, call.args)
+    if (errors.length > 0) return { error: `Invalid arguments: ${errors.join('; ')}. ${retry}` }
+
+    if (tool.needsDocument && !context.document) {
+        return { error: `${call.name} edits the active document, but no document is open. Use update_file with a path instead.` }
+    }
+    const problem = tool.check?.(call.args, context)
+    if (problem) return { error: `${problem}. ${retry}` }
+
+    return { actions: tool.toActions(call.args) }
+}
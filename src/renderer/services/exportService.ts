@@ -0,0 +1,97 @@
+import type { Block, Document, ExportResult, FileNode } from '@shared/types'
+import { parseMarkdownToDocument } from '@shared/markdown'
+import { parseWikiLink } from '@shared/wikiLinks'
+import { useVaultStore } from '../stores/vaultStore'
+import { useEditorStore } from '../stores/editorStore'
+import { findTreeNode } from '../utils/fileTreeUtils'
+import {
+    exportNotesToHtml,
+    exportNotesToPrintHtml,
+    exportNotesToMarkdown,
+    MAX_EMBED_DEPTH,
+    type ExportNote,
+    type ExportSource
+} from '../utils/exportUtils'
+
+export type ExportFormat = 'html' | 'pdf' | 'markdown'
+
+function collectNotePaths(nodes: FileNode[]): string[] {
+    return nodes.flatMap(node => node.isDirectory ? collectNotePaths(node.children || []) : [node.path])
+}
+
+function collectEmbedTargets(blocks: Block[]): string[] {
+    return blocks.flatMap(block => [
+        ...(block.type === 'embed' ? [parseWikiLink(block.content).target] : []),
+        ...collectEmbedTargets(block.children || [])
+    ])
+}
+
+/**
+ * A note as it is now: an open tab's unsaved edits win over the file on disk
+ */
+async function loadDocument(filePath: string): Promise<Document> {
+    const tab = useEditorStore.getState().editorGroups
+        .flatMap(group => group.tabs)
+        .find(t => t.filePath === filePath && t.document)
+    if (tab?.document) return tab.document
+    return parseMarkdownToDocument(await window.api.readFile(filePath), filePath)
+}
+
+/**
+ * Export a note, or every note in a folder (subfolders kept), to a place the user picks.
+ * Returns null when the user cancels.
+ */
+export async function exportItem(itemPath: string, format: ExportFormat): Promise<ExportResult | null> {
+    const { vaultPath, fileTree, documentIndex } = useVaultStore.getState()
+    if (!vaultPath) return null
+
+    const node = findTreeNode(fileTree, itemPath)
+    const isDirectory = node?.isDirectory ?? false
+    const root = isDirectory ? itemPath : itemPath.slice(0, itemPath.lastIndexOf('/'))
+    const paths = isDirectory ? collectNotePaths(node!.children || []) : [itemPath]
+    if (paths.length === 0) throw new Error('내보낼 노트가 없습니다.')
+
+    const notes: ExportNote[] = await Promise.all(paths.map(async path => ({
+        path,
+        name: path.slice(root.length + 1).replace(/\.md$/, ''),
+        document: await loadDocument(path)
+    })))
+
+    // Same matching as openLink: index title first, then file name
+    const allNotePaths = collectNotePaths(fileTree)
+    const resolveLink = (target: string) =>
+        documentIndex.find(d => d.title === target)?.path
+        ?? allNotePaths.find(p => p.endsWith(`/${target}.md`))
+        ?? null
+
+    // Notes shown through ![[embeds]], a few levels deep
+    const documents = new Map(notes.map(note => [note.path, note.document]))
+    let pending = notes.map(note => note.document)
+    for (let depth = 0; depth < MAX_EMBED_DEPTH && pending.length > 0; depth++) {
+        const targets = new Set(pending.flatMap(doc => collectEmbedTargets(doc.blocks))
+            .map(target => target && resolveLink(target))
+            .filter((path): path is string => !!path && !documents.has(path)))
+        pending = []
+        for (const path of targets) {
+            try {
+                const document = await loadDocument(path)
+                documents.set(path, document)
+                pending.push(document)
+            } catch (error) {
+                console.warn('[Export] Failed to read embedded note:', path, error)
+            }
+        }
+    }
+
+    const source: ExportSource = { vaultPath, notes, resolveLink, documents, queryNotes: documentIndex }
+    const name = node?.name.replace(/\.md$/, '') || 'Export'
+
+    switch (format) {
+        case 'html':
+            return window.api.exportHtml(vaultPath, exportNotesToHtml(source), name)
+        case 'pdf':
+            return window.api.exportPdf(vaultPath, exportNotesToPrintHtml(source, name), name)
+        case 'markdown':
+            return window.api.exportZip(vaultPath, exportNotesToMarkdown(source), name)
+    }
+}
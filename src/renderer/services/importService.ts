@@ -0,0 +1,265 @@
+import type { ImportSource, ImportWrite } from '@shared/types'
+import { splitFrontmatter } from '@shared/frontmatter'
+import { useVaultStore } from '../stores/vaultStore'
+import { useTemplateStore } from '../stores/templateStore'
+import { usePeriodicNoteStore } from '../stores/periodicNoteStore'
+import {
+    analyzeObsidianVault,
+    collectHtmlImages,
+    createNoteFrontmatter,
+    describeUnconverted,
+    getHtmlTitle,
+    htmlToMarkdown,
+    planNotionImport,
+    stripNotionId,
+    type ImportPlan,
+    type ImportReportEntry,
+    type ObsidianAnalysis
+} from '../utils/importUtils'
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp'
+}
+
+function requireVaultPath(): string {
+    const { vaultPath } = useVaultStore.getState()
+    if (!vaultPath) throw new Error('볼트를 먼저 열어주세요.')
+    return vaultPath
+}
+
+function getBaseName(filePath: string): string {
+    return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * `${dir}/${name}${ext}`, numbered like copied attachments when the name is taken
+ */
+async function getUniquePath(dirPath: string, name: string, ext: string, taken: Set<string> = new Set()): Promise<string> {
+    let candidate = `${dirPath}/${name}${ext}`
+    for (let counter = 1; taken.has(candidate) || await window.api.pathExists(candidate); counter++) {
+        candidate = `${dirPath}/${name}_${counter}${ext}`
+    }
+    taken.add(candidate)
+    return candidate
+}
+
+/**
+ * Write planned files and add the ones that failed to the report
+ */
+async function writePlan(plan: ImportPlan, vaultPath: string): Promise<ImportReportEntry[]> {
+    const failures = await window.api.writeImportFiles(plan.writes)
+    for (const failure of failures) {
+        const target = failure.path.slice(vaultPath.length + 1)
+        const entry = plan.report.find(e => e.target === target)
+        if (entry) {
+            entry.status = 'failed'
+            entry.issues.push(failure.error)
+        } else {
+            plan.report.push({ source: target, target, status: 'failed', issues: [failure.error] })
+        }
+    }
+    await useVaultStore.getState().refreshTree()
+    return plan.report
+}
+
+// ============================================
+// Notion
+// ============================================
+
+/**
+ * Import a Notion "Markdown & CSV" export (its zip or the unpacked folder) into a new
+ * folder of the vault
+ */
+export async function importNotionExport(sourcePath: string): Promise<ImportReportEntry[]> {
+    const vaultPath = requireVaultPath()
+    const source = await window.api.scanImportSource(sourcePath)
+
+    try {
+        const notes = source.files.filter(file => /\.(md|csv)$/i.test(file.path))
+        if (notes.length === 0) throw new Error('Notion에서 내보낸 Markdown 파일을 찾을 수 없습니다.')
+
+        // Exports unpack into a folder named after the top page, or "Export-<id>"
+        const rootName = stripNotionId(getBaseName(sourcePath).replace(/\.zip$/i, '')) || 'Notion'
+        const targetDir = await getUniquePath(vaultPath, rootName, '')
+        return await writePlan(planNotionImport(source.files, source.root, vaultPath, targetDir), vaultPath)
+    } finally {
+        await window.api.cleanupImportSource({ ...source, files: [] } satisfies ImportSource)
+    }
+}
+
+// ============================================
+// HTML
+// ============================================
+
+/**
+ * Local file an image src points to: a file:// URL (Word puts copied images in a temp folder)
+ * or a path relative to the page it came from
+ */
+function getImageFilePath(src: string, pageDir: string | null): string | null {
+    if (src.startsWith('file:')) {
+        try {
+            const pathname = decodeURIComponent(new URL(src).pathname)
+            return /^\/[a-z]:\//i.test(pathname) ? pathname.slice(1) : pathname
+        } catch {
+            return null
+        }
+    }
+    if (!pageDir || /^[a-z][a-z0-9+.-]*:/i.test(src)) return null
+    try {
+        return `${pageDir}/${decodeURIComponent(src.split(/[?#]/)[0])}`
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Convert one page into a note in the vault root; its images go to the attachment folder
+ */
+async function importHtmlPage(html: string, name: string, pageDir: string | null, source: string, taken: Set<string>): Promise<ImportReportEntry> {
+    const vaultPath = requireVaultPath()
+    const title = (getHtmlTitle(html) || name).replace(/[\\/:*?"<>|]/g, '-').trim() || 'Imported'
+    const notePath = await getUniquePath(vaultPath, title, '.md', taken)
+    const attachmentDir = useVaultStore.getState().getAttachmentDir(notePath) ?? vaultPath
+    const issues: string[] = []
+
+    const images = new Map<string, string>()
+    for (const src of collectHtmlImages(html)) {
+        if (/^https?:\/\//.test(src)) continue
+        const dataMatch = src.match(/^data:(image\/[\w+.-]+);base64,(.+)$/)
+        try {
+            if (dataMatch) {
+                const ext = IMAGE_EXTENSIONS[dataMatch[1]] ?? 'png'
+                const imagePath = await getUniquePath(attachmentDir, `${title} image`, `.${ext}`, taken)
+                const [failure] = await window.api.writeImportFiles([{ path: imagePath, base64: dataMatch[2] }])
+                if (failure) throw new Error(failure.error)
+                images.set(src, imagePath.slice(vaultPath.length + 1))
+                continue
+            }
+
+            const filePath = getImageFilePath(src, pageDir)
+            if (!filePath) {
+                issues.push(`Image not imported: ${src.slice(0, 80)}`)
+                continue
+            }
+            images.set(src, await window.api.copyImageToVault(filePath, vaultPath, attachmentDir))
+        } catch (error) {
+            issues.push(`Image not found: ${getBaseName(src).slice(0, 80)}`)
+            console.warn('[Import] Failed to copy image:', src.slice(0, 200), error)
+        }
+    }
+
+    const markdown = htmlToMarkdown(html, images)
+    issues.push(...describeUnconverted(markdown))
+
+    const write: ImportWrite = { path: notePath, content: createNoteFrontmatter(title) + markdown }
+    const [failure] = await window.api.writeImportFiles([write])
+    const target = notePath.slice(vaultPath.length + 1)
+    if (failure) return { source, target, status: 'failed', issues: [failure.error] }
+    return { source, target, status: issues.length > 0 ? 'partial' : 'converted', issues }
+}
+
+/**
+ * Import saved web pages or Word documents saved as HTML, one note each
+ */
+export async function importHtmlFiles(paths: string[]): Promise<ImportReportEntry[]> {
+    const taken = new Set<string>()
+    const report: ImportReportEntry[] = []
+
+    for (const filePath of paths) {
+        const name = getBaseName(filePath)
+        try {
+            const html = await window.api.readFile(filePath)
+            const pageDir = filePath.slice(0, Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')))
+            report.push(await importHtmlPage(html, name.replace(/\.html?$/i, ''), pageDir, name, taken))
+        } catch (error) {
+            report.push({ source: name, status: 'failed', issues: [error instanceof Error ? error.message : String(error)] })
+        }
+    }
+
+    await useVaultStore.getState().refreshTree()
+    return report
+}
+
+/**
+ * Import HTML from the clipboard (a web page or Word selection) as a new note
+ */
+export async function importHtmlText(html: string, name: string): Promise<ImportReportEntry[]> {
+    const entry = await importHtmlPage(html, name.trim() || 'Pasted', null, name.trim() || 'Clipboard', new Set())
+    await useVaultStore.getState().refreshTree()
+    return [entry]
+}
+
+// ============================================
+// Obsidian
+// ============================================
+
+/**
+ * Check an Obsidian vault's settings and notes before opening it
+ */
+export async function analyzeObsidianSource(vaultPath: string): Promise<ObsidianAnalysis> {
+    const source = await window.api.scanImportSource(vaultPath)
+    return analyzeObsidianVault(source.files)
+}
+
+/**
+ * Open an Obsidian vault in place. Its attachment, template and daily note settings are
+ * taken over; notes without frontmatter can get one so they show up in links and queries.
+ */
+export async function adoptObsidianVault(vaultPath: string, analysis: ObsidianAnalysis, addFrontmatter: boolean): Promise<ImportReportEntry[]> {
+    const { settings } = analysis
+    if (settings.attachmentFolder !== undefined) {
+        useVaultStore.getState().setAttachmentFolder(settings.attachmentFolder)
+    }
+    if (settings.templatesFolder) {
+        useTemplateStore.getState().setTemplatesFolder(settings.templatesFolder)
+    }
+    if (settings.dailyNotes) {
+        usePeriodicNoteStore.getState().setPeriodSettings('daily', {
+            folder: settings.dailyNotes.folder ?? '',
+            format: settings.dailyNotes.format || 'YYYY-MM-DD'
+        })
+    }
+
+    await useVaultStore.getState().loadVault(vaultPath)
+
+    const report = analysis.report.map(entry => ({ ...entry, issues: [...entry.issues] }))
+    const missing = analysis.notesWithoutFrontmatter
+    if (missing.length === 0) return report
+    if (!addFrontmatter) {
+        report.unshift({
+            source: '.',
+            status: 'partial',
+            issues: [`${missing.length} notes have no frontmatter: [[links]] and queries can't find them until they get one`]
+        })
+        return report
+    }
+
+    for (const relativePath of missing) {
+        const filePath = `${vaultPath}/${relativePath}`
+        try {
+            // Read again: the file may have changed since the analysis
+            const content = await window.api.readFile(filePath)
+            if (splitFrontmatter(content).raw !== null) continue
+            const title = getBaseName(relativePath).replace(/\.md$/, '')
+            await window.api.writeFile(filePath, createNoteFrontmatter(title) + content)
+        } catch (error) {
+            const message = `Frontmatter not added: ${error instanceof Error ? error.message : String(error)}`
+            const entry = report.find(e => e.source === relativePath)
+            if (entry) {
+                entry.status = 'partial'
+                entry.issues.push(message)
+            } else {
+                report.push({ source: relativePath, target: relativePath, status: 'failed', issues: [message] })
+            }
+        }
+    }
+
+    // Index the notes again now that they have frontmatter
+    await useVaultStore.getState().refreshTree()
+    return report
+}
@@ -0,0 +1,123 @@
+import { getResponseError, readEventStream } from './eventStream'
+import type { LLMMessage, LLMProvider, LLMProviderSettings, LLMRequest, LLMToolCall, LLMTurn } from './types'
+
+export const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com'
+
+const MAX_OUTPUT_TOKENS = 8192
+
+function toAnthropicMessages(messages: LLMMessage[]): any[] {
+    return messages.map(message => {
+        if (message.role === 'user') {
+            return {
+                role: 'user',
+                content: message.parts.map(part => {
+                    if (part.type === 'text') return { type: 'text', text: part.text }
+                    const source = part.uri
+                        ? { type: 'url', url: part.uri }
+                        : { type: 'base64', media_type: part.mimeType, data: part.data }
+                    return { type: part.mimeType === 'application/pdf' ? 'document' : 'image', source }
+                })
+            }
+        }
+        if (message.role === 'assistant') {
+            return {
+                role: 'assistant',
+                content: [
+                    ...(message.text ? [{ type: 'text', text: message.text }] : []),
+                    ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.args }))
+                ]
+            }
+        }
+        return {
+            role: 'user',
+            content: message.results.map(({ call, output }) => ({
+                type: 'tool_result',
+                tool_use_id: call.id,
+                content: typeof output === 'string' ? output : JSON.stringify(output)
+            }))
+        }
+    })
+}
+
+/**
+ * Anthropic Messages API, streamed
+ */
+export function createAnthropicProvider(settings: LLMProviderSettings): LLMProvider {
+    const baseUrl = (settings.baseUrl || ANTHROPIC_DEFAULT_BASE_URL).replace(/\/+$/, '')
+
+    return {
+        generate: async (request: LLMRequest): Promise<LLMTurn> => {
+            const response = await fetch(`${baseUrl}/v1/messages`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': settings.apiKey,
+                    'anthropic-version': '2023-06-01',
+                    // The renderer calls the API directly, like the Gemini SDK does
+                    'anthropic-dangerous-direct-browser-access': 'true'
+                },
+                body: JSON.stringify({
+                    model: request.model,
+                    max_tokens: MAX_OUTPUT_TOKENS,
+                    messages: toAnthropicMessages(request.messages),
+                    stream: true,
+                    ...(request.tools.length > 0 ? {
+                        tools: request.tools.map(tool => ({
+                            name: tool.name,
+                            description: tool.description,
+                            input_schema: tool.parameters
+                        }))
+                    } : {})
+                }),
+                signal: request.signal
+            })
+            if (!response.ok) throw await getResponseError(response, 'Anthropic')
+
+            let text = ''
+            // Content blocks by index; tool input arrives as partial JSON
+            const blocks: Array<{ type: string; id?: string; name?: string; json: string }> = []
+
+            for await (const { data } of readEventStream(response)) {
+                let event: any
+                try {
+                    event = JSON.parse(data)
+                } catch {
+                    continue
+                }
+
+                if (event.type === 'error') {
+                    throw new Error(`Anthropic API error: ${event.error?.message ?? data}`)
+                } else if (event.type === 'content_block_start') {
+                    const block = event.content_block
+                    blocks[event.index] = { type: block.type, id: block.id, name: block.name, json: '' }
+                    if (block.type === 'text' && block.text) {
+                        text += block.text
+                        request.onText?.(block.text)
+                    }
+                } else if (event.type === 'content_block_delta') {
+                    if (event.delta.type === 'text_delta') {
+                        text += event.delta.text
+                        request.onText?.(event.delta.text)
+                    } else if (event.delta.type === 'input_json_delta' && blocks[event.index]) {
+                        blocks[event.index].json += event.delta.partial_json
+                    }
+                } else if (event.type === 'message_stop') {
+                    break
+                }
+            }
+
+            const toolCalls: LLMToolCall[] = blocks
+                .filter(block => block?.type === 'tool_use')
+                .map(block => {
+                    let args: Record<string, unknown> = {}
+                    try {
+                        args = block.json ? JSON.parse(block.json) : {}
+                    } catch {
+                        console.warn('[AnthropicProvider] Invalid tool input:', block.json)
+                    }
+                    return { id: block.id, name: block.name!, args }
+                })
+            return { text, toolCalls }
+        }
+    }
+}
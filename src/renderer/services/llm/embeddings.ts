@@ -0,0 +1,131 @@
+import { GoogleGenAI } from '@google/genai'
+import { getResponseError } from './eventStream'
+import { OPENAI_DEFAULT_BASE_URL } from './openaiProvider'
+import type { Embedder, EmbeddingModelChoice, EmbeddingProviderId, EmbeddingProviderInfo, LLMProviderSettings } from './types'
+import { hashString } from '../../utils/hashUtils'
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProviderInfo> = {
+    local: {
+        id: 'local',
+        label: 'Local (built-in)',
+        models: ['hash-512', 'hash-1024'],
+        batchSize: 256
+    },
+    openai: {
+        id: 'openai',
+        label: 'OpenAI-compatible',
+        models: ['text-embedding-3-small', 'text-embedding-3-large', 'nomic-embed-text', 'bge-m3'],
+        batchSize: 64
+    },
+    gemini: {
+        id: 'gemini',
+        label: 'Gemini',
+        models: ['gemini-embedding-001', 'text-embedding-004'],
+        batchSize: 64
+    }
+}
+
+export const EMBEDDING_PROVIDER_IDS = Object.keys(EMBEDDING_PROVIDERS) as EmbeddingProviderId[]
+
+const DEFAULT_HASH_DIMENSIONS = 512
+
+/**
+ * Feature-hashed bag of words and character trigrams. Much weaker than a real model, but it
+ * runs offline with no setup, and trigrams still match Korean words with different particles.
+ */
+function embedWithHashing(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0)
+    const add = (feature: string, weight: number) => {
+        const hash = hashString(feature)
+        // The top bit picks the sign so collisions cancel out instead of piling up
+        vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight
+    }
+
+    const counts = new Map<string, number>()
+    for (const [token] of text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu)) {
+        counts.set(token, (counts.get(token) || 0) + 1)
+    }
+    for (const [token, count] of counts) {
+        const weight = 1 + Math.log(count)
+        add(`w:${token}`, weight)
+        if (token.length > 3) {
+            for (let i = 0; i + 3 <= token.length; i++) {
+                add(`c:${token.slice(i, i + 3)}`, weight * 0.5)
+            }
+        }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+function createHashingEmbedder(model: string): Embedder {
+    const dimensions = parseInt(model.replace(/^hash-/, '')) || DEFAULT_HASH_DIMENSIONS
+    return {
+        key: `local:hash-${dimensions}`,
+        embed: async (texts) => texts.map(text => embedWithHashing(text, dimensions))
+    }
+}
+
+/**
+ * OpenAI /embeddings, or a local server that speaks it (Ollama, llama.cpp, LM Studio)
+ */
+function createOpenAIEmbedder(model: string, settings: LLMProviderSettings): Embedder {
+    const baseUrl = (settings.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')
+    return {
+        key: `openai:${model}`,
+        embed: async (texts, signal) => {
+            const response = await fetch(`${baseUrl}/embeddings`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+                },
+                body: JSON.stringify({ model, input: texts }),
+                signal
+            })
+            if (!response.ok) throw await getResponseError(response, 'OpenAI-compatible')
+            const json = await response.json()
+            const data: Array<{ index: number; embedding: number[] }> = json.data ?? []
+            return [...data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+        }
+    }
+}
+
+function createGeminiEmbedder(model: string, settings: LLMProviderSettings): Embedder {
+    const client = new GoogleGenAI({ apiKey: settings.apiKey })
+    return {
+        key: `gemini:${model}`,
+        embed: async (texts, signal) => {
+            const response = await client.models.embedContent({
+                model,
+                contents: texts,
+                config: { abortSignal: signal }
+            })
+            return (response.embeddings ?? []).map(embedding => embedding.values ?? [])
+        }
+    }
+}
+
+/**
+ * Whether an embedding model has what it needs (remote ones need their provider's API key,
+ * except OpenAI-compatible servers on a custom base URL)
+ */
+export function isEmbedderConfigured(choice: EmbeddingModelChoice, providerSettings: Record<string, LLMProviderSettings>): boolean {
+    if (choice.provider === 'local') return true
+    const settings = providerSettings[choice.provider]
+    if (choice.provider === 'openai') return !!settings?.apiKey || !!settings?.baseUrl
+    return !!settings?.apiKey
+}
+
+export function createEmbedder(choice: EmbeddingModelChoice, providerSettings: Record<string, LLMProviderSettings>): Embedder {
+    const settings = providerSettings[choice.provider] ?? { apiKey: '', baseUrl: '' }
+    switch (choice.provider) {
+        case 'local':
+            return createHashingEmbedder(choice.model)
+        case 'openai':
+            return createOpenAIEmbedder(choice.model, settings)
+        case 'gemini':
+            return createGeminiEmbedder(choice.model, settings)
+    }
+}
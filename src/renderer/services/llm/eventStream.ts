@@ -0,0 +1,63 @@
+export interface ServerSentEvent {
+    event: string
+    data: string
+}
+
+/**
+ * Read a text/event-stream response body (OpenAI-compatible and Anthropic streaming)
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<ServerSentEvent> {
+    if (!response.body) return
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let event = 'message'
+    let data: string[] = []
+
+    while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let newline: number
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newline).replace(/\r$/, '')
+            buffer = buffer.slice(newline + 1)
+
+            // A blank line ends the event
+            if (line === '') {
+                if (data.length > 0) yield { event, data: data.join('\n') }
+                event = 'message'
+                data = []
+                continue
+            }
+            if (line.startsWith(':')) continue
+
+            const colon = line.indexOf(':')
+            const field = colon === -1 ? line : line.slice(0, colon)
+            const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+            if (field === 'event') event = fieldValue
+            else if (field === 'data') data.push(fieldValue)
+        }
+    }
+    if (data.length > 0) yield { event, data: data.join('\n') }
+}
+
+/**
+ * Error for a failed HTTP request, with the message the API returned when there is one
+ */
+export async function getResponseError(response: Response, label: string): Promise<Error> {
+    let message = response.statusText
+    try {
+        const body = await response.text()
+        try {
+            const parsed = JSON.parse(body)
+            message = parsed.error?.message ?? parsed.message ?? body
+        } catch {
+            message = body || message
+        }
+    } catch {
+        // Keep the status text
+    }
+    return new Error(`${label} API error (${response.status}): ${message}`)
+}
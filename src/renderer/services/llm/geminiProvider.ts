@@ -0,0 +1,108 @@
+import { GoogleGenAI } from '@google/genai'
+import type { LLMMessage, LLMProvider, LLMProviderSettings, LLMRequest, LLMToolCall, LLMTurn } from './types'
+
+function toGeminiContents(messages: LLMMessage[]): any[] {
+    return messages.map(message => {
+        if (message.role === 'user') {
+            return {
+                role: 'user',
+                parts: message.parts.map(part => {
+                    if (part.type === 'text') return { text: part.text }
+                    if (part.uri) return { fileData: { mimeType: part.mimeType, fileUri: part.uri } }
+                    return { inlineData: { mimeType: part.mimeType, data: part.data } }
+                })
+            }
+        }
+        if (message.role === 'assistant') {
+            const parts: any[] = message.text ? [{ text: message.text }] : []
+            for (const call of message.toolCalls) {
+                const part: any = { functionCall: { name: call.name, args: call.args } }
+                if (call.id) part.functionCall.id = call.id
+                if (call.signature) part.thoughtSignature = call.signature
+                parts.push(part)
+            }
+            return { role: 'model', parts }
+        }
+        return {
+            role: 'user',
+            parts: message.results.map(({ call, output }) => {
+                const part: any = { functionResponse: { name: call.name, response: { output } } }
+                if (call.id) part.functionResponse.id = call.id
+                return part
+            })
+        }
+    })
+}
+
+/**
+ * Google Gemini through the @google/genai SDK. Supports Google Search grounding and video URLs.
+ */
+export function createGeminiProvider(settings: LLMProviderSettings): LLMProvider {
+    const client = new GoogleGenAI({ apiKey: settings.apiKey })
+
+    return {
+        generate: async (request: LLMRequest): Promise<LLMTurn> => {
+            const tools: any[] = []
+            if (request.webSearch) {
+                tools.push({ googleSearch: {} })
+            }
+            if (request.tools.length > 0) {
+                tools.push({ functionDeclarations: request.tools })
+            }
+
+            const stream = await client.models.generateContentStream({
+                model: request.model,
+                contents: toGeminiContents(request.messages),
+                config: {
+                    ...(tools.length > 0 ? { tools } : {}),
+                    abortSignal: request.signal
+                }
+            })
+
+            let text = ''
+            const toolCalls: LLMToolCall[] = []
+
+            for await (const chunk of stream) {
+                if (request.signal?.aborted) {
+                    throw new DOMException('Aborted', 'AbortError')
+                }
+
+                const chunkAny = chunk as any
+                let chunkText = ''
+
+                // Function calls might not be the first part
+                const parts = chunkAny.candidates?.[0]?.content?.parts || []
+                for (const part of parts) {
+                    if (part.functionCall) {
+                        // Every functionCall part is a call of its own, even to the same tool;
+                        // only a part repeating an earlier call's id updates that call
+                        const { id, name, args } = part.functionCall
+                        const existing = id ? toolCalls.find(call => call.id === id) : undefined
+                        if (existing) {
+                            existing.args = args || existing.args
+                            if (part.thoughtSignature) existing.signature = part.thoughtSignature
+                        } else {
+                            toolCalls.push({ name, id, args: args || {}, signature: part.thoughtSignature })
+                        }
+                    }
+
+                    if (part.text) {
+                        chunkText += part.text
+                    }
+                }
+
+                // Fallback for text if not found in parts (legacy/safety)
+                if (!chunkText && parts.length === 0 && typeof chunkAny.text === 'string') {
+                    chunkText = chunkAny.text
+                }
+
+                if (chunkText) {
+                    text += chunkText
+                    request.onText?.(chunkText)
+                }
+            }
+
+            return { text, toolCalls }
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import { createGeminiProvider } from './geminiProvider'
+import { createOpenAIProvider, OPENAI_DEFAULT_BASE_URL } from './openaiProvider'
+import { createAnthropicProvider, ANTHROPIC_DEFAULT_BASE_URL } from './anthropicProvider'
+import { createMockProvider } from './mockProvider'
+import type { LLMProvider, LLMProviderId, LLMProviderInfo, LLMProviderSettings } from './types'
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProviderInfo> = {
+    gemini: {
+        id: 'gemini',
+        label: 'Gemini',
+        models: ['gemini-3-pro-preview', 'gemini-3-flash-preview'],
+        needsApiKey: true,
+        defaultBaseUrl: '',
+        mediaTypes: ['image/', 'application/pdf', 'video/'],
+        webSearch: true
+    },
+    openai: {
+        id: 'openai',
+        label: 'OpenAI-compatible',
+        models: ['gpt-4o', 'gpt-4o-mini', 'llama3.1', 'qwen2.5'],
+        needsApiKey: false,
+        defaultBaseUrl: OPENAI_DEFAULT_BASE_URL,
+        mediaTypes: ['image/'],
+        webSearch: false
+    },
+    anthropic: {
+        id: 'anthropic',
+        label: 'Anthropic',
+        models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+        needsApiKey: true,
+        defaultBaseUrl: ANTHROPIC_DEFAULT_BASE_URL,
+        mediaTypes: ['image/', 'application/pdf'],
+        webSearch: false
+    },
+    mock: {
+        id: 'mock',
+        label: 'Mock (offline)',
+        models: ['mock'],
+        needsApiKey: false,
+        defaultBaseUrl: '',
+        mediaTypes: ['image/', 'application/pdf', 'video/'],
+        webSearch: true
+    }
+}
+
+export const LLM_PROVIDER_IDS = Object.keys(LLM_PROVIDERS) as LLMProviderId[]
+
+/**
+ * Whether a provider has what it needs to send a request
+ */
+export function isProviderConfigured(id: LLMProviderId, settings: LLMProviderSettings | undefined): boolean {
+    if (!LLM_PROVIDERS[id].needsApiKey) return true
+    return !!settings?.apiKey
+}
+
+export function createProvider(id: LLMProviderId, settings: LLMProviderSettings): LLMProvider {
+    switch (id) {
+        case 'gemini':
+            return createGeminiProvider(settings)
+        case 'openai':
+            return createOpenAIProvider(settings)
+        case 'anthropic':
+            return createAnthropicProvider(settings)
+        case 'mock':
+            return createMockProvider()
+    }
+}
+
+/**
+ * Whether a provider accepts an attachment of this MIME type
+ */
+export function acceptsMediaType(id: LLMProviderId, mimeType: string): boolean {
+    return LLM_PROVIDERS[id].mediaTypes.some(prefix => mimeType.startsWith(prefix))
+}
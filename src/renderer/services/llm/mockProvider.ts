@@ -0,0 +1,95 @@
+import type { LLMMessage, LLMProvider, LLMRequest, LLMTurn } from './types'
+
+const CHUNK_DELAY_MS = 15
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new DOMException('Aborted', 'AbortError'))
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+// The user's own words are the last text part; everything before is context
+function getUserText(messages: LLMMessage[]): { message: string; context: string; mediaCount: number } {
+    const user = messages.find(m => m.role === 'user')
+    if (!user || user.role !== 'user') return { message: '', context: '', mediaCount: 0 }
+    const texts = user.parts.flatMap(part => part.type === 'text' ? [part.text] : [])
+    return {
+        message: texts[texts.length - 1] ?? '',
+        context: texts.slice(0, -1).join('\n'),
+        mediaCount: user.parts.filter(part => part.type === 'media').length
+    }
+}
+
+function getReply(request: LLMRequest): LLMTurn {
+    const last = request.messages[request.messages.length - 1]
+    if (last.role === 'tool') {
+        const results = last.results.map(({ call, output }) => `**${call.name}**\n\`\`\`json\n${JSON.stringify(output, null, 2)}\n\`\`\``)
+        return { text: `Tool results:\n\n${results.join('\n\n')}`, toolCalls: [] }
+    }
+
+    const { message, context, mediaCount } = getUserText(request.messages)
+
+    // "/tool name {json}" calls a declared tool (edit tools included, e.g. to try invalid arguments)
+    const toolMatch = message.match(/^\/tool\s+(\S+)\s*(\{[\s\S]*\})?\s*$/)
+    if (toolMatch) {
+        const tool = request.tools.find(t => t.name === toolMatch[1])
+        if (!tool) return { text: `Unknown tool: ${toolMatch[1]}`, toolCalls: [] }
+        let args: Record<string, unknown> = {}
+        try {
+            args = toolMatch[2] ? JSON.parse(toolMatch[2]) : {}
+        } catch {
+            return { text: 'Tool arguments must be JSON.', toolCalls: [] }
+        }
+        return { text: '', toolCalls: [{ id: crypto.randomUUID(), name: tool.name, args }] }
+    }
+
+    // "/edit text" replaces the first block of the active document through the edit tool, to try the diff flow
+    const editMatch = message.match(/^\/edit\s+([\s\S]+)$/)
+    const blockId = context.match(/\[Block ID: ([^\]]+)\]/)?.[1]
+    if (editMatch && blockId) {
+        return {
+            text: 'Here is the edit.',
+            toolCalls: [{ id: crypto.randomUUID(), name: 'update_block', args: { id: blockId, content: editMatch[1].trim() } }]
+        }
+    }
+
+    const lines = [
+        `**Mock reply** to: ${message || '(empty message)'}`,
+        '',
+        `- Context: ${context.length.toLocaleString()} characters`,
+        `- Attachments: ${mediaCount}`,
+        `- Tools: ${request.tools.length > 0 ? request.tools.map(t => t.name).join(', ') : 'none'}`,
+        `- Web search: ${request.webSearch ? 'on' : 'off'}`,
+        '',
+        'Try `/edit new text` or `/tool name {"arg": 1}`.'
+    ]
+    return { text: lines.join('\n'), toolCalls: [] }
+}
+
+/**
+ * Offline provider for trying the AI panel without a network or API key. It streams a
+ * description of the request back word by word; "/edit text" proposes an edit of the
+ * active document and "/tool name {json}" calls a tool.
+ */
+export function createMockProvider(): LLMProvider {
+    return {
+        generate: async (request: LLMRequest): Promise<LLMTurn> => {
+            const reply = getReply(request)
+            for (const word of reply.text.match(/\S+\s*|\s+/g) ?? []) {
+                await wait(CHUNK_DELAY_MS, request.signal)
+                request.onText?.(word)
+            }
+            await wait(CHUNK_DELAY_MS, request.signal)
+            return reply
+        }
+    }
+}
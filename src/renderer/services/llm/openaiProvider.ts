@@ -0,0 +1,115 @@
+import { getResponseError, readEventStream } from './eventStream'
+import type { LLMMessage, LLMProvider, LLMProviderSettings, LLMRequest, LLMToolCall, LLMTurn } from './types'
+
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+function toOpenAIMessages(messages: LLMMessage[]): any[] {
+    return messages.flatMap((message): any[] => {
+        if (message.role === 'user') {
+            const hasMedia = message.parts.some(part => part.type === 'media')
+            // Plain text as a string: older local servers only accept that form
+            if (!hasMedia) {
+                return [{ role: 'user', content: message.parts.map(part => part.type === 'text' ? part.text : '').join('') }]
+            }
+            return [{
+                role: 'user',
+                content: message.parts.map(part => part.type === 'text'
+                    ? { type: 'text', text: part.text }
+                    : { type: 'image_url', image_url: { url: part.uri ?? `data:${part.mimeType};base64,${part.data}` } })
+            }]
+        }
+        if (message.role === 'assistant') {
+            return [{
+                role: 'assistant',
+                content: message.text || null,
+                ...(message.toolCalls.length > 0 ? {
+                    tool_calls: message.toolCalls.map(call => ({
+                        id: call.id,
+                        type: 'function',
+                        function: { name: call.name, arguments: JSON.stringify(call.args) }
+                    }))
+                } : {})
+            }]
+        }
+        return message.results.map(({ call, output }) => ({
+            role: 'tool',
+            tool_call_id: call.id,
+            content: typeof output === 'string' ? output : JSON.stringify(output)
+        }))
+    })
+}
+
+function parseArguments(json: string): Record<string, unknown> {
+    if (!json.trim()) return {}
+    try {
+        const parsed = JSON.parse(json)
+        return parsed && typeof parsed === 'object' ? parsed : {}
+    } catch {
+        console.warn('[OpenAIProvider] Invalid tool arguments:', json)
+        return {}
+    }
+}
+
+/**
+ * Any endpoint speaking the OpenAI Chat Completions API: OpenAI itself, or a local server
+ * such as Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+ */
+export function createOpenAIProvider(settings: LLMProviderSettings): LLMProvider {
+    const baseUrl = (settings.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')
+
+    return {
+        generate: async (request: LLMRequest): Promise<LLMTurn> => {
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+                },
+                body: JSON.stringify({
+                    model: request.model,
+                    messages: toOpenAIMessages(request.messages),
+                    stream: true,
+                    ...(request.tools.length > 0 ? {
+                        tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+                    } : {})
+                }),
+                signal: request.signal
+            })
+            if (!response.ok) throw await getResponseError(response, 'OpenAI-compatible')
+
+            let text = ''
+            // Tool calls arrive in pieces, keyed by their index
+            const pending: Array<{ id?: string; name: string; arguments: string }> = []
+
+            for await (const { data } of readEventStream(response)) {
+                if (data === '[DONE]') break
+                let chunk: any
+                try {
+                    chunk = JSON.parse(data)
+                } catch {
+                    continue
+                }
+                if (chunk.error) throw new Error(`OpenAI-compatible API error: ${chunk.error.message ?? data}`)
+
+                const delta = chunk.choices?.[0]?.delta
+                if (!delta) continue
+                if (delta.content) {
+                    text += delta.content
+                    request.onText?.(delta.content)
+                }
+                for (const toolCall of delta.tool_calls ?? []) {
+                    const index = toolCall.index ?? pending.length
+                    pending[index] ??= { name: '', arguments: '' }
+                    if (toolCall.id) pending[index].id = toolCall.id
+                    if (toolCall.function?.name) pending[index].name += toolCall.function.name
+                    if (toolCall.function?.arguments) pending[index].arguments += toolCall.function.arguments
+                }
+            }
+
+            const toolCalls: LLMToolCall[] = pending
+                .filter(call => call?.name)
+                .map((call, i) => ({ id: call.id ?? `call_${i}`, name: call.name, args: parseArguments(call.arguments) }))
+            return { text, toolCalls }
+        }
+    }
+}
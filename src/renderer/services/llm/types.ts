@@ -0,0 +1,92 @@
+/**
+ * Chat model interface shared by every provider. The AI service builds one request (context,
+ * attachments, tools) and each provider turns it into its own API's format.
+ */
+
+export type LLMProviderId = 'gemini' | 'openai' | 'anthropic' | 'mock'
+
+// Part of a user message: text, or a file as base64 data or a URL (YouTube videos for Gemini)
+export type LLMPart =
+    | { type: 'text'; text: string }
+    | { type: 'media'; mimeType: string; data?: string; uri?: string }
+
+export interface LLMToolCall {
+    id?: string              // Gemini only sometimes sets one
+    name: string
+    args: Record<string, unknown>
+    signature?: string       // Gemini thought signature, sent back with the call
+}
+
+export interface LLMToolResult {
+    call: LLMToolCall
+    output: unknown
+}
+
+export type LLMMessage =
+    | { role: 'user'; parts: LLMPart[] }
+    | { role: 'assistant'; text: string; toolCalls: LLMToolCall[] }
+    | { role: 'tool'; results: LLMToolResult[] }
+
+export interface LLMTool {
+    name: string
+    description: string
+    parameters: Record<string, unknown>  // JSON schema
+}
+
+export interface LLMRequest {
+    model: string
+    messages: LLMMessage[]
+    tools: LLMTool[]
+    webSearch: boolean
+    signal?: AbortSignal
+    onText?: (delta: string) => void    // Streamed text as it arrives
+}
+
+// One model turn: its text and the tools it wants to call
+export interface LLMTurn {
+    text: string
+    toolCalls: LLMToolCall[]
+}
+
+// Connection settings, stored per provider
+export interface LLMProviderSettings {
+    apiKey: string
+    baseUrl: string     // Empty: the provider's default endpoint
+}
+
+export interface LLMProvider {
+    generate: (request: LLMRequest) => Promise<LLMTurn>
+}
+
+export interface LLMProviderInfo {
+    id: LLMProviderId
+    label: string
+    models: string[]            // Suggestions; any model name the endpoint knows can be used
+    needsApiKey: boolean
+    defaultBaseUrl: string
+    mediaTypes: string[]        // Attachment MIME type prefixes the provider accepts
+    webSearch: boolean
+}
+
+/**
+ * Embedding models for the Smart Context index. 'local' is the built-in hashing embedder
+ * (no network); the others reuse the chat providers' keys and base URLs.
+ */
+export type EmbeddingProviderId = 'local' | 'openai' | 'gemini'
+
+export interface EmbeddingModelChoice {
+    provider: EmbeddingProviderId
+    model: string
+}
+
+export interface Embedder {
+    key: string     // "provider:model"; vectors from different keys can't be compared
+    embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>
+}
+
+export interface EmbeddingProviderInfo {
+    id: EmbeddingProviderId
+    label: string
+    models: string[]
+    batchSize: number           // Texts per request
+}
@@ -0,0 +1,158 @@
+import type { Block, BlockType } from '@shared/types'
+import { getEmbedBlockType, parseContentToBlocks } from '@shared/markdown'
+import { useVaultStore } from '../stores/vaultStore'
+import { collectHtmlImages, htmlToMarkdown } from '../utils/importUtils'
+import { formatDate } from '../utils/templateUtils'
+
+// Blocks whose text is edited as is: pasting into them never creates blocks
+const PLAIN_PASTE_TYPES: BlockType[] = ['code', 'query', 'raw', 'table', 'embed']
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp'
+}
+
+// What was on the clipboard; DataTransfer is only readable during the paste event
+export interface ClipboardContent {
+    html: string
+    text: string
+    files: File[]
+}
+
+// Pasted content: blocks, or text that goes into the current block at the cursor
+export type PasteResult = { blocks: Block[] } | { text: string }
+
+export function readClipboard(data: DataTransfer): ClipboardContent {
+    return {
+        html: data.getData('text/html'),
+        text: data.getData('text/plain'),
+        files: Array.from(data.files)
+    }
+}
+
+/**
+ * Whether a paste into a block is converted here instead of inserting the plain text
+ */
+export function isRichPaste(content: ClipboardContent, blockType: BlockType): boolean {
+    if (PLAIN_PASTE_TYPES.includes(blockType)) return false
+    return content.files.length > 0 || content.html !== '' || content.text.includes('\n')
+}
+
+/**
+ * Name like Obsidian gives pasted images: "Pasted image 20240131142530.png"
+ */
+function getPastedImageName(mimeType: string): string {
+    return `Pasted image ${formatDate(new Date(), 'YYYYMMDDHHmmss')}.${IMAGE_EXTENSIONS[mimeType] ?? 'png'}`
+}
+
+function decodeBase64(base64: string): Uint8Array {
+    const binary = atob(base64)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
+
+/**
+ * Copy a pasted file into the note's attachment folder. Files copied in a file manager have a
+ * path; screenshots and images copied from other apps only have their data.
+ * Returns the full path, as dropped images are stored.
+ */
+async function saveAttachment(file: File, notePath: string): Promise<string> {
+    const { vaultPath, getAttachmentDir } = useVaultStore.getState()
+    if (!vaultPath) throw new Error('No vault open')
+    const targetDir = getAttachmentDir(notePath) ?? undefined
+
+    const filePath = window.api.getFilePath(file)
+    const relativePath = filePath
+        ? await window.api.copyImageToVault(filePath, vaultPath, targetDir)
+        : await window.api.saveImageToVault(new Uint8Array(await file.arrayBuffer()), getPastedImageName(file.type), vaultPath, targetDir)
+    return `${vaultPath}/${relativePath}`
+}
+
+/**
+ * Images in pasted HTML that are not on the web (data: URIs, Word's file:// temp copies),
+ * saved as attachments. Returns their src -> full path; images that can't be saved are left out.
+ */
+async function saveHtmlImages(html: string, notePath: string): Promise<Map<string, string>> {
+    const { vaultPath, getAttachmentDir } = useVaultStore.getState()
+    const images = new Map<string, string>()
+    if (!vaultPath) return images
+    const targetDir = getAttachmentDir(notePath) ?? undefined
+
+    for (const src of collectHtmlImages(html)) {
+        try {
+            const dataMatch = src.match(/^data:(image\/[\w+.-]+);base64,(.+)$/)
+            if (dataMatch) {
+                const relativePath = await window.api.saveImageToVault(decodeBase64(dataMatch[2]), getPastedImageName(dataMatch[1]), vaultPath, targetDir)
+                images.set(src, `${vaultPath}/${relativePath}`)
+            } else if (src.startsWith('file:')) {
+                const pathname = decodeURIComponent(new URL(src).pathname)
+                const filePath = /^\/[a-z]:\//i.test(pathname) ? pathname.slice(1) : pathname
+                images.set(src, `${vaultPath}/${await window.api.copyImageToVault(filePath, vaultPath, targetDir)}`)
+            }
+        } catch (error) {
+            console.warn('[Paste] Failed to save image:', src.slice(0, 200), error)
+        }
+    }
+    return images
+}
+
+/**
+ * Blocks for pasted Markdown, or its text when it is a single paragraph
+ */
+function parsePastedMarkdown(markdown: string): PasteResult {
+    const trimmed = markdown.replace(/\r\n?/g, '\n').replace(/^\n+|\s+$/g, '')
+    const blocks = parseContentToBlocks(trimmed)
+    if (blocks.length === 1 && blocks[0].type === 'text' && !blocks[0].children) return { text: trimmed }
+    return { blocks }
+}
+
+/**
+ * Turn clipboard content into blocks: files become image / file blocks, HTML goes through
+ * turndown and multi-line text is parsed as Markdown
+ */
+export async function convertClipboard(content: ClipboardContent, notePath: string): Promise<PasteResult> {
+    if (content.files.length > 0) {
+        const blocks: Block[] = []
+        for (const file of content.files) {
+            try {
+                const path = await saveAttachment(file, notePath)
+                const type = getEmbedBlockType(path) === 'image' ? 'image' : 'file'
+                blocks.push({ block_id: crypto.randomUUID(), type, content: path, ...(type === 'image' ? { alt: '' } : {}) })
+            } catch (error) {
+                console.error('Failed to save pasted file:', file.name, error)
+            }
+        }
+        return { blocks }
+    }
+
+    if (content.html) {
+        const images = await saveHtmlImages(content.html, notePath)
+        const markdown = htmlToMarkdown(content.html, images)
+        // Markup without text (a copied selection that turndown drops) falls back to the plain text
+        return parsePastedMarkdown(markdown.trim() ? markdown : content.text)
+    }
+
+    return parsePastedMarkdown(content.text)
+}
+
+/**
+ * Blocks that replace `block` when blocks are pasted at its cursor: the text before the cursor
+ * stays in the block, pasted blocks follow and the text after the cursor goes below them.
+ * An empty block is replaced by the pasted blocks.
+ */
+export function splitBlockAtPaste(block: Block, before: string, after: string, pasted: Block[]): Block[] {
+    const indent = block.indent ?? 0
+    const indented = indent > 0 ? pasted.map(b => ({ ...b, indent: (b.indent ?? 0) + indent })) : pasted
+
+    if (before === '') {
+        const keep = after !== '' || (block.children?.length ?? 0) > 0
+        return [...indented, ...(keep ? [{ ...block, content: after }] : [])]
+    }
+    const rest: Block[] = after !== '' ? [{ block_id: crypto.randomUUID(), type: 'text', content: after, indent: block.indent }] : []
+    return [{ ...block, content: before }, ...indented, ...rest]
+}
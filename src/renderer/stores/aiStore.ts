@@ -1,14 +1,22 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { useVaultStore } from './vaultStore'
-
-export type AIModel = 'gemini-3-flash-preview' | 'gemini-3-pro-preview'
+import type { EmbeddingModelChoice, LLMProviderId, LLMProviderSettings } from '../services/llm/types'
+import type { AIAction } from '../services/editTools'
+import { hashString } from '../utils/hashUtils'
+
+// Provider and model a chat is sent to
+export interface AIModelChoice {
+    provider: LLMProviderId
+    model: string
+}
 
 interface AIMessage {
     id: string
     role: 'user' | 'assistant'
     content: string
     attachments?: AIAttachment[]
+    actions?: AIAction[]    // Edits proposed through edit tools, reviewed in the panel
     timestamp: number
 }
 
@@ -26,6 +34,7 @@ export interface ChatSession {
     createdAt: number
     updatedAt: number
     vaultPath?: string
+    model?: AIModelChoice   // Overrides the vault / global model for this chat
 }
 
 export interface SelectedTextContext {
@@ -49,15 +58,20 @@ export interface MCPServerConfig {
 interface AIState {
     isPanelOpen: boolean
     panelWidth: number
-    apiKey: string | null
+    providerSettings: Record<LLMProviderId, LLMProviderSettings>
     sessions: ChatSession[]
     activeSessionId: string | null
     isLoading: boolean
     customSystemPrompt: string
     vaultSystemPrompts: Record<string, string>
     folderPrompts: Record<string, string>  // key: absolute folder path, value: prompt
-    selectedModel: AIModel
+    defaultModel: AIModelChoice
+    vaultModels: Record<string, AIModelChoice>  // key: vault path
     webSearchEnabled: boolean
+    semanticSearchEnabled: boolean      // Smart Context retrieves passages from the embedding index
+    embeddingModel: EmbeddingModelChoice
+    smartContextTopK: number            // Passages retrieved per message
+    contextTokenBudget: number          // Estimated tokens of context sent with a message
     selectedTextContext: SelectedTextContext | null
     mcpServers: MCPServerConfig[]
 
@@ -66,7 +80,7 @@ interface AIState {
     openPanel: () => void
     closePanel: () => void
     setPanelWidth: (width: number) => void
-    setApiKey: (key: string | null) => void
+    setProviderSettings: (provider: LLMProviderId, settings: LLMProviderSettings) => void
 
     // Session Management
     createSession: (title?: string) => string
@@ -76,7 +90,7 @@ interface AIState {
 
     // Message Management (Operates on active session)
     getSessionsByVault: (vaultPath?: string) => ChatSession[]
-    addMessage: (role: 'user' | 'assistant', content: string, attachments?: AIAttachment[]) => void
+    addMessage: (role: 'user' | 'assistant', content: string, attachments?: AIAttachment[], actions?: AIAction[]) => void
     clearMessages: () => void // Clears active session messages
     truncateMessagesAfter: (messageId: string) => void // Remove all messages after the specified message
 
@@ -84,8 +98,15 @@ interface AIState {
     setCustomSystemPrompt: (prompt: string) => void
     setVaultSystemPrompt: (vaultPath: string, prompt: string | null) => void
     resetSystemPrompt: () => void
-    setSelectedModel: (model: AIModel) => void
+    setDefaultModel: (choice: AIModelChoice) => void
+    setVaultModel: (vaultPath: string, choice: AIModelChoice | null) => void
+    setSessionModel: (sessionId: string, choice: AIModelChoice | null) => void
+    getEffectiveModel: () => AIModelChoice  // Active chat > current vault > global
     setWebSearchEnabled: (enabled: boolean) => void
+    setSemanticSearchEnabled: (enabled: boolean) => void
+    setEmbeddingModel: (choice: EmbeddingModelChoice) => void
+    setSmartContextTopK: (topK: number) => void
+    setContextTokenBudget: (tokens: number) => void
     setSelectedTextContext: (context: SelectedTextContext | null) => void
 
     // Folder Prompts
@@ -130,7 +151,7 @@ You have access to powerful filesystem tools via MCP (Model Context Protocol):
 1. User: "Update all files in the Daily folder to add #reviewed tag"
    → Use \`list_directory\` to find all files in Daily/
    → Use \`read_multiple_files\` to get their contents
-   → Generate \`update_file\` actions for each
+   → Call \`update_file\` for each
 
 2. User: "Find all notes about project X and summarize them"
    → Use \`search_files\` with pattern
@@ -143,6 +164,16 @@ When users ask about "all files in X folder" or similar, USE MCP TOOLS to explor
 
 ---
 
+## Citing Sources
+
+When your answer uses the vault, cite each source right after the sentence that uses it:
+- Passages and files: \`[cite: <Source>]\` with the path given by their **[Source: ...]** (e.g. \`[cite: Projects/Plan.md#^risks]\`)
+- Blocks of the active document: \`[cite: <Path>#<Block ID>]\`
+
+Citations become links to the note. Only cite sources that appear in the context.
+
+---
+
 ## CRITICAL: Understanding User Intent
 
 Before responding, classify the user's intent:
@@ -157,131 +188,89 @@ Before responding, classify the user's intent:
 
 3. **Edit Request**: Wants you to modify the active document.
    - Examples: "이 문장 고쳐줘", "Fix this", "Add a section about X"
-   - Response: Use batch-action protocol. (Requires an active document)
+   - Response: Call the block edit tools. (Requires an active document)
 
 4. **File/Folder Creation**: Wants to create new content.
    - Examples: "새 노트 만들어줘", "Create a note called X", "폴더 하나 만들어"
-   - Response: Use batch-action with 'create_file' or 'create_folder'. (Works WITHOUT active document!)
+   - Response: Call \`create_file\` or \`create_folder\`. (Works WITHOUT active document!)
 
 5. **Batch File Update**: Wants to modify specific files (often mentioned with @).
    - Examples: "이 파일들 수정해줘", "Update all mentioned files", "@files: or @directory: mentioned content"
-   - Response: Use batch-action with 'update_file' for each file. (Works on ANY file by path!)
+   - Response: Call \`update_file\` for each file. (Works on ANY file by path!)
 
 **Default**: If unsure, treat as Question/Discussion.
 
 ---
 
-## Protocol for Document Editing & File Creation
-
-Output a JSON **Array** wrapped in \`\`\`json:batch-action\`\`\` code block.
-
-### Action Types
-| Action | Description | Requires Active Doc? |
-|--------|-------------|---------------------|
-| update | Modify existing block | ✅ Yes |
-| insert | Add new block | ✅ Yes |
-| delete | Remove block | ✅ Yes |
-| update_meta | Update document metadata | ✅ Yes |
-| create_file | Create new file | ❌ No |
-| create_folder | Create new folder | ❌ No |
-| update_file | Modify existing file by path | ❌ No |
-
-### Schema
-\`\`\`typescript
-type AIAction = 
-  | { type: 'update', id: string, content: string }
-  | { type: 'insert', afterId: string, content: string, blockType: BlockType }
-  | { type: 'delete', id: string }
-  | { type: 'update_meta', metaField: 'title' | 'tags' | 'alwaysOn', metaValue: string | string[] | boolean }
-  | { type: 'create_file', path: string, content: string }
-  | { type: 'create_folder', path: string }
-  | { type: 'update_file', path: string, content: string }
-\`\`\`
-
-### Example: Updating Multiple Files (No Document Needed!)
-\`\`\`json:batch-action
-[
-  {
-    "type": "update_file",
-    "path": "Daily/2024-01-01.md",
-    "content": "---\\nid: abc123\\ntitle: Updated Note\\ntags: [daily]\\ncreated_at: 2024-01-01\\nupdated_at: 2024-01-01\\n---\\n\\n# Updated Content\\n\\nNew content here."
-  },
-  {
-    "type": "update_file",
-    "path": "Daily/2024-01-02.md",
-    "content": "---\\nid: def456\\ntitle: Another Note\\ntags: [daily]\\n---\\n\\n# Another Updated Note"
-  }
-]
-\`\`\`
+## Editing Tools
+
+Edits are made by calling tools, never by writing JSON in your answer. Each call is checked
+and shown to the user for review; nothing changes until they accept it. If a call returns an
+error, fix the arguments and call it again.
+
+| Tool | Description | Requires Active Doc? |
+|------|-------------|---------------------|
+| update_block | Replace a block's content | ✅ Yes |
+| insert_block | Add blocks after a block | ✅ Yes |
+| delete_block | Remove a block | ✅ Yes |
+| update_meta | Change title, tags or Always-on | ✅ Yes |
+| create_file | Create a new file | ❌ No |
+| create_folder | Create a new folder | ❌ No |
+| update_file | Replace an existing file's content by path | ❌ No |
+| move_item | Move or rename a file or folder | ❌ No |
 
 ## Rules
-1. **ALWAYS return an Array**, even for one item.
-2. Use **\`\`\`json:batch-action\`\`\`** as code block language.
-3. For edits, use **[Block ID: ...]** from the context.
-4. For file paths, use relative paths from vault root.
-5. **DO NOT tell users "I can't modify files" - YOU CAN with update_file!**
-6. When user mentions files/folders with @, you have their full content in context.
-
-## JSON Generation Guidelines (CRITICAL!)
-
-**To prevent parsing errors, follow these rules strictly:**
-
-1. **Escape special characters in strings**:
-   - Newlines: Use \`\\n\` not actual newlines
-   - Quotes: Use \`\\"\` for double quotes inside strings
-   - Backslashes: Use \`\\\\\` for literal backslashes
-   - Tabs: Use \`\\t\` for tabs
-
-2. **Keep content fields manageable**:
-   - For long content (>500 chars), split into multiple smaller blocks
-   - Don't put entire document contents in a single action
-   - Break large updates into multiple \`update\` or \`insert\` actions
-
-3. **File paths with special characters**:
-   - Korean/unicode filenames are OK, but escape quotes if in path
-   - Example: \`"path": "Daily/안녕하세요.md"\` ✅
-   - Example: \`"path": "Daily/"quoted".md"\` should be \`"Daily/\\"quoted\\".md"\` ✅
-
-4. **Validate before output**:
-   - Ensure all JSON objects have closing braces \`}\`
-   - Ensure array has closing bracket \`]\`
-   - No trailing commas after last item
-   - All strings properly closed with matching quotes
-
-5. **If content is too long**:
-   - Instead of one massive \`update_file\` action with full content
-   - Use multiple \`update\` actions on specific blocks
-   - Or inform user the content is too large and ask to split the task
-
-**Example - DON'T do this (too long):**
-\`\`\`json
-[{"type": "update_file", "path": "file.md", "content": "...5000 characters of content..."}]
-\`\`\`
-
-**Example - DO this instead (split into blocks):**
-\`\`\`json
-[
-  {"type": "update", "id": "block-1", "content": "First part..."},
-  {"type": "update", "id": "block-2", "content": "Second part..."},
-  {"type": "insert", "afterId": "block-2", "content": "New content...", "blockType": "paragraph"}
+1. For block edits, use the **[Block ID: ...]** labels from the context.
+2. For file paths, use relative paths from vault root.
+3. **DO NOT tell users "I can't modify files" - YOU CAN with update_file!**
+4. When user mentions files/folders with @, you have their full content in context.
+5. Prefer several small block edits over rewriting a whole file.
+6. After calling the tools, briefly tell the user what you changed.`
+
+// Earlier defaults (FNV-1a hashes): a stored prompt equal to one of them was never customized
+// and is moved to the current default
+const PREVIOUS_DEFAULT_PROMPT_HASHES = [
+    '8bd37e25', // json:batch-action edits
+    'b68f2cef'  // json:batch-action edits, citing sources
 ]
-\`\`\``
 
+function hashPrompt(prompt: string): string {
+    return hashString(prompt).toString(16).padStart(8, '0')
+}
+
+const DEFAULT_PROVIDER_SETTINGS: Record<LLMProviderId, LLMProviderSettings> = {
+    gemini: { apiKey: '', baseUrl: '' },
+    openai: { apiKey: '', baseUrl: '' },
+    anthropic: { apiKey: '', baseUrl: '' },
+    mock: { apiKey: '', baseUrl: '' }
+}
+
+const DEFAULT_MODEL: AIModelChoice = { provider: 'gemini', model: 'gemini-3-pro-preview' }
+
+const DEFAULT_EMBEDDING_MODEL: EmbeddingModelChoice = { provider: 'local', model: 'hash-512' }
+const DEFAULT_SMART_CONTEXT_TOP_K = 8
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 32000
+const MIN_CONTEXT_TOKEN_BUDGET = 2000
 
 export const useAIStore = create<AIState>()(
     persist(
         (set, get) => ({
             isPanelOpen: false,
             panelWidth: 400,
-            apiKey: null,
+            providerSettings: DEFAULT_PROVIDER_SETTINGS,
             sessions: [],
             activeSessionId: null,
             isLoading: false,
             customSystemPrompt: DEFAULT_SYSTEM_PROMPT,
             vaultSystemPrompts: {},
             folderPrompts: {},
-            selectedModel: 'gemini-3-pro-preview',
+            defaultModel: DEFAULT_MODEL,
+            vaultModels: {},
             webSearchEnabled: false,
+            semanticSearchEnabled: true,
+            embeddingModel: DEFAULT_EMBEDDING_MODEL,
+            smartContextTopK: DEFAULT_SMART_CONTEXT_TOP_K,
+            contextTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
             selectedTextContext: null,
             mcpServers: [],
 
@@ -290,7 +279,12 @@ export const useAIStore = create<AIState>()(
             closePanel: () => set({ isPanelOpen: false }),
             setPanelWidth: (width) => set({ panelWidth: width }),
 
-            setApiKey: (key) => set({ apiKey: key }),
+            setProviderSettings: (provider, settings) => set(state => ({
+                providerSettings: {
+                    ...state.providerSettings,
+                    [provider]: { apiKey: settings.apiKey.trim(), baseUrl: settings.baseUrl.trim() }
+                }
+            })),
 
             createSession: (title) => {
                 const id = crypto.randomUUID()
@@ -346,7 +340,7 @@ export const useAIStore = create<AIState>()(
                 return allSessions.filter(s => s.vaultPath === vaultPath)
             },
 
-            addMessage: (role, content, attachments) => {
+            addMessage: (role, content, attachments, actions) => {
                 set((state) => {
                     let { activeSessionId, sessions } = state
 
@@ -374,6 +368,7 @@ export const useAIStore = create<AIState>()(
                         role,
                         content,
                         attachments,
+                        ...(actions && actions.length > 0 ? { actions } : {}),
                         timestamp: Date.now()
                     }
 
@@ -431,8 +426,34 @@ export const useAIStore = create<AIState>()(
 
             resetSystemPrompt: () => set({ customSystemPrompt: DEFAULT_SYSTEM_PROMPT }),
 
-            setSelectedModel: (model) => set({ selectedModel: model }),
+            setDefaultModel: (choice) => set({ defaultModel: choice }),
+            setVaultModel: (vaultPath, choice) => set(state => {
+                const newModels = { ...state.vaultModels }
+                if (choice === null) {
+                    delete newModels[vaultPath]
+                } else {
+                    newModels[vaultPath] = choice
+                }
+                return { vaultModels: newModels }
+            }),
+            setSessionModel: (sessionId, choice) => set(state => ({
+                sessions: state.sessions.map(s =>
+                    s.id === sessionId ? { ...s, model: choice ?? undefined } : s
+                )
+            })),
+
+            getEffectiveModel: () => {
+                const { sessions, activeSessionId, vaultModels, defaultModel } = get()
+                const session = sessions.find(s => s.id === activeSessionId)
+                if (session?.model) return session.model
+                const vaultPath = useVaultStore.getState().vaultPath
+                return (vaultPath && vaultModels[vaultPath]) || defaultModel
+            },
             setWebSearchEnabled: (enabled) => set({ webSearchEnabled: enabled }),
+            setSemanticSearchEnabled: (enabled) => set({ semanticSearchEnabled: enabled }),
+            setEmbeddingModel: (choice) => set({ embeddingModel: { provider: choice.provider, model: choice.model.trim() } }),
+            setSmartContextTopK: (topK) => set({ smartContextTopK: Math.max(1, Math.min(50, Math.round(topK) || DEFAULT_SMART_CONTEXT_TOP_K)) }),
+            setContextTokenBudget: (tokens) => set({ contextTokenBudget: Math.max(MIN_CONTEXT_TOKEN_BUDGET, Math.round(tokens) || DEFAULT_CONTEXT_TOKEN_BUDGET) }),
             setSelectedTextContext: (context) => set({ selectedTextContext: context }),
 
             // Folder Prompts
@@ -503,18 +524,60 @@ export const useAIStore = create<AIState>()(
             partialize: (state) => ({
                 isPanelOpen: state.isPanelOpen,
                 panelWidth: state.panelWidth,
-                apiKey: state.apiKey,
+                providerSettings: state.providerSettings,
                 customSystemPrompt: state.customSystemPrompt,
-                selectedModel: state.selectedModel,
+                defaultModel: state.defaultModel,
+                vaultModels: state.vaultModels,
                 sessions: state.sessions,
                 activeSessionId: state.activeSessionId,
                 vaultSystemPrompts: state.vaultSystemPrompts,
                 folderPrompts: state.folderPrompts,
                 webSearchEnabled: state.webSearchEnabled,
+                semanticSearchEnabled: state.semanticSearchEnabled,
+                embeddingModel: state.embeddingModel,
+                smartContextTopK: state.smartContextTopK,
+                contextTokenBudget: state.contextTokenBudget,
                 mcpServers: state.mcpServers
             }),
-            version: 7, // Bump version for MCP Servers
+            version: 11, // Bump version for the edit tools prompt
             migrate: (persistedState: any, version: number) => {
+                // Migration to v11 (Edit tools): an unchanged old default stops asking for json:batch-action blocks
+                if (version < 11 && typeof persistedState.customSystemPrompt === 'string'
+                    && PREVIOUS_DEFAULT_PROMPT_HASHES.includes(hashPrompt(persistedState.customSystemPrompt))) {
+                    persistedState = {
+                        ...persistedState,
+                        customSystemPrompt: DEFAULT_SYSTEM_PROMPT,
+                    }
+                }
+                // Migration to v10 (Context budget)
+                if (version < 10) {
+                    persistedState = {
+                        ...persistedState,
+                        contextTokenBudget: DEFAULT_CONTEXT_TOKEN_BUDGET,
+                    }
+                }
+                // Migration to v9 (Embedding index)
+                if (version < 9) {
+                    persistedState = {
+                        ...persistedState,
+                        semanticSearchEnabled: true,
+                        embeddingModel: DEFAULT_EMBEDDING_MODEL,
+                        smartContextTopK: DEFAULT_SMART_CONTEXT_TOP_K
+                    }
+                }
+                // Migration to v8 (LLM providers): the Gemini key and model move into provider settings
+                if (version < 8) {
+                    const { apiKey, selectedModel, ...rest } = persistedState
+                    persistedState = {
+                        ...rest,
+                        providerSettings: {
+                            ...DEFAULT_PROVIDER_SETTINGS,
+                            gemini: { apiKey: apiKey || '', baseUrl: '' }
+                        },
+                        defaultModel: { provider: 'gemini', model: selectedModel || DEFAULT_MODEL.model },
+                        vaultModels: {}
+                    }
+                }
                 // Migration to v7 (MCP Servers)
                 if (version < 7) {
                     persistedState = {
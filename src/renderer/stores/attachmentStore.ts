@@ -0,0 +1,112 @@
+import { create } from 'zustand'
+import type { AttachmentInfo, FileNode, VaultChangeEvent } from '@shared/types'
+import { serializeDocumentToMarkdown } from '@shared/markdown'
+import { useVaultStore } from './vaultStore'
+import { analyzeAttachments, resolveAttachmentTarget, type AttachmentReport } from '../utils/attachmentUtils'
+
+interface AttachmentState {
+    attachments: AttachmentInfo[]      // Every file in the vault that isn't a note
+    attachmentPaths: string[]
+    report: AttachmentReport | null    // Last usage scan (attachments browser)
+    isScanning: boolean
+
+    loadAttachments: () => Promise<void>
+    scanUsage: () => Promise<AttachmentReport | null>
+    resolveAttachment: (target: string, notePath?: string) => string | null
+    applyVaultChanges: (events: VaultChangeEvent[]) => Promise<void>
+    trashAttachments: (paths: string[]) => Promise<string[]>  // Returns the paths that could not be moved
+}
+
+function collectNotePaths(nodes: FileNode[]): string[] {
+    return nodes.flatMap(node => node.isDirectory ? collectNotePaths(node.children || []) : [node.path])
+}
+
+export const useAttachmentStore = create<AttachmentState>((set, get) => ({
+    attachments: [],
+    attachmentPaths: [],
+    report: null,
+    isScanning: false,
+
+    loadAttachments: async () => {
+        const { vaultPath } = useVaultStore.getState()
+        if (!vaultPath) {
+            set({ attachments: [], attachmentPaths: [], report: null })
+            return
+        }
+        try {
+            const attachments = await window.api.listAttachments(vaultPath)
+            set({ attachments, attachmentPaths: attachments.map(a => a.path) })
+        } catch (error) {
+            console.warn('Failed to list attachments', error)
+        }
+    },
+
+    /**
+     * Read every note (open tabs with unsaved edits from the editor) and find which notes use
+     * each attachment, unused attachments and references to missing files
+     */
+    scanUsage: async () => {
+        const { vaultPath, fileTree } = useVaultStore.getState()
+        if (!vaultPath) return null
+
+        set({ isScanning: true })
+        try {
+            await get().loadAttachments()
+            const { editorGroups } = await import('./editorStore').then(m => m.useEditorStore.getState())
+            const dirtyTabs = editorGroups.flatMap(g => g.tabs).filter(t => t.isDirty && t.document)
+
+            const notes: Array<{ path: string; content: string }> = []
+            for (const path of collectNotePaths(fileTree)) {
+                const dirtyTab = dirtyTabs.find(t => t.filePath === path)
+                try {
+                    const content = dirtyTab
+                        ? serializeDocumentToMarkdown(dirtyTab.document!, { touch: false })
+                        : await window.api.readFile(path)
+                    notes.push({ path, content })
+                } catch (e) {
+                    console.warn(`Failed to read ${path}`, e)
+                }
+            }
+
+            const report = analyzeAttachments(get().attachmentPaths, notes, vaultPath)
+            set({ report })
+            return report
+        } finally {
+            set({ isScanning: false })
+        }
+    },
+
+    // Full path of the file a link or block points at; notes without a path resolve from the vault root
+    resolveAttachment: (target: string, notePath?: string) => {
+        const { vaultPath } = useVaultStore.getState()
+        if (!vaultPath || /^https?:\/\//.test(target)) return null
+        return resolveAttachmentTarget(target, notePath ?? `${vaultPath}/`, vaultPath, get().attachmentPaths)
+    },
+
+    applyVaultChanges: async (events: VaultChangeEvent[]) => {
+        if (events.some(event => !event.path.endsWith('.md'))) await get().loadAttachments()
+    },
+
+    trashAttachments: async (paths: string[]) => {
+        const { vaultPath } = useVaultStore.getState()
+        if (!vaultPath) return paths
+
+        const failed: string[] = []
+        for (const path of paths) {
+            try {
+                await window.api.trashItem(path, vaultPath)
+            } catch (error) {
+                console.error(`Failed to trash ${path}`, error)
+                failed.push(path)
+            }
+        }
+        await get().loadAttachments()
+        const { report } = get()
+        if (report) {
+            const removed = new Set(paths.filter(p => !failed.includes(p)))
+            const usage = new Map([...report.usage].filter(([path]) => !removed.has(path)))
+            set({ report: { ...report, usage, orphans: report.orphans.filter(p => !removed.has(p)) } })
+        }
+        return failed
+    }
+}))
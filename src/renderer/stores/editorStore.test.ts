@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseMarkdownToDocument, serializeDocumentToMarkdown } from '@shared/markdown'
+import { useEditorStore, type Tab } from './editorStore'
+
+// Open a dirty tab whose file then changed on disk, and merge the two versions
+function mergeExternalChange(saved: string, edit: (text: string) => string, onDisk: string): { conflicts: number; merged: string } {
+    const filePath = '/vault/Note.md'
+    const document = parseMarkdownToDocument(edit(saved), filePath)
+    const tab: Tab = {
+        id: 'tab', type: 'document', filePath, title: 'Note', document, isDirty: true, isLoading: false, viewMode: 'edit',
+        savedContent: saved, externalChange: { type: 'modified', content: onDisk }
+    }
+    useEditorStore.setState({ editorGroups: [{ id: 'default', tabs: [tab], activeTabId: tab.id }] })
+
+    const conflicts = useEditorStore.getState().resolveExternalChange(tab.id, 'merge')
+    const merged = useEditorStore.getState().editorGroups[0].tabs[0].document!
+    return { conflicts, merged: serializeDocumentToMarkdown(merged, { touch: false }) }
+}
+
+test('merges a note without frontmatter without conflicts', () => {
+    const saved = 'First line\n\nMiddle\n\nLast line\n'
+    const result = mergeExternalChange(saved, text => text.replace('First', 'My first'), saved.replace('Last', 'Their last'))
+    assert.equal(result.conflicts, 0)
+    assert.equal(result.merged, 'My first line\n\nMiddle\n\nTheir last line\n')
+})
+
+test('merges frontmatter apart from the body', () => {
+    const saved = '---\ntags: [a]\n---\nBody line\n\nMore\n'
+    const result = mergeExternalChange(
+        saved,
+        text => text.replace('Body line', 'Mine'),
+        saved.replace('tags: [a]', 'tags: [a, b]').replace('Body line', 'Theirs')
+    )
+    assert.equal(result.conflicts, 1)
+    assert.ok(result.merged.startsWith('---\ntags: [a, b]\n---\n<<<<<<< Mine\nMine\n'))
+})
@@ -1,6 +1,15 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import type { Document, Block } from '@shared/types'
+import { parseMarkdownToDocument, serializeDocumentToMarkdown } from '@shared/markdown'
+import { parseWikiLink } from '@shared/wikiLinks'
+
+import { mergeNote } from '../utils/mergeUtils'
+import { rewriteBlockLinks, type LinkRename } from '../utils/linkRewriteUtils'
+import { setTodoChecked, setTaskCheckedInMarkdown } from '../utils/taskUtils'
+import { updateBlockInTree } from '../utils/blockTreeUtils'
+
+export { parseContentToBlocks } from '@shared/markdown'
 
 export interface Tab {
     id: string
@@ -13,8 +22,16 @@ export interface Tab {
     hasAnimated?: boolean
     url?: string  // For browser tabs
     viewMode: 'edit' | 'preview'
+    savedContent?: string  // File content as last loaded/saved (merge base for external changes)
+    externalChange?: ExternalChange  // Set when the file changed on disk while the tab had unsaved edits
+}
 
+export interface ExternalChange {
+    type: 'modified' | 'deleted'
+    content?: string  // New disk content for 'modified'
 }
+
+export type ExternalChangeResolution = 'reload' | 'keep' | 'merge'
 export interface EditorGroup {
     id: string
     tabs: Tab[]
@@ -28,10 +45,21 @@ interface SavedTab {
     groupId?: string
 }
 
+// Block to scroll to and flash once its document is rendered
+export interface RevealTarget {
+    filePath: string
+    blockId?: string
+    blockIndex?: number  // Used when the block ID is not known yet (e.g. search results)
+    heading?: string     // [[Note#Heading]]
+    anchor?: string      // [[Note#^anchor]]
+    cursorOffset?: number  // Focus the block for editing with the cursor here (template {{cursor}})
+}
+
 interface EditorState {
     editorGroups: EditorGroup[]
     activeGroupId: string | null
     savedTabs: SavedTab[] // For persistence
+    revealTarget: RevealTarget | null
 
     // Actions
     openTab: (filePath: string, title: string, groupId?: string) => Promise<void>
@@ -65,6 +93,21 @@ interface EditorState {
 
     // Graph Interaction
     appendBacklinkToFile: (sourcePath: string, targetName: string) => Promise<void>
+    setTaskChecked: (filePath: string, index: number, content: string, checked: boolean) => Promise<boolean>  // Toggle the index-th todo of a file (tasks pane)
+
+    // Block navigation
+    openLink: (link: string, groupId?: string) => Promise<boolean>
+    revealBlock: (target: RevealTarget) => void
+    clearRevealTarget: () => void
+
+    // External changes (file watcher)
+    handleExternalFileChange: (filePath: string, content: string) => void
+    handleExternalFileDelete: (filePath: string) => void
+    resolveExternalChange: (tabId: string, resolution: ExternalChangeResolution) => number
+
+    // File history
+    restoreSnapshot: (tabId: string, content: string) => Promise<void>
+    applyLinkRewrite: (filePath: string, content: string, renames: LinkRename[]) => void  // Links rewritten on disk after a rename/move
 }
 
 export const useEditorStore = create<EditorState>()(
@@ -73,6 +116,7 @@ export const useEditorStore = create<EditorState>()(
             editorGroups: [{ id: 'default', tabs: [], activeTabId: null }],
             activeGroupId: 'default',
             savedTabs: [],
+            revealTarget: null,
 
             openTab: async (filePath: string, title: string, targetGroupId?: string) => {
                 const { editorGroups, activeGroupId } = get()
@@ -127,7 +171,7 @@ export const useEditorStore = create<EditorState>()(
                             currentGroups[gIdx] = {
                                 ...currentGroups[gIdx],
                                 tabs: currentGroups[gIdx].tabs.map(t =>
-                                    t.id === tabId ? { ...t, document, isLoading: false } : t
+                                    t.id === tabId ? { ...t, document, isLoading: false, savedContent: content } : t
                                 )
                             }
                         }
@@ -394,12 +438,28 @@ export const useEditorStore = create<EditorState>()(
                 }
 
                 if (!tab?.document) return
+                // Don't overwrite a newer version on disk until the user resolves the conflict
+                if (tab.externalChange) return
 
                 try {
                     const content = serializeDocumentToMarkdown(tab.document)
                     await window.api.writeFile(tab.filePath, content)
                     get().markDirty(tabId, false)
 
+                    // Keep a rolling snapshot history; the pre-save content seeds it on the first save
+                    const { vaultPath, updateIndexEntry } = await import('./vaultStore').then(m => m.useVaultStore.getState())
+                    updateIndexEntry(tab.filePath, content)
+                    if (vaultPath) {
+                        window.api.saveSnapshot(vaultPath, tab.filePath, content, tab.savedContent)
+                            .catch(error => console.error('Failed to save snapshot:', error))
+                    }
+                    set(state => ({
+                        editorGroups: state.editorGroups.map(group => ({
+                            ...group,
+                            tabs: group.tabs.map(t => t.id === tabId ? { ...t, savedContent: content } : t)
+                        }))
+                    }))
+
                     // Update persistence
                     set(state => ({
                         savedTabs: state.editorGroups.flatMap(g => g.tabs.map(t => ({
@@ -570,12 +630,10 @@ export const useEditorStore = create<EditorState>()(
                         tabs: group.tabs.map(tab => {
                             if (tab.id !== tabId || !tab.document) return tab
 
-                            const newBlocks = tab.document.blocks.map(b => {
-                                if (b.block_id === blockId) {
-                                    return { ...b, indent: (b.indent || 0) + 1 }
-                                }
-                                return b
-                            })
+                            const newBlocks = updateBlockInTree(tab.document.blocks, blockId, b => ({
+                                ...b,
+                                indent: (b.indent || 0) + 1
+                            }))
 
                             return {
                                 ...tab,
@@ -595,13 +653,10 @@ export const useEditorStore = create<EditorState>()(
                         tabs: group.tabs.map(tab => {
                             if (tab.id !== tabId || !tab.document) return tab
 
-                            const newBlocks = tab.document.blocks.map(b => {
-                                if (b.block_id === blockId) {
-                                    const currentIndent = b.indent || 0
-                                    return { ...b, indent: Math.max(0, currentIndent - 1) }
-                                }
-                                return b
-                            })
+                            const newBlocks = updateBlockInTree(tab.document.blocks, blockId, b => ({
+                                ...b,
+                                indent: Math.max(0, (b.indent || 0) - 1)
+                            }))
 
                             return {
                                 ...tab,
@@ -681,563 +736,197 @@ export const useEditorStore = create<EditorState>()(
                         console.error('Failed to append backlink:', error)
                     }
                 }
-            }
+            },
 
-        }),
-        {
-            name: 'cortex-editor',
-            partialize: (state) => ({
-                savedTabs: state.editorGroups.flatMap(g => g.tabs.map(t => ({
-                    filePath: t.filePath,
-                    title: t.title,
-                    groupId: g.id
-                })))
-            })
-        }
-    )
-)
+            setTaskChecked: async (filePath: string, index: number, content: string, checked: boolean) => {
+                const openTab = get().editorGroups.flatMap(g => g.tabs).find(t => t.filePath === filePath && t.document)
 
-// Helper functions for parsing/serializing
-function parseMarkdownToDocument(content: string, filePath: string): Document {
-    // Parse YAML frontmatter
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n/)
-    let meta = {
-        id: crypto.randomUUID(),
-        title: 'Untitled',
-        tags: [] as string[],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        alwaysOn: false
-    }
-
-    let bodyContent = content
-
-    if (frontmatterMatch) {
-        bodyContent = content.slice(frontmatterMatch[0].length)
-        const yamlContent = frontmatterMatch[1]
-
-        // Simple YAML parsing
-        const lines = yamlContent.split('\n')
-        for (const line of lines) {
-            const [keyPart, ...valueParts] = line.split(':')
-            if (!keyPart) continue
-
-            const key = keyPart.trim()
-            const value = valueParts.join(':').trim()
-
-            if (key === 'id') {
-                meta.id = value as any
-            } else if (key === 'title') {
-                meta.title = value
-            } else if (key === 'created_at') {
-                meta.created_at = value
-            } else if (key === 'updated_at') {
-                meta.updated_at = value
-            } else if (key === 'alwaysOn') {
-                meta.alwaysOn = value === 'true'
-            } else if (key === 'tags') {
-                const tagMatch = value.match(/\[(.*)\]/)
-                if (tagMatch) {
-                    meta.tags = tagMatch[1].split(',').map(t => t.trim()).filter(t => t.length > 0)
+                if (openTab?.document) {
+                    // Same path as toggling the checkbox in the editor: update the block, then save
+                    const blocks = setTodoChecked(openTab.document.blocks, index, content, checked)
+                    if (!blocks) return false
+                    get().updateDocument(openTab.id, blocks)
+                    await get().saveTab(openTab.id)
+                    return true
                 }
-            } else {
-                // Dynamic metadata
-                // Try to infer type (boolean, number, string)
-                if (value === 'true') (meta as any)[key] = true
-                else if (value === 'false') (meta as any)[key] = false
-                else if (!isNaN(Number(value)) && value !== '') (meta as any)[key] = Number(value)
-                else (meta as any)[key] = value.replace(/^['"](.*)['"]$/, '$1') // Remove quotes if present
-            }
-        }
-    }
 
-    // Parse content into blocks
-    const blocks = parseContentToBlocks(bodyContent)
-
-    return { meta, blocks, filePath }
-}
+                try {
+                    // Only the checkbox character changes; the rest of the file is left as written
+                    const previous = await window.api.readFile(filePath)
+                    const updated = setTaskCheckedInMarkdown(previous, index, content, checked)
+                    if (updated === null) return false
+                    if (updated === previous) return true
+
+                    await window.api.writeFile(filePath, updated)
+
+                    const { vaultPath, updateIndexEntry } = await import('./vaultStore').then(m => m.useVaultStore.getState())
+                    updateIndexEntry(filePath, updated)
+                    if (vaultPath) {
+                        window.api.saveSnapshot(vaultPath, filePath, updated, previous)
+                            .catch(error => console.error('Failed to save snapshot:', error))
+                    }
+                    const { upsertParsedDoc } = await import('./graphStore').then(m => m.useGraphStore.getState())
+                    upsertParsedDoc(filePath, updated)
+                    return true
+                } catch (error) {
+                    console.error('Failed to update task:', error)
+                    return false
+                }
+            },
 
-export function parseContentToBlocks(content: string): Block[] {
-    const lines = content.split('\n')
-    const blocks: Block[] = []
-    let pendingTextLines: string[] = [] // Buffer for consecutive text lines
-
-    // Helper to flush pending text lines as a single block
-    const flushPendingText = () => {
-        if (pendingTextLines.length > 0) {
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'text',
-                content: pendingTextLines.join('\n')
-            })
-            pendingTextLines = []
-        }
-    }
-
-    // Helper to check if a line is a special block type
-    const isSpecialLine = (line: string): boolean => {
-        if (line.startsWith('# ') || line.startsWith('## ') || line.startsWith('### ')) return true
-        if (line.match(/^- \[([ x])\] /)) return true
-        if (line.startsWith('- ')) return true
-        if (line.match(/^\d+\. /)) return true
-        if (line.startsWith('>> ')) return true
-        if (line.startsWith('> ')) return true
-        if (line.match(/^---+$/)) return true
-        if (line.startsWith('```')) return true
-        if (line.match(/^!\[\[.+?\]\]$/)) return true
-        if (line.trim().startsWith('|') && line.trim().endsWith('|')) return true // Table row
-        return false
-    }
-
-    // Helper to parse table rows
-    const parseTableRow = (line: string): string[] => {
-        return line.trim().slice(1, -1).split('|').map(cell => cell.trim())
-    }
-
-    // Helper to check if line is table separator (|---|---|)
-    const isTableSeparator = (line: string): boolean => {
-        const trimmed = line.trim()
-        if (!trimmed.startsWith('|') || !trimmed.endsWith('|')) return false
-        const cells = trimmed.slice(1, -1).split('|')
-        return cells.every(cell => /^[:\-\s]+$/.test(cell.trim()))
-    }
-
-    let i = 0
-    while (i < lines.length) {
-        const lineVal = lines[i]
-
-        // Calculate indentation (tabs or 4 spaces)
-        // We will assume 1 tab = 1 indent, or 2 spaces = 1 indent (for better compatibility)
-        // But for storage, we will try to use tabs if possible or just use what's there
-        let indent = 0
-        let contentLine = lineVal
-
-        // Count leading tabs
-        const tabMatch = lineVal.match(/^(\t+)/)
-        if (tabMatch) {
-            indent = tabMatch[1].length
-            contentLine = lineVal.substring(indent)
-        } else {
-            // Count leading spaces
-            const spaceMatch = lineVal.match(/^( +)/)
-            if (spaceMatch) {
-                // 2 spaces per indent? or 4? Let's go with 2 for now as per common MD usage, or maybe just 4?
-                // Let's assume 2 spaces = 1 indent level for UI purposes
-                indent = Math.floor(spaceMatch[1].length / 2)
-                contentLine = lineVal.trimStart()
-            }
-        }
+            openLink: async (link: string, groupId?: string) => {
+                const { target, heading, blockId } = parseWikiLink(link)
+                const { documentIndex } = await import('./vaultStore').then(m => m.useVaultStore.getState())
 
-        const line = contentLine // Working with trimmed-start line logic below, but need to preserve original content expectation for some blocks?
-        // Actually existing logic uses 'line' which was 'lines[i]'.
-        // We should be careful. Most existing logic matches ^... which expects start of string. 
-        // If we stripped indent, regexes will work fine.
-
-        // Empty line: flush pending text and create empty text block
-        if (line.trim() === '') {
-            flushPendingText()
-            // Create empty text block with indent? Usually empty lines have no indent
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'text',
-                content: '',
-                indent: 0
-            })
-            i++
-            continue
-        }
+                // [[#Heading]] points into the active document
+                const activeFilePath = get().getActiveDocument()?.filePath
+                const doc = target
+                    ? documentIndex.find(d => d.title === target || d.path.endsWith(`/${target}.md`))
+                    : documentIndex.find(d => d.path === activeFilePath)
+                if (!doc) return false
 
-        // Heading blocks
-        if (line.startsWith('### ')) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'heading3',
-                content: line.slice(4),
-                indent
-            })
-            i++
-            continue
-        }
-        if (line.startsWith('## ')) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'heading2',
-                content: line.slice(3),
-                indent
-            })
-            i++
-            continue
-        }
-        if (line.startsWith('# ')) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'heading1',
-                content: line.slice(2),
-                indent
-            })
-            i++
-            continue
-        }
+                await get().openTab(doc.path, doc.title, groupId)
+                if (heading || blockId) {
+                    get().revealBlock({ filePath: doc.path, heading, anchor: blockId })
+                }
+                return true
+            },
 
-        // Todo blocks
-        if (line.match(/^- \[([ x])\] /)) {
-            flushPendingText()
-            const checked = line[3] === 'x'
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'todo',
-                content: line.slice(6),
-                checked,
-                indent
-            })
-            i++
-            continue
-        }
+            revealBlock: (target: RevealTarget) => {
+                set({ revealTarget: target })
+            },
 
-        // Bullet list
-        if (line.startsWith('- ')) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'bullet',
-                content: line.slice(2),
-                indent
-            })
-            i++
-            continue
-        }
+            clearRevealTarget: () => {
+                set({ revealTarget: null })
+            },
 
-        // Numbered list
-        const numberedMatch = line.match(/^(\d+)\. /)
-        if (numberedMatch) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'numbered',
-                content: line.slice(numberedMatch[0].length),
-                indent
-            })
-            i++
-            continue
-        }
+            handleExternalFileChange: (filePath: string, content: string) => {
+                set(state => ({
+                    editorGroups: state.editorGroups.map(group => ({
+                        ...group,
+                        tabs: group.tabs.map(tab => {
+                            if (tab.filePath !== filePath || !tab.document || tab.savedContent === content) return tab
+                            // Clean tabs reload silently; dirty tabs keep their edits and show a conflict banner
+                            if (!tab.isDirty) {
+                                return {
+                                    ...tab,
+                                    document: parseMarkdownToDocument(content, filePath),
+                                    savedContent: content,
+                                    externalChange: undefined
+                                }
+                            }
+                            return { ...tab, externalChange: { type: 'modified', content } }
+                        })
+                    }))
+                }))
+            },
 
-        // Toggle block (>> header)
-        if (line.startsWith('>> ')) {
-            flushPendingText()
-            const header = line.slice(3)
-            const collapsedPrefix = '[collapsed] '
-            const isCollapsed = header.startsWith(collapsedPrefix)
-            const title = isCollapsed ? header.slice(collapsedPrefix.length) : header
-
-            const toggleBlock: Block = {
-                block_id: crypto.randomUUID(),
-                type: 'toggle',
-                content: title,
-                collapsed: isCollapsed,
-                children: []
-            }
-            // Collect children (tab or space-indented lines)
-            i++
-            while (i < lines.length) {
-                const childLine = lines[i]
-                const isTabChild = childLine.startsWith('\t')
-                const isSpaceChild = childLine.startsWith('  ')
-                if (!isTabChild && !isSpaceChild) break
-
-                const content = isTabChild ? childLine.slice(1) : childLine.replace(/^ {2,}/, '')
-                toggleBlock.children!.push({
-                    block_id: crypto.randomUUID(),
-                    type: 'text',
-                    content
-                })
-                i++
-            }
-            blocks.push(toggleBlock)
-            continue
-        }
+            handleExternalFileDelete: (filePath: string) => {
+                set(state => ({
+                    editorGroups: state.editorGroups.map(group => ({
+                        ...group,
+                        tabs: group.tabs.map(tab =>
+                            tab.filePath === filePath && tab.document
+                                ? { ...tab, externalChange: { type: 'deleted' } }
+                                : tab
+                        )
+                    }))
+                }))
+            },
 
-        // Quote - collect consecutive `> ` lines into one block
-        if (line.startsWith('> ') && !line.startsWith('> [!')) {
-            flushPendingText()
-            const quoteLines: string[] = []
-            while (i < lines.length && lines[i].startsWith('> ') && !lines[i].startsWith('> [!')) {
-                quoteLines.push(lines[i].slice(2))
-                i++
-            }
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'quote',
-                content: quoteLines.join('\n'),
-                indent
-            })
-            continue
-        }
+            resolveExternalChange: (tabId: string, resolution: ExternalChangeResolution) => {
+                let conflicts = 0
 
-        // Divider
-        if (line.match(/^---+$/)) {
-            flushPendingText()
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'divider',
-                content: ''
-            })
-            i++
-            continue
-        }
+                set(state => ({
+                    editorGroups: state.editorGroups.map(group => ({
+                        ...group,
+                        tabs: group.tabs.map(tab => {
+                            if (tab.id !== tabId || !tab.document || !tab.externalChange) return tab
+                            const { type, content } = tab.externalChange
 
-        // Code block
-        if (line.startsWith('```')) {
-            flushPendingText()
-            const language = line.slice(3).trim()
-            const codeLines: string[] = []
-            i++
-            while (i < lines.length && !lines[i].startsWith('```')) {
-                codeLines.push(lines[i])
-                i++
-            }
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'code',
-                content: codeLines.join('\n'),
-                language: language || 'plaintext'
-            })
-            i++
-            continue
-        }
+                            // Deleted on disk: keeping the tab marks it dirty so the next save recreates the file
+                            if (type === 'deleted' || content === undefined) {
+                                return { ...tab, externalChange: undefined, isDirty: true }
+                            }
 
-        // Image/File - Obsidian style ![[filename]] or ![[filename|alt]]
-        const embedMatch = line.match(/^!\[\[(.+?)(?:\|(.+?))?\]\]$/)
-        if (embedMatch) {
-            flushPendingText()
-            const fileName = embedMatch[1]
-            const ext = fileName.split('.').pop()?.toLowerCase() || ''
-            const imageExts = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'ico']
-
-            if (imageExts.includes(ext)) {
-                // Image block
-                blocks.push({
-                    block_id: crypto.randomUUID(),
-                    type: 'image',
-                    content: fileName,
-                    alt: embedMatch[2] || '',
-                    indent
-                })
-            } else {
-                // File block (PDF, etc.)
-                blocks.push({
-                    block_id: crypto.randomUUID(),
-                    type: 'file',
-                    content: fileName,
-                    indent
-                })
-            }
-            i++
-            continue
-        }
+                            if (resolution === 'reload') {
+                                return {
+                                    ...tab,
+                                    document: parseMarkdownToDocument(content, tab.filePath),
+                                    savedContent: content,
+                                    externalChange: undefined,
+                                    isDirty: false
+                                }
+                            }
 
+                            if (resolution === 'keep') {
+                                return { ...tab, savedContent: content, externalChange: undefined }
+                            }
 
-        // Callout - collect all consecutive `> ` lines after header
-        if (line.startsWith('> [!NOTE]')) {
-            flushPendingText()
-            const calloutLines: string[] = []
-            i++ // skip header line
-            while (i < lines.length && lines[i].startsWith('> ')) {
-                calloutLines.push(lines[i].slice(2))
-                i++
-            }
-            blocks.push({
-                block_id: crypto.randomUUID(),
-                type: 'callout',
-                content: calloutLines.join('\n'),
-                indent
-            })
-            continue
-        }
+                            // Merge: unchanged notes serialize back byte for byte, so the file
+                            // versions are compared as they are
+                            const mine = serializeDocumentToMarkdown(tab.document, { touch: false })
+                            const result = mergeNote(tab.savedContent ?? content, mine, content)
+                            conflicts = result.conflicts
 
-        // Table block (GFM format)
-        if (line.trim().startsWith('|') && line.trim().endsWith('|')) {
-            flushPendingText()
-            const tableRows: string[][] = []
+                            return {
+                                ...tab,
+                                document: parseMarkdownToDocument(result.merged, tab.filePath),
+                                savedContent: content,
+                                externalChange: undefined,
+                                isDirty: true
+                            }
+                        })
+                    }))
+                }))
 
-            // Collect all table rows
-            while (i < lines.length) {
-                const currentLine = lines[i].trim()
-                if (!currentLine.startsWith('|') || !currentLine.endsWith('|')) break
+                return conflicts
+            },
 
-                // Skip separator row (|---|---|)
-                if (!isTableSeparator(lines[i])) {
-                    tableRows.push(parseTableRow(lines[i]))
-                }
-                i++
-            }
+            restoreSnapshot: async (tabId: string, content: string) => {
+                set(state => ({
+                    editorGroups: state.editorGroups.map(group => ({
+                        ...group,
+                        tabs: group.tabs.map(tab =>
+                            tab.id === tabId && tab.document
+                                ? { ...tab, document: parseMarkdownToDocument(content, tab.filePath), isDirty: true }
+                                : tab
+                        )
+                    }))
+                }))
+                await get().saveTab(tabId)
+            },
 
-            if (tableRows.length > 0) {
-                blocks.push({
-                    block_id: crypto.randomUUID(),
-                    type: 'table',
-                    content: '',
-                    tableData: tableRows.map(row => row.map(cell => ({ content: cell }))),
-                    indent
-                })
+            applyLinkRewrite: (filePath: string, content: string, renames: LinkRename[]) => {
+                set(state => ({
+                    editorGroups: state.editorGroups.map(group => ({
+                        ...group,
+                        tabs: group.tabs.map(tab => {
+                            if (tab.filePath !== filePath || !tab.document) return tab
+                            // Clean tabs just reload; dirty tabs get the same rewrite on their unsaved blocks
+                            if (!tab.isDirty) {
+                                return { ...tab, document: parseMarkdownToDocument(content, filePath), savedContent: content }
+                            }
+                            return {
+                                ...tab,
+                                document: { ...tab.document, blocks: rewriteBlockLinks(tab.document.blocks, renames) },
+                                savedContent: content
+                            }
+                        })
+                    }))
+                }))
             }
-            continue
-        }
-
-        // Default: accumulate text lines
-        // For text blocks, if we have indent, we probably should handle it?
-        // But flushPendingText assumes one block.
-        // Simple strategy: If indent changes or type suggests block, we break. 
-        // For 'text', we just keep adding. 
-        // BUT wait, indentation is per-line. If we have multiple lines of text with different indent, 
-        // they should probably be separate blocks or we lose that data.
-        // Current 'text' type logic in flushPendingText joins properly.
-        // Let's just treat text lines as text. 
-        // HOWEVER: If we stripped indent above, strictly speaking we lost it for 'text' blocks if we accumulate.
-        // Basic text usually doesn't have indent unless it's a code block or something.
-        // Since we want to support indentation for lists mainly, let's just push text as is (untrimmed original)
-        // if it's just text.
-        // The above `line` variable is stripped.
-        // Let's use `lineVal` (original) for plain text accumulation to preserve whitespace if it's not a special block?
-        // OR: we treat every indent change as a new block?
-        // Let's stick to: Text blocks usually don't have structural indent. 
-        // If they do, they are likely part of a list or quote but we missed it.
-        // Let's just accumulate the ORIGINAL line for text to be safe?
-        // But then we mix indentation styles.
-        // Revert to using 'line' (stripped) but maybe we need to support indent on text blocks too?
-        // For now, let's just use the stripped line and assume indent 0 for plain paragraphs for simplicity
-        // unless we want to support indented paragraphs.
-
-        // Let's allow indented text blocks.
-        if (pendingTextLines.length > 0) {
-            // If we were accumulating, and now we see a line, we continue?
-            // But if we want to capture indent, we must flush if indent differs?
-            // For simplicity in this iteration: simplified text blocks don't support indent
-            // OR verify if we can just push separate text blocks for each line?
-            // That might be too granular.
-            // Let's just use the original line for text blocks for now to avoid losing spaces.
-            pendingTextLines.push(lineVal)
-        } else {
-            // If it is the first line of text block, maybe we CAN support indent?
-            // But subsequent lines might not match.
-            // Let's just push original lineVal to pendingTextLines.
-            pendingTextLines.push(lineVal)
-        }
-        i++
-    }
-
-    // Flush any remaining pending text
-    flushPendingText()
-
-    // Ensure at least one empty text block
-    if (blocks.length === 0) {
-        blocks.push({
-            block_id: crypto.randomUUID(),
-            type: 'text',
-            content: '',
-            indent: 0
-        })
-    }
-
-    return blocks
-}
 
-function serializeDocumentToMarkdown(doc: Document): string {
-    // Serialize frontmatter
-    const frontmatterLines = [
-        '---',
-        `id: ${doc.meta.id}`,
-        `title: ${doc.meta.title}`,
-        `tags: [${doc.meta.tags.join(', ')}]`,
-        `created_at: ${doc.meta.created_at}`,
-        `updated_at: ${new Date().toISOString()}`
-    ]
-
-    // Only include alwaysOn if true (to keep frontmatter clean)
-    if (doc.meta.alwaysOn) {
-        frontmatterLines.push('alwaysOn: true')
-    }
-
-    frontmatterLines.push('---', '')
-    const frontmatter = frontmatterLines.join('\n')
-
-    // Serialize blocks
-    const content = doc.blocks.map(block => {
-        const indentTab = '\t'.repeat(block.indent || 0)
-
-        switch (block.type) {
-            case 'heading1':
-                return `${indentTab}# ${block.content}`
-            case 'heading2':
-                return `${indentTab}## ${block.content}`
-            case 'heading3':
-                return `${indentTab}### ${block.content}`
-            case 'bullet':
-                return `${indentTab}- ${block.content}`
-            case 'numbered':
-                return `${indentTab}1. ${block.content}`
-            case 'todo':
-                return `${indentTab}- [${block.checked ? 'x' : ' '}] ${block.content}`
-            case 'quote':
-                return block.content.split('\n').map(line => `${indentTab}> ${line}`).join('\n')
-            case 'divider':
-                return `${indentTab}---`
-            case 'code':
-                return `${indentTab}\`\`\`${block.language || ''}\n${block.content}\n${indentTab}\`\`\``
-            case 'image':
-                return block.alt ? `${indentTab}![[${block.content}|${block.alt}]]` : `${indentTab}![[${block.content}]]`
-            case 'file':
-                // Extract just the filename from full path for cleaner storage
-                const fileName = block.content.split('/').pop() || block.content
-                return `${indentTab}![[${fileName}]]`
-            case 'callout': {
-                const calloutBody = block.content.split('\n').map(line => `${indentTab}> ${line}`).join('\n')
-                return `${indentTab}> [!NOTE]\n${calloutBody}`
-            }
-            case 'toggle': {
-                // Toggle block: >> header, children indented (tab; reader also accepts spaces)
-                const header = block.collapsed
-                    ? `${indentTab}>> [collapsed] ${block.content}`
-                    : `${indentTab}>> ${block.content}`
-                if (block.children && block.children.length > 0) {
-                    // Children are serialized with their own logic but here they are nested in toggle.
-                    // The toggle format in this custom parser/serializer is a bit unique. 
-                    // It expects children to be physically indented relative to the toggle.
-                    // But our Block structure might flatten them effectively or use children array?
-                    // The current parser (before my changes) used `children` array and ignored indent property for toggles.
-                    // Now we are adding generic indent. 
-                    // Let's respect the existing toggle serialization but add base indent.
-                    const childLines = block.children.map(child => `\t${indentTab}${child.content}`).join('\n')
-                    return `${header}\n${childLines}`
-                }
-                return header
-            }
-            case 'table': {
-                if (!block.tableData || block.tableData.length === 0) return ''
-                const rows = block.tableData.map(row =>
-                    `${indentTab}| ` + row.map(cell => cell.content || '').join(' | ') + ' |'
-                )
-                // Insert separator after first row (header)
-                if (rows.length > 0) {
-                    const colCount = block.tableData[0].length
-                    const separator = `${indentTab}| ` + Array(colCount).fill('---').join(' | ') + ' |'
-                    rows.splice(1, 0, separator)
-                }
-                return rows.join('\n')
-            }
-            default:
-                // For text, just return content (which might have its own newlines)
-                // If it's single line, add indent. Multi-line? 
-                // We stored original lines for text blocks in parser.
-                // So adding indent here might double indent if we are not careful?
-                // But in new blocks created in UI, content won't have indentation.
-                // So we should prepend indent.
-                // Let's assume content is pure text and we need to indent it.
-                return block.content.split('\n').map(line => `${indentTab}${line}`).join('\n')
+        }),
+        {
+            name: 'cortex-editor',
+            partialize: (state) => ({
+                savedTabs: state.editorGroups.flatMap(g => g.tabs.map(t => ({
+                    filePath: t.filePath,
+                    title: t.title,
+                    groupId: g.id
+                })))
+            })
         }
-    }).join('\n')
-
-    return frontmatter + content
-}
+    )
+)
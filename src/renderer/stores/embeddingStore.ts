@@ -0,0 +1,330 @@
+import { create } from 'zustand'
+import type { FileNode, VaultChangeEvent } from '@shared/types'
+import { useVaultStore } from './vaultStore'
+import { useAIStore } from './aiStore'
+import { createEmbedder, EMBEDDING_PROVIDERS, isEmbedderConfigured } from '../services/llm/embeddings'
+import type { Embedder } from '../services/llm/types'
+import { isSameOrInside, rebasePath } from '../utils/fileTreeUtils'
+import { chunkNote, cosineSimilarity, decodeVector, encodeVector, hashText, type NoteChunk } from '../utils/embeddingUtils'
+
+/**
+ * Embedding index for Smart Context.
+ *
+ * Notes are split into passages (chunkNote) and each passage is embedded with the model chosen
+ * in settings. The index lives in <vault>/.cortex/embeddings.json and is kept current on save
+ * and on external changes; vectors are cached by passage text, so only edited passages are
+ * embedded again and renamed notes cost nothing.
+ */
+
+const INDEX_FILE = '.cortex/embeddings.json'
+const INDEX_VERSION = 1
+const SAVE_DELAY_MS = 2000
+// Notes read per step of a full sync (progress is reported per step)
+const SYNC_BATCH_SIZE = 20
+// Passages below this similarity are never returned
+const MIN_SIMILARITY = 0.05
+
+interface IndexedChunk extends NoteChunk {
+    hash: string            // Hash of the embedded text
+    vector: Float32Array
+}
+
+interface IndexedNote {
+    hash: string            // Hash of the note content the chunks came from
+    chunks: IndexedChunk[]
+}
+
+interface EmbeddingIndexFile {
+    version: number
+    model: string
+    notes: Record<string, { hash: string; chunks: Array<NoteChunk & { hash: string; vector: string }> }>  // key: vault-relative path
+}
+
+// A passage found for a query
+export interface RetrievedChunk extends NoteChunk {
+    path: string
+    score: number
+}
+
+interface EmbeddingState {
+    notes: Record<string, IndexedNote>  // key: absolute note path
+    indexKey: string | null             // Embedder the vectors came from ("provider:model")
+    indexedVault: string | null
+    isIndexing: boolean
+    progress: { done: number; total: number }
+    error: string | null
+
+    loadIndex: () => Promise<void>
+    syncIndex: (options?: { full?: boolean }) => Promise<void>  // Without `full`, only notes added or removed since the last sync
+    rebuildIndex: () => Promise<void>
+    updateNote: (path: string, content: string) => Promise<void>
+    applyVaultChanges: (events: VaultChangeEvent[]) => Promise<void>
+    search: (query: string, limit: number, options?: { paths?: string[]; excludePaths?: string[] }) => Promise<RetrievedChunk[]>
+}
+
+function collectNotePaths(nodes: FileNode[]): string[] {
+    return nodes.flatMap(node => node.isDirectory
+        ? collectNotePaths(node.children || [])
+        : node.name.endsWith('.md') ? [node.path] : [])
+}
+
+function getNoteTitle(path: string): string {
+    return path.split('/').pop()?.replace(/\.md$/, '') || path
+}
+
+// The note title and heading trail give short passages the context they need to match
+function getEmbeddingText(path: string, chunk: NoteChunk): string {
+    const title = [getNoteTitle(path), chunk.heading].filter(Boolean).join(' > ')
+    return `${title}\n${chunk.text}`
+}
+
+// Null while semantic retrieval is off or the chosen model can't be reached
+function getEmbedder(): Embedder | null {
+    const { semanticSearchEnabled, embeddingModel, providerSettings } = useAIStore.getState()
+    if (!semanticSearchEnabled || !isEmbedderConfigured(embeddingModel, providerSettings)) return null
+    return createEmbedder(embeddingModel, providerSettings)
+}
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+// Index updates run one at a time, in order
+let queue: Promise<unknown> = Promise.resolve()
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task)
+    queue = result.catch(() => undefined)
+    return result
+}
+
+export const useEmbeddingStore = create<EmbeddingState>((set, get) => {
+    const saveIndex = async () => {
+        const { notes, indexKey, indexedVault } = get()
+        if (!indexedVault || !indexKey) return
+
+        const file: EmbeddingIndexFile = { version: INDEX_VERSION, model: indexKey, notes: {} }
+        for (const [path, note] of Object.entries(notes)) {
+            file.notes[path.slice(indexedVault.length + 1)] = {
+                hash: note.hash,
+                chunks: note.chunks.map(({ vector, ...chunk }) => ({ ...chunk, vector: encodeVector(vector) }))
+            }
+        }
+        try {
+            await window.api.createFile(`${indexedVault}/${INDEX_FILE}`, JSON.stringify(file))
+        } catch (error) {
+            console.warn('Failed to save embedding index', error)
+        }
+    }
+
+    const scheduleSave = () => {
+        if (saveTimer) clearTimeout(saveTimer)
+        saveTimer = setTimeout(() => {
+            saveTimer = null
+            saveIndex()
+        }, SAVE_DELAY_MS)
+    }
+
+    // Embed the passages of these notes that aren't in the index yet
+    const embedNotes = async (entries: Array<{ path: string; content: string }>, embedder: Embedder) => {
+        const cache = new Map<string, Float32Array>()
+        for (const note of Object.values(get().notes)) {
+            note.chunks.forEach(chunk => cache.set(chunk.hash, chunk.vector))
+        }
+
+        const updates: Record<string, IndexedNote> = {}
+        const missing: Array<{ hash: string; text: string }> = []
+        const queued = new Set<string>()
+        for (const { path, content } of entries) {
+            const hash = await hashText(content)
+            if (get().notes[path]?.hash === hash) continue
+
+            const chunks: IndexedChunk[] = []
+            for (const chunk of chunkNote(content)) {
+                const text = getEmbeddingText(path, chunk)
+                const chunkHash = await hashText(text)
+                if (!cache.has(chunkHash) && !queued.has(chunkHash)) {
+                    queued.add(chunkHash)
+                    missing.push({ hash: chunkHash, text })
+                }
+                chunks.push({ ...chunk, hash: chunkHash, vector: new Float32Array(0) })
+            }
+            updates[path] = { hash, chunks }
+        }
+
+        const { batchSize } = EMBEDDING_PROVIDERS[useAIStore.getState().embeddingModel.provider]
+        for (let i = 0; i < missing.length; i += batchSize) {
+            const batch = missing.slice(i, i + batchSize)
+            const vectors = await embedder.embed(batch.map(m => m.text))
+            if (vectors.length !== batch.length) {
+                throw new Error(`Embedding model returned ${vectors.length} vectors for ${batch.length} passages`)
+            }
+            batch.forEach((m, j) => cache.set(m.hash, Float32Array.from(vectors[j])))
+        }
+
+        for (const note of Object.values(updates)) {
+            note.chunks.forEach(chunk => { chunk.vector = cache.get(chunk.hash)! })
+        }
+        if (Object.keys(updates).length > 0) {
+            set(state => ({ notes: { ...state.notes, ...updates } }))
+        }
+    }
+
+    return {
+        notes: {},
+        indexKey: null,
+        indexedVault: null,
+        isIndexing: false,
+        progress: { done: 0, total: 0 },
+        error: null,
+
+        /**
+         * Read the vault's saved index, then bring it up to date in the background
+         */
+        loadIndex: async () => {
+            const { vaultPath } = useVaultStore.getState()
+            set({ notes: {}, indexKey: null, indexedVault: vaultPath, error: null })
+            if (!vaultPath) return
+
+            try {
+                const file: EmbeddingIndexFile = JSON.parse(await window.api.readFile(`${vaultPath}/${INDEX_FILE}`))
+                if (file.version === INDEX_VERSION) {
+                    const notes: Record<string, IndexedNote> = {}
+                    for (const [relativePath, note] of Object.entries(file.notes)) {
+                        notes[`${vaultPath}/${relativePath}`] = {
+                            hash: note.hash,
+                            chunks: note.chunks.map(chunk => ({ ...chunk, vector: decodeVector(chunk.vector) }))
+                        }
+                    }
+                    set({ notes, indexKey: file.model })
+                }
+            } catch {
+                // No index yet (or unreadable): the sync below builds it
+            }
+
+            get().syncIndex({ full: true })
+        },
+
+        syncIndex: (options = {}) => enqueue(async () => {
+            const embedder = getEmbedder()
+            const { vaultPath, fileTree } = useVaultStore.getState()
+            if (!embedder || !vaultPath || vaultPath !== get().indexedVault) return
+
+            let full = !!options.full
+            if (get().indexKey !== embedder.key) {
+                // Vectors from another model can't be compared with this one's
+                set({ notes: {}, indexKey: embedder.key })
+                full = true
+            }
+
+            const paths = collectNotePaths(fileTree)
+            const existing = new Set(paths)
+            const notes = get().notes
+            const removed = Object.keys(notes).filter(path => !existing.has(path))
+            const targets = full ? paths : paths.filter(path => !notes[path])
+            if (removed.length === 0 && targets.length === 0) return
+
+            if (removed.length > 0) {
+                const kept = { ...notes }
+                removed.forEach(path => delete kept[path])
+                set({ notes: kept })
+            }
+
+            set({ isIndexing: true, error: null, progress: { done: 0, total: targets.length } })
+            try {
+                for (let i = 0; i < targets.length; i += SYNC_BATCH_SIZE) {
+                    // Another vault was opened meanwhile
+                    if (get().indexedVault !== vaultPath) return
+                    const entries: Array<{ path: string; content: string }> = []
+                    for (const path of targets.slice(i, i + SYNC_BATCH_SIZE)) {
+                        try {
+                            entries.push({ path, content: await window.api.readFile(path) })
+                        } catch (e) {
+                            console.warn(`Failed to read ${path}`, e)
+                        }
+                    }
+                    await embedNotes(entries, embedder)
+                    set({ progress: { done: Math.min(i + SYNC_BATCH_SIZE, targets.length), total: targets.length } })
+                }
+            } catch (error) {
+                console.error('Failed to build embedding index:', error)
+                set({ error: error instanceof Error ? error.message : String(error) })
+            } finally {
+                set({ isIndexing: false })
+                scheduleSave()
+            }
+        }),
+
+        rebuildIndex: async () => {
+            set({ notes: {}, indexKey: null })
+            await get().syncIndex({ full: true })
+        },
+
+        updateNote: (path: string, content: string) => enqueue(async () => {
+            const embedder = getEmbedder()
+            if (!embedder || !path.endsWith('.md') || get().indexKey !== embedder.key) return
+            const { indexedVault } = get()
+            if (!indexedVault || !isSameOrInside(path, indexedVault)) return
+
+            try {
+                await embedNotes([{ path, content }], embedder)
+                scheduleSave()
+            } catch (error) {
+                console.warn(`Failed to embed ${path}`, error)
+            }
+        }),
+
+        applyVaultChanges: async (events: VaultChangeEvent[]) => {
+            let changed = false
+            for (const event of events) {
+                if (event.type === 'add' || event.type === 'change') {
+                    if (!event.path.endsWith('.md')) continue
+                    try {
+                        await get().updateNote(event.path, await window.api.readFile(event.path))
+                    } catch {
+                        // Gone again before we could read it
+                    }
+                } else if (event.type === 'unlink' || event.type === 'unlinkDir') {
+                    const notes = { ...get().notes }
+                    Object.keys(notes).filter(path => isSameOrInside(path, event.path)).forEach(path => delete notes[path])
+                    set({ notes })
+                    changed = true
+                } else if (event.type === 'rename') {
+                    const oldPath = event.oldPath!
+                    const notes: Record<string, IndexedNote> = {}
+                    for (const [path, note] of Object.entries(get().notes)) {
+                        notes[isSameOrInside(path, oldPath) ? rebasePath(path, oldPath, event.path) : path] = note
+                    }
+                    set({ notes })
+                    changed = true
+                }
+            }
+            if (changed) scheduleSave()
+        },
+
+        /**
+         * The passages closest to a query, best first.
+         * `paths` limits the search to those notes; `excludePaths` skips notes already in the context.
+         */
+        search: async (query: string, limit: number, options = {}) => {
+            const embedder = getEmbedder()
+            if (!embedder || !query.trim()) return []
+
+            // Pick up notes created or removed without a vault event (renames and deletes done in the app);
+            // during a full sync, answer from what is indexed so far
+            if (!get().isIndexing) await get().syncIndex()
+            if (get().indexKey !== embedder.key) return []
+
+            const [queryVector] = await embedder.embed([query])
+            if (!queryVector) return []
+
+            const results: RetrievedChunk[] = []
+            for (const [path, note] of Object.entries(get().notes)) {
+                if (options.paths && !options.paths.includes(path)) continue
+                if (options.excludePaths?.includes(path)) continue
+                for (const { vector, hash, ...chunk } of note.chunks) {
+                    const score = cosineSimilarity(queryVector, vector)
+                    if (score >= MIN_SIMILARITY) results.push({ ...chunk, path, score })
+                }
+            }
+            return results.sort((a, b) => b.score - a.score).slice(0, limit)
+        }
+    }
+})
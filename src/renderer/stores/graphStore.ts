@@ -1,5 +1,10 @@
 import { create } from 'zustand'
 import { SimulationNodeDatum, SimulationLinkDatum } from 'd3-force'
+import { parseFrontmatter, normalizeTags } from '@shared/frontmatter'
+import { parseWikiLink, getWikiLinkAnchor } from '@shared/wikiLinks'
+import { getEmbedBlockType, parseMarkdownToDocument } from '@shared/markdown'
+import { isSameOrInside, rebasePath } from '../utils/fileTreeUtils'
+import { extractTasks, type Task } from '../utils/taskUtils'
 
 // Extension of d3 types for our graph
 export interface GraphNode extends SimulationNodeDatum {
@@ -25,8 +30,36 @@ interface ParsedDoc {
     title: string // Now primarily the Filename
     frontmatterTitle?: string // The title from YAML
     tags: string[]
-    links: string[] // Target IDs (paths or names)
-    linkContexts: Map<string, string> // Map of link target to the line containing it
+    links: string[] // Target IDs (paths or names), without #heading / #^block anchors
+    linkContexts: Map<string, string> // Map of full link ("Note#Heading") to the line containing it
+    tasks: Task[] // Todo blocks, for the tasks pane
+}
+
+export interface Backlink {
+    path: string
+    title: string
+    context: string
+    anchor?: string // Heading or ^block id the link points at, if any
+}
+
+export interface LinkSource {
+    path: string
+    title: string
+    link: string     // Full link text inside [[...]]
+    context: string  // Line containing the link
+}
+
+// A link target that matches no note, or several notes with the same name
+export interface LinkIssue {
+    target: string
+    sources: LinkSource[]
+    candidates: string[]  // Ambiguous: every matching note path / Unresolved: suggested notes
+}
+
+export interface LinkHealthReport {
+    unresolved: LinkIssue[]
+    ambiguous: LinkIssue[]
+    orphans: { path: string, title: string }[]  // Notes with no incoming or outgoing links
 }
 
 interface GraphSettings {
@@ -53,7 +86,135 @@ interface GraphState {
     toggleShowTags: () => void
     setGraphMode: (mode: 'default' | 'wolfram') => void
     recalculateGraph: () => void // Re-build graph from cache
-    getBacklinks: (noteId: string) => { path: string; title: string; context: string }[] // Get notes that link to this note
+    upsertParsedDoc: (path: string, content: string) => void // Incremental update (no recalculation)
+    removeParsedDocs: (path: string) => void // Remove a file or every file under a folder
+    renameParsedDocs: (oldPath: string, newPath: string) => void
+    getBacklinks: (noteId: string) => Backlink[] // Get notes that link to this note (one entry per referenced anchor)
+    getLinkHealth: () => LinkHealthReport // Unresolved / ambiguous links and orphan notes
+    getTasks: () => Task[] // Todo blocks across the vault
+}
+
+/**
+ * Extract title, tags, outgoing links (with the line they appear on) and tasks from a markdown file
+ */
+function parseDocForGraph(path: string, content: string): ParsedDoc {
+    const { data } = parseFrontmatter(content)
+    const fileName = path.split('/').pop()?.replace('.md', '') || 'Untitled'
+
+    // Primary Title is now Filename; the frontmatter title is kept separately
+    const title = fileName
+    const frontmatterTitle: string | undefined =
+        data.title !== undefined && data.title !== null ? String(data.title) : undefined
+    const tags = normalizeTags(data.tags)
+
+    const outLinks: string[] = []
+    const linkContexts = new Map<string, string>()
+
+    const addLink = (link: string, line: string) => {
+        const { target } = parseWikiLink(link)
+        // [[#Heading]] points into the same note: not an outgoing link
+        if (target && !outLinks.includes(target)) {
+            outLinks.push(target)
+        }
+        // Store the line as context for this link
+        if (!linkContexts.has(link)) {
+            linkContexts.set(link, line.trim())
+        }
+    }
+
+    // Process each line to capture context
+    const lines = content.split('\n')
+    for (const line of lines) {
+        // First, extract highlight comments to avoid regex confusion
+        // Pattern: ==text==^[comment with possible [[links]] and |date]
+        const highlightPattern = /==.*?==\^\[((?:[^\[\]]|\[\[.*?\]\])*)\]/g
+        let highlightMatch
+
+        // Extract backlinks from highlight comments
+        while ((highlightMatch = highlightPattern.exec(line)) !== null) {
+            const comment = highlightMatch[1]
+            // Remove date suffix (|YYYY-MM-DD) if present
+            const commentWithoutDate = comment.replace(/\|\d{4}-\d{2}-\d{2}$/, '')
+
+            // Extract backlinks from comment
+            const linkRegex = /\[\[(.*?)(?:\|.*?)?\]\]/g
+            let linkMatch
+            while ((linkMatch = linkRegex.exec(commentWithoutDate)) !== null) {
+                addLink(linkMatch[1].trim(), line)
+            }
+        }
+
+        // Then, extract backlinks from the rest of the line (excluding highlight comments)
+        // Remove highlight patterns first to avoid duplicate/incorrect parsing
+        const lineWithoutHighlights = line.replace(/==.*?==\^\[(?:[^\[\]]|\[\[.*?\]\])*\]/g, '')
+        const linkRegex = /\[\[(.*?)(?:\|.*?)?\]\]/g
+        let match
+        while ((match = linkRegex.exec(lineWithoutHighlights)) !== null) {
+            addLink(match[1].trim(), line)
+        }
+    }
+
+    // Only notes with checkboxes need a full block parse
+    const tasks = /^\s*- \[[ x]\] /m.test(content)
+        ? extractTasks(parseMarkdownToDocument(content, path).blocks, path)
+        : []
+
+    return {
+        path,
+        title,
+        frontmatterTitle,
+        tags,
+        links: outLinks,
+        linkContexts,
+        tasks
+    }
+}
+
+/**
+ * Notes a link target points at: by file name ([[Note]]) or by vault path ([[folder/Note]]),
+ * falling back to the frontmatter title
+ */
+function resolveLinkTarget(target: string, parsedDocs: Map<string, ParsedDoc>): string[] {
+    const matches: string[] = []
+    const titleMatches: string[] = []
+    parsedDocs.forEach(doc => {
+        if (doc.title === target || doc.path.endsWith(`/${target}.md`)) matches.push(doc.path)
+        else if (doc.frontmatterTitle === target) titleMatches.push(doc.path)
+    })
+    return matches.length > 0 ? matches : titleMatches
+}
+
+// Case / separator-insensitive form used to suggest targets for broken links
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+function editDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i]
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+        }
+        prev = row
+    }
+    return prev[b.length]
+}
+
+// Up to 3 existing notes whose names are close to a broken link target
+function suggestLinkTargets(target: string, parsedDocs: Map<string, ParsedDoc>): string[] {
+    const name = normalizeName(target.split('/').pop() || target)
+    const maxDistance = Math.max(1, Math.floor(name.length / 4))
+    const scored: { path: string, score: number }[] = []
+    parsedDocs.forEach(doc => {
+        const candidate = normalizeName(doc.title)
+        const distance = editDistance(name, candidate)
+        if (distance <= maxDistance) scored.push({ path: doc.path, score: distance })
+        else if (name.length >= 3 && (candidate.includes(name) || name.includes(candidate))) {
+            scored.push({ path: doc.path, score: maxDistance + Math.abs(candidate.length - name.length) })
+        }
+    })
+    return scored.sort((a, b) => a.score - b.score).slice(0, 3).map(s => s.path)
 }
 
 export const useGraphStore = create<GraphState>((set, get) => ({
@@ -77,9 +238,37 @@ export const useGraphStore = create<GraphState>((set, get) => ({
 
     setGraphMode: (mode) => set(state => ({ settings: { ...state.settings, viewMode: mode } })),
 
+    upsertParsedDoc: (path, content) => {
+        const parsedDocs = new Map(get().parsedDocs)
+        parsedDocs.set(path, parseDocForGraph(path, content))
+        set({ parsedDocs })
+    },
+
+    removeParsedDocs: (path) => {
+        const parsedDocs = new Map(get().parsedDocs)
+        for (const docPath of parsedDocs.keys()) {
+            if (isSameOrInside(docPath, path)) parsedDocs.delete(docPath)
+        }
+        set({ parsedDocs })
+    },
+
+    renameParsedDocs: (oldPath, newPath) => {
+        const parsedDocs = new Map<string, ParsedDoc>()
+        get().parsedDocs.forEach((doc, docPath) => {
+            if (!isSameOrInside(docPath, oldPath)) {
+                parsedDocs.set(docPath, doc)
+                return
+            }
+            const path = rebasePath(docPath, oldPath, newPath)
+            const title = path.split('/').pop()?.replace('.md', '') || doc.title
+            parsedDocs.set(path, { ...doc, path, title, tasks: doc.tasks.map(task => ({ ...task, path })) })
+        })
+        set({ parsedDocs })
+    },
+
     getBacklinks: (noteId: string) => {
         const { parsedDocs } = get()
-        const backlinks: { path: string; title: string; context: string }[] = []
+        const backlinks: Backlink[] = []
         const seen = new Set<string>()
 
         // Extract the note's title (filename) and frontmatter title
@@ -93,30 +282,79 @@ export const useGraphStore = create<GraphState>((set, get) => ({
             // Skip the note itself
             if (docPath === noteId) return
 
-            // Check if any of the doc's links point to our note
-            const matchingLink = doc.links.find(linkTarget => {
+            // Check which of the doc's links point to our note (one backlink per referenced anchor)
+            doc.linkContexts.forEach((context, link) => {
+                const parsed = parseWikiLink(link)
                 // Match against Filename (Primary) OR Frontmatter Title (Secondary/Legacy)
-                return linkTarget === currentFileName ||
-                    linkTarget === currentTitle ||
-                    (currentFrontmatterTitle && linkTarget === currentFrontmatterTitle)
-            })
-
-            if (matchingLink && !seen.has(docPath)) {
-                seen.add(docPath)
-                // Get the context (line containing the link)
-                const context = doc.linkContexts.get(matchingLink) || `[[${matchingLink}]]`
+                const isMatch = parsed.target === currentFileName ||
+                    parsed.target === currentTitle ||
+                    (currentFrontmatterTitle && parsed.target === currentFrontmatterTitle)
+                if (!isMatch) return
+
+                const anchor = getWikiLinkAnchor(parsed)
+                const key = `${docPath}#${anchor ?? ''}`
+                if (seen.has(key)) return
+                seen.add(key)
                 backlinks.push({
                     path: docPath,
                     title: doc.title, // Use the display title (filename)
-                    context
+                    context, // Line containing the link
+                    anchor
                 })
-            }
+            })
         })
 
         // Sort by path (alphabetically, which approximates recency for file systems)
         return backlinks.sort((a, b) => b.path.localeCompare(a.path))
     },
 
+    getLinkHealth: () => {
+        const { parsedDocs } = get()
+        const issues = new Map<string, LinkIssue & { matches: string[] }>()
+        const linked = new Set<string>()  // Notes with at least one resolved incoming or outgoing link
+
+        parsedDocs.forEach(doc => {
+            doc.linkContexts.forEach((context, link) => {
+                const { target } = parseWikiLink(link)
+                // [[#Heading]] stays in the same note; attachments aren't tracked as notes
+                if (!target || getEmbedBlockType(target) !== 'embed') return
+
+                let issue = issues.get(target)
+                if (!issue) {
+                    issue = { target, sources: [], candidates: [], matches: resolveLinkTarget(target, parsedDocs) }
+                    issues.set(target, issue)
+                }
+                issue.sources.push({ path: doc.path, title: doc.title, link, context })
+
+                const others = issue.matches.filter(path => path !== doc.path)
+                if (others.length > 0) {
+                    linked.add(doc.path)
+                    others.forEach(path => linked.add(path))
+                }
+            })
+        })
+
+        const unresolved: LinkIssue[] = []
+        const ambiguous: LinkIssue[] = []
+        issues.forEach(({ matches, ...issue }) => {
+            if (matches.length === 0) unresolved.push({ ...issue, candidates: suggestLinkTargets(issue.target, parsedDocs) })
+            else if (matches.length > 1) ambiguous.push({ ...issue, candidates: matches })
+        })
+
+        const orphans = Array.from(parsedDocs.values())
+            .filter(doc => !linked.has(doc.path))
+            .map(doc => ({ path: doc.path, title: doc.title }))
+
+        const byTarget = (a: LinkIssue, b: LinkIssue) => a.target.localeCompare(b.target)
+        return {
+            unresolved: unresolved.sort(byTarget),
+            ambiguous: ambiguous.sort(byTarget),
+            orphans: orphans.sort((a, b) => a.title.localeCompare(b.title))
+        }
+    },
+
+    getTasks: () => Array.from(get().parsedDocs.values()).flatMap(doc => doc.tasks),
+
     recalculateGraph: () => {
         const { parsedDocs, settings, nodes: prevNodes } = get()
         if (parsedDocs.size === 0) return
@@ -196,19 +434,8 @@ export const useGraphStore = create<GraphState>((set, get) => ({
             if (!outgoingLinks.has(doc.path)) outgoingLinks.set(doc.path, new Set())
 
             doc.links.forEach(linkTargetName => {
-                // Find matching node
-                let targetId: string | null = null
-
-                // 1. Try exact path match (if we stored paths) -> unlikely from [[Name]]
-                // 2. Name match
-                for (const node of nodesMap.values()) {
-                    if (node.type !== 'note') continue
-                    const fileName = node.path.split('/').pop()?.replace('.md', '')
-                    if (node.title === linkTargetName || fileName === linkTargetName) {
-                        targetId = node.id
-                        break
-                    }
-                }
+                // Find matching node (file name or vault path)
+                const targetId: string | null = resolveLinkTarget(linkTargetName, parsedDocs)[0] ?? null
 
                 if (targetId && targetId !== doc.path) {
                     if (!outgoingLinks.get(doc.path)?.has(targetId)) {
@@ -313,85 +540,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
             const parsedDocs = new Map<string, ParsedDoc>()
 
             fileContents.forEach(({ path, content }) => {
-                const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/)
-                const fileName = path.split('/').pop()?.replace('.md', '') || 'Untitled'
-
-                // Primary Title is now Filename
-                let title = fileName
-                let frontmatterTitle: string | undefined = undefined
-                let tags: string[] = []
-
-                if (frontmatterMatch) {
-                    const fm = frontmatterMatch[1]
-                    const titleMatch = fm.match(/title:\s*(.+)/)
-                    if (titleMatch) {
-                        frontmatterTitle = titleMatch[1].trim()
-                        // We do NOT overwrite 'title' with frontmatterTitle anymore. 
-                        // title remains as fileName.
-                    }
-
-                    const tagsMatch = fm.match(/tags:\s*\[(.*?)\]/)
-                    if (tagsMatch) {
-                        tags = tagsMatch[1].split(',').map(t => t.trim().replace(/['"]/g, '')).filter(Boolean)
-                    }
-                }
-
-                const outLinks: string[] = []
-                const linkContexts = new Map<string, string>()
-
-                // Process each line to capture context
-                const lines = content.split('\n')
-                for (const line of lines) {
-                    // First, extract highlight comments to avoid regex confusion
-                    // Pattern: ==text==^[comment with possible [[links]] and |date]
-                    const highlightPattern = /==.*?==\^\[((?:[^\[\]]|\[\[.*?\]\])*)\]/g
-                    let highlightMatch
-
-                    // Extract backlinks from highlight comments
-                    while ((highlightMatch = highlightPattern.exec(line)) !== null) {
-                        const comment = highlightMatch[1]
-                        // Remove date suffix (|YYYY-MM-DD) if present
-                        const commentWithoutDate = comment.replace(/\|\d{4}-\d{2}-\d{2}$/, '')
-
-                        // Extract backlinks from comment
-                        const linkRegex = /\[\[(.*?)(?:\|.*?)?\]\]/g
-                        let linkMatch
-                        while ((linkMatch = linkRegex.exec(commentWithoutDate)) !== null) {
-                            const linkTarget = linkMatch[1].trim()
-                            if (!outLinks.includes(linkTarget)) {
-                                outLinks.push(linkTarget)
-                            }
-                            if (!linkContexts.has(linkTarget)) {
-                                linkContexts.set(linkTarget, line.trim())
-                            }
-                        }
-                    }
-
-                    // Then, extract backlinks from the rest of the line (excluding highlight comments)
-                    // Remove highlight patterns first to avoid duplicate/incorrect parsing
-                    const lineWithoutHighlights = line.replace(/==.*?==\^\[(?:[^\[\]]|\[\[.*?\]\])*\]/g, '')
-                    const linkRegex = /\[\[(.*?)(?:\|.*?)?\]\]/g
-                    let match
-                    while ((match = linkRegex.exec(lineWithoutHighlights)) !== null) {
-                        const linkTarget = match[1].trim()
-                        if (!outLinks.includes(linkTarget)) {
-                            outLinks.push(linkTarget)
-                        }
-                        // Store the line as context for this link
-                        if (!linkContexts.has(linkTarget)) {
-                            linkContexts.set(linkTarget, line.trim())
-                        }
-                    }
-                }
-
-                parsedDocs.set(path, {
-                    path,
-                    title,
-                    frontmatterTitle,
-                    tags,
-                    links: outLinks,
-                    linkContexts
-                })
+                parsedDocs.set(path, parseDocForGraph(path, content))
             })
 
             set({ parsedDocs, isLoading: false })
@@ -0,0 +1,127 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { FileNode } from '@shared/types'
+import { useVaultStore } from './vaultStore'
+import { useEditorStore } from './editorStore'
+import { formatDate, parseDate } from '../utils/templateUtils'
+import { getPeriodStart, shiftPeriod, getDateKey, type NotePeriod } from '../utils/periodicNoteUtils'
+
+export interface PeriodicNoteSettings {
+    folder: string  // 볼트 기준 상대 경로
+    format: string  // File name (formatDate tokens); may contain '/' for nested folders
+    templatePath?: string | null  // undefined = folder default, null = no template
+}
+
+export interface PeriodicNoteInfo {
+    period: NotePeriod
+    date: Date  // Start of the note's period
+}
+
+interface PeriodicNoteState {
+    settings: Record<NotePeriod, PeriodicNoteSettings>
+
+    setPeriodSettings: (period: NotePeriod, settings: Partial<PeriodicNoteSettings>) => void
+    getNotePath: (period: NotePeriod, date: Date) => string | null
+    getNoteInfo: (filePath: string) => PeriodicNoteInfo | null  // null if the file is not a periodic note
+    getExistingDates: (period: NotePeriod) => Set<string>  // getDateKey of each period that has a note
+    openPeriodicNote: (period: NotePeriod, date?: Date) => Promise<string | null>  // Creates the note if missing
+    openAdjacentNote: (filePath: string, delta: number) => Promise<string | null>
+}
+
+export const DEFAULT_PERIODIC_SETTINGS: Record<NotePeriod, PeriodicNoteSettings> = {
+    daily: { folder: 'Daily', format: 'YYYY-MM-DD' },
+    weekly: { folder: 'Weekly', format: 'GGGG-[W]ww' },
+    monthly: { folder: 'Monthly', format: 'YYYY-MM' }
+}
+
+function getFolderPath(vaultPath: string, folder: string): string {
+    return folder ? `${vaultPath}/${folder}` : vaultPath
+}
+
+function collectMdPaths(nodes: FileNode[]): string[] {
+    return nodes.flatMap(node => {
+        if (node.isDirectory) return node.children ? collectMdPaths(node.children) : []
+        return node.name.endsWith('.md') ? [node.path] : []
+    })
+}
+
+export const usePeriodicNoteStore = create<PeriodicNoteState>()(
+    persist(
+        (set, get) => ({
+            settings: DEFAULT_PERIODIC_SETTINGS,
+
+            setPeriodSettings: (period, settings) => set(state => {
+                const next = { ...state.settings[period], ...settings }
+                next.folder = next.folder.trim().replace(/^\/+|\/+$/g, '')
+                next.format = next.format.trim() || DEFAULT_PERIODIC_SETTINGS[period].format
+                return { settings: { ...state.settings, [period]: next } }
+            }),
+
+            getNotePath: (period, date) => {
+                const { vaultPath } = useVaultStore.getState()
+                if (!vaultPath) return null
+                const { folder, format } = get().settings[period]
+                const name = formatDate(getPeriodStart(period, date), format)
+                return `${getFolderPath(vaultPath, folder)}/${name}.md`
+            },
+
+            getNoteInfo: (filePath) => {
+                const { vaultPath } = useVaultStore.getState()
+                if (!vaultPath || !filePath.endsWith('.md')) return null
+
+                for (const period of Object.keys(get().settings) as NotePeriod[]) {
+                    const { folder, format } = get().settings[period]
+                    const folderPath = getFolderPath(vaultPath, folder)
+                    if (!filePath.startsWith(`${folderPath}/`)) continue
+
+                    const name = filePath.slice(folderPath.length + 1, -'.md'.length)
+                    const date = parseDate(name, format)
+                    if (date) return { period, date: getPeriodStart(period, date) }
+                }
+                return null
+            },
+
+            getExistingDates: (period) => {
+                const { fileTree } = useVaultStore.getState()
+                const dates = new Set<string>()
+                for (const path of collectMdPaths(fileTree)) {
+                    const info = get().getNoteInfo(path)
+                    if (info?.period === period) dates.add(getDateKey(info.date))
+                }
+                return dates
+            },
+
+            openPeriodicNote: async (period, date = new Date()) => {
+                const filePath = get().getNotePath(period, date)
+                if (!filePath) return null
+
+                const exists = await window.api.pathExists(filePath)
+                if (!exists) {
+                    const parentPath = filePath.substring(0, filePath.lastIndexOf('/'))
+                    const fileName = filePath.split('/').pop()!
+                    const created = await useVaultStore.getState().createNewFile(
+                        parentPath,
+                        fileName,
+                        undefined,
+                        [],
+                        get().settings[period].templatePath,
+                        getPeriodStart(period, date)
+                    )
+                    if (!created) return null
+                }
+
+                await useEditorStore.getState().openTab(filePath, filePath.split('/').pop()!.replace('.md', ''))
+                return filePath
+            },
+
+            openAdjacentNote: async (filePath, delta) => {
+                const info = get().getNoteInfo(filePath)
+                if (!info) return null
+                return get().openPeriodicNote(info.period, shiftPeriod(info.period, info.date, delta))
+            }
+        }),
+        {
+            name: 'cortex-periodic-notes'
+        }
+    )
+)
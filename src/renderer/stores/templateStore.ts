@@ -0,0 +1,147 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { FileNode } from '@shared/types'
+import { useVaultStore } from './vaultStore'
+import {
+    getTemplatePrompts,
+    renderTemplateVariables,
+    buildNoteFromTemplate,
+    extractCursor,
+    type RenderedNote
+} from '../utils/templateUtils'
+
+// Values asked from the user for {{prompt:Label}} variables
+interface PendingPrompt {
+    templateName: string
+    labels: string[]
+    resolve: (values: Record<string, string> | null) => void
+}
+
+interface TemplateState {
+    templatesFolder: string  // 볼트 기준 상대 경로
+    folderTemplates: Record<string, string>  // key: absolute folder path, value: template path
+    pendingPrompt: PendingPrompt | null
+
+    setTemplatesFolder: (folder: string) => void
+    setFolderTemplate: (folderPath: string, templatePath: string | null) => void
+    getTemplates: () => string[]
+    getFolderTemplate: (folderPath: string) => string | null  // 가장 가까운 상위 폴더의 기본 템플릿
+    renderTemplate: (templatePath: string, title: string, date?: Date) => Promise<string | null>  // null if the prompt was cancelled
+    createNoteContent: (templatePath: string, filePath: string, tags?: string[], date?: Date) => Promise<RenderedNote | null>
+    requestPromptValues: (templateName: string, labels: string[]) => Promise<Record<string, string> | null>
+    resolvePrompt: (values: Record<string, string> | null) => void
+}
+
+// Text selected in the editor before a template command; focus moves to the picker afterwards,
+// so the last non-empty editor selection is remembered here
+let editorSelection = ''
+
+function readEditorSelection(): string | null {
+    const active = document.activeElement
+    if (!active?.closest('.block-editor')) return null
+    if (active instanceof HTMLTextAreaElement) {
+        return active.value.slice(active.selectionStart, active.selectionEnd)
+    }
+    return window.getSelection()?.toString() ?? ''
+}
+
+document.addEventListener('selectionchange', () => {
+    const selection = readEditorSelection()
+    if (selection !== null) editorSelection = selection
+})
+
+function getTemplateName(templatePath: string): string {
+    return templatePath.split('/').pop()?.replace('.md', '') || templatePath
+}
+
+export const useTemplateStore = create<TemplateState>()(
+    persist(
+        (set, get) => ({
+            templatesFolder: 'Templates',
+            folderTemplates: {},
+            pendingPrompt: null,
+
+            setTemplatesFolder: (folder) => set({ templatesFolder: folder.trim().replace(/^\/+|\/+$/g, '') || 'Templates' }),
+
+            setFolderTemplate: (folderPath, templatePath) => set(state => {
+                const folderTemplates = { ...state.folderTemplates }
+                if (templatePath) folderTemplates[folderPath] = templatePath
+                else delete folderTemplates[folderPath]
+                return { folderTemplates }
+            }),
+
+            getTemplates: () => {
+                const { vaultPath, fileTree } = useVaultStore.getState()
+                if (!vaultPath) return []
+                const folderPath = `${vaultPath}/${get().templatesFolder}`
+
+                const collect = (nodes: FileNode[]): string[] => nodes.flatMap(node => {
+                    if (node.isDirectory) return node.children ? collect(node.children) : []
+                    return node.path.startsWith(`${folderPath}/`) && node.name.endsWith('.md') ? [node.path] : []
+                })
+                return collect(fileTree).sort((a, b) => a.localeCompare(b))
+            },
+
+            getFolderTemplate: (folderPath) => {
+                const { folderTemplates } = get()
+                const vaultPath = useVaultStore.getState().vaultPath
+                if (!vaultPath) return null
+
+                // Start from the folder itself and traverse up
+                let currentPath = folderPath
+                while (currentPath.length >= vaultPath.length) {
+                    if (folderTemplates[currentPath]) {
+                        return folderTemplates[currentPath]
+                    }
+                    const parentPath = currentPath.substring(0, currentPath.lastIndexOf('/'))
+                    if (parentPath === currentPath) break
+                    currentPath = parentPath
+                }
+                return null
+            },
+
+            renderTemplate: async (templatePath, title, date) => {
+                const template = await window.api.readFile(templatePath)
+
+                let values: Record<string, string> = {}
+                const labels = getTemplatePrompts(template)
+                if (labels.length > 0) {
+                    const answers = await get().requestPromptValues(getTemplateName(templatePath), labels)
+                    if (!answers) return null
+                    values = answers
+                }
+
+                return renderTemplateVariables(template, { title, date, selection: editorSelection, values })
+            },
+
+            createNoteContent: async (templatePath, filePath, tags = [], date) => {
+                const title = filePath.split('/').pop()?.replace('.md', '') || 'Untitled'
+                const rendered = await get().renderTemplate(templatePath, title, date)
+                if (rendered === null) return null
+                return extractCursor(buildNoteFromTemplate(title, rendered, tags), filePath)
+            },
+
+            requestPromptValues: (templateName, labels) => {
+                // Cancel a prompt that is still open
+                get().pendingPrompt?.resolve(null)
+                return new Promise(resolve => {
+                    set({ pendingPrompt: { templateName, labels, resolve } })
+                })
+            },
+
+            resolvePrompt: (values) => {
+                const { pendingPrompt } = get()
+                if (!pendingPrompt) return
+                set({ pendingPrompt: null })
+                pendingPrompt.resolve(values)
+            }
+        }),
+        {
+            name: 'cortex-templates',
+            partialize: (state) => ({
+                templatesFolder: state.templatesFolder,
+                folderTemplates: state.folderTemplates
+            })
+        }
+    )
+)
@@ -1,6 +1,11 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { FileNode } from '@shared/types'
+import type { FileNode, VaultChangeEvent } from '@shared/types'
+import { parseFrontmatter, normalizeTags } from '@shared/frontmatter'
+import { serializeDocumentToMarkdown } from '@shared/markdown'
+import { insertTreeNode, removeTreeNode, renameTreeNode, findTreeNode, isSameOrInside, rebasePath } from '../utils/fileTreeUtils'
+import type { RenderedNote, TemplateCursor } from '../utils/templateUtils'
+import { getLinkRenames, rewriteLinks, reverseRenames, type LinkUpdatePlan, type LinkUpdateFile } from '../utils/linkRewriteUtils'
 
 interface VaultState {
     vaultPath: string | null
@@ -8,6 +13,12 @@ interface VaultState {
     isLoading: boolean
     error: string | null
     documentIndex: DocumentIndexEntry[]  // 모든 문서의 메타 캐시
+    fileRevisions: Record<string, number>  // 외부에서 변경될 때마다 증가 (embed 갱신용)
+    linkUpdate: LinkUpdatePlan | null  // 이름 변경/이동 후 확인 대기 중인 링크 수정
+    lastLinkUpdate: LinkUpdatePlan | null  // 마지막으로 적용한 링크 수정 (되돌리기용)
+    ignoredLinkIssues: string[]  // Link health에서 무시한 항목 키
+    attachmentFolder: string  // 첨부 파일 폴더 (Obsidian 규칙): 볼트 기준 경로, '/' = 볼트 루트, './sub' = 노트 폴더 기준
+    attachmentFolderRules: Record<string, string>  // 폴더별 첨부 파일 폴더: 볼트 기준 폴더 -> attachmentFolder와 같은 규칙
 
     // Actions
     setVaultPath: (path: string | null) => void
@@ -15,28 +26,148 @@ interface VaultState {
     setLoading: (loading: boolean) => void
     setError: (error: string | null) => void
     openVault: () => Promise<void>
+    loadVault: (path: string) => Promise<void>  // 대화상자 없이 폴더를 볼트로 열기
     refreshTree: () => Promise<void>
     indexDocuments: () => Promise<void>  // 문서 인덱싱
-    createNewFile: (parentPath: string, fileName: string, initialContent?: string, tags?: string[]) => Promise<string | null>
+    updateIndexEntry: (path: string, content: string) => void  // 앱에서 저장한 파일 (watcher가 무시함)
+    applyVaultChanges: (events: VaultChangeEvent[]) => Promise<void>  // 파일 감시 이벤트 반영 (증분 업데이트)
+    // templatePath: undefined = 폴더 기본 템플릿, null = 템플릿 없이 생성
+    createNewFile: (parentPath: string, fileName: string, initialContent?: string, tags?: string[], templatePath?: string | null, date?: Date) => Promise<string | null>  // date: {{date}} for periodic notes
     createNewFolder: (parentPath: string, folderName: string) => Promise<boolean>
     moveItem: (sourcePath: string, destFolderPath: string) => Promise<boolean>
     renameItem: (path: string, newName: string) => Promise<boolean>
     deleteItem: (itemPath: string) => Promise<boolean>
-    createUntitledNote: (parentPath: string) => Promise<string | null>
+    restoreTrashItem: (id: string) => Promise<string | null>
+    createUntitledNote: (parentPath: string, templatePath?: string | null) => Promise<string | null>
+    applyLinkUpdate: () => Promise<boolean>  // 대기 중인 링크 수정을 모든 파일에 적용
+    dismissLinkUpdate: () => void
+    undoLinkUpdate: () => Promise<boolean>  // 링크 수정과 이름 변경/이동을 함께 되돌림
+    clearLastLinkUpdate: () => void
+    relinkTarget: (sourcePaths: string[], oldTarget: string, newTarget: string) => Promise<boolean>  // [[old]] → [[new]] in the given notes
+    toggleIgnoredLinkIssue: (key: string) => void
+    setAttachmentFolder: (folder: string) => void
+    setAttachmentFolderRules: (rules: Record<string, string>) => void
+    getAttachmentDir: (notePath: string) => string | null  // Absolute folder for attachments added to a note
 
     // UI State
     isSidebarCollapsed: boolean
+    sidebarView: SidebarView
     toggleSidebar: () => void
+    setSidebarView: (view: SidebarView) => void
 }
 
+// State that file watcher events patch
+type VaultFiles = Pick<VaultState, 'fileTree' | 'documentIndex' | 'fileRevisions'>
+
+export type SidebarView = 'files' | 'search' | 'links' | 'calendar' | 'tasks'
+
 // 문서 인덱스 엔트리
-interface DocumentIndexEntry {
+export interface DocumentIndexEntry {
     path: string
     filename: string
     title: string // Display title (could be filename or frontmatter title depending on preference, but here we'll use filename-first logic)
     frontmatterTitle?: string
     tags: string[]
     alwaysOn: boolean
+    properties: Record<string, any>  // All frontmatter keys (query blocks)
+}
+
+// Build the index entry for a file (only files with frontmatter are indexed)
+function createIndexEntry(path: string, content: string): DocumentIndexEntry | null {
+    const { data, raw } = parseFrontmatter(content)
+    if (raw === null) return null
+
+    const fileName = path.split('/').pop()?.replace('.md', '') || ''
+    return {
+        path,
+        filename: fileName,
+        title: fileName, // 파일명을 기본 제목으로 사용
+        frontmatterTitle: data.title !== undefined && data.title !== null ? String(data.title) : undefined,
+        tags: normalizeTags(data.tags),
+        alwaysOn: data.alwaysOn === true,
+        properties: data
+    }
+}
+
+// 모든 md 파일 경로 수집
+function getAllMdPaths(nodes: FileNode[]): string[] {
+    let paths: string[] = []
+    for (const node of nodes) {
+        if (!node.isDirectory && node.name.endsWith('.md')) {
+            paths.push(node.path)
+        } else if (node.children) {
+            paths = [...paths, ...getAllMdPaths(node.children)]
+        }
+    }
+    return paths
+}
+
+// Files whose link targets change when `path` moves (a folder moves every note and attachment inside it)
+async function getMovedFiles(fileTree: FileNode[], path: string): Promise<string[]> {
+    const node = findTreeNode(fileTree, path)
+    if (!node?.isDirectory) return [path]
+    const { attachmentPaths } = await import('./attachmentStore').then(m => m.useAttachmentStore.getState())
+    return [...getAllMdPaths(node.children ?? []), ...attachmentPaths.filter(p => isSameOrInside(p, path))]
+}
+
+// Point open tabs and the graph cache at the new location
+async function syncMovedItem(oldPath: string, newPath: string) {
+    const editorStore = await import('./editorStore').then(m => m.useEditorStore.getState())
+    editorStore.editorGroups.flatMap(g => g.tabs)
+        .filter(tab => isSameOrInside(tab.filePath, oldPath))
+        .forEach(tab => editorStore.renameFile(tab.filePath, rebasePath(tab.filePath, oldPath, newPath)))
+    const graphStore = await import('./graphStore').then(m => m.useGraphStore.getState())
+    graphStore.renameParsedDocs(oldPath, newPath)
+}
+
+/**
+ * Find every note that links to the moved files and compute the rewritten content.
+ * Candidates come from the graph's link cache when it is built, otherwise every note is scanned.
+ * Notes with unsaved edits are previewed from the editor so links typed since the last save are included.
+ */
+async function buildLinkUpdatePlan(
+    oldPath: string,
+    newPath: string,
+    movedFiles: string[],
+    vaultPath: string,
+    mdPaths: string[]
+): Promise<LinkUpdatePlan | null> {
+    const { attachmentPaths } = await import('./attachmentStore').then(m => m.useAttachmentStore.getState())
+    const allPaths = [...mdPaths, ...attachmentPaths].filter(p => !isSameOrInside(p, newPath)).concat(movedFiles)
+    const renames = getLinkRenames(oldPath, newPath, movedFiles, allPaths, vaultPath)
+    if (renames.length === 0) return null
+
+    const { parsedDocs } = await import('./graphStore').then(m => m.useGraphStore.getState())
+    const oldTargets = new Set(renames.map(r => r.oldTarget))
+    const candidates = parsedDocs.size > 0
+        ? mdPaths.filter(p => !parsedDocs.has(p) || parsedDocs.get(p)!.links.some(link => oldTargets.has(link)))
+        : mdPaths
+
+    const { editorGroups } = await import('./editorStore').then(m => m.useEditorStore.getState())
+    const dirtyTabs = editorGroups.flatMap(g => g.tabs).filter(t => t.isDirty && t.document)
+    for (const tab of dirtyTabs) {
+        if (!candidates.includes(tab.filePath)) candidates.push(tab.filePath)
+    }
+
+    const files: LinkUpdateFile[] = []
+    for (const path of candidates) {
+        let before: string
+        try {
+            before = await window.api.readFile(path)
+        } catch {
+            continue
+        }
+        const disk = rewriteLinks(before, renames)
+        const dirtyTab = dirtyTabs.find(t => t.filePath === path)
+        const changes = dirtyTab
+            ? rewriteLinks(serializeDocumentToMarkdown(dirtyTab.document!, { touch: false }), renames).changes
+            : disk.changes
+        if (changes.length > 0 || disk.changes.length > 0) {
+            files.push({ path, before, after: disk.content, changes })
+        }
+    }
+
+    return files.length > 0 ? { oldPath, newPath, renames, files } : null
 }
 
 // Generate default frontmatter for new files
@@ -55,6 +186,25 @@ updated_at: ${now}
 `
 }
 
+/**
+ * Content for a new note: from the given template, the folder's default template, or the built-in skeleton
+ */
+async function createNoteContent(filePath: string, tags: string[], templatePath?: string | null, date?: Date): Promise<RenderedNote | null> {
+    const templateStore = await import('./templateStore').then(m => m.useTemplateStore.getState())
+    const parentPath = filePath.substring(0, filePath.lastIndexOf('/'))
+    const template = templatePath === undefined ? templateStore.getFolderTemplate(parentPath) : templatePath
+    if (template) return templateStore.createNoteContent(template, filePath, tags, date)
+
+    const title = filePath.split('/').pop()?.replace('.md', '') || 'Untitled'
+    return { content: generateDefaultContent(title, tags) }
+}
+
+// Place the cursor where the template's {{cursor}} was once the note is opened
+async function revealTemplateCursor(filePath: string, cursor: TemplateCursor) {
+    const { revealBlock } = await import('./editorStore').then(m => m.useEditorStore.getState())
+    revealBlock({ filePath, blockIndex: cursor.blockIndex, cursorOffset: cursor.offset })
+}
+
 export const useVaultStore = create<VaultState>()(
     persist(
         (set, get) => ({
@@ -63,7 +213,14 @@ export const useVaultStore = create<VaultState>()(
             isLoading: false,
             error: null,
             documentIndex: [],
+            fileRevisions: {},
+            linkUpdate: null,
+            lastLinkUpdate: null,
+            ignoredLinkIssues: [],
+            attachmentFolder: 'attachments',
+            attachmentFolderRules: {},
             isSidebarCollapsed: false,
+            sidebarView: 'files',
 
             setVaultPath: (path) => set({ vaultPath: path }),
             setFileTree: (tree) => set({ fileTree: tree }),
@@ -71,15 +228,20 @@ export const useVaultStore = create<VaultState>()(
             setError: (error) => set({ error }),
 
             openVault: async () => {
+                const path = await window.api.openFolderDialog()
+                if (path) await get().loadVault(path)
+            },
+
+            loadVault: async (path: string) => {
                 try {
-                    const path = await window.api.openFolderDialog()
-                    if (path) {
-                        set({ vaultPath: path, isLoading: true, error: null })
-                        const tree = await window.api.readVaultTree(path)
-                        set({ fileTree: tree, isLoading: false })
-                        // 볼트 열 때 인덱싱도 수행
-                        await get().indexDocuments()
-                    }
+                    set({ vaultPath: path, isLoading: true, error: null })
+                    const tree = await window.api.readVaultTree(path)
+                    set({ fileTree: tree, isLoading: false })
+                    // 볼트 열 때 인덱싱도 수행
+                    await get().indexDocuments()
+                    await import('./attachmentStore').then(m => m.useAttachmentStore.getState().loadAttachments())
+                    window.api.buildSearchIndex(path).catch(e => console.warn('Failed to build search index', e))
+                    import('./embeddingStore').then(m => m.useEmbeddingStore.getState().loadIndex())
                 } catch (error) {
                     set({
                         error: error instanceof Error ? error.message : 'Failed to open vault',
@@ -98,6 +260,8 @@ export const useVaultStore = create<VaultState>()(
                     set({ fileTree: tree, isLoading: false })
                     // 트리 새로고침 시 인덱싱도 수행
                     await get().indexDocuments()
+                    await import('./attachmentStore').then(m => m.useAttachmentStore.getState().loadAttachments())
+                    import('./embeddingStore').then(m => m.useEmbeddingStore.getState().syncIndex())
                 } catch (error) {
                     set({
                         error: error instanceof Error ? error.message : 'Failed to refresh',
@@ -108,20 +272,6 @@ export const useVaultStore = create<VaultState>()(
 
             indexDocuments: async () => {
                 const { fileTree } = get()
-
-                // 모든 md 파일 경로 수집
-                function getAllMdPaths(nodes: FileNode[]): string[] {
-                    let paths: string[] = []
-                    for (const node of nodes) {
-                        if (!node.isDirectory && node.name.endsWith('.md')) {
-                            paths.push(node.path)
-                        } else if (node.children) {
-                            paths = [...paths, ...getAllMdPaths(node.children)]
-                        }
-                    }
-                    return paths
-                }
-
                 const mdPaths = getAllMdPaths(fileTree)
                 const indexEntries: DocumentIndexEntry[] = []
 
@@ -129,28 +279,8 @@ export const useVaultStore = create<VaultState>()(
                 for (const path of mdPaths) {
                     try {
                         const content = await window.api.readFile(path)
-                        const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/)
-
-                        if (frontmatterMatch) {
-                            const fm = frontmatterMatch[1]
-                            const fileName = path.split('/').pop()?.replace('.md', '') || ''
-
-                            // 간단한 YAML 파싱
-                            const titleMatch = fm.match(/title:\s*(.+)/)
-                            const tagsMatch = fm.match(/tags:\s*\[(.*?)\]/)
-                            const alwaysOnMatch = fm.match(/alwaysOn:\s*(true|false)/)
-
-                            indexEntries.push({
-                                path,
-                                filename: fileName,
-                                title: fileName, // 파일명을 기본 제목으로 사용
-                                frontmatterTitle: titleMatch ? titleMatch[1].trim() : undefined,
-                                tags: tagsMatch
-                                    ? tagsMatch[1].split(',').map(t => t.trim().replace(/['"]/g, '')).filter(Boolean)
-                                    : [],
-                                alwaysOn: alwaysOnMatch ? alwaysOnMatch[1] === 'true' : false
-                            })
-                        }
+                        const entry = createIndexEntry(path, content)
+                        if (entry) indexEntries.push(entry)
                     } catch (e) {
                         console.warn(`Failed to index ${path}`, e)
                     }
@@ -160,8 +290,103 @@ export const useVaultStore = create<VaultState>()(
                 console.log(`Indexed ${indexEntries.length} documents`)
             },
 
+            updateIndexEntry: (path: string, content: string) => {
+                const entry = createIndexEntry(path, content)
+                set(state => ({
+                    documentIndex: [...state.documentIndex.filter(d => d.path !== path), ...(entry ? [entry] : [])]
+                }))
+                // Re-embed only the passages that changed
+                import('./embeddingStore').then(m => m.useEmbeddingStore.getState().updateNote(path, content))
+            },
+
+
+            applyVaultChanges: async (events: VaultChangeEvent[]) => {
+                const { vaultPath } = get()
+                if (!vaultPath) return
+
+                const graphStore = await import('./graphStore').then(m => m.useGraphStore.getState())
+                const editorStore = await import('./editorStore').then(m => m.useEditorStore.getState())
+                const getName = (path: string) => path.split('/').pop() || path
+
+                // Read changed notes up front: the tree and index are patched afterwards on the
+                // current state, so updates made while reading (saves, other batches) are kept
+                const contents = new Map<string, string>()
+                for (const event of events) {
+                    if ((event.type !== 'add' && event.type !== 'change') || !event.path.endsWith('.md')) continue
+                    try {
+                        contents.set(event.path, await window.api.readFile(event.path))
+                    } catch {
+                        // Removed again before it could be read
+                    }
+                }
+                if (get().vaultPath !== vaultPath) return
+
+                const patches: Array<(files: VaultFiles) => Partial<VaultFiles>> = []
+
+                for (const event of events) {
+                    switch (event.type) {
+                        case 'add':
+                        case 'change': {
+                            const content = contents.get(event.path)
+                            if (content === undefined) break
+                            const entry = createIndexEntry(event.path, content)
+                            patches.push(files => ({
+                                fileTree: event.type === 'add'
+                                    ? insertTreeNode(files.fileTree, { name: getName(event.path), path: event.path, isDirectory: false }, vaultPath)
+                                    : files.fileTree,
+                                documentIndex: [...files.documentIndex.filter(d => d.path !== event.path), ...(entry ? [entry] : [])],
+                                fileRevisions: { ...files.fileRevisions, [event.path]: (files.fileRevisions[event.path] ?? 0) + 1 }
+                            }))
+                            graphStore.upsertParsedDoc(event.path, content)
+                            editorStore.handleExternalFileChange(event.path, content)
+                            break
+                        }
+                        case 'addDir':
+                            patches.push(files => ({
+                                fileTree: insertTreeNode(files.fileTree, { name: getName(event.path), path: event.path, isDirectory: true, children: [] }, vaultPath)
+                            }))
+                            break
+                        case 'unlink':
+                        case 'unlinkDir':
+                            patches.push(files => ({
+                                fileTree: removeTreeNode(files.fileTree, event.path),
+                                documentIndex: files.documentIndex.filter(d => !isSameOrInside(d.path, event.path))
+                            }))
+                            graphStore.removeParsedDocs(event.path)
+                            editorStore.editorGroups.flatMap(g => g.tabs)
+                                .filter(tab => isSameOrInside(tab.filePath, event.path))
+                                .forEach(tab => editorStore.handleExternalFileDelete(tab.filePath))
+                            break
+                        case 'rename': {
+                            const oldPath = event.oldPath!
+                            if (!event.isDirectory && !event.path.endsWith('.md')) break
+                            patches.push(files => ({
+                                fileTree: renameTreeNode(files.fileTree, oldPath, event.path, !!event.isDirectory, vaultPath),
+                                documentIndex: files.documentIndex.map(d => {
+                                    if (!isSameOrInside(d.path, oldPath)) return d
+                                    const path = rebasePath(d.path, oldPath, event.path)
+                                    const fileName = getName(path).replace('.md', '')
+                                    return { ...d, path, filename: fileName, title: fileName }
+                                })
+                            }))
+                            graphStore.renameParsedDocs(oldPath, event.path)
+                            window.api.moveSnapshots(vaultPath, oldPath, event.path).catch(console.error)
+                            editorStore.editorGroups.flatMap(g => g.tabs)
+                                .filter(tab => isSameOrInside(tab.filePath, oldPath))
+                                .forEach(tab => editorStore.renameFile(tab.filePath, rebasePath(tab.filePath, oldPath, event.path)))
+                            break
+                        }
+                    }
+                }
+
+                set(state => patches.reduce<VaultFiles>(
+                    (files, patch) => ({ ...files, ...patch(files) }),
+                    { fileTree: state.fileTree, documentIndex: state.documentIndex, fileRevisions: state.fileRevisions }
+                ))
+                graphStore.recalculateGraph()
+            },
 
-            createNewFile: async (parentPath: string, fileName: string, initialContent?: string, tags: string[] = []) => {
+            createNewFile: async (parentPath: string, fileName: string, initialContent?: string, tags: string[] = [], templatePath?: string | null, date?: Date) => {
                 try {
                     const fullFileName = fileName.endsWith('.md') ? fileName : `${fileName}.md`
                     const filePath = `${parentPath}/${fullFileName}`
@@ -173,14 +398,16 @@ export const useVaultStore = create<VaultState>()(
                         return null
                     }
 
-                    const title = fileName.replace('.md', '')
-                    let content = generateDefaultContent(title, tags)
+                    const note = await createNoteContent(filePath, tags, templatePath, date)
+                    if (!note) return null  // Template prompt cancelled
+                    let content = note.content
 
                     if (initialContent) {
                         content += initialContent
                     }
 
                     await window.api.createFile(filePath, content)
+                    if (note.cursor) await revealTemplateCursor(filePath, note.cursor)
 
                     // Refresh tree
                     await get().refreshTree()
@@ -193,7 +420,7 @@ export const useVaultStore = create<VaultState>()(
                 }
             },
 
-            createUntitledNote: async (parentPath: string) => {
+            createUntitledNote: async (parentPath: string, templatePath?: string | null) => {
                 try {
                     let counter = 0
                     let fileName = 'Untitled.md'
@@ -211,8 +438,10 @@ export const useVaultStore = create<VaultState>()(
                     }
 
                     const filePath = `${parentPath}/${fileName}`
-                    const content = generateDefaultContent(title)
-                    await window.api.createFile(filePath, content)
+                    const note = await createNoteContent(filePath, [], templatePath)
+                    if (!note) return null
+                    await window.api.createFile(filePath, note.content)
+                    if (note.cursor) await revealTemplateCursor(filePath, note.cursor)
 
                     await get().refreshTree()
                     return filePath
@@ -262,10 +491,20 @@ export const useVaultStore = create<VaultState>()(
                         return false
                     }
 
+                    const movedFiles = await getMovedFiles(get().fileTree, sourcePath)
                     await window.api.moveFile(sourcePath, destPath)
+                    const { vaultPath } = get()
+                    if (vaultPath) await window.api.moveSnapshots(vaultPath, sourcePath, destPath)
+                    await syncMovedItem(sourcePath, destPath)
 
                     // Refresh tree
                     await get().refreshTree()
+
+                    // Offer to update links pointing at the old location
+                    if (vaultPath) {
+                        const linkUpdate = await buildLinkUpdatePlan(sourcePath, destPath, movedFiles, vaultPath, getAllMdPaths(get().fileTree))
+                        set({ linkUpdate })
+                    }
                     return true
                 } catch (error) {
                     set({
@@ -287,10 +526,20 @@ export const useVaultStore = create<VaultState>()(
                         return false
                     }
 
+                    const movedFiles = await getMovedFiles(get().fileTree, path)
                     await window.api.moveFile(path, destPath)
+                    const { vaultPath } = get()
+                    if (vaultPath) await window.api.moveSnapshots(vaultPath, path, destPath)
+                    await syncMovedItem(path, destPath)
 
                     // Refresh tree
                     await get().refreshTree()
+
+                    // Offer to update links pointing at the old name
+                    if (vaultPath) {
+                        const linkUpdate = await buildLinkUpdatePlan(path, destPath, movedFiles, vaultPath, getAllMdPaths(get().fileTree))
+                        set({ linkUpdate })
+                    }
                     return true
                 } catch (error) {
                     set({
@@ -302,7 +551,11 @@ export const useVaultStore = create<VaultState>()(
 
             deleteItem: async (itemPath: string) => {
                 try {
-                    await window.api.deleteFile(itemPath)
+                    const { vaultPath } = get()
+                    if (!vaultPath) return false
+
+                    // Deleted items go to the vault's .trash folder and can be restored
+                    await window.api.trashItem(itemPath, vaultPath)
                     await get().refreshTree()
                     return true
                 } catch (error) {
@@ -313,14 +566,179 @@ export const useVaultStore = create<VaultState>()(
                 }
             },
 
+            restoreTrashItem: async (id: string) => {
+                try {
+                    const { vaultPath } = get()
+                    if (!vaultPath) return null
+
+                    const restoredPath = await window.api.restoreFromTrash(vaultPath, id)
+                    await get().refreshTree()
+                    return restoredPath
+                } catch (error) {
+                    set({
+                        error: error instanceof Error ? error.message : 'Failed to restore item'
+                    })
+                    return null
+                }
+            },
+
+            applyLinkUpdate: async () => {
+                const plan = get().linkUpdate
+                if (!plan) return false
+                set({ linkUpdate: null })
+
+                // Files may have changed since the preview was built: rewrite the current content
+                const files: LinkUpdateFile[] = []
+                try {
+                    for (const file of plan.files) {
+                        const before = await window.api.readFile(file.path)
+                        const after = before === file.before ? file.after : rewriteLinks(before, plan.renames).content
+                        files.push({ ...file, before, after })
+                    }
+                } catch (error) {
+                    set({ error: error instanceof Error ? error.message : 'Failed to read linked files' })
+                    return false
+                }
+
+                // All or nothing: roll back already written files if one write fails
+                const written: LinkUpdateFile[] = []
+                try {
+                    for (const file of files) {
+                        if (file.after === file.before) continue
+                        await window.api.writeFile(file.path, file.after)
+                        written.push(file)
+                    }
+                } catch (error) {
+                    for (const file of written) {
+                        await window.api.writeFile(file.path, file.before).catch(console.error)
+                    }
+                    set({ error: error instanceof Error ? error.message : 'Failed to update links' })
+                    return false
+                }
+
+                const editorStore = await import('./editorStore').then(m => m.useEditorStore.getState())
+                const graphStore = await import('./graphStore').then(m => m.useGraphStore.getState())
+                for (const file of files) {
+                    editorStore.applyLinkRewrite(file.path, file.after, plan.renames)
+                    get().updateIndexEntry(file.path, file.after)
+                    if (graphStore.parsedDocs.size > 0) graphStore.upsertParsedDoc(file.path, file.after)
+                }
+                graphStore.recalculateGraph()
+
+                set({ lastLinkUpdate: { ...plan, files } })
+                return true
+            },
+
+            dismissLinkUpdate: () => set({ linkUpdate: null }),
+
+            undoLinkUpdate: async () => {
+                const { lastLinkUpdate: plan, vaultPath } = get()
+                if (!plan || !vaultPath) return false
+                set({ lastLinkUpdate: null })
+
+                try {
+                    // Restore link text first (paths in the plan are post-move paths)
+                    const renames = reverseRenames(plan.renames)
+                    const editorStore = await import('./editorStore').then(m => m.useEditorStore.getState())
+                    for (const file of plan.files) {
+                        const current = await window.api.readFile(file.path)
+                        const restored = current === file.after ? file.before : rewriteLinks(current, renames).content
+                        if (restored !== current) await window.api.writeFile(file.path, restored)
+                        editorStore.applyLinkRewrite(file.path, restored, renames)
+                    }
+
+                    // Then move the item back
+                    if (await window.api.pathExists(plan.oldPath)) {
+                        set({ error: 'Item already exists at the original location' })
+                    } else {
+                        await window.api.moveFile(plan.newPath, plan.oldPath)
+                        await window.api.moveSnapshots(vaultPath, plan.newPath, plan.oldPath)
+                        await syncMovedItem(plan.newPath, plan.oldPath)
+                    }
+
+                    await get().refreshTree()
+                    const graphStore = await import('./graphStore').then(m => m.useGraphStore.getState())
+                    if (graphStore.parsedDocs.size > 0) graphStore.refreshGraph()
+                    return true
+                } catch (error) {
+                    set({
+                        error: error instanceof Error ? error.message : 'Failed to undo link update'
+                    })
+                    return false
+                }
+            },
+
+            clearLastLinkUpdate: () => set({ lastLinkUpdate: null }),
+
+            relinkTarget: async (sourcePaths: string[], oldTarget: string, newTarget: string) => {
+                const renames = [{ oldTarget, newTarget }]
+                const editorStore = await import('./editorStore').then(m => m.useEditorStore.getState())
+                const graphStore = await import('./graphStore').then(m => m.useGraphStore.getState())
+
+                try {
+                    for (const path of new Set(sourcePaths)) {
+                        const content = await window.api.readFile(path)
+                        const rewritten = rewriteLinks(content, renames).content
+                        if (rewritten !== content) await window.api.writeFile(path, rewritten)
+                        editorStore.applyLinkRewrite(path, rewritten, renames)
+                        get().updateIndexEntry(path, rewritten)
+                        graphStore.upsertParsedDoc(path, rewritten)
+                    }
+                    graphStore.recalculateGraph()
+                    return true
+                } catch (error) {
+                    set({
+                        error: error instanceof Error ? error.message : 'Failed to update links'
+                    })
+                    return false
+                }
+            },
+
+            toggleIgnoredLinkIssue: (key: string) => set(state => ({
+                ignoredLinkIssues: state.ignoredLinkIssues.includes(key)
+                    ? state.ignoredLinkIssues.filter(k => k !== key)
+                    : [...state.ignoredLinkIssues, key]
+            })),
+
+            setAttachmentFolder: (folder: string) => set({ attachmentFolder: folder.trim() }),
+
+            setAttachmentFolderRules: (rules: Record<string, string>) => set({
+                attachmentFolderRules: Object.fromEntries(Object.entries(rules)
+                    .map(([folder, target]) => [folder.trim().replace(/^\/+|\/+$/g, ''), target.trim()])
+                    .filter(([folder]) => folder !== ''))
+            }),
+
+            getAttachmentDir: (notePath: string) => {
+                const { vaultPath, attachmentFolder, attachmentFolderRules } = get()
+                if (!vaultPath) return null
+                const noteDir = notePath.substring(0, notePath.lastIndexOf('/'))
+
+                // The closest folder with a rule of its own wins over the global setting
+                const relativeDir = noteDir.slice(vaultPath.length + 1)
+                const ruleFolder = Object.keys(attachmentFolderRules)
+                    .filter(ruleDir => relativeDir === ruleDir || relativeDir.startsWith(`${ruleDir}/`))
+                    .sort((a, b) => b.length - a.length)[0]
+
+                const folder = (ruleFolder !== undefined ? attachmentFolderRules[ruleFolder] : attachmentFolder).replace(/\/+$/, '')
+                if (folder === '' || folder === '/') return vaultPath
+                if (folder === '.' || folder.startsWith('./')) {
+                    return folder === '.' ? noteDir : `${noteDir}/${folder.slice(2)}`
+                }
+                return `${vaultPath}/${folder.replace(/^\/+/, '')}`
+            },
+
             // UI Actions
-            toggleSidebar: () => set((state) => ({ isSidebarCollapsed: !state.isSidebarCollapsed }))
+            toggleSidebar: () => set((state) => ({ isSidebarCollapsed: !state.isSidebarCollapsed })),
+            setSidebarView: (view) => set({ sidebarView: view, isSidebarCollapsed: false })
         }),
         {
             name: 'cortex-vault',
             partialize: (state) => ({
                 vaultPath: state.vaultPath,
-                isSidebarCollapsed: state.isSidebarCollapsed
+                isSidebarCollapsed: state.isSidebarCollapsed,
+                ignoredLinkIssues: state.ignoredLinkIssues,
+                attachmentFolder: state.attachmentFolder,
+                attachmentFolderRules: state.attachmentFolderRules
             })
         }
     )
@@ -0,0 +1,164 @@
+import { getEmbedBlockType } from '@shared/markdown'
+import { parseWikiLink } from '@shared/wikiLinks'
+
+/**
+ * Finding which notes use which attachments, attachments nobody uses and references to
+ * attachments that don't exist
+ */
+
+// Reference to a file from a note: ![[file]], [[file.pdf]], ![alt](path) or [text](path)
+export interface AttachmentReference {
+    target: string      // As written (URL-decoded for Markdown links)
+    line: number        // 1-based
+    embed: boolean
+}
+
+export interface BrokenReference extends AttachmentReference {
+    notePath: string
+}
+
+export interface AttachmentReport {
+    usage: Map<string, string[]>    // Attachment path -> notes that use it
+    orphans: string[]               // Attachments no note uses
+    broken: BrokenReference[]       // References to files that don't exist
+}
+
+const WIKI_LINK_REGEX = /(!?)\[\[([^\]\n]+)\]\]/g
+const MARKDOWN_LINK_REGEX = /(!?)\[[^\]\n]*\]\(<?([^)\s>]+)>?(?:\s+"[^"\n]*")?\)/g
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i
+
+/**
+ * Whether a link target is a file other than a note (has an extension that isn't .md)
+ */
+export function isAttachmentTarget(target: string): boolean {
+    return getEmbedBlockType(target) !== 'embed'
+}
+
+/**
+ * Attachment references in a note's Markdown. Code blocks and inline code are skipped.
+ */
+export function collectAttachmentReferences(content: string): AttachmentReference[] {
+    const references: AttachmentReference[] = []
+    let inCodeBlock = false
+
+    content.split('\n').forEach((rawLine, index) => {
+        if (rawLine.trimStart().startsWith('```')) {
+            inCodeBlock = !inCodeBlock
+            return
+        }
+        if (inCodeBlock) return
+        const line = rawLine.replace(/`[^`\n]*`/g, match => ' '.repeat(match.length))
+
+        for (const match of line.matchAll(WIKI_LINK_REGEX)) {
+            const { target } = parseWikiLink(match[2])
+            if (target && isAttachmentTarget(target)) {
+                references.push({ target, line: index + 1, embed: match[1] === '!' })
+            }
+        }
+        for (const match of line.matchAll(MARKDOWN_LINK_REGEX)) {
+            const href = match[2].split('#')[0]
+            if (!href || URL_SCHEME_REGEX.test(href)) continue
+            let target = href
+            try {
+                target = decodeURIComponent(href)
+            } catch {
+                // Keep the target as written
+            }
+            if (isAttachmentTarget(target)) references.push({ target, line: index + 1, embed: match[1] === '!' })
+        }
+    })
+    return references
+}
+
+function normalizePath(path: string): string {
+    const segments: string[] = []
+    for (const segment of path.split('/')) {
+        if (segment === '.' || (segment === '' && segments.length > 0)) continue
+        if (segment === '..') segments.pop()
+        else segments.push(segment)
+    }
+    return segments.join('/')
+}
+
+/**
+ * File a reference points at, the way Obsidian resolves it: an absolute path, a path relative
+ * to the note or the vault, or (for a bare name) any file with that name.
+ * Returns null when nothing matches; absolute paths outside the vault are returned as they are.
+ */
+export function resolveAttachmentTarget(target: string, notePath: string, vaultPath: string, filePaths: string[]): string | null {
+    if (target.startsWith('file://')) target = decodeURI(target.slice('file://'.length))
+    if (target.startsWith('/') || /^[a-z]:[\\/]/i.test(target)) {
+        if (!target.startsWith(`${vaultPath}/`)) return target
+        return filePaths.includes(target) ? target : null
+    }
+
+    const noteDir = notePath.slice(0, notePath.lastIndexOf('/'))
+    for (const candidate of [normalizePath(`${noteDir}/${target}`), normalizePath(`${vaultPath}/${target}`)]) {
+        if (filePaths.includes(candidate)) return candidate
+    }
+
+    // ![[name.png]] or ![[folder/name.png]] anywhere in the vault; the closest to the note wins
+    const suffix = `/${target.replace(/^(\.\/)+/, '')}`
+    const matches = filePaths.filter(path => path.endsWith(suffix))
+    if (matches.length <= 1) return matches[0] ?? null
+    return matches.sort((a, b) => getSharedPrefixLength(b, noteDir) - getSharedPrefixLength(a, noteDir))[0]
+}
+
+function getSharedPrefixLength(a: string, b: string): number {
+    const aParts = a.split('/')
+    const bParts = b.split('/')
+    let length = 0
+    while (length < aParts.length && length < bParts.length && aParts[length] === bParts[length]) length++
+    return length
+}
+
+/**
+ * Which notes use each attachment, which attachments are unused and which references are broken
+ */
+export function analyzeAttachments(
+    attachmentPaths: string[],
+    notes: Array<{ path: string; content: string }>,
+    vaultPath: string
+): AttachmentReport {
+    const usage = new Map<string, string[]>(attachmentPaths.map(path => [path, []]))
+    const broken: BrokenReference[] = []
+
+    for (const note of notes) {
+        for (const reference of collectAttachmentReferences(note.content)) {
+            const resolved = resolveAttachmentTarget(reference.target, note.path, vaultPath, attachmentPaths)
+            if (resolved === null) {
+                broken.push({ ...reference, notePath: note.path })
+                continue
+            }
+            const users = usage.get(resolved)
+            if (users && !users.includes(note.path)) users.push(note.path)
+        }
+    }
+
+    const orphans = attachmentPaths.filter(path => usage.get(path)!.length === 0)
+    return { usage, orphans, broken }
+}
+
+/**
+ * File size for display (1.2 MB)
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    const units = ['KB', 'MB', 'GB']
+    let size = bytes / 1024
+    let unit = 0
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024
+        unit++
+    }
+    return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`
+}
+
+/**
+ * Name and vault-relative folder of an attachment, for display
+ */
+export function describeAttachment(path: string, vaultPath: string): { name: string; folder: string } {
+    const relative = path.startsWith(`${vaultPath}/`) ? path.slice(vaultPath.length + 1) : path
+    const slash = relative.lastIndexOf('/')
+    return { name: relative.slice(slash + 1), folder: slash === -1 ? '' : relative.slice(0, slash) }
+}
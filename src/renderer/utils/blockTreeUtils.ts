@@ -0,0 +1,140 @@
+import type { Block } from '@shared/types'
+
+/**
+ * Where a block sits in the tree: its sibling list, its index there and the toggle it belongs to
+ */
+export interface BlockLocation {
+    siblings: Block[]
+    index: number
+    parent: Block | null
+}
+
+export type BlockDropPosition = 'above' | 'below' | 'inside'
+
+/**
+ * Blocks in the order they are shown: toggle children follow their toggle unless it is collapsed
+ */
+export function flattenVisibleBlocks(blocks: Block[]): Block[] {
+    const flat: Block[] = []
+    for (const block of blocks) {
+        flat.push(block)
+        if (block.children && !block.collapsed) {
+            flat.push(...flattenVisibleBlocks(block.children))
+        }
+    }
+    return flat
+}
+
+/**
+ * Find a block anywhere in the tree
+ */
+export function findBlockLocation(blocks: Block[], blockId: string, parent: Block | null = null): BlockLocation | null {
+    const index = blocks.findIndex(b => b.block_id === blockId)
+    if (index !== -1) return { siblings: blocks, index, parent }
+
+    for (const block of blocks) {
+        if (!block.children) continue
+        const location = findBlockLocation(block.children, blockId, block)
+        if (location) return location
+    }
+    return null
+}
+
+/**
+ * Block with this id anywhere in the tree
+ */
+export function findBlock(blocks: Block[], blockId: string): Block | undefined {
+    const location = findBlockLocation(blocks, blockId)
+    return location?.siblings[location.index]
+}
+
+/**
+ * Replace a block anywhere in the tree
+ */
+export function updateBlockInTree(blocks: Block[], blockId: string, update: (block: Block) => Block): Block[] {
+    return blocks.map(block => {
+        if (block.block_id === blockId) return update(block)
+        if (block.children) return { ...block, children: updateBlockInTree(block.children, blockId, update) }
+        return block
+    })
+}
+
+// Rewrite the sibling list that holds a block, wherever it is
+function editSiblings(blocks: Block[], blockId: string, edit: (siblings: Block[], index: number) => Block[]): Block[] {
+    const index = blocks.findIndex(b => b.block_id === blockId)
+    if (index !== -1) return edit(blocks, index)
+    return blocks.map(block => block.children
+        ? { ...block, children: editSiblings(block.children, blockId, edit) }
+        : block)
+}
+
+/**
+ * Replace a block anywhere in the tree with zero or more blocks at the same level
+ */
+export function replaceBlockInTree(blocks: Block[], blockId: string, replacement: Block[]): Block[] {
+    return editSiblings(blocks, blockId, (siblings, index) =>
+        [...siblings.slice(0, index), ...replacement, ...siblings.slice(index + 1)]
+    )
+}
+
+/**
+ * Insert blocks right after a block anywhere in the tree, at its level
+ */
+export function insertBlocksAfterInTree(blocks: Block[], afterId: string, newBlocks: Block[]): Block[] {
+    return editSiblings(blocks, afterId, (siblings, index) =>
+        [...siblings.slice(0, index + 1), ...newBlocks, ...siblings.slice(index + 1)]
+    )
+}
+
+/**
+ * Take blocks out of the tree wherever they are. Returns the remaining tree and the removed
+ * blocks in document order.
+ */
+export function removeBlocksFromTree(blocks: Block[], blockIds: Set<string>): [Block[], Block[]] {
+    const removed: Block[] = []
+    const remove = (nodes: Block[]): Block[] => nodes.flatMap(block => {
+        if (blockIds.has(block.block_id)) {
+            removed.push(block)
+            return []
+        }
+        return block.children ? [{ ...block, children: remove(block.children) }] : [block]
+    })
+    return [remove(blocks), removed]
+}
+
+/**
+ * Move blocks next to a target block, at whatever level it is, or into a toggle as its first
+ * children. Blocks can't be moved into themselves; the tree is returned unchanged then.
+ */
+export function moveBlocksInTree(
+    blocks: Block[],
+    blockIds: Set<string>,
+    targetId: string,
+    position: BlockDropPosition
+): Block[] {
+    const [remaining, moved] = removeBlocksFromTree(blocks, blockIds)
+    if (moved.length === 0) return blocks
+
+    const insert = (nodes: Block[]): Block[] | null => {
+        const index = nodes.findIndex(b => b.block_id === targetId)
+        if (index !== -1) {
+            const target = nodes[index]
+            if (position === 'inside') {
+                const children = [...moved, ...(target.children || [])]
+                return nodes.map((b, i) => i === index ? { ...target, children, collapsed: false } : b)
+            }
+            const at = position === 'below' ? index + 1 : index
+            return [...nodes.slice(0, at), ...moved, ...nodes.slice(at)]
+        }
+        for (let i = 0; i < nodes.length; i++) {
+            const children = nodes[i].children
+            if (!children) continue
+            const inserted = insert(children)
+            if (inserted) return nodes.map((b, j) => j === i ? { ...b, children: inserted } : b)
+        }
+        return null
+    }
+
+    // The target is gone when it was one of the moved blocks or inside one of them
+    return insert(remaining) ?? blocks
+}
@@ -0,0 +1,46 @@
+import type { Block } from '@shared/types'
+
+/**
+ * A callout type as Obsidian defines it; aliases share its icon and color
+ */
+export interface CalloutKind {
+    type: string
+    label: string
+    icon: string
+    aliases: string[]
+}
+
+export const CALLOUT_KINDS: CalloutKind[] = [
+    { type: 'note', label: 'Note', icon: '📝', aliases: [] },
+    { type: 'abstract', label: 'Abstract', icon: '📋', aliases: ['summary', 'tldr'] },
+    { type: 'info', label: 'Info', icon: 'ℹ️', aliases: [] },
+    { type: 'todo', label: 'Todo', icon: '☑️', aliases: [] },
+    { type: 'tip', label: 'Tip', icon: '💡', aliases: ['hint', 'important'] },
+    { type: 'success', label: 'Success', icon: '✅', aliases: ['check', 'done'] },
+    { type: 'question', label: 'Question', icon: '❓', aliases: ['help', 'faq'] },
+    { type: 'warning', label: 'Warning', icon: '⚠️', aliases: ['caution', 'attention'] },
+    { type: 'failure', label: 'Failure', icon: '❌', aliases: ['fail', 'missing'] },
+    { type: 'danger', label: 'Danger', icon: '🚫', aliases: ['error'] },
+    { type: 'bug', label: 'Bug', icon: '🐞', aliases: [] },
+    { type: 'example', label: 'Example', icon: '📑', aliases: [] },
+    { type: 'quote', label: 'Quote', icon: '💬', aliases: ['cite'] }
+]
+
+/**
+ * Kind for a [!type] as written (case-insensitive, aliases included); unknown types look like notes
+ */
+export function getCalloutKind(type: string | undefined): CalloutKind {
+    const name = (type || 'note').toLowerCase()
+    return CALLOUT_KINDS.find(kind => kind.type === name || kind.aliases.includes(name)) ?? CALLOUT_KINDS[0]
+}
+
+/**
+ * Title shown in the callout header: the custom title, or the type name
+ */
+export function getCalloutTitle(block: Block): string {
+    if (block.calloutTitle) return block.calloutTitle
+    const name = block.calloutType || 'note'
+    const kind = getCalloutKind(name)
+    if (kind.type === name.toLowerCase()) return kind.label
+    return name.charAt(0).toUpperCase() + name.slice(1).toLowerCase()
+}
@@ -0,0 +1,80 @@
+import type { Block } from '@shared/types'
+import { getAnchorSection } from '@shared/wikiLinks'
+
+// A source cited in an AI answer:
+// [cite: Notes/Plan.md#^anchor], [cite: Notes/Plan.md#<Block ID>], [cite: Notes/Plan.md#Heading] or [cite: Notes/Plan.md]
+export interface Citation {
+    target: string      // As written, e.g. "Notes/Plan.md#^risks"
+    path: string        // Vault-relative path (or note title)
+    anchor?: string     // #^anchor
+    fragment?: string   // #<Block ID> or #Heading
+}
+
+// Code spans and fences are matched first so citations shown as code stay code
+const CITATION_OR_CODE_REGEX = /```[\s\S]*?```|`[^`\n]*`|\[cite:\s*([^\]\n]+?)\s*\]/g
+
+// Citations become markdown links with this protocol, rendered as chips by AIMarkdown
+export const CITATION_URL_PREFIX = 'cite:'
+
+export function parseCitation(target: string): Citation {
+    const hashIndex = target.indexOf('#')
+    if (hashIndex === -1) return { target, path: target.trim() }
+
+    const path = target.slice(0, hashIndex).trim()
+    // Models sometimes copy the label along with the ID
+    const ref = target.slice(hashIndex + 1).replace(/^\s*Block ID:\s*/i, '').trim()
+    if (!ref) return { target, path }
+    if (ref.startsWith('^')) return { target, path, anchor: ref.slice(1) }
+    return { target, path, fragment: ref }
+}
+
+/**
+ * Every distinct citation target in an answer, in order of appearance
+ */
+export function extractCitations(content: string): string[] {
+    const targets = new Set<string>()
+    for (const match of content.matchAll(CITATION_OR_CODE_REGEX)) {
+        if (match[1]) targets.add(match[1])
+    }
+    return [...targets]
+}
+
+/**
+ * Rewrite the target of every [cite: ...] outside code
+ */
+export function replaceCitations(content: string, replace: (target: string) => string): string {
+    return content.replace(CITATION_OR_CODE_REGEX, (match, target?: string) =>
+        target ? `[cite: ${replace(target)}]` : match
+    )
+}
+
+/**
+ * Rewrite [cite: ...] as `[cite](cite:...)` links so the markdown renderer hands them to the chip
+ */
+export function linkCitations(content: string): string {
+    return content.replace(CITATION_OR_CODE_REGEX, (match, target?: string) =>
+        target ? `[cite](${CITATION_URL_PREFIX}${encodeURIComponent(target)})` : match
+    )
+}
+
+function findBlockById(blocks: Block[], blockId: string): Block | null {
+    for (const block of blocks) {
+        if (block.block_id === blockId) return block
+        const child = block.children ? findBlockById(block.children, blockId) : null
+        if (child) return child
+    }
+    return null
+}
+
+/**
+ * Blocks a citation points to inside its note (empty if it points nowhere), and whether the
+ * fragment was a Block ID rather than a heading
+ */
+export function findCitedBlocks(blocks: Block[], citation: Citation): { blocks: Block[]; byBlockId: boolean } {
+    if (citation.anchor) return { blocks: getAnchorSection(blocks, { blockId: citation.anchor }), byBlockId: false }
+    if (!citation.fragment) return { blocks, byBlockId: false }
+
+    const block = findBlockById(blocks, citation.fragment)
+    if (block) return { blocks: [block], byBlockId: true }
+    return { blocks: getAnchorSection(blocks, { heading: citation.fragment }), byBlockId: false }
+}
@@ -0,0 +1,124 @@
+import type { Block } from '@shared/types'
+import { parseFrontmatter } from '@shared/frontmatter'
+import { getBlockText, parseContentToBlocks } from '@shared/markdown'
+
+// Chunks are cut at heading boundaries, and before they grow past this many characters
+const MAX_CHUNK_CHARS = 1200
+
+// A passage of a note, embedded on its own
+export interface NoteChunk {
+    heading: string         // Heading trail, e.g. "Plan > Risks" (empty before the first heading)
+    blockIndex: number      // Index of the chunk's first block in the note
+    anchor?: string         // ^id of the first block, when it has one
+    text: string
+}
+
+function getHeadingLevel(block: Block): number {
+    const match = block.type.match(/^heading(\d)$/)
+    return match ? parseInt(match[1]) : 0
+}
+
+// Pieces of at most `size` characters, cut at whitespace where possible
+function splitText(text: string, size: number): string[] {
+    const pieces: string[] = []
+    let rest = text
+    while (rest.length > size) {
+        const cut = rest.lastIndexOf(' ', size)
+        const end = cut > size / 2 ? cut : size
+        pieces.push(rest.slice(0, end).trim())
+        rest = rest.slice(end).trim()
+    }
+    if (rest) pieces.push(rest)
+    return pieces
+}
+
+/**
+ * Split a note into passages by heading section, then by size.
+ * Each passage starts on a block boundary so it can be cited by block (a very long block
+ * becomes several passages pointing at the same block).
+ */
+export function chunkNote(content: string): NoteChunk[] {
+    const { body } = parseFrontmatter(content)
+    const blocks = parseContentToBlocks(body)
+    const chunks: NoteChunk[] = []
+    const trail: Array<{ level: number; text: string }> = []
+    let current: NoteChunk | null = null
+    let hasBody = false  // Whether `current` has more than its heading
+
+    const flush = () => {
+        if (current && current.text.trim()) chunks.push(current)
+        current = null
+        hasBody = false
+    }
+
+    blocks.forEach((block, index) => {
+        const level = getHeadingLevel(block)
+        if (level > 0) {
+            flush()
+            while (trail.length > 0 && trail[trail.length - 1].level >= level) trail.pop()
+            trail.push({ level, text: block.content.trim() })
+        }
+
+        for (const text of splitText(getBlockText(block).trim(), MAX_CHUNK_CHARS)) {
+            // A heading stays with the text under it
+            if (current && hasBody && current.text.length + text.length > MAX_CHUNK_CHARS) flush()
+            if (!current) {
+                current = {
+                    heading: trail.map(h => h.text).join(' > '),
+                    blockIndex: index,
+                    anchor: block.anchor,
+                    text: ''
+                }
+            }
+            current.text += (current.text ? '\n' : '') + text
+            if (level === 0) hasBody = true
+        }
+    })
+    flush()
+
+    return chunks
+}
+
+/**
+ * Where a chunk points in its note, as a link target: the block's ^id, else its heading
+ */
+export function getChunkTarget(relativePath: string, chunk: Pick<NoteChunk, 'heading' | 'anchor'>): string {
+    if (chunk.anchor) return `${relativePath}#^${chunk.anchor}`
+    const heading = chunk.heading.split(' > ').pop()
+    return heading ? `${relativePath}#${heading}` : relativePath
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) return 0
+    let dot = 0
+    let normA = 0
+    let normB = 0
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i]
+        normA += a[i] * a[i]
+        normB += b[i] * b[i]
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+// Vectors are stored as base64 Float32 data: about a third of the size of JSON numbers
+export function encodeVector(vector: ArrayLike<number>): string {
+    const bytes = new Uint8Array(Float32Array.from(vector).buffer)
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return btoa(binary)
+}
+
+export function decodeVector(encoded: string): Float32Array {
+    const binary = atob(encoded)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return new Float32Array(bytes.buffer)
+}
+
+export async function hashText(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text))
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
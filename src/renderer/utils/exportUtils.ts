@@ -0,0 +1,649 @@
+import type { Block, Document, ExportAsset, ExportBundle, ExportFile, TableCell } from '@shared/types'
+import { serializeBlocks, serializeDocumentToMarkdown, getEmbedBlockType } from '@shared/markdown'
+import { parseWikiLink, getWikiLinkLabel, getAnchorSection } from '@shared/wikiLinks'
+import { getCalloutKind, getCalloutTitle } from './calloutUtils'
+import { parseQuery, runQuery, getFieldValue, formatQueryValue, type QueryNote, type QueryResult } from './queryUtils'
+
+/**
+ * Exporting notes out of the vault: HTML pages (also printed to PDF) and portable Markdown
+ * that other apps can read, with [[links]] and ![[embeds]] turned into relative links.
+ * Paths in the bundle are relative to the export root and use '/'.
+ */
+
+export interface ExportNote {
+    path: string        // In the vault
+    name: string        // Relative to the export root, without extension ('Projects/Plan')
+    document: Document
+}
+
+export interface ExportSource {
+    vaultPath: string
+    notes: ExportNote[]
+    resolveLink: (target: string) => string | null  // Vault path of the note a [[link]] points to
+    documents: Map<string, Document>                // Embedded notes by vault path, exported or not
+    queryNotes: QueryNote[]                         // Document index, for query block results
+}
+
+const ATTACHMENTS_DIR = 'attachments'
+export const MAX_EMBED_DEPTH = 3
+const LIST_TYPES = ['bullet', 'numbered', 'todo']
+const HEADING_TAGS: Record<string, string> = {
+    heading1: 'h1', heading2: 'h2', heading3: 'h3', heading4: 'h4', heading5: 'h5', heading6: 'h6'
+}
+
+// Same tokens as MarkdownRenderer: links, bold, italic, strike, code, highlights, hyperlinks
+const INLINE_REGEX = /(!?\[\[.*?\]\]|\*\*.*?\*\*|\*.*?\*|~~.*?~~|`.*?`|==.*?==(?:\^\[(?:[^\[\]]|\[\[.*?\]\])*\])?|(?<!\[)\[[^\[\]]*\]\([^)]+\))/g
+const HIGHLIGHT_REGEX = /^==(.*?)==(?:\^\[((?:[^\[\]]|\[\[.*?\]\])*)\])?$/
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+/**
+ * Fragment id for a heading, GitHub style: lowercase, punctuation dropped, spaces as dashes
+ */
+export function slugify(text: string): string {
+    return text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s+/g, '-')
+}
+
+/**
+ * Relative link from one export file to another ('a/Note.html' -> '../b/Other.html'), URL-encoded
+ */
+export function relativeLink(fromPath: string, toPath: string): string {
+    const from = fromPath.split('/').slice(0, -1)
+    const to = toPath.split('/')
+    let common = 0
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++
+    return [...Array(from.length - common).fill('..'), ...to.slice(common)].map(encodeURIComponent).join('/')
+}
+
+function isRemote(source: string): boolean {
+    return /^https?:\/\//.test(source)
+}
+
+/**
+ * Attachments used by the exported notes, each copied once into the attachments folder
+ * under a unique name
+ */
+function createAssetCollector(): { add: (source: string, notePath: string) => string; list: () => ExportAsset[] } {
+    const assets = new Map<string, ExportAsset>()
+    const names = new Set<string>()
+
+    const add = (written: string, notePath: string): string => {
+        const source = written.replace(/^file:\/\//, '')
+        const existing = assets.get(source)
+        if (existing) return existing.path
+
+        const fileName = source.split('/').pop() || 'attachment'
+        const dot = fileName.lastIndexOf('.')
+        const base = dot > 0 ? fileName.slice(0, dot) : fileName
+        const ext = dot > 0 ? fileName.slice(dot) : ''
+        let name = fileName
+        for (let counter = 1; names.has(name.toLowerCase()); counter++) name = `${base}_${counter}${ext}`
+        names.add(name.toLowerCase())
+
+        const asset = { source, notePath, path: `${ATTACHMENTS_DIR}/${name}` }
+        assets.set(source, asset)
+        return asset.path
+    }
+
+    return { add, list: () => [...assets.values()] }
+}
+
+type AssetCollector = ReturnType<typeof createAssetCollector>
+
+// ============================================
+// HTML
+// ============================================
+
+interface HtmlRenderState {
+    source: ExportSource
+    note: ExportNote
+    filePath: string            // Export file the HTML ends up in
+    assets: AssetCollector
+    noteLink: (notePath: string, fragment?: string) => string | null  // href for a note, null if not exported
+    idPrefix: string            // Keeps ids unique when several notes share a page
+    usedIds: Set<string>
+    expandAll: boolean          // Print: toggles and foldable callouts open
+    embedAncestors: string[]
+}
+
+function uniqueId(state: HtmlRenderState, id: string): string {
+    let unique = `${state.idPrefix}${id}`
+    for (let counter = 1; state.usedIds.has(unique); counter++) unique = `${state.idPrefix}${id}-${counter}`
+    state.usedIds.add(unique)
+    return unique
+}
+
+function wikiLinkHref(state: HtmlRenderState, inner: string): string | null {
+    const link = parseWikiLink(inner)
+    const notePath = link.target ? state.source.resolveLink(link.target) : state.note.path
+    if (!notePath) return null
+    const fragment = link.blockId ? `block-${link.blockId}` : link.heading ? slugify(link.heading) : undefined
+    return state.noteLink(notePath, fragment)
+}
+
+function renderInlineHtml(content: string, state: HtmlRenderState): string {
+    return content.split(INLINE_REGEX).map((part, i) => {
+        // split() puts the captured tokens at odd indexes
+        if (i % 2 === 0) return escapeHtml(part)
+
+        const highlight = part.match(HIGHLIGHT_REGEX)
+        if (highlight) {
+            const comment = highlight[2]
+            const mark = `<mark>${renderInlineHtml(highlight[1], state)}</mark>`
+            return comment ? `${mark}<span class="highlight-comment">${renderInlineHtml(comment, state)}</span>` : mark
+        }
+
+        const wikiLink = part.match(/^(!?)\[\[(.+?)\]\]$/)
+        if (wikiLink) {
+            const link = parseWikiLink(wikiLink[2])
+            if (wikiLink[1] && getEmbedBlockType(link.target) === 'image') {
+                return `<img src="${escapeHtml(assetHref(state, link.target))}" alt="${escapeHtml(link.alias || '')}">`
+            }
+            const label = escapeHtml(getWikiLinkLabel(link))
+            const href = wikiLinkHref(state, wikiLink[2])
+            return href
+                ? `<a class="wikilink" href="${escapeHtml(href)}">${label}</a>`
+                : `<span class="wikilink unresolved">${label}</span>`
+        }
+
+        const hyperlink = part.match(/^\[([^\[\]]*)\]\(([^)]+)\)$/)
+        if (hyperlink) return `<a href="${escapeHtml(hyperlink[2])}">${renderInlineHtml(hyperlink[1], state)}</a>`
+
+        const code = part.match(/^`(.*?)`$/)
+        if (code) return `<code>${escapeHtml(code[1])}</code>`
+
+        const bold = part.match(/^\*\*(.*?)\*\*$/)
+        if (bold) return `<strong>${renderInlineHtml(bold[1], state)}</strong>`
+
+        const italic = part.match(/^\*(.*?)\*$/)
+        if (italic) return `<em>${renderInlineHtml(italic[1], state)}</em>`
+
+        const strike = part.match(/^~~(.*?)~~$/)
+        if (strike) return `<s>${renderInlineHtml(strike[1], state)}</s>`
+
+        return escapeHtml(part)
+    }).join('')
+}
+
+function renderLinesHtml(content: string, state: HtmlRenderState): string {
+    return content.split('\n').map(line => renderInlineHtml(line, state)).join('<br>')
+}
+
+function assetHref(state: HtmlRenderState, source: string): string {
+    if (isRemote(source)) return source
+    return relativeLink(state.filePath, state.assets.add(source, state.note.path))
+}
+
+function renderTableHtml(block: Block, state: HtmlRenderState): string {
+    const rows = block.tableData || []
+    if (rows.length === 0) return ''
+    const renderCell = (cell: TableCell, tag: 'th' | 'td') => {
+        const align = cell.align ? ` style="text-align: ${cell.align}"` : ''
+        return `<${tag}${align}>${renderLinesHtml(cell.content, state)}</${tag}>`
+    }
+    const hasHeader = block.tableHeader !== false
+    const head = hasHeader ? `<thead><tr>${rows[0].map(cell => renderCell(cell, 'th')).join('')}</tr></thead>` : ''
+    const body = (hasHeader ? rows.slice(1) : rows).map(row => `<tr>${row.map(cell => renderCell(cell, 'td')).join('')}</tr>`)
+    return `<table>${head}<tbody>${body.join('')}</tbody></table>`
+}
+
+function renderQueryHtml(block: Block, state: HtmlRenderState): string {
+    const { vaultPath, queryNotes } = state.source
+    let result: QueryResult
+    try {
+        result = runQuery(parseQuery(block.content), queryNotes, vaultPath, state.note.path)
+    } catch {
+        return `<pre><code>${escapeHtml(block.content)}</code></pre>`
+    }
+    const { notes, columns } = result
+
+    const fileCell = (note: QueryNote) => {
+        const href = state.noteLink(note.path)
+        const name = escapeHtml(note.filename)
+        return href ? `<a class="wikilink" href="${escapeHtml(href)}">${name}</a>` : name
+    }
+    const value = (note: QueryNote, field: string) => escapeHtml(formatQueryValue(getFieldValue(note, field, vaultPath)))
+
+    if (result.query.view === 'list') {
+        const [field] = columns
+        const items = notes.map(note => `<li>${fileCell(note)}${field ? ` — ${value(note, field)}` : ''}</li>`)
+        return `<ul class="query-results">${items.join('')}</ul>`
+    }
+    const head = `<tr><th>File</th>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr>`
+    const rows = notes.map(note => `<tr><td>${fileCell(note)}</td>${columns.map(column => `<td>${value(note, column)}</td>`).join('')}</tr>`)
+    return `<table class="query-results"><thead>${head}</thead><tbody>${rows.join('')}</tbody></table>`
+}
+
+function renderEmbedHtml(block: Block, state: HtmlRenderState): string {
+    const link = parseWikiLink(block.content)
+    const notePath = link.target ? state.source.resolveLink(link.target) : state.note.path
+    const label = escapeHtml(getWikiLinkLabel(link))
+    const href = wikiLinkHref(state, block.content)
+    const title = href ? `<a class="wikilink" href="${escapeHtml(href)}">${label}</a>` : label
+
+    const document = notePath ? state.source.documents.get(notePath) : undefined
+    const key = `${notePath}#${link.heading ?? link.blockId ?? ''}`
+    let body = ''
+    if (document && !state.embedAncestors.includes(key) && state.embedAncestors.length <= MAX_EMBED_DEPTH) {
+        // Ids inside the embed would clash with the note's own, so it gets none of its own
+        body = renderBlocksHtml(getAnchorSection(document.blocks, link), {
+            ...state,
+            idPrefix: `${state.idPrefix}embed-${state.usedIds.size}-`,
+            embedAncestors: [...state.embedAncestors, key]
+        })
+    }
+    return `<div class="embed"><div class="embed-title">${title}</div>${body}</div>`
+}
+
+function renderBlockHtml(block: Block, state: HtmlRenderState): string {
+    const id = block.anchor ? ` id="${escapeHtml(uniqueId(state, `block-${block.anchor}`))}"` : ''
+
+    const headingTag = HEADING_TAGS[block.type]
+    if (headingTag) {
+        // Linkable by heading text and, with an anchor, by block id
+        const headingId = escapeHtml(uniqueId(state, slugify(block.content)))
+        const anchor = id ? `<span${id}></span>` : ''
+        return `<${headingTag} id="${headingId}">${anchor}${renderInlineHtml(block.content, state)}</${headingTag}>`
+    }
+
+    switch (block.type) {
+        case 'quote':
+            return `<blockquote${id}>${renderLinesHtml(block.content, state)}</blockquote>`
+        case 'divider':
+            return '<hr>'
+        case 'code':
+            return `<pre><code${block.language ? ` class="language-${escapeHtml(block.language)}"` : ''}>${escapeHtml(block.content)}</code></pre>`
+        case 'query':
+            return renderQueryHtml(block, state)
+        case 'callout': {
+            const kind = getCalloutKind(block.calloutType)
+            const title = `<span class="callout-icon">${kind.icon}</span>${renderInlineHtml(getCalloutTitle(block), state)}`
+            const content = block.content ? `<div class="callout-content">${renderLinesHtml(block.content, state)}</div>` : ''
+            if (block.calloutFold) {
+                const open = block.calloutFold === '+' || state.expandAll ? ' open' : ''
+                return `<details class="callout callout-${kind.type}"${id}${open}><summary class="callout-title">${title}</summary>${content}</details>`
+            }
+            return `<div class="callout callout-${kind.type}"${id}><div class="callout-title">${title}</div>${content}</div>`
+        }
+        case 'toggle': {
+            const open = !block.collapsed || state.expandAll ? ' open' : ''
+            const children = renderBlocksHtml(block.children || [], state)
+            return `<details class="toggle"${id}${open}><summary>${renderInlineHtml(block.content, state)}</summary>${children}</details>`
+        }
+        case 'image': {
+            if (!block.content) return ''
+            const caption = block.alt ? `<figcaption>${escapeHtml(block.alt)}</figcaption>` : ''
+            return `<figure><img src="${escapeHtml(assetHref(state, block.content))}" alt="${escapeHtml(block.alt || '')}">${caption}</figure>`
+        }
+        case 'file': {
+            const name = block.content.split('/').pop() || block.content
+            return `<p class="file"><a href="${escapeHtml(assetHref(state, block.content))}">📎 ${escapeHtml(name)}</a></p>`
+        }
+        case 'embed':
+            return renderEmbedHtml(block, state)
+        case 'table':
+            return renderTableHtml(block, state)
+        case 'raw':
+            // HTML passes through; other Markdown the editor has no block for is shown as written
+            return block.content.trimStart().startsWith('<')
+                ? block.content
+                : `<p class="raw">${renderLinesHtml(block.content, state)}</p>`
+        default:
+            return block.content.trim() ? `<p${id}>${renderLinesHtml(block.content, state)}</p>` : ''
+    }
+}
+
+function renderListItemHtml(block: Block, state: HtmlRenderState): string {
+    const id = block.anchor ? ` id="${escapeHtml(uniqueId(state, `block-${block.anchor}`))}"` : ''
+    if (block.type === 'todo') {
+        const checked = block.checked ? ' checked' : ''
+        return `<li class="task${block.checked ? ' done' : ''}"${id}><input type="checkbox" disabled${checked}> ${renderInlineHtml(block.content, state)}`
+    }
+    return `<li${id}>${renderInlineHtml(block.content, state)}`
+}
+
+/**
+ * HTML for a run of blocks. List items are nested by indent, and indented non-list blocks
+ * stay inside the list item above them.
+ */
+function renderBlocksHtml(blocks: Block[], state: HtmlRenderState): string {
+    const html: string[] = []
+    const openLists: { tag: 'ul' | 'ol'; indent: number }[] = []
+    const closeList = () => html.push(`</li></${openLists.pop()!.tag}>`)
+
+    for (const block of blocks) {
+        const indent = block.indent || 0
+
+        if (LIST_TYPES.includes(block.type)) {
+            const tag = block.type === 'numbered' ? 'ol' : 'ul'
+            while (openLists.length > 0 && openLists[openLists.length - 1].indent > indent) closeList()
+
+            const current = openLists[openLists.length - 1]
+            if (current && current.indent === indent && current.tag === tag) {
+                html.push('</li>')
+            } else {
+                if (current && current.indent === indent) closeList()
+                const number = tag === 'ol' ? Number(block.marker?.match(/^\d+/)?.[0] ?? 1) : 1
+                html.push(number !== 1 ? `<ol start="${number}">` : `<${tag}>`)
+                openLists.push({ tag, indent })
+            }
+            html.push(renderListItemHtml(block, state))
+            continue
+        }
+
+        // Blank lines don't end lists
+        if (block.type === 'text' && !block.content.trim()) continue
+        while (openLists.length > 0 && openLists[openLists.length - 1].indent >= indent) closeList()
+        html.push(renderBlockHtml(block, state))
+    }
+    while (openLists.length > 0) closeList()
+    return html.join('\n')
+}
+
+// Shown like in the vault: the file name
+function getNoteTitle(note: ExportNote): string {
+    return note.name.split('/').pop() || note.name
+}
+
+function renderHtmlPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+function createHtmlState(
+    source: ExportSource,
+    note: ExportNote,
+    filePath: string,
+    assets: AssetCollector,
+    noteLink: HtmlRenderState['noteLink'],
+    options: { idPrefix?: string; usedIds?: Set<string>; expandAll?: boolean } = {}
+): HtmlRenderState {
+    return {
+        source,
+        note,
+        filePath,
+        assets,
+        noteLink,
+        idPrefix: options.idPrefix ?? '',
+        usedIds: options.usedIds ?? new Set(),
+        expandAll: options.expandAll ?? false,
+        embedAncestors: [`${note.path}#`]
+    }
+}
+
+/**
+ * One HTML page per note (plus an index page when there are several), linked to each other
+ */
+export function exportNotesToHtml(source: ExportSource): ExportBundle {
+    const assets = createAssetCollector()
+    const pagePaths = new Map(source.notes.map(note => [note.path, `${note.name}.html`]))
+
+    const files: ExportFile[] = source.notes.map(note => {
+        const filePath = pagePaths.get(note.path)!
+        const noteLink = (notePath: string, fragment?: string) => {
+            const page = pagePaths.get(notePath)
+            if (!page) return null
+            const href = page === filePath ? '' : relativeLink(filePath, page)
+            return fragment ? `${href}#${encodeURIComponent(fragment)}` : href || '#'
+        }
+        const state = createHtmlState(source, note, filePath, assets, noteLink)
+        const title = getNoteTitle(note)
+        const body = renderBlocksHtml(note.document.blocks, state)
+        return {
+            path: filePath,
+            content: renderHtmlPage(title, `<article>\n<h1 class="note-title">${escapeHtml(title)}</h1>\n${body}\n</article>`)
+        }
+    })
+
+    if (source.notes.length > 1) {
+        const items = source.notes.map(note =>
+            `<li><a href="${relativeLink('index.html', pagePaths.get(note.path)!)}">${escapeHtml(note.name)}</a></li>`
+        )
+        files.push({ path: 'index.html', content: renderHtmlPage('Index', `<ul class="export-index">\n${items.join('\n')}\n</ul>`) })
+    }
+
+    return { files, assets: assets.list() }
+}
+
+/**
+ * All notes on one print-styled page, each starting on a new sheet (the source for PDF export)
+ */
+export function exportNotesToPrintHtml(source: ExportSource, title: string): ExportBundle {
+    const assets = createAssetCollector()
+    const filePath = 'index.html'
+    const usedIds = new Set<string>()
+    const prefixes = new Map(source.notes.map((note, i) => [note.path, source.notes.length > 1 ? `n${i}-` : '']))
+    const noteLink = (notePath: string, fragment?: string) => {
+        const prefix = prefixes.get(notePath)
+        if (prefix === undefined) return null
+        return `#${encodeURIComponent(fragment ? `${prefix}${fragment}` : `${prefix}note`)}`
+    }
+
+    const articles = source.notes.map(note => {
+        const prefix = prefixes.get(note.path)!
+        const state = createHtmlState(source, note, filePath, assets, noteLink, { idPrefix: prefix, usedIds, expandAll: true })
+        const body = renderBlocksHtml(note.document.blocks, state)
+        return `<article id="${prefix}note">\n<h1 class="note-title">${escapeHtml(getNoteTitle(note))}</h1>\n${body}\n</article>`
+    })
+
+    return {
+        files: [{ path: filePath, content: renderHtmlPage(title, articles.join('\n')) }],
+        assets: assets.list()
+    }
+}
+
+// ============================================
+// Portable Markdown
+// ============================================
+
+interface MarkdownRenderState {
+    source: ExportSource
+    note: ExportNote
+    filePath: string
+    assets: AssetCollector
+    notePaths: Map<string, string>  // Vault path -> export path of the exported notes
+}
+
+function escapeLinkText(text: string): string {
+    return text.replace(/([[\]])/g, '\\$1')
+}
+
+function markdownLink(label: string, href: string): string {
+    return `[${escapeLinkText(label)}](${href})`
+}
+
+// Text with [[links]] replaced by their labels (for HTML attributes and <summary>)
+function toPlainText(content: string): string {
+    return content.replace(/!?\[\[(.+?)\]\]/g, (_, inner: string) => getWikiLinkLabel(parseWikiLink(inner)))
+}
+
+/**
+ * Standard link for a [[link]] to an exported note; the plain label for anything else
+ */
+function portableWikiLink(inner: string, state: MarkdownRenderState): string {
+    const link = parseWikiLink(inner)
+    const label = getWikiLinkLabel(link)
+    const notePath = link.target ? state.source.resolveLink(link.target) : state.note.path
+    const page = notePath ? state.notePaths.get(notePath) : undefined
+    if (!page) return label
+
+    const href = page === state.filePath ? '' : relativeLink(state.filePath, page)
+    // Block ids mean nothing outside the vault; the link goes to the note
+    const fragment = link.heading ? `#${encodeURIComponent(slugify(link.heading))}` : ''
+    return markdownLink(label, href + fragment || '#')
+}
+
+function portableAssetLink(source: string, state: MarkdownRenderState): string {
+    if (isRemote(source)) return source
+    return relativeLink(state.filePath, state.assets.add(source, state.note.path))
+}
+
+/**
+ * Rewrite Obsidian syntax in a line of text: [[links]], inline ![[embeds]] and ==highlights==
+ * (inline code is left alone)
+ */
+function toPortableInline(content: string, state: MarkdownRenderState): string {
+    return content.split(/(`[^`\n]*`)/).map((part, i) => {
+        if (i % 2 === 1) return part
+        return part
+            .replace(/==(.*?)==(?:\^\[((?:[^\[\]]|\[\[.*?\]\])*)\])?/g, (_, text: string, comment?: string) => {
+                const title = comment ? ` title="${escapeHtml(toPlainText(comment))}"` : ''
+                return `<mark${title}>${text}</mark>`
+            })
+            .replace(/(!?)\[\[(.+?)\]\]/g, (_, embed: string, inner: string) => {
+                const { target, alias } = parseWikiLink(inner)
+                if (!embed) return portableWikiLink(inner, state)
+                switch (getEmbedBlockType(target)) {
+                    case 'image':
+                        return `![${escapeLinkText(alias || '')}](${portableAssetLink(target, state)})`
+                    case 'file':
+                        return markdownLink(alias || target.split('/').pop() || target, portableAssetLink(target, state))
+                    default:
+                        return portableWikiLink(inner, state)
+                }
+            })
+    }).join('')
+}
+
+function toPortableBlock(block: Block, state: MarkdownRenderState): Block[] {
+    // Anchors (` ^id`) would show up as text elsewhere
+    const base: Block = { ...block, anchor: undefined }
+
+    switch (block.type) {
+        case 'code':
+        case 'query':
+        case 'divider':
+        case 'raw':
+            return [block]
+        case 'image':
+            if (!block.content) return []
+            return [{ ...base, type: 'text', content: `![${escapeLinkText(block.alt || '')}](${portableAssetLink(block.content, state)})` }]
+        case 'file': {
+            const name = block.content.split('/').pop() || block.content
+            return [{ ...base, type: 'text', content: markdownLink(name, portableAssetLink(block.content, state)) }]
+        }
+        case 'embed':
+            return [{ ...base, type: 'text', content: portableWikiLink(block.content, state) }]
+        case 'table':
+            return [{
+                ...base,
+                tableData: block.tableData?.map(row => row.map(cell => ({ ...cell, content: toPortableInline(cell.content, state) })))
+            }]
+        case 'toggle': {
+            // <details> is the closest thing to a toggle that Markdown renderers understand
+            const children = serializeBlocks(toPortableBlocks(block.children || [], state))
+            const open = block.collapsed ? '' : ' open'
+            const summary = escapeHtml(toPlainText(block.content))
+            return [{
+                block_id: block.block_id,
+                type: 'raw',
+                content: `<details${open}>\n<summary>${summary}</summary>\n\n${children}\n\n</details>`
+            }]
+        }
+        case 'callout':
+            return [{
+                ...base,
+                calloutTitle: block.calloutTitle && toPortableInline(block.calloutTitle, state),
+                content: toPortableInline(block.content, state)
+            }]
+        default:
+            return [{ ...base, content: toPortableInline(block.content, state) }]
+    }
+}
+
+function toPortableBlocks(blocks: Block[], state: MarkdownRenderState): Block[] {
+    return blocks.flatMap(block => toPortableBlock(block, state))
+}
+
+/**
+ * Notes as standard Markdown files with their attachments in an attachments folder
+ */
+export function exportNotesToMarkdown(source: ExportSource): ExportBundle {
+    const assets = createAssetCollector()
+    const notePaths = new Map(source.notes.map(note => [note.path, `${note.name}.md`]))
+
+    const files = source.notes.map(note => {
+        const filePath = notePaths.get(note.path)!
+        const state: MarkdownRenderState = { source, note, filePath, assets, notePaths }
+        const document = { ...note.document, blocks: toPortableBlocks(note.document.blocks, state) }
+        return { path: filePath, content: serializeDocumentToMarkdown(document, { touch: false }) }
+    })
+
+    return { files, assets: assets.list() }
+}
+
+// Styles of exported pages, light theme, with print rules for PDF
+const EXPORT_STYLES = `
+:root { color-scheme: light; }
+body {
+    margin: 0 auto;
+    padding: 48px 32px;
+    max-width: 760px;
+    font: 16px/1.65 -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Apple SD Gothic Neo', 'Noto Sans KR', sans-serif;
+    color: #1d1d1f;
+    background: #fff;
+}
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.6em 0 0.6em; }
+.note-title { margin-top: 0; font-size: 2em; }
+p { margin: 0.5em 0; }
+a { color: #0066cc; text-decoration: none; }
+a:hover { text-decoration: underline; }
+.wikilink.unresolved { color: #86868b; }
+mark { background: #fff3a3; padding: 0 2px; border-radius: 2px; }
+.highlight-comment { margin-left: 4px; font-size: 0.85em; color: #6e6e73; }
+.highlight-comment::before { content: '💬 '; }
+code { font-family: 'SF Mono', Menlo, Consolas, monospace; font-size: 0.9em; background: #f2f2f4; padding: 1px 4px; border-radius: 4px; }
+pre { background: #f5f5f7; padding: 12px 16px; border-radius: 8px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 0.8em 0; padding: 0 0 0 14px; border-left: 3px solid #d2d2d7; color: #424245; }
+hr { border: none; border-top: 1px solid #d2d2d7; margin: 1.6em 0; }
+ul, ol { padding-left: 1.6em; margin: 0.4em 0; }
+li.task { list-style: none; margin-left: -1.3em; }
+li.task.done { color: #86868b; text-decoration: line-through; }
+figure { margin: 1em 0; }
+figure img, p img { max-width: 100%; height: auto; border-radius: 6px; }
+figcaption { font-size: 0.85em; color: #6e6e73; text-align: center; margin-top: 4px; }
+table { border-collapse: collapse; margin: 1em 0; width: 100%; }
+th, td { border: 1px solid #d2d2d7; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f5f5f7; font-weight: 600; }
+details.toggle { margin: 0.4em 0; }
+details.toggle > summary { cursor: pointer; }
+details.toggle > :not(summary) { margin-left: 1.4em; }
+.callout { margin: 1em 0; padding: 10px 14px; border-radius: 8px; background: #f0f5ff; border-left: 4px solid #3b82f6; }
+.callout-title { font-weight: 600; }
+.callout-icon { margin-right: 6px; }
+.callout-content { margin-top: 4px; }
+.callout-tip, .callout-success { background: #eefaf1; border-color: #22c55e; }
+.callout-question, .callout-warning, .callout-todo { background: #fff8eb; border-color: #f59e0b; }
+.callout-failure, .callout-danger, .callout-bug { background: #fff0f0; border-color: #ef4444; }
+.callout-example, .callout-abstract { background: #f5f0ff; border-color: #8b5cf6; }
+.callout-quote { background: #f5f5f7; border-color: #86868b; }
+.embed { margin: 1em 0; padding: 8px 14px; border: 1px solid #d2d2d7; border-radius: 8px; }
+.embed-title { font-size: 0.85em; color: #6e6e73; margin-bottom: 4px; }
+.file a { display: inline-block; padding: 6px 10px; border: 1px solid #d2d2d7; border-radius: 6px; }
+.raw { white-space: pre-wrap; }
+@media print {
+    body { max-width: none; padding: 0; font-size: 11pt; }
+    article + article { break-before: page; }
+    a { color: inherit; }
+    pre, blockquote, table, figure, .callout, .embed { break-inside: avoid; }
+    h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+}
+`
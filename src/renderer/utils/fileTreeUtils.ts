@@ -0,0 +1,103 @@
+import type { FileNode } from '@shared/types'
+
+/**
+ * Check whether a path is the given path or lives inside it
+ */
+export function isSameOrInside(filePath: string, parentPath: string): boolean {
+    return filePath === parentPath || filePath.startsWith(parentPath + '/')
+}
+
+/**
+ * Replace the `oldPrefix` part of a path with `newPrefix`
+ */
+export function rebasePath(filePath: string, oldPrefix: string, newPrefix: string): string {
+    return filePath === oldPrefix ? newPrefix : newPrefix + filePath.slice(oldPrefix.length)
+}
+
+/**
+ * Sort nodes the same way readFileTree does: directories first, then alphabetically
+ */
+function sortNodes(nodes: FileNode[]): FileNode[] {
+    return [...nodes].sort((a, b) => {
+        if (a.isDirectory && !b.isDirectory) return -1
+        if (!a.isDirectory && b.isDirectory) return 1
+        return a.name.localeCompare(b.name)
+    })
+}
+
+/**
+ * Remove a node (and its subtree) from the tree
+ */
+export function removeTreeNode(nodes: FileNode[], targetPath: string): FileNode[] {
+    return nodes
+        .filter(node => node.path !== targetPath)
+        .map(node =>
+            node.isDirectory && node.children && isSameOrInside(targetPath, node.path)
+                ? { ...node, children: removeTreeNode(node.children, targetPath) }
+                : node
+        )
+}
+
+/**
+ * Insert a node into the tree under its parent folder, creating missing folders on the way.
+ * An existing node at the same path is replaced (folders keep their children).
+ */
+export function insertTreeNode(nodes: FileNode[], node: FileNode, vaultPath: string): FileNode[] {
+    const relative = node.path.slice(vaultPath.length + 1)
+    const segments = relative.split('/')
+
+    const insertAt = (level: FileNode[], depth: number, parentPath: string): FileNode[] => {
+        if (depth === segments.length - 1) {
+            const existing = level.find(n => n.path === node.path)
+            const merged = existing?.isDirectory && node.isDirectory
+                ? { ...node, children: node.children?.length ? node.children : existing.children }
+                : node
+            return sortNodes([...level.filter(n => n.path !== node.path), merged])
+        }
+
+        const folderPath = `${parentPath}/${segments[depth]}`
+        const folder = level.find(n => n.path === folderPath && n.isDirectory)
+            ?? { name: segments[depth], path: folderPath, isDirectory: true, children: [] }
+        const updatedFolder = { ...folder, children: insertAt(folder.children ?? [], depth + 1, folderPath) }
+        return sortNodes([...level.filter(n => n.path !== folderPath), updatedFolder])
+    }
+
+    return insertAt(nodes, 0, vaultPath)
+}
+
+export function findTreeNode(nodes: FileNode[], targetPath: string): FileNode | null {
+    for (const node of nodes) {
+        if (node.path === targetPath) return node
+        if (node.isDirectory && node.children && isSameOrInside(targetPath, node.path)) {
+            const found = findTreeNode(node.children, targetPath)
+            if (found) return found
+        }
+    }
+    return null
+}
+
+function rebaseNode(node: FileNode, oldPrefix: string, newPrefix: string): FileNode {
+    return {
+        ...node,
+        path: rebasePath(node.path, oldPrefix, newPrefix),
+        children: node.children?.map(child => rebaseNode(child, oldPrefix, newPrefix))
+    }
+}
+
+/**
+ * Move a node (and its subtree) to a new path
+ */
+export function renameTreeNode(
+    nodes: FileNode[],
+    oldPath: string,
+    newPath: string,
+    isDirectory: boolean,
+    vaultPath: string
+): FileNode[] {
+    const existing = findTreeNode(nodes, oldPath)
+    const moved = existing
+        ? { ...rebaseNode(existing, oldPath, newPath), name: newPath.split('/').pop() || existing.name }
+        : { name: newPath.split('/').pop() || newPath, path: newPath, isDirectory, children: isDirectory ? [] : undefined }
+
+    return insertTreeNode(removeTreeNode(nodes, oldPath), moved, vaultPath)
+}
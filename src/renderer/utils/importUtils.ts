@@ -0,0 +1,525 @@
+import TurndownService from 'turndown'
+import { gfm } from 'turndown-plugin-gfm'
+import type { Block, ImportSourceFile, ImportWrite, TableCell } from '@shared/types'
+import { parseContentToBlocks, serializeBlocks, getEmbedBlockType } from '@shared/markdown'
+import { parseFrontmatter, splitFrontmatter, stringifyFrontmatter } from '@shared/frontmatter'
+import { parseWikiLink } from '@shared/wikiLinks'
+import { parseDelimitedText } from './tableUtils'
+import { relativeLink } from './exportUtils'
+
+/**
+ * Converting content from other apps into vault notes: Notion exports, Obsidian vaults and
+ * HTML pages (saved or copied from Word, too). Everything here is pure; the import service
+ * reads the source and writes the planned files.
+ */
+
+export type ImportStatus = 'converted' | 'partial' | 'copied' | 'skipped' | 'failed'
+
+// What happened to one file of the source
+export interface ImportReportEntry {
+    source: string      // Path in the source
+    target?: string     // Vault-relative path it was written to
+    status: ImportStatus
+    issues: string[]    // What could not be converted
+}
+
+export interface ImportPlan {
+    writes: ImportWrite[]
+    report: ImportReportEntry[]
+}
+
+const MARKDOWN_LINK_REGEX = /(!?)\[([^\]\n]*)\]\(([^)\s]+)\)/g
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i
+const RESERVED_META_KEYS = ['id', 'title', 'tags', 'created_at', 'updated_at']
+
+function getDirName(filePath: string): string {
+    const index = filePath.lastIndexOf('/')
+    return index === -1 ? '' : filePath.slice(0, index)
+}
+
+function getBaseName(filePath: string): string {
+    return filePath.split('/').pop() || filePath
+}
+
+function withoutExtension(name: string): string {
+    const dot = name.lastIndexOf('.')
+    return dot > 0 ? name.slice(0, dot) : name
+}
+
+/**
+ * Resolve a relative path against a folder ('a/b' + '../c.md' -> 'a/c.md'), null if it leaves the root
+ */
+function resolveRelativePath(dirPath: string, relativePath: string): string | null {
+    const segments = dirPath ? dirPath.split('/') : []
+    for (const segment of relativePath.split('/')) {
+        if (segment === '' || segment === '.') continue
+        if (segment === '..') {
+            if (segments.length === 0) return null
+            segments.pop()
+        } else {
+            segments.push(segment)
+        }
+    }
+    return segments.join('/')
+}
+
+/**
+ * Frontmatter for an imported note, like a note created in the app (extra properties after it)
+ */
+export function createNoteFrontmatter(title: string, properties: Record<string, unknown> = {}): string {
+    const now = new Date().toISOString()
+    const meta: Record<string, unknown> = {
+        id: crypto.randomUUID(),
+        title,
+        tags: properties.tags ?? [],
+        created_at: now,
+        updated_at: now
+    }
+    for (const [key, value] of Object.entries(properties)) {
+        if (!RESERVED_META_KEYS.includes(key)) meta[key] = value
+    }
+    return stringifyFrontmatter(meta, null)
+}
+
+function collectRawBlocks(blocks: Block[]): Block[] {
+    return blocks.flatMap(block => [
+        ...(block.type === 'raw' ? [block] : []),
+        ...collectRawBlocks(block.children || [])
+    ])
+}
+
+/**
+ * Constructs in a note that the editor keeps as raw Markdown instead of blocks of their own
+ */
+export function describeUnconverted(markdown: string): string[] {
+    const { body } = parseFrontmatter(markdown)
+    return collectRawBlocks(parseContentToBlocks(body)).map(block => {
+        const firstLine = block.content.trim().split('\n')[0]
+        return `Kept as raw Markdown: ${firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine}`
+    })
+}
+
+function reportEntry(source: string, target: string | undefined, issues: string[]): ImportReportEntry {
+    return { source, target, status: issues.length > 0 ? 'partial' : 'converted', issues }
+}
+
+// ============================================
+// Notion
+// ============================================
+
+// ' 0123456789abcdef0123456789abcdef' that Notion appends to page and folder names
+// ('_all' marks the CSV of a database with every property)
+const NOTION_ID_REGEX = /\s+[0-9a-f]{32}(?:_all)?(?=(?:\.[^./]*)?$)/i
+
+/**
+ * Page, database or folder name without the id Notion appends to it
+ */
+export function stripNotionId(name: string): string {
+    return name.replace(NOTION_ID_REGEX, '') || name
+}
+
+interface NotionContext {
+    targets: Map<string, string>        // Source path -> path in the import folder
+    linkNames: Map<string, string>      // Note path in the import folder -> [[link]] target
+    targetFolder: string                // Import folder, relative to the vault
+}
+
+/**
+ * Notion writes callouts as <aside> HTML, the icon first; they become [!NOTE] callouts
+ */
+function convertNotionAsides(markdown: string): string {
+    return markdown.replace(/^<aside>\n([\s\S]*?)\n<\/aside>$/gm, (_, inner: string) => {
+        const lines = inner.replace(/^\n+|\n+$/g, '').split('\n')
+        return ['> [!NOTE]', ...lines.map(line => line ? `> ${line}` : '>')].join('\n')
+    })
+}
+
+/**
+ * Database rows are exported as a title followed by `Property: value` lines; the properties
+ * of the database (its CSV columns) move into the frontmatter
+ */
+function extractNotionProperties(markdown: string, columns: string[]): { properties: Record<string, unknown>; body: string } {
+    const lines = markdown.split('\n')
+    let index = lines.findIndex(line => line.startsWith('# '))
+    if (index === -1) return { properties: {}, body: markdown }
+    index++
+    while (index < lines.length && lines[index].trim() === '') index++
+
+    const properties: Record<string, unknown> = {}
+    const start = index
+    for (; index < lines.length; index++) {
+        const match = lines[index].match(/^([^:\n]{1,80}): (.*)$/)
+        if (!match || !columns.includes(match[1])) break
+        const key = match[1].toLowerCase() === 'tags' ? 'tags' : match[1]
+        properties[key] = key === 'tags' ? match[2].split(',').map(tag => tag.trim()).filter(Boolean) : match[2]
+    }
+    if (index === start) return { properties, body: markdown }
+    while (index < lines.length && lines[index].trim() === '') index++
+    return { properties, body: [...lines.slice(0, start), ...lines.slice(index)].join('\n') }
+}
+
+/**
+ * Rewrite Notion's relative links: pages become [[links]], files ![[embeds]] (when on a line
+ * of their own) or links to their new place. Code blocks are left alone.
+ */
+function rewriteNotionLinks(markdown: string, sourcePath: string, ctx: NotionContext, issues: string[]): string {
+    const notePath = ctx.targets.get(sourcePath)!
+    let inCodeBlock = false
+
+    return markdown.split('\n').map(line => {
+        if (line.trimStart().startsWith('```')) {
+            inCodeBlock = !inCodeBlock
+            return line
+        }
+        if (inCodeBlock) return line
+
+        return line.replace(MARKDOWN_LINK_REGEX, (match, bang: string, text: string, href: string) => {
+            if (URL_SCHEME_REGEX.test(href) || href.startsWith('#')) return match
+
+            const hashIndex = href.indexOf('#')
+            const hrefPath = hashIndex === -1 ? href : href.slice(0, hashIndex)
+            let decoded = hrefPath
+            try {
+                decoded = decodeURIComponent(hrefPath)
+            } catch {
+                // Keep the path as written
+            }
+            const sourceTarget = resolveRelativePath(getDirName(sourcePath), decoded)
+            const target = sourceTarget !== null ? ctx.targets.get(sourceTarget) : undefined
+            if (!target) {
+                issues.push(`Link target not in the export: ${decoded}`)
+                return match
+            }
+
+            const linkName = ctx.linkNames.get(target)
+            if (linkName) {
+                const name = getBaseName(linkName)
+                return text && text !== name ? `[[${linkName}|${text}]]` : `[[${linkName}]]`
+            }
+
+            const vaultPath = `${ctx.targetFolder}/${target}`
+            if (line.trim() === match || bang) {
+                const isImage = getEmbedBlockType(vaultPath) === 'image'
+                const alt = isImage && text && text !== getBaseName(target) ? `|${text}` : ''
+                return `![[${vaultPath}${alt}]]`
+            }
+            return `[${text}](${relativeLink(notePath, target)})`
+        })
+    }).join('\n')
+}
+
+function convertNotionPage(text: string, sourcePath: string, ctx: NotionContext, columns: string[] | null): { content: string; issues: string[] } {
+    const issues: string[] = []
+    const markdown = convertNotionAsides(text.replace(/^﻿/, '').replace(/\r\n?/g, '\n'))
+    const { properties, body } = columns ? extractNotionProperties(markdown, columns) : { properties: {}, body: markdown }
+    const converted = rewriteNotionLinks(body, sourcePath, ctx, issues)
+    const title = withoutExtension(getBaseName(ctx.targets.get(sourcePath)!))
+    issues.push(...describeUnconverted(converted))
+    return { content: createNoteFrontmatter(title, properties) + converted.replace(/^\n+/, ''), issues }
+}
+
+/**
+ * A database CSV as a note with a table; first-column values link to their row pages
+ */
+function convertNotionDatabase(text: string, sourcePath: string, ctx: NotionContext): { content: string; issues: string[] } {
+    const notePath = ctx.targets.get(sourcePath)!
+    const rowFolder = withoutExtension(notePath)
+    const rows = parseDelimitedText(text.replace(/^﻿/, '').replace(/\r\n?/g, '\n').trimEnd(), ',')
+    if (rows.length === 0) return { content: createNoteFrontmatter(getBaseName(rowFolder)), issues: ['Empty database'] }
+
+    const colCount = rows[0].length
+    const tableData: TableCell[][] = rows.map((row, r) =>
+        Array.from({ length: colCount }, (_, c) => {
+            const value = (row[c] ?? '').trim()
+            const linkName = r > 0 && c === 0 ? ctx.linkNames.get(`${rowFolder}/${value}.md`) : undefined
+            if (!linkName) return { content: value }
+            return { content: getBaseName(linkName) === value ? `[[${linkName}]]` : `[[${linkName}|${value}]]` }
+        })
+    )
+    const table: Block = { block_id: crypto.randomUUID(), type: 'table', content: '', tableData, tableHeader: true }
+    return { content: `${createNoteFrontmatter(getBaseName(rowFolder))}${serializeBlocks([table])}\n`, issues: [] }
+}
+
+/**
+ * Plan importing a Notion "Markdown & CSV" export into `targetDir` (absolute, inside the vault):
+ * ids are stripped from names, links fixed, databases turned into table notes and other
+ * files copied along
+ */
+export function planNotionImport(files: ImportSourceFile[], sourceRoot: string, vaultPath: string, targetDir: string): ImportPlan {
+    const report: ImportReportEntry[] = []
+    const targets = new Map<string, string>()
+    const used = new Set<string>()
+
+    // A database is exported twice when it has hidden properties; the _all CSV has them all
+    const csvNames = new Set(files.filter(f => /_all\.csv$/i.test(f.path)).map(f => stripNotionId(f.path)))
+    const sourceFiles = files.filter(file => {
+        const isPartialCsv = /\.csv$/i.test(file.path) && !/_all\.csv$/i.test(file.path) && csvNames.has(stripNotionId(file.path))
+        if (isPartialCsv) report.push({ source: file.path, status: 'skipped', issues: ['Same database as the _all CSV'] })
+        return !isPartialCsv
+    })
+
+    for (const file of sourceFiles) {
+        let target = file.path.split('/').map(stripNotionId).join('/')
+        if (/\.csv$/i.test(target)) target = `${withoutExtension(target)}.md`
+        const base = withoutExtension(target)
+        const ext = target.slice(base.length)
+        for (let counter = 2; used.has(target.toLowerCase()); counter++) target = `${base} (${counter})${ext}`
+        used.add(target.toLowerCase())
+        targets.set(file.path, target)
+    }
+
+    // Notes are linked by name unless two imported notes share it
+    const targetFolder = targetDir.slice(vaultPath.length + 1)
+    const noteTargets = [...targets.entries()].filter(([source]) => /\.(md|csv)$/i.test(source)).map(([, target]) => target)
+    const nameCounts = new Map<string, number>()
+    for (const target of noteTargets) {
+        const name = withoutExtension(getBaseName(target)).toLowerCase()
+        nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1)
+    }
+    const linkNames = new Map(noteTargets.map(target => {
+        const name = withoutExtension(getBaseName(target))
+        return [target, nameCounts.get(name.toLowerCase())! > 1 ? `${targetFolder}/${withoutExtension(target)}` : name]
+    }))
+    const ctx: NotionContext = { targets, linkNames, targetFolder }
+
+    // Database columns by row folder (the CSV's name without extension)
+    const databaseColumns = new Map<string, string[]>()
+    for (const file of sourceFiles) {
+        if (!/\.csv$/i.test(file.path) || file.text === undefined) continue
+        const [header] = parseDelimitedText(file.text.replace(/^﻿/, '').split(/\r?\n/, 1)[0], ',')
+        databaseColumns.set(withoutExtension(targets.get(file.path)!), (header ?? []).map(column => column.trim()))
+    }
+
+    const writes: ImportWrite[] = []
+    for (const file of sourceFiles) {
+        const target = targets.get(file.path)!
+        const path = `${targetDir}/${target}`
+        const vaultRelative = `${targetFolder}/${target}`
+
+        if (/\.md$/i.test(file.path) && file.text !== undefined) {
+            const { content, issues } = convertNotionPage(file.text, file.path, ctx, databaseColumns.get(getDirName(target)) ?? null)
+            writes.push({ path, content })
+            report.push(reportEntry(file.path, vaultRelative, issues))
+        } else if (/\.csv$/i.test(file.path) && file.text !== undefined) {
+            const { content, issues } = convertNotionDatabase(file.text, file.path, ctx)
+            writes.push({ path, content })
+            report.push(reportEntry(file.path, vaultRelative, issues))
+        } else {
+            writes.push({ path, sourcePath: `${sourceRoot}/${file.path}` })
+            report.push({ source: file.path, target: vaultRelative, status: 'copied', issues: [] })
+        }
+    }
+
+    return { writes, report }
+}
+
+// ============================================
+// Obsidian
+// ============================================
+
+export interface ObsidianSettings {
+    attachmentFolder?: string   // Same rules as the vault setting ('/', './sub', 'folder')
+    templatesFolder?: string
+    dailyNotes?: { folder?: string; format?: string }
+    useMarkdownLinks: boolean
+    plugins: string[]
+}
+
+export interface ObsidianAnalysis {
+    isObsidianVault: boolean            // Has a .obsidian folder
+    settings: ObsidianSettings
+    noteCount: number
+    notesWithoutFrontmatter: string[]   // Relative paths
+    report: ImportReportEntry[]
+}
+
+// Community plugins whose syntax stays as written
+const PLUGIN_ISSUES: Record<string, string> = {
+    'dataview': 'Dataview queries are shown as code blocks',
+    'obsidian-tasks-plugin': 'Tasks plugin queries are shown as code blocks',
+    'templater-obsidian': 'Templater commands (<% %>) in templates are not run',
+    'obsidian-excalidraw-plugin': 'Excalidraw drawings can\'t be shown',
+    'obsidian-kanban': 'Kanban boards are shown as plain lists'
+}
+
+const PLUGIN_CODE_LANGUAGES = ['dataview', 'dataviewjs', 'tasks', 'mermaid', 'ad-note']
+
+function readJsonSetting(files: ImportSourceFile[], name: string): any {
+    const file = files.find(f => f.path === `.obsidian/${name}`)
+    if (!file?.text) return null
+    try {
+        return JSON.parse(file.text)
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Check an Obsidian vault before opening it as is: settings to take over and, per note,
+ * what the editor will not show the way Obsidian does
+ */
+export function analyzeObsidianVault(files: ImportSourceFile[]): ObsidianAnalysis {
+    const app = readJsonSetting(files, 'app.json') ?? {}
+    const templates = readJsonSetting(files, 'templates.json')
+    const dailyNotes = readJsonSetting(files, 'daily-notes.json')
+    const plugins = readJsonSetting(files, 'community-plugins.json')
+    const isObsidianVault = files.some(f => f.path.startsWith('.obsidian/'))
+
+    const settings: ObsidianSettings = {
+        // Obsidian's default is the vault root
+        attachmentFolder: isObsidianVault ? (app.attachmentFolderPath ?? '/') : undefined,
+        templatesFolder: typeof templates?.folder === 'string' ? templates.folder : undefined,
+        dailyNotes: dailyNotes ? { folder: dailyNotes.folder, format: dailyNotes.format } : undefined,
+        useMarkdownLinks: app.useMarkdownLinks === true,
+        plugins: Array.isArray(plugins) ? plugins.filter((p: unknown): p is string => typeof p === 'string') : []
+    }
+
+    const report: ImportReportEntry[] = []
+    const vaultIssues = settings.plugins.flatMap(plugin => PLUGIN_ISSUES[plugin] ? [PLUGIN_ISSUES[plugin]] : [])
+    if (settings.useMarkdownLinks) {
+        vaultIssues.push('New links are written as [[wikilinks]] (Obsidian was set to Markdown links)')
+    }
+    if (vaultIssues.length > 0) report.push({ source: '.obsidian', status: 'partial', issues: vaultIssues })
+
+    const filePaths = files.map(f => f.path).filter(p => !p.startsWith('.obsidian/'))
+    const fileNames = new Set(filePaths.map(p => getBaseName(p).toLowerCase()))
+    const exists = (target: string) => {
+        const candidates = target.includes('.') ? [target] : [target, `${target}.md`]
+        return candidates.some(candidate =>
+            fileNames.has(getBaseName(candidate).toLowerCase()) || filePaths.includes(candidate)
+        )
+    }
+
+    const notesWithoutFrontmatter: string[] = []
+    let noteCount = 0
+    for (const file of files) {
+        if (file.path.startsWith('.obsidian/')) continue
+        if (file.path.endsWith('.canvas')) {
+            report.push({ source: file.path, status: 'skipped', issues: ['Canvas files are not supported'] })
+            continue
+        }
+        if (!file.path.endsWith('.md') || file.text === undefined) continue
+
+        noteCount++
+        const text = file.text.replace(/\r\n?/g, '\n')
+        if (splitFrontmatter(text).raw === null) notesWithoutFrontmatter.push(file.path)
+        if (file.path.endsWith('.excalidraw.md')) {
+            report.push({ source: file.path, target: file.path, status: 'partial', issues: ['Excalidraw drawing is shown as raw data'] })
+            continue
+        }
+
+        const issues: string[] = []
+        const body = text.replace(/^```[\s\S]*?^```/gm, block => {
+            const language = block.slice(3, block.indexOf('\n')).trim()
+            if (PLUGIN_CODE_LANGUAGES.includes(language)) issues.push(`\`${language}\` block is shown as code`)
+            return ''
+        })
+        if (/%%[\s\S]*?%%/.test(body)) issues.push('Comments (%%...%%) are shown as text')
+        for (const match of body.matchAll(/!\[\[([^\]]+)\]\]/g)) {
+            const { target } = parseWikiLink(match[1])
+            if (target && !exists(target)) issues.push(`Missing embed: ${target}`)
+        }
+        issues.push(...describeUnconverted(text))
+        report.push(reportEntry(file.path, file.path, issues))
+    }
+
+    return { isObsidianVault, settings, noteCount, notesWithoutFrontmatter, report }
+}
+
+// ============================================
+// HTML (web pages, Word)
+// ============================================
+
+function parseHtml(html: string): Document {
+    return new DOMParser().parseFromString(html, 'text/html')
+}
+
+/**
+ * Title of a page: its <title>, else the first heading
+ */
+export function getHtmlTitle(html: string): string | null {
+    const doc = parseHtml(html)
+    const title = doc.title || doc.querySelector('h1')?.textContent || ''
+    return title.replace(/\s+/g, ' ').trim() || null
+}
+
+/**
+ * Image sources in a page, as written in the src attributes
+ */
+export function collectHtmlImages(html: string): string[] {
+    const sources = [...parseHtml(html).querySelectorAll('img')].map(img => img.getAttribute('src') || '')
+    return [...new Set(sources.filter(Boolean))]
+}
+
+/**
+ * Word writes lists as paragraphs with a marker span and an mso-list level; make them real lists
+ */
+function convertWordLists(doc: Document) {
+    doc.querySelectorAll('o\\:p').forEach(el => el.remove())
+
+    const paragraphs = [...doc.querySelectorAll('p')].filter(p =>
+        /MsoListParagraph/.test(p.className) || /mso-list:\s*l\d/.test(p.getAttribute('style') || '')
+    )
+    let lists: HTMLElement[] = []  // Open lists by level of the current run of items
+
+    for (const p of paragraphs) {
+        if (lists.length === 0 || p.previousElementSibling !== lists[0]) lists = []
+
+        const markerEl = p.querySelector('[style*="mso-list:Ignore"], [style*="mso-list: Ignore"]')
+        const marker = (markerEl?.textContent || '').replace(/ /g, ' ').trim()
+        markerEl?.remove()
+        const level = Math.min(Number(p.getAttribute('style')?.match(/level(\d+)/)?.[1] ?? 1), lists.length + 1)
+
+        lists = lists.slice(0, level)
+        if (!lists[level - 1]) {
+            const list = doc.createElement(/^[0-9a-z]{1,3}[.)]$/i.test(marker) ? 'ol' : 'ul')
+            if (level === 1) p.before(list)
+            else (lists[level - 2].lastElementChild ?? lists[level - 2]).append(list)
+            lists[level - 1] = list
+        }
+        const item = doc.createElement('li')
+        item.innerHTML = p.innerHTML
+        lists[level - 1].append(item)
+        p.remove()
+    }
+}
+
+/**
+ * Convert HTML to vault Markdown through turndown. `images` maps image sources to the
+ * vault-relative path of their copy (written as ![[embeds]]); remote images stay links.
+ */
+export function htmlToMarkdown(html: string, images: Map<string, string> = new Map()): string {
+    const doc = parseHtml(html)
+    convertWordLists(doc)
+
+    const turndown = new TurndownService({
+        headingStyle: 'atx',
+        codeBlockStyle: 'fenced',
+        bulletListMarker: '-',
+        emDelimiter: '*',
+        strongDelimiter: '**',
+        hr: '---'
+    })
+    turndown.use(gfm)
+    turndown.remove(['script', 'style', 'title', 'meta', 'link'])
+    turndown.addRule('highlight', {
+        filter: 'mark',
+        replacement: content => content ? `==${content}==` : ''
+    })
+    turndown.addRule('image', {
+        filter: 'img',
+        replacement: (_, node) => {
+            const img = node as HTMLImageElement
+            const src = img.getAttribute('src') || ''
+            const alt = (img.getAttribute('alt') || '').replace(/[[\]|\n]/g, ' ').trim()
+            const target = images.get(src)
+            if (target) return `\n\n![[${target}${alt ? `|${alt}` : ''}]]\n\n`
+            return /^https?:\/\//.test(src) ? `![${alt}](${src})` : ''
+        }
+    })
+
+    return turndown.turndown(doc.body)
+        .replace(/ /g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim() + '\n'
+}
@@ -0,0 +1,64 @@
+// The subset of JSON Schema used by tool declarations: every provider accepts it
+export interface JSONSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+    description?: string
+    properties?: Record<string, JSONSchema>
+    required?: string[]
+    items?: JSONSchema
+    enum?: Array<string | number | boolean>
+    minLength?: number
+    minItems?: number
+}
+
+function getType(value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (Number.isInteger(value)) return 'integer'
+    return typeof value
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem (empty when valid), worded
+ * so a model can fix its arguments from them.
+ */
+export function validateJSONSchema(schema: JSONSchema, value: unknown, path = 'arguments'): string[] {
+    const type = getType(value)
+    if (schema.type) {
+        const matches = schema.type === type || (schema.type === 'number' && type === 'integer')
+        if (!matches) return [`${path} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${type}`]
+    }
+
+    const errors: string[] = []
+    if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+        errors.push(`${path} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`)
+    }
+    if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} must not be empty`)
+    }
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`)
+        }
+        if (schema.items) {
+            value.forEach((item, i) => errors.push(...validateJSONSchema(schema.items!, item, `${path}[${i}]`)))
+        }
+    }
+    if (type === 'object') {
+        const object = value as Record<string, unknown>
+        const required = schema.required ?? []
+        for (const key of required) {
+            if (object[key] === undefined || object[key] === null) errors.push(`${path}.${key} is required`)
+        }
+        for (const [key, item] of Object.entries(object)) {
+            // Some models send null for arguments they leave out (reported above when required)
+            if (item === null) continue
+            const propertySchema = schema.properties?.[key]
+            if (!propertySchema) {
+                if (schema.properties) errors.push(`${path}.${key} is not a known property`)
+                continue
+            }
+            errors.push(...validateJSONSchema(propertySchema, item, `${path}.${key}`))
+        }
+    }
+    return errors
+}
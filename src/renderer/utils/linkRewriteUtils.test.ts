@@ -0,0 +1,47 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Block } from '@shared/types'
+import { rewriteBlockLinks, rewriteLinks } from './linkRewriteUtils'
+
+const RENAMES = [{ oldTarget: 'Old Note', newTarget: 'New Note' }]
+
+test('rewrites links whatever their case, keeping anchors and aliases', () => {
+    const { content, changes } = rewriteLinks('See [[Old Note]], [[old note#Part|alias]] and ![[OLD NOTE]].', RENAMES)
+    assert.equal(content, 'See [[New Note]], [[New Note#Part|alias]] and ![[New Note]].')
+    assert.deepEqual(changes.map(change => change.line), [1])
+})
+
+test('leaves fenced, indented and inline code alone', () => {
+    const markdown = [
+        '`[[Old Note]]` and ``[[Old Note]] ` `` but [[Old Note]]',
+        '~~~',
+        '[[Old Note]]',
+        '```',
+        '[[Old Note]]',
+        '~~~',
+        '',
+        '    [[Old Note]] in indented code',
+        '',
+        '    still code [[Old Note]]',
+        'Paragraph',
+        '    continued [[Old Note]]'
+    ].join('\n')
+    const lines = rewriteLinks(markdown, RENAMES).content.split('\n')
+    assert.equal(lines[0], '`[[Old Note]]` and ``[[Old Note]] ` `` but [[New Note]]')
+    assert.deepEqual(lines.slice(1, 10), markdown.split('\n').slice(1, 10))
+    assert.equal(lines[11], '    continued [[New Note]]')
+})
+
+test('rewrites indented list and toggle children', () => {
+    const markdown = '- Item\n\n    - nested [[Old Note]]\n\n>> Toggle\n\n\tchild [[Old Note]]'
+    assert.equal(rewriteLinks(markdown, RENAMES).content, markdown.replaceAll('Old Note', 'New Note'))
+})
+
+test('rewrites links in table cells of parsed blocks', () => {
+    const table: Block = {
+        block_id: 'table', type: 'table', content: '',
+        tableData: [[{ content: 'Link' }], [{ content: 'See [[old note]]' }]]
+    }
+    const [rewritten] = rewriteBlockLinks([table], RENAMES)
+    assert.equal(rewritten.tableData![1][0].content, 'See [[New Note]]')
+})
@@ -0,0 +1,186 @@
+import type { Block } from '@shared/types'
+import { isSameOrInside, rebasePath } from './fileTreeUtils'
+
+/**
+ * Rewriting [[links]] and ![[embeds]] after a note, attachment or folder is renamed or moved
+ */
+
+// Link target before and after the rename ("Old Name" -> "New Name", "folder/Old" -> "other/Old")
+export interface LinkRename {
+    oldTarget: string
+    newTarget: string
+}
+
+export interface LinkChange {
+    line: number  // 1-based
+    before: string
+    after: string
+}
+
+export interface LinkUpdateFile {
+    path: string
+    before: string  // File content on disk before the rewrite
+    after: string
+    changes: LinkChange[]
+}
+
+export interface LinkUpdatePlan {
+    oldPath: string
+    newPath: string
+    renames: LinkRename[]
+    files: LinkUpdateFile[]
+}
+
+// [[target#anchor|alias]] and ![[...]], after inline code spans so links shown as code stay as written
+const CODE_OR_LINK_REGEX = /(`+)(?!`).*?(?<!`)\1(?!`)|(!?\[\[)([^\]|#]*)([^\]]*\]\])/g
+
+// Opening line of a ``` or ~~~ code fence
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/
+
+// Indented by four spaces or a tab: code after a blank line, unless it belongs to a list item or toggle
+const INDENTED_REGEX = /^( {4}|\t)/
+const CONTAINER_LINE_REGEX = /^\s*(?:[-*+]|\d{1,9}[.)])(?:\s|$)|^>> /
+
+// Link targets match regardless of case, like note names on case-insensitive file systems
+function toTargetKey(target: string): string {
+    return target.trim().toLowerCase()
+}
+
+function getName(path: string): string {
+    return path.split('/').pop() || path
+}
+
+/**
+ * Link target for a file: notes are linked without the .md extension, attachments with it
+ */
+function toLinkTarget(relativePath: string): string {
+    return relativePath.endsWith('.md') ? relativePath.slice(0, -3) : relativePath
+}
+
+/**
+ * Link target changes caused by moving `oldPath` to `newPath`.
+ * `movedPaths` are the files affected (the file itself, or every file inside a moved folder);
+ * `allPaths` are all files in the vault, used to skip names that would become ambiguous.
+ */
+export function getLinkRenames(
+    oldPath: string,
+    newPath: string,
+    movedPaths: string[],
+    allPaths: string[],
+    vaultPath: string
+): LinkRename[] {
+    const renames: LinkRename[] = []
+    const seen = new Set<string>()
+    const add = (oldTarget: string, newTarget: string) => {
+        if (oldTarget === newTarget || seen.has(oldTarget)) return
+        seen.add(oldTarget)
+        renames.push({ oldTarget, newTarget })
+    }
+
+    for (const movedPath of movedPaths) {
+        const newFilePath = rebasePath(movedPath, oldPath, newPath)
+
+        // Name-only links ([[Note]]), unless another file with the same name would also match
+        const oldName = toLinkTarget(getName(movedPath))
+        const hasNamesake = allPaths.some(p =>
+            !isSameOrInside(p, oldPath) && p !== newFilePath && toTargetKey(toLinkTarget(getName(p))) === toTargetKey(oldName)
+        )
+        if (!hasNamesake) add(oldName, toLinkTarget(getName(newFilePath)))
+
+        // Path-style links ([[folder/Note]])
+        add(
+            toLinkTarget(movedPath.slice(vaultPath.length + 1)),
+            toLinkTarget(newFilePath.slice(vaultPath.length + 1))
+        )
+
+        // Dropped and pasted attachments are embedded by their full path
+        if (!movedPath.endsWith('.md')) add(movedPath, newFilePath)
+    }
+    return renames
+}
+
+/**
+ * Rewrite link targets in markdown content (fenced and indented code and inline code are left alone)
+ */
+export function rewriteLinks(content: string, renames: LinkRename[]): { content: string; changes: LinkChange[] } {
+    const targets = new Map(renames.map(r => [toTargetKey(r.oldTarget), r.newTarget]))
+    const changes: LinkChange[] = []
+    let openFence: string | null = null  // Marker of the fence the line is in
+    let inIndentedCode = false
+    let afterBlank = true               // The previous line was blank (or there is none)
+    let inContainer = false             // Indented lines continue a list item or toggle
+
+    const lines = content.split('\n').map((line, index) => {
+        const fence = line.match(FENCE_REGEX)?.[1]
+        if (openFence) {
+            // A fence is closed by a run of the same character, at least as long, with nothing after it
+            if (fence && fence[0] === openFence[0] && fence.length >= openFence.length && !line.trim().slice(fence.length)) {
+                openFence = null
+            }
+            return line
+        }
+
+        const isBlank = line.trim() === ''
+        const wasAfterBlank = afterBlank
+        afterBlank = isBlank
+        if (isBlank) return line
+        if (INDENTED_REGEX.test(line)) {
+            inIndentedCode = inIndentedCode || (wasAfterBlank && !inContainer)
+            if (inIndentedCode) return line
+        } else {
+            inIndentedCode = false
+            inContainer = CONTAINER_LINE_REGEX.test(line)
+        }
+
+        if (fence) {
+            openFence = fence
+            return line
+        }
+        if (!line.includes('[[')) return line
+
+        const rewritten = line.replace(CODE_OR_LINK_REGEX, (match, _code: string, open?: string, target?: string, rest?: string) => {
+            if (!open) return match
+            const newTarget = targets.get(toTargetKey(target!))
+            return newTarget === undefined ? match : `${open}${newTarget}${rest}`
+        })
+        if (rewritten !== line) {
+            changes.push({ line: index + 1, before: line, after: rewritten })
+        }
+        return rewritten
+    })
+
+    return { content: lines.join('\n'), changes }
+}
+
+// Blocks that store the inside of a ![[...]] embed without the brackets
+const EMBED_CONTENT_TYPES = ['embed', 'image', 'file']
+
+/**
+ * Rewrite link targets inside parsed blocks, keeping block ids (used for open tabs with unsaved edits)
+ */
+export function rewriteBlockLinks(blocks: Block[], renames: LinkRename[]): Block[] {
+    return blocks.map(block => {
+        let content = block.content
+        if (EMBED_CONTENT_TYPES.includes(block.type)) {
+            const rewritten = rewriteLinks(`![[${content}]]`, renames).content
+            content = rewritten.slice(3, -2)
+        } else if (block.type !== 'code' && content.includes('[[')) {
+            content = rewriteLinks(content, renames).content
+        }
+        const rewritten: Block = { ...block, content }
+        if (block.tableData) {
+            rewritten.tableData = block.tableData.map(row => row.map(cell =>
+                cell.content.includes('[[') ? { ...cell, content: rewriteLinks(cell.content, renames).content } : cell
+            ))
+        }
+        if (block.children) rewritten.children = rewriteBlockLinks(block.children, renames)
+        return rewritten
+    })
+}
+
+/**
+ * Swap old and new targets (for undo)
+ */
+export function reverseRenames(renames: LinkRename[]): LinkRename[] {
+    return renames.map(r => ({ oldTarget: r.newTarget, newTarget: r.oldTarget }))
+}
@@ -0,0 +1,175 @@
+import { splitFrontmatter } from '@shared/frontmatter'
+
+/**
+ * Line-based three-way merge (diff3 style) used when a dirty tab's file changes on disk,
+ * and the two-way line diff shown in File history
+ */
+
+export interface MergeResult {
+    merged: string
+    conflicts: number
+}
+
+// Above this many LCS cells the merge gives up and reports the whole file as one conflict
+const MAX_LCS_CELLS = 4_000_000
+
+export const CONFLICT_MARKERS = {
+    start: '<<<<<<< Mine',
+    separator: '=======',
+    end: '>>>>>>> On disk'
+}
+
+/**
+ * For each line of `a`, the index of the matching line in `b` (or -1), based on the LCS
+ */
+function matchLines(a: string[], b: string[]): number[] | null {
+    const n = a.length
+    const m = b.length
+    if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return null
+
+    const table = new Uint32Array((n + 1) * (m + 1))
+    const at = (i: number, j: number) => i * (m + 1) + j
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[at(i, j)] = a[i] === b[j]
+                ? table[at(i + 1, j + 1)] + 1
+                : Math.max(table[at(i + 1, j)], table[at(i, j + 1)])
+        }
+    }
+
+    const matches = new Array<number>(n).fill(-1)
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            matches[i] = j
+            i++
+            j++
+        } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+            i++
+        } else {
+            j++
+        }
+    }
+    return matches
+}
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed'
+    text: string
+}
+
+/**
+ * Line diff from `before` to `after` (used by the File history panel).
+ * Returns null if the files are too large to diff.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+    const beforeLines = before.split('\n')
+    const afterLines = after.split('\n')
+    const matches = matchLines(beforeLines, afterLines)
+    if (!matches) return null
+
+    const result: DiffLine[] = []
+    let j = 0
+    for (let i = 0; i < beforeLines.length; i++) {
+        const match = matches[i]
+        if (match === -1) {
+            result.push({ type: 'removed', text: beforeLines[i] })
+            continue
+        }
+        while (j < match) result.push({ type: 'added', text: afterLines[j++] })
+        result.push({ type: 'same', text: beforeLines[i] })
+        j = match + 1
+    }
+    while (j < afterLines.length) result.push({ type: 'added', text: afterLines[j++] })
+    return result
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+/**
+ * Merge `mine` and `theirs`, both derived from `base`.
+ * Non-overlapping changes are combined; overlapping ones are wrapped in conflict markers.
+ */
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+    if (mine === theirs) return { merged: mine, conflicts: 0 }
+    if (mine === base) return { merged: theirs, conflicts: 0 }
+    if (theirs === base) return { merged: mine, conflicts: 0 }
+
+    const baseLines = base.split('\n')
+    const mineLines = mine.split('\n')
+    const theirLines = theirs.split('\n')
+
+    const mineMatches = matchLines(baseLines, mineLines)
+    const theirMatches = matchLines(baseLines, theirLines)
+    if (!mineMatches || !theirMatches) {
+        return {
+            merged: [CONFLICT_MARKERS.start, mine, CONFLICT_MARKERS.separator, theirs, CONFLICT_MARKERS.end].join('\n'),
+            conflicts: 1
+        }
+    }
+
+    const output: string[] = []
+    let conflicts = 0
+    let baseStart = 0
+    let mineStart = 0
+    let theirStart = 0
+
+    const emitChunk = (baseEnd: number, mineEnd: number, theirEnd: number) => {
+        const baseChunk = baseLines.slice(baseStart, baseEnd)
+        const mineChunk = mineLines.slice(mineStart, mineEnd)
+        const theirChunk = theirLines.slice(theirStart, theirEnd)
+
+        if (sameLines(mineChunk, baseChunk)) {
+            output.push(...theirChunk)
+        } else if (sameLines(theirChunk, baseChunk) || sameLines(mineChunk, theirChunk)) {
+            output.push(...mineChunk)
+        } else {
+            conflicts++
+            output.push(CONFLICT_MARKERS.start, ...mineChunk, CONFLICT_MARKERS.separator, ...theirChunk, CONFLICT_MARKERS.end)
+        }
+    }
+
+    // Walk the base lines that are unchanged in both versions; they anchor the chunks in between
+    for (let i = 0; i < baseLines.length; i++) {
+        const mineIndex = mineMatches[i]
+        const theirIndex = theirMatches[i]
+        if (mineIndex === -1 || theirIndex === -1) continue
+        if (mineIndex < mineStart || theirIndex < theirStart) continue
+
+        emitChunk(i, mineIndex, theirIndex)
+        output.push(baseLines[i])
+        baseStart = i + 1
+        mineStart = mineIndex + 1
+        theirStart = theirIndex + 1
+    }
+    emitChunk(baseLines.length, mineLines.length, theirLines.length)
+
+    return { merged: output.join('\n'), conflicts }
+}
+
+/**
+ * Merge two versions of a note. Frontmatter and body are merged apart so conflict markers never
+ * end up inside the YAML: when both sides changed the same frontmatter lines, mine is kept.
+ */
+export function mergeNote(base: string, mine: string, theirs: string): MergeResult {
+    const [baseNote, myNote, theirNote] = [base, mine, theirs].map(splitFrontmatter)
+    const body = mergeText(baseNote.body, myNote.body, theirNote.body)
+    // The frontmatter block as written, fences included
+    const header = (text: string, note: { body: string }) => text.slice(0, text.length - note.body.length)
+
+    let frontmatter: string
+    if (theirNote.raw === baseNote.raw || myNote.raw === theirNote.raw) {
+        frontmatter = header(mine, myNote)
+    } else if (myNote.raw === baseNote.raw) {
+        frontmatter = header(theirs, theirNote)
+    } else {
+        const raw = mergeText(baseNote.raw ?? '', myNote.raw ?? '', theirNote.raw ?? '')
+        frontmatter = raw.conflicts > 0 ? header(mine, myNote) : `---\n${raw.merged}\n---\n`
+    }
+
+    return { merged: frontmatter + body.merged, conflicts: body.conflicts }
+}
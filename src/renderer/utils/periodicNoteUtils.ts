@@ -0,0 +1,44 @@
+/**
+ * Daily / weekly / monthly notes: date arithmetic for each period
+ */
+
+export type NotePeriod = 'daily' | 'weekly' | 'monthly'
+
+export const NOTE_PERIODS: NotePeriod[] = ['daily', 'weekly', 'monthly']
+
+/**
+ * First day of the period containing the date (weeks start on Monday, like ISO weeks)
+ */
+export function getPeriodStart(period: NotePeriod, date: Date): Date {
+    switch (period) {
+        case 'daily':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+        case 'weekly':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+        case 'monthly':
+            return new Date(date.getFullYear(), date.getMonth(), 1)
+    }
+}
+
+/**
+ * Start of the period `delta` periods before (negative) or after (positive) the date's period
+ */
+export function shiftPeriod(period: NotePeriod, date: Date, delta: number): Date {
+    const start = getPeriodStart(period, date)
+    switch (period) {
+        case 'daily':
+            return new Date(start.getFullYear(), start.getMonth(), start.getDate() + delta)
+        case 'weekly':
+            return new Date(start.getFullYear(), start.getMonth(), start.getDate() + delta * 7)
+        case 'monthly':
+            return new Date(start.getFullYear(), start.getMonth() + delta, 1)
+    }
+}
+
+/**
+ * Stable key for a day, used to look up which dates have notes
+ */
+export function getDateKey(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
@@ -0,0 +1,334 @@
+/**
+ * Query blocks: a small query language over the document index (frontmatter properties)
+ *
+ *   [TABLE [field, ...] | LIST [field]]
+ *   [FROM "folder" | #tag [OR ...]]
+ *   [WHERE field op value [AND | OR ...]]   op: = != > >= < <= has contains, NOT, (...)
+ *   [SORT field [ASC | DESC], ...]
+ *   [LIMIT n]
+ *
+ * Fields are frontmatter keys plus `file` (file name), `folder` and `path`.
+ */
+
+export interface QueryNote {
+    path: string
+    filename: string
+    tags: string[]
+    properties: Record<string, any>  // Frontmatter, as read into DocumentMeta
+}
+
+type QueryValue = string | number | boolean
+
+export type QueryExpr =
+    | { type: 'and' | 'or', items: QueryExpr[] }
+    | { type: 'not', expr: QueryExpr }
+    | { type: 'compare', field: string, op?: string, value?: QueryValue }  // No op: field is set
+
+export interface QuerySource {
+    type: 'folder' | 'tag'
+    value: string
+}
+
+export interface ParsedQuery {
+    view: 'table' | 'list'
+    columns: string[]  // Empty: use the keys found in the results
+    sources: QuerySource[]
+    where: QueryExpr | null
+    sort: { field: string, desc: boolean }[]
+    limit: number | null
+}
+
+export interface QueryResult {
+    query: ParsedQuery
+    columns: string[]
+    notes: QueryNote[]
+}
+
+interface Token {
+    type: 'string' | 'word' | 'op' | 'punct'
+    value: string
+}
+
+const KEYWORDS = ['TABLE', 'LIST', 'FROM', 'WHERE', 'SORT', 'LIMIT', 'AND', 'OR', 'NOT', 'ASC', 'DESC']
+const WORD_OPERATORS = ['has', 'contains']
+// Frontmatter keys that are bookkeeping rather than content
+const HIDDEN_KEYS = ['id', 'alwaysOn']
+const MAX_AUTO_COLUMNS = 6
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = []
+    const regex = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(!=|>=|<=|=|>|<)|([(),])|([^\s"'(),=<>!]+))/gy
+    let match: RegExpExecArray | null
+    let lastIndex = 0
+    while ((match = regex.exec(source)) !== null && match[0] !== '') {
+        lastIndex = regex.lastIndex
+        if (match[1] !== undefined || match[2] !== undefined) {
+            tokens.push({ type: 'string', value: (match[1] ?? match[2]).replace(/\\(.)/g, '$1') })
+        } else if (match[3]) {
+            tokens.push({ type: 'op', value: match[3] })
+        } else if (match[4]) {
+            tokens.push({ type: 'punct', value: match[4] })
+        } else {
+            tokens.push({ type: 'word', value: match[5] })
+        }
+    }
+    if (source.slice(lastIndex).trim()) {
+        throw new Error(`Unexpected "${source.slice(lastIndex).trim()[0]}"`)
+    }
+    return tokens
+}
+
+/**
+ * Parse query text. Throws an Error with a readable message on invalid syntax.
+ */
+export function parseQuery(source: string): ParsedQuery {
+    const tokens = tokenize(source)
+    let pos = 0
+
+    const peek = () => tokens[pos]
+    const isKeyword = (keyword: string, token = peek()) =>
+        token?.type === 'word' && token.value.toUpperCase() === keyword
+    const accept = (keyword: string) => {
+        if (!isKeyword(keyword)) return false
+        pos++
+        return true
+    }
+    const expect = (what: string): Token => {
+        const token = tokens[pos++]
+        if (!token) throw new Error(`Expected ${what} at end of query`)
+        return token
+    }
+    const readField = (): string => {
+        const token = expect('a field')
+        if (token.type !== 'word' || KEYWORDS.includes(token.value.toUpperCase())) {
+            throw new Error(`Expected a field, found "${token.value}"`)
+        }
+        return token.value
+    }
+    const readFieldList = (): string[] => {
+        const fields: string[] = []
+        while (peek() && peek().type === 'word' && !KEYWORDS.includes(peek().value.toUpperCase())) {
+            fields.push(readField())
+            if (peek()?.value !== ',') break
+            pos++
+        }
+        return fields
+    }
+    const readValue = (): QueryValue => {
+        const token = expect('a value')
+        if (token.type === 'string') return token.value
+        if (token.type !== 'word') throw new Error(`Expected a value, found "${token.value}"`)
+        if (token.value === 'true' || token.value === 'false') return token.value === 'true'
+        const num = Number(token.value)
+        return token.value !== '' && !isNaN(num) ? num : token.value
+    }
+
+    const parseCondition = (): QueryExpr => {
+        if (accept('NOT')) return { type: 'not', expr: parseCondition() }
+        if (peek()?.value === '(') {
+            pos++
+            const expr = parseOr()
+            if (expect('")"').value !== ')') throw new Error('Expected ")"')
+            return expr
+        }
+        const field = readField()
+        const token = peek()
+        if (token?.type === 'op') {
+            pos++
+            return { type: 'compare', field, op: token.value, value: readValue() }
+        }
+        if (token?.type === 'word' && WORD_OPERATORS.includes(token.value.toLowerCase())) {
+            pos++
+            return { type: 'compare', field, op: token.value.toLowerCase(), value: readValue() }
+        }
+        return { type: 'compare', field }
+    }
+    const parseAnd = (): QueryExpr => {
+        const items = [parseCondition()]
+        while (accept('AND')) items.push(parseCondition())
+        return items.length === 1 ? items[0] : { type: 'and', items }
+    }
+    const parseOr = (): QueryExpr => {
+        const items = [parseAnd()]
+        while (accept('OR')) items.push(parseAnd())
+        return items.length === 1 ? items[0] : { type: 'or', items }
+    }
+
+    const query: ParsedQuery = { view: 'table', columns: [], sources: [], where: null, sort: [], limit: null }
+
+    if (accept('TABLE')) {
+        query.columns = readFieldList()
+    } else if (accept('LIST')) {
+        query.view = 'list'
+        query.columns = readFieldList().slice(0, 1)
+    }
+
+    if (accept('FROM')) {
+        do {
+            const token = expect('a folder or #tag')
+            if (token.type === 'string') {
+                query.sources.push({ type: 'folder', value: token.value.replace(/^\/+|\/+$/g, '') })
+            } else if (token.type === 'word' && token.value.startsWith('#')) {
+                query.sources.push({ type: 'tag', value: token.value.slice(1) })
+            } else {
+                throw new Error(`FROM expects "folder" or #tag, found "${token.value}"`)
+            }
+        } while (accept('OR'))
+    }
+
+    if (accept('WHERE')) query.where = parseOr()
+
+    if (accept('SORT')) {
+        while (true) {
+            const field = readField()
+            const desc = accept('DESC')
+            if (!desc) accept('ASC')
+            query.sort.push({ field, desc })
+            if (peek()?.value !== ',') break
+            pos++
+        }
+    }
+
+    if (accept('LIMIT')) {
+        const limit = readValue()
+        if (typeof limit !== 'number' || limit < 0) throw new Error('LIMIT expects a number')
+        query.limit = Math.floor(limit)
+    }
+
+    if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos].value}"`)
+    return query
+}
+
+/**
+ * Value of a field for a note (frontmatter key or one of the file fields)
+ */
+export function getFieldValue(note: QueryNote, field: string, vaultPath: string): unknown {
+    const relativePath = note.path.startsWith(`${vaultPath}/`) ? note.path.slice(vaultPath.length + 1) : note.path
+    switch (field) {
+        case 'file':
+        case 'file.name': return note.filename
+        case 'path':
+        case 'file.path': return relativePath
+        case 'folder':
+        case 'file.folder': return relativePath.includes('/') ? relativePath.slice(0, relativePath.lastIndexOf('/')) : ''
+        case 'tags': return note.tags
+    }
+    if (field in note.properties) return note.properties[field]
+    // Nested maps: project.status
+    return field.split('.').reduce<any>((value, key) => value && typeof value === 'object' ? value[key] : undefined, note.properties)
+}
+
+function normalize(value: unknown): string {
+    return String(value).toLowerCase().replace(/^#/, '')
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b
+    const numA = Number(a)
+    const numB = Number(b)
+    if (typeof b === 'number' && a !== '' && !isNaN(numA)) return numA - b
+    if (typeof a === 'number' && b !== '' && !isNaN(numB)) return a - numB
+    // ISO dates compare correctly as strings
+    return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' })
+}
+
+function matchesCompare(actual: unknown, op: string | undefined, expected: QueryValue | undefined): boolean {
+    if (op === undefined) {
+        return actual !== undefined && actual !== null && actual !== false && actual !== '' &&
+            !(Array.isArray(actual) && actual.length === 0)
+    }
+    if (actual === undefined || actual === null) return op === '!='
+
+    switch (op) {
+        case 'has':
+        case 'contains':
+            if (Array.isArray(actual)) return actual.some(item => normalize(item) === normalize(expected))
+            return normalize(actual).includes(normalize(expected))
+        case '=':
+            if (Array.isArray(actual)) return actual.some(item => normalize(item) === normalize(expected))
+            return typeof actual === 'number' || typeof expected === 'number'
+                ? compareValues(actual, expected) === 0
+                : normalize(actual) === normalize(expected)
+        case '!=':
+            return !matchesCompare(actual, '=', expected)
+        case '>': return compareValues(actual, expected) > 0
+        case '>=': return compareValues(actual, expected) >= 0
+        case '<': return compareValues(actual, expected) < 0
+        case '<=': return compareValues(actual, expected) <= 0
+        default: return false
+    }
+}
+
+function evaluate(expr: QueryExpr, note: QueryNote, vaultPath: string): boolean {
+    switch (expr.type) {
+        case 'and': return expr.items.every(item => evaluate(item, note, vaultPath))
+        case 'or': return expr.items.some(item => evaluate(item, note, vaultPath))
+        case 'not': return !evaluate(expr.expr, note, vaultPath)
+        case 'compare': return matchesCompare(getFieldValue(note, expr.field, vaultPath), expr.op, expr.value)
+    }
+}
+
+function matchesSource(source: QuerySource, note: QueryNote, vaultPath: string): boolean {
+    if (source.type === 'tag') {
+        const tag = source.value.toLowerCase()
+        return note.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`))
+    }
+    if (!source.value) return true
+    return note.path.startsWith(`${vaultPath}/${source.value}/`)
+}
+
+/**
+ * Run a parsed query against the index. `excludePath` leaves out the note containing the query.
+ */
+export function runQuery(query: ParsedQuery, notes: QueryNote[], vaultPath: string, excludePath?: string): QueryResult {
+    let results = notes.filter(note =>
+        note.path !== excludePath &&
+        (query.sources.length === 0 || query.sources.some(source => matchesSource(source, note, vaultPath))) &&
+        (!query.where || evaluate(query.where, note, vaultPath))
+    )
+
+    const sort = query.sort.length > 0 ? query.sort : [{ field: 'file', desc: false }]
+    results = [...results].sort((a, b) => {
+        for (const { field, desc } of sort) {
+            const valueA = getFieldValue(a, field, vaultPath)
+            const valueB = getFieldValue(b, field, vaultPath)
+            // Missing values always sort last
+            if (valueA === undefined || valueA === null) {
+                if (valueB === undefined || valueB === null) continue
+                return 1
+            }
+            if (valueB === undefined || valueB === null) return -1
+            const order = compareValues(valueA, valueB)
+            if (order !== 0) return desc ? -order : order
+        }
+        return 0
+    })
+    if (query.limit !== null) results = results.slice(0, query.limit)
+
+    let columns = query.columns
+    if (query.view === 'table' && columns.length === 0) {
+        // Frontmatter keys of the results, in order of first appearance
+        const keys: string[] = []
+        for (const note of results) {
+            for (const key of Object.keys(note.properties)) {
+                if (!HIDDEN_KEYS.includes(key) && !keys.includes(key)) keys.push(key)
+            }
+        }
+        columns = keys.slice(0, MAX_AUTO_COLUMNS)
+    }
+
+    return { query, columns, notes: results }
+}
+
+/**
+ * Display text for a field value in a result cell
+ */
+export function formatQueryValue(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    if (Array.isArray(value)) return value.map(formatQueryValue).join(', ')
+    if (typeof value === 'boolean') return value ? '✓' : '✗'
+    if (typeof value === 'object') return JSON.stringify(value)
+    // Timestamps (created_at / updated_at) are shown as dates
+    const text = String(value)
+    return /^\d{4}-\d{2}-\d{2}T/.test(text) ? text.slice(0, 10) : text
+}
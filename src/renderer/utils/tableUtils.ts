@@ -0,0 +1,134 @@
+import type { TableAlign, TableCell } from '@shared/types'
+
+/**
+ * Whether pasted text is CSV/TSV rather than text for a single cell
+ */
+export function isDelimitedText(text: string): boolean {
+    return text.includes('\t') || text.trim().includes('\n')
+}
+
+/**
+ * Parse CSV or TSV into rows of cell values. Quoted values may contain delimiters, newlines
+ * and "" for a quote. Without a delimiter given, tabs win over commas over semicolons
+ * (counted in the first line).
+ */
+export function parseDelimitedText(text: string, delimiter?: string): string[][] {
+    const firstLine = text.split(/\r?\n/, 1)[0]
+    const count = (char: string) => firstLine.split(char).length - 1
+    const separator = delimiter
+        ?? (count('\t') > 0 ? '\t' : count(';') > count(',') ? ';' : ',')
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let value = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                value += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                value += char
+            }
+        } else if (char === '"' && value === '') {
+            quoted = true
+        } else if (char === separator) {
+            row.push(value)
+            value = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(value)
+            rows.push(row)
+            row = []
+            value = ''
+        } else {
+            value += char
+        }
+    }
+    if (value !== '' || row.length > 0) {
+        row.push(value)
+        rows.push(row)
+    }
+    return rows
+}
+
+/**
+ * Table data from rows of values, padded to the widest row
+ */
+export function toTableData(rows: string[][]): TableCell[][] {
+    const colCount = Math.max(1, ...rows.map(row => row.length))
+    return rows.map(row =>
+        Array.from({ length: colCount }, (_, i) => ({ content: (row[i] ?? '').trim() }))
+    )
+}
+
+/**
+ * Table as CSV, quoting values that need it
+ */
+export function tableToCsv(tableData: TableCell[][]): string {
+    const quote = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    return tableData.map(row => row.map(cell => quote(cell.content)).join(',')).join('\n')
+}
+
+/**
+ * Write pasted rows into the table starting at a cell, adding rows and columns as needed
+ */
+export function pasteIntoTable(tableData: TableCell[][], rows: string[][], startRow: number, startCol: number): TableCell[][] {
+    const rowCount = Math.max(tableData.length, startRow + rows.length)
+    const colCount = Math.max(tableData[0]?.length ?? 0, startCol + Math.max(...rows.map(row => row.length)))
+
+    return Array.from({ length: rowCount }, (_, r) =>
+        Array.from({ length: colCount }, (_, c): TableCell => {
+            const cell = tableData[r]?.[c] ?? withColumnAlign({ content: '' }, tableData[0]?.[c]?.align)
+            const pasted = rows[r - startRow]?.[c - startCol]
+            return pasted !== undefined ? { ...cell, content: pasted.trim() } : cell
+        })
+    )
+}
+
+/**
+ * Set (or clear) the alignment of a column
+ */
+export function setColumnAlign(tableData: TableCell[][], colIndex: number, align: TableAlign | undefined): TableCell[][] {
+    return tableData.map(row => row.map((cell, c) => c === colIndex ? withColumnAlign({ content: cell.content }, align) : cell))
+}
+
+/**
+ * Sort the rows by a column: numbers by value, text naturally. A header row stays on top.
+ */
+export function sortTableRows(
+    tableData: TableCell[][],
+    colIndex: number,
+    direction: 'asc' | 'desc',
+    hasHeader: boolean
+): TableCell[][] {
+    const header = hasHeader ? tableData.slice(0, 1) : []
+    const body = hasHeader ? tableData.slice(1) : [...tableData]
+    const sign = direction === 'asc' ? 1 : -1
+    body.sort((a, b) => {
+        const x = a[colIndex]?.content ?? ''
+        const y = b[colIndex]?.content ?? ''
+        // Empty cells go last either way
+        if (!x || !y) return x ? -1 : y ? 1 : 0
+        return sign * x.localeCompare(y, undefined, { numeric: true, sensitivity: 'base' })
+    })
+    return [...header, ...body]
+}
+
+/**
+ * Move one item of a list to another position
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+    const result = [...items]
+    const [item] = result.splice(from, 1)
+    result.splice(to, 0, item)
+    return result
+}
+
+function withColumnAlign(cell: TableCell, align: TableAlign | undefined): TableCell {
+    return align ? { ...cell, align } : cell
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseContentToBlocks } from '@shared/markdown'
+import { extractTasks, setTaskCheckedInMarkdown } from './taskUtils'
+
+const NOTE = [
+    '- [ ] First 📅 2026-10-20',
+    '',
+    '```md',
+    '- [ ] Not a task, just code',
+    '```',
+    '',
+    '>> Toggle',
+    '\t* [x] Nested in a toggle',
+    '',
+    '1) [ ] Numbered ^anchor',
+    '   continued'
+].join('\n')
+
+test('toggles each task by changing only its checkbox', () => {
+    const tasks = extractTasks(parseContentToBlocks(NOTE), '/vault/Note.md')
+    assert.equal(tasks.length, 3)
+
+    for (const task of tasks) {
+        const updated = setTaskCheckedInMarkdown(NOTE, task.index, task.content, !task.checked)
+        assert.ok(updated)
+        const changed = updated.split('\n').map((line, i) => [line, NOTE.split('\n')[i]]).filter(([a, b]) => a !== b)
+        assert.equal(changed.length, 1)
+        assert.equal(changed[0][0].replace(/\[[ x]\]/, '[?]'), changed[0][1].replace(/\[[ x]\]/, '[?]'))
+        assert.equal(extractTasks(parseContentToBlocks(updated), '/vault/Note.md')[task.index].checked, !task.checked)
+    }
+})
+
+test('leaves the frontmatter alone and refuses tasks whose text changed', () => {
+    const note = `---\ntags: [todo]\n---\n${NOTE}`
+    assert.equal(setTaskCheckedInMarkdown(note, 0, 'First 📅 2026-10-20', true), note.replace('- [ ] First', '- [x] First'))
+    assert.equal(setTaskCheckedInMarkdown(note, 0, 'Something else', true), null)
+    assert.equal(setTaskCheckedInMarkdown(note, 5, 'First', true), null)
+})
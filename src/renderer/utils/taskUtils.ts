@@ -0,0 +1,156 @@
+import type { Block } from '@shared/types'
+import { splitFrontmatter } from '@shared/frontmatter'
+import { getDateKey } from './periodicNoteUtils'
+
+/**
+ * Tasks: todo blocks with inline metadata
+ *
+ *   📅 2026-10-20 / due:2026-10-20   due date
+ *   ⏫ 🔼 🔽 / priority:high          priority
+ *   #tag                              tags
+ */
+
+export type TaskPriority = 'high' | 'medium' | 'low'
+
+export interface Task {
+    path: string
+    index: number  // Position among the note's todo blocks, in document order
+    blockIndex: number  // Top-level block containing the todo (for revealing it)
+    content: string  // Raw block content
+    text: string  // Content without the due date / priority markers
+    checked: boolean
+    due?: string  // YYYY-MM-DD
+    priority?: TaskPriority
+    tags: string[]
+}
+
+export type TaskDueStatus = 'overdue' | 'today' | 'upcoming' | 'none'
+
+const DUE_REGEX = /(?:📅\s*|\bdue:\s*)(\d{4}-\d{2}-\d{2})/
+const PRIORITY_REGEX = /\s*(?:(⏫|🔺)|(🔼)|(🔽)|\bpriority:\s*(high|medium|low)\b)/
+const TAG_REGEX = /(?:^|\s)#([^\s#[\]()]+)/g
+
+export const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 }
+
+/**
+ * Read the due date, priority and tags written inline in a todo
+ */
+export function parseTaskContent(content: string): Pick<Task, 'text' | 'due' | 'priority' | 'tags'> {
+    const due = content.match(DUE_REGEX)?.[1]
+
+    let priority: TaskPriority | undefined
+    const priorityMatch = content.match(PRIORITY_REGEX)
+    if (priorityMatch) {
+        priority = priorityMatch[1] ? 'high'
+            : priorityMatch[2] ? 'medium'
+                : priorityMatch[3] ? 'low'
+                    : priorityMatch[4] as TaskPriority
+    }
+
+    const tags: string[] = []
+    for (const match of content.matchAll(TAG_REGEX)) {
+        const tag = match[1]
+        if (!/^\d+$/.test(tag) && !tags.includes(tag)) tags.push(tag)
+    }
+
+    const text = content
+        .replace(new RegExp(`\\s*${DUE_REGEX.source}`, 'g'), '')
+        .replace(new RegExp(PRIORITY_REGEX.source, 'g'), '')
+        .trim()
+
+    return { text, due, priority, tags }
+}
+
+/**
+ * Todo blocks of a note (including nested ones) in document order
+ */
+export function extractTasks(blocks: Block[], path: string): Task[] {
+    const tasks: Task[] = []
+    const visit = (list: Block[], blockIndex: number | null) => {
+        list.forEach((block, index) => {
+            const topIndex = blockIndex ?? index
+            if (block.type === 'todo') {
+                tasks.push({
+                    path,
+                    index: tasks.length,
+                    blockIndex: topIndex,
+                    content: block.content,
+                    checked: !!block.checked,
+                    ...parseTaskContent(block.content)
+                })
+            }
+            if (block.children) visit(block.children, topIndex)
+        })
+    }
+    visit(blocks, null)
+    return tasks
+}
+
+/**
+ * Set `checked` on the index-th todo block (same order as extractTasks).
+ * Returns null if that todo no longer has the expected content.
+ */
+export function setTodoChecked(blocks: Block[], index: number, expectedContent: string, checked: boolean): Block[] | null {
+    let current = 0
+    let found = false
+    const update = (list: Block[]): Block[] => list.map(block => {
+        let next = block
+        if (block.type === 'todo') {
+            if (current === index && block.content === expectedContent) {
+                next = { ...block, checked }
+                found = true
+            }
+            current++
+        }
+        return next.children ? { ...next, children: update(next.children) } : next
+    })
+
+    const updated = update(blocks)
+    return found ? updated : null
+}
+
+// A task list item: marker and `[`, the check character, then `]` and the text
+const TASK_LINE_REGEX = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])\](.*)$/
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/
+
+/**
+ * Set the checkbox of the index-th task in a note's Markdown (same order as extractTasks),
+ * changing only that one character. Returns null if that task no longer has the expected content.
+ */
+export function setTaskCheckedInMarkdown(markdown: string, index: number, expectedContent: string, checked: boolean): string | null {
+    const { body } = splitFrontmatter(markdown)
+    const lines = markdown.split('\n')
+    const firstBodyLine = lines.length - body.split('\n').length
+    const expectedFirstLine = expectedContent.split('\n')[0]
+
+    let current = 0
+    let openFence: string | null = null
+    for (let i = firstBodyLine; i < lines.length; i++) {
+        const fence = lines[i].match(FENCE_REGEX)?.[1]
+        if (openFence) {
+            if (fence && fence[0] === openFence[0] && fence.length >= openFence.length) openFence = null
+            continue
+        }
+        if (fence) {
+            openFence = fence
+            continue
+        }
+
+        const match = lines[i].match(TASK_LINE_REGEX)
+        if (!match) continue
+        if (current++ < index) continue
+
+        if (!match[3].trimStart().startsWith(expectedFirstLine)) return null
+        if ((match[2] !== ' ') === checked) return markdown
+        lines[i] = `${match[1]}${checked ? 'x' : ' '}]${match[3]}`
+        return lines.join('\n')
+    }
+    return null
+}
+
+export function getTaskDueStatus(task: Task, today = new Date()): TaskDueStatus {
+    if (!task.due) return 'none'
+    const todayKey = getDateKey(today)
+    if (task.due < todayKey) return 'overdue'
+    return task.due === todayKey ? 'today' : 'upcoming'
+}
@@ -0,0 +1,208 @@
+import { parseFrontmatter, stringifyFrontmatter, normalizeTags } from '@shared/frontmatter'
+import { parseMarkdownToDocument } from '@shared/markdown'
+
+/**
+ * Note templates: {{variable}} substitution and building a new note from a template file
+ *
+ * Supported variables:
+ *   {{title}}                 note title
+ *   {{date}} {{date:FORMAT}}  current date (default YYYY-MM-DD)
+ *   {{time}} {{time:FORMAT}}  current time (default HH:mm)
+ *   {{selection}}             text selected in the editor
+ *   {{cursor}}                where the cursor is placed after creation
+ *   {{prompt:Label}}          value asked from the user when the template is used
+ */
+
+export interface TemplateContext {
+    title: string
+    date?: Date
+    selection?: string
+    values?: Record<string, string>  // Answers for {{prompt:Label}}
+}
+
+export interface TemplateCursor {
+    blockIndex: number
+    offset: number
+}
+
+export interface RenderedNote {
+    content: string
+    cursor?: TemplateCursor
+}
+
+const VARIABLE_REGEX = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g
+// Placeholder for {{cursor}} until the final block position is known
+const CURSOR_MARKER = '\u2063'
+
+// Frontmatter keys that always come from the new note, never from the template
+const GENERATED_KEYS = ['id', 'title', 'created_at', 'updated_at']
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/**
+ * ISO 8601 week number and week-based year (weeks start on Monday, week 1 contains Jan 4th)
+ */
+export function getISOWeek(date: Date): { week: number, year: number } {
+    const target = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    target.setDate(target.getDate() + 3 - ((target.getDay() + 6) % 7))
+    const firstThursday = new Date(target.getFullYear(), 0, 4)
+    const week = 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7)
+    return { week, year: target.getFullYear() }
+}
+
+/**
+ * Format a date with moment-style tokens (YYYY, MM, DD, ddd, HH, mm, ww, GGGG, [literal] ...)
+ */
+export function formatDate(date: Date, format: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+    const { week, year: weekYear } = getISOWeek(date)
+
+    return format.replace(/\[([^\]]*)\]|YYYY|YY|GGGG|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|mm|ss|ww|w/g, (token, literal) => {
+        if (literal !== undefined) return literal
+        switch (token) {
+            case 'YYYY': return String(date.getFullYear())
+            case 'YY': return String(date.getFullYear()).slice(-2)
+            case 'GGGG': return String(weekYear)
+            case 'MMMM': return MONTH_NAMES[date.getMonth()]
+            case 'MMM': return MONTH_NAMES[date.getMonth()].slice(0, 3)
+            case 'MM': return pad(date.getMonth() + 1)
+            case 'M': return String(date.getMonth() + 1)
+            case 'DD': return pad(date.getDate())
+            case 'D': return String(date.getDate())
+            case 'dddd': return DAY_NAMES[date.getDay()]
+            case 'ddd': return DAY_NAMES[date.getDay()].slice(0, 3)
+            case 'HH': return pad(date.getHours())
+            case 'H': return String(date.getHours())
+            case 'mm': return pad(date.getMinutes())
+            case 'ss': return pad(date.getSeconds())
+            case 'ww': return pad(week)
+            case 'w': return String(week)
+            default: return token
+        }
+    })
+}
+
+/**
+ * Parse text written with formatDate's tokens back into a date.
+ * Returns null when the text does not match the format (or names an impossible date).
+ */
+export function parseDate(text: string, format: string): Date | null {
+    const tokens: string[] = []
+    const pattern = format.replace(/\[([^\]]*)\]|YYYY|YY|GGGG|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|mm|ss|ww|w|[.*+?^${}()|\\]/g, (token, literal) => {
+        if (literal !== undefined) return literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        if (/^[.*+?^${}()|\\]$/.test(token)) return `\\${token}`
+        tokens.push(token)
+        switch (token) {
+            case 'YYYY':
+            case 'GGGG': return '(\\d{4})'
+            case 'MMMM': return `(${MONTH_NAMES.join('|')})`
+            case 'MMM': return `(${MONTH_NAMES.map(name => name.slice(0, 3)).join('|')})`
+            case 'dddd': return `(${DAY_NAMES.join('|')})`
+            case 'ddd': return `(${DAY_NAMES.map(name => name.slice(0, 3)).join('|')})`
+            case 'YY':
+            case 'MM':
+            case 'DD':
+            case 'HH':
+            case 'mm':
+            case 'ss':
+            case 'ww': return '(\\d{2})'
+            default: return '(\\d{1,2})'
+        }
+    })
+
+    const match = text.match(new RegExp(`^${pattern}$`))
+    if (!match) return null
+
+    const values: Record<string, string> = {}
+    tokens.forEach((token, index) => { values[token] = match[index + 1] })
+
+    let date: Date
+    const week = values.ww ?? values.w
+    const weekYear = values.GGGG ?? values.YYYY
+    if (week && weekYear) {
+        // Monday of ISO week 1 is the Monday on or before January 4th
+        const jan4 = new Date(Number(weekYear), 0, 4)
+        date = new Date(jan4.getFullYear(), 0, 4 - ((jan4.getDay() + 6) % 7) + (Number(week) - 1) * 7)
+    } else {
+        const year = values.YYYY ? Number(values.YYYY) : values.YY ? 2000 + Number(values.YY) : NaN
+        const monthName = values.MMMM ?? values.MMM
+        const month = monthName
+            ? MONTH_NAMES.findIndex(name => name.startsWith(monthName))
+            : Number(values.MM ?? values.M ?? 1) - 1
+        const day = Number(values.DD ?? values.D ?? 1)
+        date = new Date(year, month, day, Number(values.HH ?? values.H ?? 0), Number(values.mm ?? 0), Number(values.ss ?? 0))
+    }
+
+    // Round-trip to reject dates like 2024-02-31 or a weekday that does not match
+    if (isNaN(date.getTime()) || formatDate(date, format) !== text) return null
+    return date
+}
+
+/**
+ * Labels of the {{prompt:Label}} variables in a template, in order of appearance
+ */
+export function getTemplatePrompts(template: string): string[] {
+    const labels: string[] = []
+    for (const match of template.matchAll(VARIABLE_REGEX)) {
+        const label = match[2]?.trim()
+        if (match[1] === 'prompt' && label && !labels.includes(label)) labels.push(label)
+    }
+    return labels
+}
+
+/**
+ * Substitute template variables. {{cursor}} is kept as an invisible marker (see extractCursor).
+ */
+export function renderTemplateVariables(template: string, context: TemplateContext): string {
+    const date = context.date ?? new Date()
+    return template.replace(VARIABLE_REGEX, (match, name: string, arg?: string) => {
+        switch (name) {
+            case 'title': return context.title
+            case 'date': return formatDate(date, arg?.trim() || 'YYYY-MM-DD')
+            case 'time': return formatDate(date, arg?.trim() || 'HH:mm')
+            case 'selection': return context.selection ?? ''
+            case 'cursor': return CURSOR_MARKER
+            case 'prompt': return context.values?.[arg?.trim() ?? ''] ?? ''
+            default: return match
+        }
+    })
+}
+
+/**
+ * Remove the {{cursor}} marker and report which block / offset it was in
+ */
+export function extractCursor(content: string, filePath: string): RenderedNote {
+    if (!content.includes(CURSOR_MARKER)) return { content }
+
+    const blocks = parseMarkdownToDocument(content, filePath).blocks
+    const blockIndex = blocks.findIndex(block => block.content.includes(CURSOR_MARKER))
+    const cleaned = content.split(CURSOR_MARKER).join('')
+    if (blockIndex === -1) return { content: cleaned }
+    return {
+        content: cleaned,
+        cursor: { blockIndex, offset: blocks[blockIndex].content.indexOf(CURSOR_MARKER) }
+    }
+}
+
+/**
+ * Build a new note from a rendered template: the note gets fresh id / title / timestamps,
+ * the template's tags are merged with `tags` and its other properties are copied
+ */
+export function buildNoteFromTemplate(title: string, rendered: string, tags: string[] = []): string {
+    const { data, body } = parseFrontmatter(rendered)
+    const now = new Date().toISOString()
+    const properties = Object.fromEntries(
+        Object.entries(data).filter(([key]) => !GENERATED_KEYS.includes(key) && key !== 'tags')
+    )
+
+    const frontmatter = stringifyFrontmatter({
+        id: crypto.randomUUID(),
+        title,
+        tags: [...new Set([...normalizeTags(data.tags), ...tags])],
+        ...properties,
+        created_at: now,
+        updated_at: now
+    })
+    return `${frontmatter}${body.replace(/^\n+/, '')}`
+}
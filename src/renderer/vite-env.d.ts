@@ -16,6 +16,14 @@ declare module '*.svg' {
     export default src
 }
 
+declare module 'turndown-plugin-gfm' {
+    import type TurndownService from 'turndown'
+    export const gfm: TurndownService.Plugin
+    export const tables: TurndownService.Plugin
+    export const strikethrough: TurndownService.Plugin
+    export const taskListItems: TurndownService.Plugin
+}
+
 interface WindowAPI {
     getFilePath: (file: File) => string
     readFile: (path: string) => Promise<string>
@@ -23,15 +31,39 @@ interface WindowAPI {
     createFile: (path: string, content: string) => Promise<void>
     createFolder: (path: string) => Promise<void>
     deleteFile: (path: string) => Promise<void>
+    trashItem: (itemPath: string, vaultPath: string) => Promise<import('@shared/types').TrashEntry>
+    listTrash: (vaultPath: string) => Promise<import('@shared/types').TrashEntry[]>
+    restoreFromTrash: (vaultPath: string, id: string) => Promise<string>
+    emptyTrash: (vaultPath: string, id?: string) => Promise<void>
+    saveSnapshot: (vaultPath: string, filePath: string, content: string, previousContent?: string) => Promise<void>
+    listSnapshots: (vaultPath: string, filePath: string) => Promise<import('@shared/types').FileSnapshot[]>
+    readSnapshot: (vaultPath: string, filePath: string, snapshotId: string) => Promise<string>
+    moveSnapshots: (vaultPath: string, oldPath: string, newPath: string) => Promise<void>
     moveFile: (source: string, dest: string) => Promise<void>
     renameFile: (oldPath: string, newPath: string) => Promise<void>
     pathExists: (path: string) => Promise<boolean>
     readVaultTree: (path: string) => Promise<import('@shared/types').FileNode[]>
+    watchVault: (vaultPath: string) => Promise<void>
+    unwatchVault: () => Promise<void>
+    onVaultChanges: (callback: (events: import('@shared/types').VaultChangeEvent[]) => void) => () => void
+    buildSearchIndex: (vaultPath: string) => Promise<void>
+    searchVault: (vaultPath: string, query: string, limit?: number) => Promise<import('@shared/types').SearchResult[]>
     openFolderDialog: () => Promise<string | null>
     openFileDialog: () => Promise<string | null>
     openPdfDialog: () => Promise<string | null>
+    openTableFileDialog: () => Promise<string | null>
+    openImportSourceDialog: (kind: 'folder' | 'zip' | 'html') => Promise<string[] | null>
+    exportFileDialog: (defaultName: string, content: string, filters: { name: string; extensions: string[] }[]) => Promise<string | null>
+    scanImportSource: (sourcePath: string) => Promise<import('@shared/types').ImportSource>
+    writeImportFiles: (writes: import('@shared/types').ImportWrite[]) => Promise<Array<{ path: string; error: string }>>
+    cleanupImportSource: (source: import('@shared/types').ImportSource) => Promise<void>
+    exportHtml: (vaultPath: string, bundle: import('@shared/types').ExportBundle, defaultName: string) => Promise<import('@shared/types').ExportResult | null>
+    exportPdf: (vaultPath: string, bundle: import('@shared/types').ExportBundle, defaultName: string) => Promise<import('@shared/types').ExportResult | null>
+    exportZip: (vaultPath: string, bundle: import('@shared/types').ExportBundle, defaultName: string) => Promise<import('@shared/types').ExportResult | null>
     processYouTubeUrl: (apiKey: string, url: string) => Promise<{ strategy: string, url: string, fileUri?: string, mimeType?: string }>
-    copyImageToVault: (sourcePath: string, vaultPath: string) => Promise<string>
+    copyImageToVault: (sourcePath: string, vaultPath: string, targetDir?: string) => Promise<string>
+    saveImageToVault: (data: Uint8Array, fileName: string, vaultPath: string, targetDir?: string) => Promise<string>
+    listAttachments: (vaultPath: string) => Promise<import('@shared/types').AttachmentInfo[]>
     // MCP Operations
     mcpConnectServer: (config: {
         id: string
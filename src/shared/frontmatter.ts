@@ -0,0 +1,197 @@
+import { parseDocument, isMap, isScalar, isSeq, Document as YAMLDocument } from 'yaml'
+import type { PropertyType } from './types'
+
+/**
+ * Result of splitting a markdown file into its YAML frontmatter and body
+ */
+export interface ParsedFrontmatter {
+    /** Parsed key/value pairs (empty object if no frontmatter) */
+    data: Record<string, any>
+    /** Raw YAML source between the `---` fences, or null if the file has none */
+    raw: string | null
+    /** Everything after the closing fence */
+    body: string
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/
+
+const STRINGIFY_OPTIONS = {
+    lineWidth: 0,
+    flowCollectionPadding: false
+}
+
+/**
+ * Split content into raw frontmatter and body without parsing the YAML
+ */
+export function splitFrontmatter(content: string): { raw: string | null; body: string } {
+    const match = content.match(FRONTMATTER_REGEX)
+    if (!match) return { raw: null, body: content }
+    return { raw: match[1] ?? '', body: content.slice(match[0].length) }
+}
+
+/**
+ * Parse YAML frontmatter with a real YAML parser.
+ * Malformed YAML yields empty data but keeps the raw text so it is never lost.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+    const { raw, body } = splitFrontmatter(content)
+    return { data: raw === null ? {} : parseFrontmatterData(raw), raw, body }
+}
+
+/**
+ * Key/value pairs of raw frontmatter YAML (empty object if it is malformed or not a map)
+ */
+export function parseFrontmatterData(raw: string): Record<string, any> {
+    const doc = parseDocument(raw)
+    if (doc.errors.length > 0) {
+        console.warn('Invalid frontmatter YAML:', doc.errors[0].message)
+        return {}
+    }
+
+    const data = doc.toJS()
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {}
+}
+
+/**
+ * Serialize data back to a frontmatter block (including `---` fences).
+ *
+ * When the original raw YAML is given, it is edited in place: unchanged keys keep their
+ * comments, ordering, quoting and flow/block style, removed keys are deleted and new keys
+ * are appended. If nothing changed, or the raw YAML is malformed, the raw text is
+ * returned verbatim.
+ */
+export function stringifyFrontmatter(data: Record<string, any>, raw?: string | null): string {
+    if (raw === undefined || raw === null) {
+        const fresh = new YAMLDocument(stripUndefined(data))
+        return `---\n${fresh.toString(STRINGIFY_OPTIONS)}---\n`
+    }
+
+    // YAML that doesn't parse to a map was read as empty data; writing that data would
+    // replace the user's frontmatter with defaults, so the block is kept as it was
+    const doc = parseDocument(raw)
+    if (doc.errors.length > 0 || (doc.contents !== null && !isMap(doc.contents))) {
+        console.warn('Keeping invalid frontmatter YAML unchanged')
+        return `---\n${raw}\n---\n`
+    }
+
+    const original: Record<string, any> = doc.toJS() || {}
+    let changed = false
+
+    for (const key of Object.keys(original)) {
+        if (!(key in data) || data[key] === undefined) {
+            doc.delete(key)
+            changed = true
+        }
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+        if (value === undefined) continue
+        if (key in original && isEqual(original[key], value)) continue
+        setPreservingStyle(doc, key, value)
+        changed = true
+    }
+
+    if (!changed) {
+        return raw ? `---\n${raw}\n---\n` : '---\n---\n'
+    }
+
+    return `---\n${doc.toString(STRINGIFY_OPTIONS)}---\n`
+}
+
+/**
+ * Set a key on the document, keeping the existing node's scalar quoting or collection style
+ */
+function setPreservingStyle(doc: YAMLDocument, key: string, value: unknown): void {
+    const existing = doc.get(key, true)
+    if (isScalar(existing) && (value === null || typeof value !== 'object')) {
+        existing.value = value
+        return
+    }
+
+    const node = doc.createNode(value)
+    if (isSeq(existing) && isSeq(node)) {
+        node.flow = existing.flow
+    }
+    doc.set(key, node)
+}
+
+function stripUndefined(data: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined))
+}
+
+/**
+ * Deep equality of parsed YAML values
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false
+    if (Array.isArray(a) !== Array.isArray(b)) return false
+
+    const aKeys = Object.keys(a as object)
+    const bKeys = Object.keys(b as object)
+    if (aKeys.length !== bKeys.length) return false
+    return aKeys.every(k => isEqual((a as any)[k], (b as any)[k]))
+}
+
+/**
+ * Normalize a `tags` value (list, comma-separated string or single value) to a string array
+ */
+export function normalizeTags(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.filter(t => t !== null && t !== undefined).map(t => String(t).trim()).filter(Boolean)
+    }
+    if (typeof value === 'string') {
+        return value.split(',').map(t => t.trim()).filter(Boolean)
+    }
+    return []
+}
+
+// ============================================
+// Typed properties
+// ============================================
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+const LINK_REGEX = /^\[\[[^\]]+\]\]$/
+
+/**
+ * Infer the property type of a frontmatter value
+ */
+export function inferPropertyType(value: unknown): PropertyType {
+    if (typeof value === 'boolean') return 'checkbox'
+    if (typeof value === 'number') return 'number'
+    if (Array.isArray(value)) return 'list'
+    if (value instanceof Date) return 'date'
+    if (typeof value === 'string') {
+        if (DATE_REGEX.test(value)) return 'date'
+        if (LINK_REGEX.test(value.trim())) return 'link'
+    }
+    return 'text'
+}
+
+/**
+ * Convert a value to the given property type (used when the user changes a property's type)
+ */
+export function coercePropertyValue(value: unknown, type: PropertyType): unknown {
+    const asText = Array.isArray(value)
+        ? value.join(', ')
+        : value === null || value === undefined ? '' : String(value)
+
+    switch (type) {
+        case 'checkbox':
+            return value === true || asText.trim().toLowerCase() === 'true'
+        case 'number': {
+            const num = Number(asText)
+            return asText.trim() !== '' && !isNaN(num) ? num : 0
+        }
+        case 'list':
+            return Array.isArray(value) ? value : normalizeTags(asText)
+        case 'date':
+            return DATE_REGEX.test(asText) ? asText : new Date().toISOString().slice(0, 10)
+        case 'link': {
+            const target = asText.replace(/^\[\[|\]\]$/g, '').trim()
+            return target ? `[[${target}]]` : ''
+        }
+        default:
+            return asText
+    }
+}
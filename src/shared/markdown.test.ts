@@ -0,0 +1,136 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { Block, BlockType } from './types'
+import { parseContentToBlocks, parseMarkdownToDocument, serializeBlocks, serializeDocumentToMarkdown } from './markdown'
+
+// Opening and saving a note without edits must write it back byte for byte. Every file in
+// fixtures/roundtrip is checked as a whole note, and notes without frontmatter as a body too.
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'roundtrip')
+const fixtures = readdirSync(FIXTURE_DIR).filter(name => name.endsWith('.md')).sort()
+
+function readFixture(name: string): string {
+    return readFileSync(join(FIXTURE_DIR, name), 'utf8')
+}
+
+function flatten(blocks: Block[]): Block[] {
+    return blocks.flatMap(block => [block, ...flatten(block.children ?? [])])
+}
+
+function withoutSources(blocks: Block[]): Block[] {
+    return blocks.map(({ source: _source, ...block }) => block.children ? { ...block, children: withoutSources(block.children) } : block)
+}
+
+function blockTypes(blocks: Block[]): BlockType[] {
+    return flatten(blocks).map(block => block.type)
+}
+
+for (const name of fixtures) {
+    test(`round-trips ${name}`, () => {
+        const markdown = readFixture(name)
+        const doc = parseMarkdownToDocument(markdown, `/vault/${name}`)
+        assert.equal(serializeDocumentToMarkdown(doc, { touch: false }), markdown)
+        if (!markdown.startsWith('---\n')) assert.equal(serializeBlocks(doc.blocks), markdown)
+    })
+
+    test(`re-serializes ${name} stably once the original text is dropped`, () => {
+        const markdown = readFixture(name)
+        if (markdown.startsWith('---\n')) return
+        // What an edited note is written as: every block in the serializer's own form
+        const normalized = serializeBlocks(withoutSources(parseContentToBlocks(markdown)))
+        assert.equal(serializeBlocks(withoutSources(parseContentToBlocks(normalized))), normalized)
+    })
+}
+
+test('keeps HTML, footnotes, reference links, indented code and nested quotes as raw blocks', () => {
+    const blocks = parseContentToBlocks(readFixture('raw.md'))
+    const raw = blocks.filter(block => block.type === 'raw').map(block => block.content)
+    assert.ok(raw.some(content => content.startsWith('<div')))
+    assert.ok(raw.some(content => content.startsWith('<!--')))
+    assert.ok(raw.some(content => content.startsWith('[^1]:')))
+    assert.ok(raw.some(content => content.startsWith('[docs]:')))
+    assert.ok(raw.some(content => content.startsWith('    indented code')))
+    assert.ok(raw.some(content => content.startsWith('> A quote holding a list')))
+    assert.ok(raw.some(content => content.includes('>> nested quote')))
+})
+
+test('parses callouts with their type, title and fold state', () => {
+    const callouts = parseContentToBlocks(readFixture('callouts.md')).filter(block => block.type === 'callout')
+    assert.deepEqual(
+        callouts.map(({ calloutType, calloutTitle, calloutFold }) => ({ calloutType, calloutTitle, calloutFold })),
+        [
+            { calloutType: 'NOTE', calloutTitle: undefined, calloutFold: undefined },
+            { calloutType: 'warning', calloutTitle: 'Custom title', calloutFold: undefined },
+            { calloutType: 'tip', calloutTitle: 'Folded', calloutFold: '-' },
+            { calloutType: 'info', calloutTitle: 'Expanded', calloutFold: '+' },
+            { calloutType: 'question', calloutTitle: undefined, calloutFold: undefined },
+            { calloutType: 'todo', calloutTitle: 'Title only', calloutFold: undefined }
+        ]
+    )
+    assert.equal(callouts[4].content, 'Outer callout\n> [!example] Inner\n> Nested body')
+})
+
+test('parses toggles with their children one level out', () => {
+    const toggles = parseContentToBlocks(readFixture('toggles.md')).filter(block => block.type === 'toggle')
+    assert.deepEqual(toggles.map(toggle => [toggle.content, toggle.collapsed]), [
+        ['Toggle with tab-indented children', false],
+        ['Collapsed toggle', true],
+        ['Empty toggle', false],
+        ['Toggle holding a callout', false]
+    ])
+    assert.deepEqual(blockTypes(toggles[0].children!), ['text', 'bullet', 'bullet'])
+    assert.equal(toggles[0].children![2].indent, 1)
+    assert.deepEqual(toggles[2].children, [])
+    assert.deepEqual(blockTypes(toggles[3].children!), ['callout'])
+})
+
+test('keeps list markers and numbering as written', () => {
+    const items = parseContentToBlocks(readFixture('lists.md')).filter(block => block.marker)
+    assert.deepEqual(items.slice(0, 9).map(block => block.marker), ['*', '*', '+', '+', '1)', '2)', '3.', '7.', '-'])
+})
+
+test('writes the original text of a block until it is edited', () => {
+    const blocks = parseContentToBlocks(readFixture('headings.md'))
+    const setext = blocks[0]
+    assert.equal(setext.type, 'heading1')
+    assert.deepEqual(setext.source, { markdown: 'Setext heading\n==============', serialized: '# Setext heading' })
+
+    const edited = blocks.map(block => block === setext ? { ...block, content: 'Renamed' } : block)
+    const [first, ...rest] = serializeBlocks(edited).split('\n')
+    assert.equal(first, '# Renamed')
+    assert.equal(rest.join('\n'), readFixture('headings.md').split('\n').slice(2).join('\n'))
+})
+
+test('only keeps a source for blocks that would not serialize back to it', () => {
+    for (const name of fixtures) {
+        const markdown = readFixture(name)
+        if (markdown.startsWith('---\n')) continue
+        for (const block of flatten(parseContentToBlocks(markdown))) {
+            if (block.source) assert.notEqual(block.source.markdown, block.source.serialized, `${name}: ${block.source.markdown}`)
+        }
+    }
+})
+
+test('does not add frontmatter or a modification time to notes that have none', () => {
+    for (const name of ['headings.md', 'partial-frontmatter.md']) {
+        const markdown = readFixture(name)
+        const doc = parseMarkdownToDocument(markdown, `/vault/${name}`)
+        assert.equal(doc.meta.title, 'Untitled')
+        assert.equal(serializeDocumentToMarkdown(doc), markdown)
+    }
+})
+
+test('writes only the frontmatter keys that changed', () => {
+    const doc = parseMarkdownToDocument(readFixture('partial-frontmatter.md'), '/vault/partial-frontmatter.md')
+    assert.deepEqual(doc.meta.tags, ['idea', 'draft'])
+
+    const renamed = serializeDocumentToMarkdown({ ...doc, meta: { ...doc.meta, title: 'Renamed' } }, { touch: false })
+    assert.equal(renamed, readFixture('partial-frontmatter.md').replace('\n---\n', '\ntitle: Renamed\n---\n'))
+
+    const retagged = serializeDocumentToMarkdown({ ...doc, meta: { ...doc.meta, tags: ['idea'] } }, { touch: false })
+    assert.match(retagged, /^tags: \[ ?idea ?\]$|^tags:\n {2}- idea$/m)
+
+    const bare = parseMarkdownToDocument('Just text\n', '/vault/bare.md')
+    assert.equal(serializeDocumentToMarkdown({ ...bare, meta: { ...bare.meta, title: 'Named' } }), '---\ntitle: Named\n---\nJust text\n')
+})
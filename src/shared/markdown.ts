@@ -0,0 +1,504 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import type { ListItem, Nodes, RootContent } from 'mdast'
+import type { Document, DocumentMeta, Block, BlockType, TableAlign, TableCell } from './types'
+import { parseFrontmatter, parseFrontmatterData, stringifyFrontmatter, normalizeTags, isEqual } from './frontmatter'
+import { extractBlockAnchor } from './wikiLinks'
+
+// Markdown <-> Document conversion, shared by the renderer (editor) and main process (indexing)
+
+// Block types whose last line can carry a ` ^id` anchor for [[Note#^id]] links
+const ANCHORABLE_TYPES: BlockType[] = [
+    'text', 'heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6',
+    'bullet', 'numbered', 'todo', 'quote', 'callout', 'toggle'
+]
+
+const LIST_TYPES: BlockType[] = ['bullet', 'numbered', 'todo']
+
+const EMBED_LINE_REGEX = /^!\[\[(.+?)(?:\|(.+?))?\]\]$/
+const LIST_MARKER_REGEX = /^\s*([-*+]|\d{1,9}[.)])/
+const BULLET_MARKER_REGEX = /^[-*+]$/
+const NUMBERED_MARKER_REGEX = /^(\d{1,9})([.)])$/
+const CALLOUT_HEADER_REGEX = /^\[!([^\]\s]+)\]([+-]?)(?:[ \t]+(.*))?$/
+
+// Separator row cell for each column alignment
+const TABLE_ALIGN_SEPARATORS: Record<TableAlign, string> = { left: ':---', center: ':---:', right: '---:' }
+
+// CommonMark + GFM (tables, task lists, footnotes, strikethrough)
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm)
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'ico']
+
+/**
+ * Block type for an Obsidian-style ![[...]] embed: images, other attachments (PDF, ...) or notes
+ */
+export function getEmbedBlockType(target: string): 'image' | 'file' | 'embed' {
+    // Note embeds may point at a heading or block, and note names may contain dots
+    if (target.includes('#')) return 'embed'
+    const ext = target.includes('.') ? target.split('.').pop()!.toLowerCase() : ''
+    if (IMAGE_EXTENSIONS.includes(ext)) return 'image'
+    if (ext === '' || ext === 'md' || !/^[a-z0-9]{1,5}$/.test(ext)) return 'embed'
+    return 'file'
+}
+
+/**
+ * Plain text of a block, including table cells and toggle children
+ */
+export function getBlockText(block: Block): string {
+    if (block.type === 'table' && block.tableData) {
+        return block.tableData.map(row => row.map(cell => cell.content).join(' | ')).join('\n')
+    }
+    if (block.children && block.children.length > 0) {
+        return [block.content, ...block.children.map(getBlockText)].join('\n')
+    }
+    return block.content
+}
+
+function withBlockAnchor(block: Block): Block {
+    if (!block.anchor || !ANCHORABLE_TYPES.includes(block.type)) return block
+    return { ...block, content: block.content ? `${block.content} ^${block.anchor}` : `^${block.anchor}` }
+}
+
+export function parseMarkdownToDocument(content: string, filePath: string): Document {
+    // Parse YAML frontmatter (arbitrary keys, lists and nested maps are kept as-is)
+    const { data, raw, body } = parseFrontmatter(content)
+    const now = new Date().toISOString()
+    const metaDefaults: Partial<DocumentMeta> = { id: crypto.randomUUID(), title: 'Untitled', created_at: now, updated_at: now }
+
+    // Parse content into blocks
+    const blocks = parseContentToBlocks(body)
+
+    return { meta: toDocumentMeta(data, metaDefaults), blocks, filePath, rawFrontmatter: raw, metaDefaults }
+}
+
+/**
+ * Document meta from frontmatter data: standard keys missing from it take the defaults, tags are
+ * normalized to a list
+ */
+function toDocumentMeta(data: Record<string, any>, defaults: Partial<DocumentMeta>): DocumentMeta {
+    const meta: DocumentMeta = {
+        ...data,
+        id: data.id ?? defaults.id,
+        title: data.title ?? defaults.title,
+        tags: normalizeTags(data.tags),
+        created_at: data.created_at ?? defaults.created_at,
+        updated_at: data.updated_at ?? defaults.updated_at
+    }
+    if (data.alwaysOn !== undefined) {
+        meta.alwaysOn = data.alwaysOn === true
+    }
+    return meta
+}
+
+// A block as it is being parsed, before it gets an id
+type NewBlock = Omit<Block, 'block_id'>
+
+// A parsed block with the Markdown lines it was read from
+interface SourcedBlock {
+    block: Block
+    markdown: string
+}
+
+/**
+ * Parse markdown content into blocks. Block boundaries come from a CommonMark/GFM syntax tree;
+ * constructs without a block type of their own become `raw` blocks, and blocks remember their
+ * source so a note that is opened and saved without edits is written back byte for byte.
+ */
+export function parseContentToBlocks(content: string): Block[] {
+    const parsed: SourcedBlock[] = []
+    collectBlocks(content.split('\n'), parsed)
+
+    const serializeBlock = createBlockSerializer()
+    return parsed.map(({ block, markdown }) => {
+        // Move trailing ` ^id` anchors out of the content
+        if (ANCHORABLE_TYPES.includes(block.type)) {
+            const { content: withoutAnchor, anchor } = extractBlockAnchor(block.content)
+            if (anchor) {
+                block.content = withoutAnchor
+                block.anchor = anchor
+            }
+        }
+        // Keep the original text wherever the block would not serialize back to it
+        const serialized = serializeBlock(block)
+        if (serialized !== markdown) block.source = { markdown, serialized }
+        return block
+    })
+}
+
+/**
+ * Turn markdown lines into blocks. Every line ends up in exactly one block, so joining the
+ * blocks' source lines with newlines gives back the input.
+ */
+function collectBlocks(lines: string[], out: SourcedBlock[]): void {
+    const text = lines.join('\n')
+    const tree = markdownProcessor.parse(text)
+    let next = 0 // First line not yet in a block
+
+    const startLine = (node: Nodes) => node.position!.start.line - 1
+    const endLine = (node: Nodes) => node.position!.end.line
+    const sourceOf = (node: Nodes) => text.slice(node.position!.start.offset, node.position!.end.offset)
+
+    const add = (block: NewBlock, from: number, to: number) => {
+        out.push({ block: { block_id: crypto.randomUUID(), ...block }, markdown: lines.slice(from, to).join('\n') })
+        next = to
+    }
+
+    const addRaw = (from: number, to: number) => {
+        add({ type: 'raw', content: lines.slice(from, to).join('\n') }, from, to)
+    }
+
+    // Lines between nodes are blank lines: one empty text block each
+    const addBlankLines = (to: number) => {
+        while (next < to) {
+            if (lines[next].trim() === '') {
+                add({ type: 'text', content: '', indent: 0 }, next, next + 1)
+            } else {
+                addRaw(next, next + 1)
+            }
+        }
+    }
+
+    // Paragraph lines, with standalone ![[...]] lines split off as embed blocks
+    const addParagraph = (from: number, to: number, indent: number) => {
+        let start = from
+        for (let i = from; i <= to; i++) {
+            const embed = i < to ? parseEmbedLine(lines[i], indent) : null
+            if (i < to && !embed) continue
+            if (start < i) {
+                const paragraphLines = lines.slice(start, i).map(line => indent > 0 ? line.trimStart() : line)
+                add({ type: 'text', content: paragraphLines.join('\n'), indent }, start, i)
+            }
+            if (embed) add(embed, i, i + 1)
+            start = i + 1
+        }
+    }
+
+    const addListItem = (item: ListItem, ordered: boolean, indent: number) => {
+        const from = startLine(item)
+        const marker = lines[from].match(LIST_MARKER_REGEX)?.[1]
+        const type: BlockType = typeof item.checked === 'boolean' ? 'todo' : ordered ? 'numbered' : 'bullet'
+        const [first, ...rest] = item.children
+
+        if (!first) {
+            add({ type, content: '', marker, indent }, from, endLine(item))
+            return
+        }
+        if (first.type !== 'paragraph') {
+            // e.g. a code fence or heading right after the marker
+            addRaw(from, endLine(item))
+            return
+        }
+
+        // Continuation lines are indented under the marker in the source but not in the block
+        const content = sourceOf(first).split('\n').map((line, i) => i === 0 ? line : line.trimStart()).join('\n')
+        const block: NewBlock = { type, content, marker, indent }
+        if (type === 'todo') block.checked = item.checked === true
+        add(block, from, endLine(first))
+
+        // Nested lists, code, quotes, ... become blocks one level deeper
+        for (const child of rest) {
+            addBlankLines(startLine(child))
+            addNode(child, indent + 1)
+        }
+    }
+
+    const addNode = (node: RootContent, indent: number) => {
+        const from = startLine(node)
+        const to = endLine(node)
+
+        switch (node.type) {
+            case 'heading': {
+                const { children } = node
+                const content = children.length > 0
+                    ? text.slice(children[0].position!.start.offset, children[children.length - 1].position!.end.offset)
+                    : ''
+                add({ type: `heading${node.depth}` as BlockType, content, indent }, from, to)
+                return
+            }
+            case 'paragraph':
+                addParagraph(from, to, indent)
+                return
+            case 'thematicBreak':
+                add({ type: 'divider', content: '', indent }, from, to)
+                return
+            case 'code': {
+                // Indented code has no block type and stays raw
+                if (!/^\s*(`{3,}|~{3,})/.test(lines[from])) break
+                if (node.lang === 'query' && !node.meta) {
+                    // ```query fences are query blocks (rendered as live results)
+                    add({ type: 'query', content: node.value, indent }, from, to)
+                } else {
+                    const language = [node.lang, node.meta].filter(Boolean).join(' ')
+                    add({ type: 'code', content: node.value, language: language || 'plaintext', indent }, from, to)
+                }
+                return
+            }
+            case 'blockquote': {
+                const quoteLines = lines.slice(from, to).map(line => line.replace(/^\s*> ?/, ''))
+                const header = quoteLines[0].trimEnd().match(CALLOUT_HEADER_REGEX)
+                if (header) {
+                    // Callout body is markdown of its own (lists, code, nested callouts, ...)
+                    const block: NewBlock = { type: 'callout', content: quoteLines.slice(1).join('\n'), calloutType: header[1], indent }
+                    if (header[2]) block.calloutFold = header[2] as '+' | '-'
+                    if (header[3]) block.calloutTitle = header[3]
+                    add(block, from, to)
+                    return
+                }
+                // Quotes holding lists, code or nested quotes stay raw
+                if (!node.children.every(child => child.type === 'paragraph')) break
+                add({ type: 'quote', content: quoteLines.join('\n'), indent }, from, to)
+                return
+            }
+            case 'list':
+                for (const item of node.children) {
+                    addBlankLines(startLine(item))
+                    addListItem(item, node.ordered === true, indent)
+                }
+                return
+            case 'table': {
+                const align = node.align ?? []
+                const colCount = node.children[0]?.children.length ?? 0
+                const tableData = node.children.map(row =>
+                    // Short rows are padded; cells past the header's count are not part of the table
+                    Array.from({ length: colCount }, (_, i): TableCell => {
+                        const cell = row.children[i]
+                        const content = cell ? getTableCellContent(sourceOf(cell)) : ''
+                        return align[i] ? { content, align: align[i]! } : { content }
+                    })
+                )
+                // Markdown tables always have a header row; an empty one stands for "no header"
+                if (tableData.length > 1 && tableData[0].every(cell => cell.content === '')) {
+                    add({ type: 'table', content: '', tableData: tableData.slice(1), tableHeader: false, indent }, from, to)
+                } else {
+                    add({ type: 'table', content: '', tableData, indent }, from, to)
+                }
+                return
+            }
+        }
+
+        // HTML, footnote and link reference definitions, indented code, ... are kept as written
+        addRaw(from, to)
+    }
+
+    for (const node of tree.children) {
+        const from = startLine(node)
+        addBlankLines(from)
+
+        if (lines[from].startsWith('>> ')) {
+            // Toggles are not CommonMark (they read as nested quotes), so take their lines
+            // here and parse whatever follows them again
+            let to = from + 1
+            for (let i = to; i < lines.length; i++) {
+                // Blank lines between indented lines belong to the children too
+                if (/^(\t| {2})/.test(lines[i])) to = i + 1
+                else if (lines[i].trim() !== '') break
+            }
+            add(parseToggle(lines.slice(from, to)), from, to)
+            collectBlocks(lines.slice(to), out)
+            return
+        }
+
+        addNode(node, 0)
+    }
+    addBlankLines(lines.length)
+}
+
+/**
+ * Block for an Obsidian-style ![[filename]] or ![[filename|alt]] line, if the line is one
+ */
+function parseEmbedLine(line: string, indent: number): NewBlock | null {
+    const match = line.trim().match(EMBED_LINE_REGEX)
+    if (!match) return null
+
+    const fileName = match[1]
+    switch (getEmbedBlockType(fileName)) {
+        case 'embed':
+            // Note / section / block transclusion (alias kept as part of the link)
+            return { type: 'embed', content: match[2] ? `${fileName}|${match[2]}` : fileName, indent }
+        case 'image':
+            return { type: 'image', content: fileName, alt: match[2] || '', indent }
+        case 'file':
+            // File block (PDF, etc.)
+            return { type: 'file', content: fileName, indent }
+    }
+}
+
+/**
+ * Toggle block from a `>> title` (or `>> [collapsed] title`) line and its indented child lines.
+ * The children are parsed as Markdown of their own, one indent level out.
+ */
+function parseToggle(lines: string[]): NewBlock {
+    const header = lines[0].slice(3)
+    const collapsedPrefix = '[collapsed] '
+    const collapsed = header.startsWith(collapsedPrefix)
+
+    // One level is a tab, or as many spaces as the first child line is indented by
+    const unit = lines[1]?.match(/^(\t| +)/)?.[1] ?? '\t'
+    const childLines = lines.slice(1).map(line => line.startsWith(unit) ? line.slice(unit.length) : line.trimStart())
+
+    return {
+        type: 'toggle',
+        content: collapsed ? header.slice(collapsedPrefix.length) : header,
+        collapsed,
+        children: childLines.length > 0 ? parseContentToBlocks(childLines.join('\n')) : []
+    }
+}
+
+// Table cell text from its source: without the delimiting pipes, and with `\|` unescaped
+function getTableCellContent(source: string): string {
+    return source.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').trim().replace(/\\\|/g, '|')
+}
+
+// Table cell text as written in a row: pipes escaped, line breaks as <br>
+function escapeTableCell(content: string): string {
+    return content.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * Serializer for the blocks of one document, in order. List items without a marker of their
+ * own continue the style and numbering of the previous item at the same indent.
+ */
+function createBlockSerializer(): (block: Block) => string {
+    let listMarkers: string[] = [] // Marker of the last list item at each indent
+
+    const getListMarker = (block: Block, indent: number): string => {
+        const previous = listMarkers[indent]
+        if (block.type === 'numbered') {
+            const own = block.marker?.match(NUMBERED_MARKER_REGEX)
+            const last = previous?.match(NUMBERED_MARKER_REGEX)
+            if (!last) return own ? own[0] : '1.'
+            // Keep an item's own number when it starts a new list (other delimiter) or continues
+            // this one, also when every item repeats the number (1. 1. 1.)
+            const lastNumber = Number(last[1])
+            if (own && (own[2] !== last[2] || Number(own[1]) === lastNumber + 1 || Number(own[1]) === lastNumber)) {
+                return own[0]
+            }
+            return `${lastNumber + 1}${own ? own[2] : last[2]}`
+        }
+        if (block.marker && BULLET_MARKER_REGEX.test(block.marker)) return block.marker
+        return previous && BULLET_MARKER_REGEX.test(previous) ? previous : '-'
+    }
+
+    return (original: Block) => {
+        const block = withBlockAnchor(original)
+        const indent = block.indent || 0
+        const indentTab = '\t'.repeat(indent)
+
+        let marker = ''
+        if (LIST_TYPES.includes(block.type)) {
+            listMarkers = listMarkers.slice(0, indent + 1)
+            marker = getListMarker(block, indent)
+            listMarkers[indent] = marker
+        } else if (block.type !== 'text' || block.content.trim() !== '') {
+            // Anything but a blank line ends the lists at its indent and deeper
+            listMarkers = listMarkers.slice(0, indent)
+        }
+
+        switch (block.type) {
+            case 'heading1':
+                return `${indentTab}# ${block.content}`
+            case 'heading2':
+                return `${indentTab}## ${block.content}`
+            case 'heading3':
+                return `${indentTab}### ${block.content}`
+            case 'heading4':
+                return `${indentTab}#### ${block.content}`
+            case 'heading5':
+                return `${indentTab}##### ${block.content}`
+            case 'heading6':
+                return `${indentTab}###### ${block.content}`
+            case 'bullet':
+            case 'numbered':
+                return `${indentTab}${marker} ${block.content}`
+            case 'todo':
+                return `${indentTab}${marker} [${block.checked ? 'x' : ' '}] ${block.content}`
+            case 'quote':
+                return block.content.split('\n').map(line => `${indentTab}> ${line}`).join('\n')
+            case 'divider':
+                return `${indentTab}---`
+            case 'code':
+            case 'query': {
+                // Code lines are indented along with the fence so nested code stays in its list item
+                const code = block.content.split('\n').map(line => line ? `${indentTab}${line}` : line).join('\n')
+                const info = block.type === 'query' ? 'query' : block.language || ''
+                return `${indentTab}\`\`\`${info}\n${code}\n${indentTab}\`\`\``
+            }
+            case 'image':
+                return block.alt ? `${indentTab}![[${block.content}|${block.alt}]]` : `${indentTab}![[${block.content}]]`
+            case 'embed':
+                return `${indentTab}![[${block.content}]]`
+            case 'file':
+                return `${indentTab}![[${block.content}]]`
+            case 'callout': {
+                const title = block.calloutTitle ? ` ${block.calloutTitle}` : ''
+                const header = `[!${block.calloutType || 'NOTE'}]${block.calloutFold ?? ''}${title}`
+                const calloutLines = block.content ? [header, ...block.content.split('\n')] : [header]
+                return calloutLines.map(line => line ? `${indentTab}> ${line}` : `${indentTab}>`).join('\n')
+            }
+            case 'toggle': {
+                const header = block.collapsed
+                    ? `${indentTab}>> [collapsed] ${block.content}`
+                    : `${indentTab}>> ${block.content}`
+                if (block.children && block.children.length > 0) {
+                    // Blank child lines keep their indent so they stay inside the toggle
+                    const childLines = serializeBlocks(block.children).split('\n').map(line => `${indentTab}\t${line}`)
+                    return [header, ...childLines].join('\n')
+                }
+                return header
+            }
+            case 'table': {
+                if (!block.tableData || block.tableData.length === 0) return ''
+                const tableData = block.tableData
+                const colCount = tableData[0].length
+                const formatRow = (cells: string[]) => `${indentTab}| ` + cells.join(' | ') + ' |'
+                const rows = tableData.map(row => formatRow(row.map(cell => escapeTableCell(cell.content || ''))))
+                const separator = formatRow(tableData[0].map(cell => cell.align ? TABLE_ALIGN_SEPARATORS[cell.align] : '---'))
+                // Without a header the table is written under an empty header row
+                if (block.tableHeader === false) return [formatRow(Array(colCount).fill('')), separator, ...rows].join('\n')
+                return [rows[0], separator, ...rows.slice(1)].join('\n')
+            }
+            case 'raw':
+                return block.content
+            default:
+                return block.content.split('\n').map(line => `${indentTab}${line}`).join('\n')
+        }
+    }
+}
+
+/**
+ * Serialize a document to markdown. `updated_at` is bumped unless `touch` is false
+ * (used when comparing or merging content rather than saving it).
+ */
+export function serializeDocumentToMarkdown(doc: Document, options: { touch?: boolean } = {}): string {
+    const { touch = true } = options
+
+    // Keys whose value is still what parsing gave them are written as the file has them, so
+    // defaults and normalized values (a scalar `tags: foo`) never end up in the YAML
+    const written = doc.rawFrontmatter == null ? {} : parseFrontmatterData(doc.rawFrontmatter)
+    const asParsed = toDocumentMeta(written, doc.metaDefaults ?? {})
+    const data: Record<string, any> = { ...doc.meta }
+    for (const key of Object.keys(asParsed)) {
+        if (isEqual(data[key], asParsed[key])) data[key] = written[key]
+    }
+    // Only notes that keep a modification time get it bumped
+    if (touch && data.updated_at !== undefined) data.updated_at = new Date().toISOString()
+
+    const body = serializeBlocks(doc.blocks)
+    if (doc.rawFrontmatter == null && Object.values(data).every(value => value === undefined)) return body
+
+    // Serialize frontmatter, editing the original YAML in place when there is one
+    return stringifyFrontmatter(data, doc.rawFrontmatter) + body
+}
+
+/**
+ * Serialize a run of blocks (a document body or a toggle's children), writing unchanged
+ * blocks back in their original formatting
+ */
+export function serializeBlocks(blocks: Block[]): string {
+    const serializeBlock = createBlockSerializer()
+    return blocks.map(block => {
+        const markdown = serializeBlock(block)
+        return block.source?.serialized === markdown ? block.source.markdown : markdown
+    }).join('\n')
+}
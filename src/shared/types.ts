@@ -4,6 +4,9 @@ export type BlockType =
     | 'heading1'
     | 'heading2'
     | 'heading3'
+    | 'heading4'
+    | 'heading5'
+    | 'heading6'
     | 'bullet'
     | 'numbered'
     | 'todo'
@@ -15,12 +18,19 @@ export type BlockType =
     | 'file'
     | 'toggle'
     | 'table'
+    | 'embed'   // ![[Note]], ![[Note#Heading]], ![[Note#^id]] (read-only transclusion)
+    | 'query'   // ```query fence: live list / table of notes matching a query
+    | 'raw'     // Markdown the editor has no block for (HTML, footnotes, ...), kept verbatim
 
 
 
+// Column alignment from a table's separator row (:---, :---:, ---:)
+export type TableAlign = 'left' | 'center' | 'right'
+
 // Table cell structure
 export interface TableCell {
     content: string
+    align?: TableAlign // Alignment of the cell's column (the same on every cell in it)
 }
 
 // A single block in the editor
@@ -32,9 +42,23 @@ export interface Block {
     language?: string // for code blocks
     alt?: string // for image blocks
     collapsed?: boolean // for toggle blocks
+    calloutType?: string // for callout blocks: the [!type] as written (note, warning, ...)
+    calloutTitle?: string // for callout blocks: custom title after [!type]
+    calloutFold?: '+' | '-' // for foldable callouts: expanded (+) or collapsed (-)
     children?: Block[]
     tableData?: TableCell[][] // for table blocks (rows x cols)
+    tableHeader?: boolean // for table blocks: false when the first row is not a header row
     indent?: number // Indentation level (0-based) for handling nested lists/blocks
+    anchor?: string // Stable id written as a trailing ` ^id`, target of [[Note#^id]] links
+    marker?: string // List marker as written ('*', '+', '3.', '1)') for bullet/numbered/todo blocks
+    source?: BlockSource // Original Markdown, written back while the block is unchanged
+}
+
+// Markdown a block was parsed from. `serialized` is what the block serialized to at parse
+// time, so the original text is only reused while serializing still gives the same result.
+export interface BlockSource {
+    markdown: string
+    serialized: string
 }
 
 // Document metadata from YAML frontmatter
@@ -48,11 +72,16 @@ export interface DocumentMeta {
     [key: string]: any  // Allow custom metadata fields
 }
 
+// Property types for custom frontmatter fields (inferred from the YAML value)
+export type PropertyType = 'text' | 'number' | 'date' | 'list' | 'checkbox' | 'link'
+
 // Full document structure
 export interface Document {
     meta: DocumentMeta
     blocks: Block[]
     filePath: string
+    rawFrontmatter?: string | null  // Original YAML source, edited in place on save
+    metaDefaults?: Partial<DocumentMeta>  // Values filled in for keys the file lacks; never written unless changed
 }
 
 // File tree node for vault sidebar
@@ -105,10 +134,117 @@ export interface VaultContext {
     }>
 }
 
+// Full-text search types
+export interface SearchSnippet {
+    blockIndex: number          // Index into Document.blocks (block IDs are assigned at parse time)
+    blockType: BlockType
+    text: string
+    highlights: Array<[number, number]>  // [start, end) ranges within text
+}
+
+export interface SearchResult {
+    path: string
+    title: string               // Filename without extension
+    frontmatterTitle?: string
+    tags: string[]
+    score: number
+    snippets: SearchSnippet[]
+}
+
+// Item moved to the vault's .trash folder
+export interface TrashEntry {
+    id: string
+    name: string
+    originalPath: string    // Relative to the vault root
+    trashedAt: string
+    isDirectory: boolean
+}
+
+// Saved version of a file (File history)
+export interface FileSnapshot {
+    id: string
+    timestamp: number
+    size: number
+}
+
+// File-system watcher events pushed from main to renderer
+export type VaultChangeType = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir' | 'rename'
+
+export interface VaultChangeEvent {
+    type: VaultChangeType
+    path: string
+    oldPath?: string        // Only for 'rename'
+    isDirectory?: boolean   // Only for 'rename'
+}
+
+// A file in the vault other than a note (image, PDF, ...)
+export interface AttachmentInfo {
+    path: string            // Absolute
+    size: number            // Bytes
+    modifiedAt: number      // ms since epoch
+}
+
+// Notes rendered for export (HTML pages or portable Markdown) and the attachments they use.
+// Paths are relative to the export root.
+export interface ExportBundle {
+    files: ExportFile[]
+    assets: ExportAsset[]
+}
+
+export interface ExportFile {
+    path: string
+    content: string
+}
+
+export interface ExportAsset {
+    source: string      // As written in the note (name, vault-relative or absolute path)
+    notePath: string    // Note that uses it, for names relative to its folder
+    path: string        // Where the copy goes
+}
+
+export interface ExportResult {
+    path: string        // Exported folder or file
+    missing: string[]   // Attachments that could not be found (sources)
+    skipped: string[]   // Attachments outside the vault, left out (sources)
+}
+
+// Files found in an import source (a folder, an unpacked zip or single HTML files)
+export interface ImportSource {
+    root: string
+    files: ImportSourceFile[]
+    isTemporary: boolean    // Unpacked into a temp folder, removed after the import
+}
+
+export interface ImportSourceFile {
+    path: string            // Relative to the root, with '/'
+    text?: string           // Content of notes, tables, pages and settings (.md, .csv, .html, .json, ...)
+}
+
+// A file written by an import: text, a copy of a source file, or decoded base64 data
+export interface ImportWrite {
+    path: string            // Absolute
+    content?: string
+    sourcePath?: string
+    base64?: string
+}
+
 // IPC channel types
 export type IpcChannels =
     | 'vault:select'
     | 'vault:read-tree'
+    | 'search:build-index'
+    | 'search:query'
+    | 'vault:watch'
+    | 'vault:unwatch'
+    | 'vault:changes'
+    | 'trash:move'
+    | 'trash:list'
+    | 'trash:restore'
+    | 'trash:empty'
+    | 'history:save'
+    | 'history:list'
+    | 'history:read'
+    | 'history:move'
     | 'file:read'
     | 'file:write'
     | 'file:create'
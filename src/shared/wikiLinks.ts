@@ -0,0 +1,120 @@
+import type { Block } from './types'
+
+// [[Note]], [[Note#Heading]], [[Note#^blockid]] and [[...|alias]] parsing,
+// plus resolving an anchor to blocks inside the target document
+
+export interface WikiLink {
+    target: string      // Note name (filename or title)
+    heading?: string    // [[Note#Heading]]
+    blockId?: string    // [[Note#^blockid]]
+    alias?: string      // [[Note|alias]]
+}
+
+// Trailing ` ^id` that marks a block as linkable
+export const BLOCK_ANCHOR_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)$/
+
+const HEADING_TYPES = ['heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6']
+
+/**
+ * Parse the inside of [[...]] (alias included)
+ */
+export function parseWikiLink(inner: string): WikiLink {
+    const pipeIndex = inner.indexOf('|')
+    const linkPart = pipeIndex === -1 ? inner : inner.slice(0, pipeIndex)
+    const alias = pipeIndex === -1 ? undefined : inner.slice(pipeIndex + 1).trim() || undefined
+
+    const hashIndex = linkPart.indexOf('#')
+    if (hashIndex === -1) return { target: linkPart.trim(), alias }
+
+    const target = linkPart.slice(0, hashIndex).trim()
+    const anchor = linkPart.slice(hashIndex + 1).trim()
+    if (anchor.startsWith('^')) return { target, blockId: anchor.slice(1), alias }
+    return { target, heading: anchor || undefined, alias }
+}
+
+/**
+ * The `#Heading` / `#^id` part of a link as written in the markdown, or undefined
+ */
+export function getWikiLinkAnchor(link: WikiLink): string | undefined {
+    if (link.blockId) return `^${link.blockId}`
+    if (link.heading) return link.heading
+    return undefined
+}
+
+/**
+ * Text shown for a link in preview mode
+ */
+export function getWikiLinkLabel(link: WikiLink): string {
+    if (link.alias) return link.alias
+    if (link.heading) return link.target ? `${link.target} › ${link.heading}` : link.heading
+    return link.target
+}
+
+/**
+ * Split a trailing ` ^id` off block content
+ */
+export function extractBlockAnchor(content: string): { content: string; anchor?: string } {
+    const match = content.match(BLOCK_ANCHOR_REGEX)
+    if (!match) return { content }
+    return { content: content.slice(0, match.index).trimEnd(), anchor: match[1] }
+}
+
+/**
+ * Short random id for a new block anchor
+ */
+export function generateBlockAnchor(): string {
+    return Math.random().toString(36).slice(2, 8)
+}
+
+function normalizeHeading(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function getHeadingLevel(block: Block): number {
+    return HEADING_TYPES.indexOf(block.type) + 1
+}
+
+/**
+ * Index of the block a link's anchor points to (-1 if not found, 0-based)
+ */
+export function findAnchorBlockIndex(blocks: Block[], link: Pick<WikiLink, 'heading' | 'blockId'>): number {
+    if (link.blockId) {
+        return blocks.findIndex(block => block.anchor === link.blockId)
+    }
+    if (link.heading) {
+        const heading = normalizeHeading(link.heading)
+        return blocks.findIndex(block =>
+            HEADING_TYPES.includes(block.type) && normalizeHeading(block.content) === heading
+        )
+    }
+    return -1
+}
+
+/**
+ * Blocks a link refers to: a heading and everything up to the next heading of the same or higher level,
+ * a single anchored block (with its more-indented children), or the whole document for plain links.
+ * Returns an empty array if the anchor does not exist.
+ */
+export function getAnchorSection(blocks: Block[], link: Pick<WikiLink, 'heading' | 'blockId'>): Block[] {
+    if (!link.heading && !link.blockId) return blocks
+
+    const start = findAnchorBlockIndex(blocks, link)
+    if (start === -1) return []
+
+    const startBlock = blocks[start]
+    let end = start + 1
+
+    if (link.heading) {
+        const level = getHeadingLevel(startBlock)
+        while (end < blocks.length) {
+            const blockLevel = getHeadingLevel(blocks[end])
+            if (blockLevel > 0 && blockLevel <= level) break
+            end++
+        }
+    } else {
+        const indent = startBlock.indent || 0
+        while (end < blocks.length && (blocks[end].indent || 0) > indent) end++
+    }
+
+    return blocks.slice(start, end)
+}